@@ -1,8 +1,10 @@
 import { dts } from 'bun-plugin-dtsx'
 
 await Bun.build({
-  entrypoints: ['src/index.ts'],
+  // The tile worker is loaded by URL next to the bundle, see decodeTilesInWorkers()
+  entrypoints: ['src/index.ts', 'src/av1/tile-worker.ts'],
   target: 'bun',
   outdir: './dist',
+  naming: '[name].[ext]',
   plugins: [dts()],
 })
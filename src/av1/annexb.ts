@@ -0,0 +1,108 @@
+import type { AV1OBU, TemporalUnit } from '../types'
+import { OBUType } from '../types'
+import { concatBytes, OBUReader, readLeb128, withTemporalDelimiter, writeLeb128, writeOBU } from './obu'
+
+/**
+ * Parse an Annex B bitstream: temporal units made of length-prefixed frame
+ * units, themselves made of length-prefixed OBUs (AV1 spec Annex B)
+ */
+export function readAnnexB(data: Uint8Array): TemporalUnit[] {
+  const units: TemporalUnit[] = []
+  let offset = 0
+
+  while (offset < data.length) {
+    const temporalUnitEnd = readLength(data, offset, data.length, 'temporal_unit_size')
+    offset = temporalUnitEnd.start
+
+    const obus: AV1OBU[] = []
+    while (offset < temporalUnitEnd.end) {
+      const frameUnitEnd = readLength(data, offset, temporalUnitEnd.end, 'frame_unit_size')
+      offset = frameUnitEnd.start
+
+      while (offset < frameUnitEnd.end) {
+        const obuEnd = readLength(data, offset, frameUnitEnd.end, 'obu_length')
+        const obu = new OBUReader().pushFramed(data.subarray(obuEnd.start, obuEnd.end))
+        obus.push({ ...obu, offset: obuEnd.start })
+        offset = obuEnd.end
+      }
+    }
+
+    units.push({ obus })
+  }
+
+  return units
+}
+
+/**
+ * Write temporal units as an Annex B bitstream. OBUs are written without
+ * size fields, since obu_length already gives their size.
+ */
+export function writeAnnexB(units: TemporalUnit[]): Uint8Array {
+  return concatBytes(units.map((unit) => {
+    const frameUnits = splitFrameUnits(withTemporalDelimiter(unit.obus)).map((frameUnit) => {
+      return withLength(concatBytes(frameUnit.map(obu => withLength(writeOBU(obu, false)))))
+    })
+    return withLength(concatBytes(frameUnits))
+  }))
+}
+
+/**
+ * Whether data parses as an Annex B bitstream: every size nests exactly and
+ * each temporal unit starts with a temporal delimiter
+ */
+export function isAnnexB(data: Uint8Array): boolean {
+  try {
+    const units = readAnnexB(data)
+    return units.length > 0 && units.every(unit => unit.obus[0]?.type === OBUType.TEMPORAL_DELIMITER)
+  }
+  catch {
+    return false
+  }
+}
+
+/**
+ * Split the OBUs of a temporal unit into frame units: each frame header
+ * with its tile groups, preceded by any sequence headers and metadata
+ */
+function splitFrameUnits(obus: AV1OBU[]): AV1OBU[][] {
+  const frameUnits: AV1OBU[][] = [[]]
+  let hasFrame = false
+
+  for (const obu of obus) {
+    const continuesFrame = obu.type === OBUType.TILE_GROUP
+      || obu.type === OBUType.REDUNDANT_FRAME_HEADER
+      || obu.type === OBUType.PADDING
+    if (hasFrame && !continuesFrame) {
+      frameUnits.push([])
+      hasFrame = false
+    }
+
+    frameUnits[frameUnits.length - 1].push(obu)
+    hasFrame ||= obu.type === OBUType.FRAME || obu.type === OBUType.FRAME_HEADER
+  }
+
+  return frameUnits
+}
+
+/**
+ * Read a leb128 length at `offset` and check that the data it covers ends
+ * within `limit`
+ */
+function readLength(data: Uint8Array, offset: number, limit: number, name: string): { start: number, end: number } {
+  const length = readLeb128(data.subarray(0, limit), offset)
+  if (!length) {
+    throw new Error(`Truncated ${name} at byte ${offset}`)
+  }
+
+  const start = offset + length.bytes
+  const end = start + length.value
+  if (end > limit) {
+    throw new Error(`Invalid ${name} at byte ${offset}: ${length.value} bytes do not fit in the ${limit - start} remaining`)
+  }
+
+  return { start, end }
+}
+
+function withLength(bytes: Uint8Array): Uint8Array {
+  return concatBytes([writeLeb128(bytes.length), bytes])
+}
@@ -0,0 +1,167 @@
+/**
+ * MSB-first bit reader for AV1 header syntax. Reading past the end of the
+ * data throws.
+ */
+export class BitReader {
+  private data: Uint8Array
+  private pos: number = 0
+  private bitPos: number = 0
+
+  constructor(data: Uint8Array) {
+    this.data = data
+  }
+
+  /** Current position in bits from the start of the data */
+  get position(): number {
+    return this.pos * 8 + this.bitPos
+  }
+
+  /** Current position in whole bytes (only meaningful when byte aligned) */
+  get bytePosition(): number {
+    return this.pos
+  }
+
+  /** Bits left before the end of the data */
+  get remaining(): number {
+    return this.data.length * 8 - this.position
+  }
+
+  /** Whether the position is on a byte boundary */
+  get isByteAligned(): boolean {
+    return this.bitPos === 0
+  }
+
+  /**
+   * f(1): a single bit
+   */
+  readBit(): number {
+    if (this.pos >= this.data.length) {
+      throw new Error(`Read past the end of data: ${this.data.length} bytes`)
+    }
+
+    const bit = (this.data[this.pos] >> (7 - this.bitPos)) & 1
+    this.bitPos++
+
+    if (this.bitPos === 8) {
+      this.bitPos = 0
+      this.pos++
+    }
+
+    return bit
+  }
+
+  /**
+   * f(n): n-bit unsigned integer, most significant bit first
+   */
+  readBits(count: number): number {
+    if (count > this.remaining) {
+      throw new Error(`Read past the end of data: ${count} bits requested at bit ${this.position} of ${this.data.length * 8}`)
+    }
+
+    let value = 0
+
+    // Multiply instead of shifting so 32-bit fields (time_scale etc.)
+    // don't wrap negative
+    for (let i = 0; i < count; i++) {
+      value = value * 2 + this.readBit()
+    }
+
+    return value
+  }
+
+  /**
+   * su(n): n-bit two's complement signed integer
+   */
+  readSu(count: number): number {
+    const value = this.readBits(count)
+    const signMask = 2 ** (count - 1)
+    return value >= signMask ? value - 2 * signMask : value
+  }
+
+  /**
+   * ns(n): non-symmetric unsigned value in the range [0, n)
+   */
+  readNs(n: number): number {
+    let w = 0
+    for (let x = n; x !== 0; x >>= 1) {
+      w++
+    }
+
+    const m = (1 << w) - n
+    const v = this.readBits(w - 1)
+    if (v < m) {
+      return v
+    }
+
+    return (v << 1) - m + this.readBit()
+  }
+
+  /**
+   * uvlc(): unsigned variable length code
+   */
+  readUvlc(): number {
+    let leadingZeros = 0
+
+    while (this.readBit() === 0) {
+      leadingZeros++
+    }
+
+    // The value bits are not coded past 32 zeros
+    if (leadingZeros >= 32) {
+      return 0xFFFFFFFF
+    }
+
+    const value = this.readBits(leadingZeros)
+    return value + 2 ** leadingZeros - 1
+  }
+
+  /**
+   * le(n): n-byte little-endian unsigned integer
+   */
+  readLe(bytes: number): number {
+    let value = 0
+    for (let i = 0; i < bytes; i++) {
+      value += this.readBits(8) * 2 ** (8 * i)
+    }
+    return value
+  }
+
+  /**
+   * leb128(): little-endian base 128 value of up to 8 bytes
+   */
+  readLeb128(): number {
+    let value = 0
+    for (let i = 0; i < 8; i++) {
+      const byte = this.readBits(8)
+      value += (byte & 0x7F) * 2 ** (i * 7)
+      if (!(byte & 0x80)) {
+        return value
+      }
+    }
+    throw new Error('leb128 value longer than 8 bytes')
+  }
+
+  /**
+   * byte_alignment(): skip to the next byte boundary
+   */
+  byteAlign(): void {
+    if (this.bitPos !== 0) {
+      this.bitPos = 0
+      this.pos++
+    }
+  }
+
+  /**
+   * trailing_bits(): a one bit, then zero bits up to the next byte boundary
+   */
+  readTrailingBits(): void {
+    if (this.readBit() !== 1) {
+      throw new Error(`Invalid trailing bits at bit ${this.position - 1}: expected a one bit`)
+    }
+    while (this.bitPos !== 0) {
+      if (this.readBit() !== 0) {
+        throw new Error(`Invalid trailing bits at bit ${this.position - 1}: expected zero padding`)
+      }
+    }
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * MSB-first bit writer for AV1 header syntax, the counterpart of
+ * `BitReader`. Values that do not fit their descriptor throw.
+ */
+export class BitWriter {
+  /** Output buffer, grown by doubling; bytes past `length` are zero */
+  private bytes: Uint8Array = new Uint8Array(64)
+  /** Number of bytes started, including a partial last byte */
+  private length: number = 0
+  private bitPos: number = 0
+
+  /** Number of bits written so far */
+  get position(): number {
+    return this.bitPos === 0 ? this.length * 8 : (this.length - 1) * 8 + this.bitPos
+  }
+
+  /** Whether the position is on a byte boundary */
+  get isByteAligned(): boolean {
+    return this.bitPos === 0
+  }
+
+  /**
+   * f(1): a single bit
+   */
+  writeBit(bit: number | boolean): void {
+    if (this.bitPos === 0) {
+      this.reserve(1)
+      this.length++
+    }
+    if (bit) {
+      this.bytes[this.length - 1] |= 0x80 >> this.bitPos
+    }
+    this.bitPos = (this.bitPos + 1) & 7
+  }
+
+  /**
+   * f(n): n-bit unsigned integer, most significant bit first
+   */
+  writeBits(value: number, count: number): void {
+    if (!Number.isInteger(value) || value < 0 || value >= 2 ** count) {
+      throw new Error(`Value ${value} does not fit in ${count} bits`)
+    }
+
+    // Divide instead of shifting so 32-bit fields don't wrap
+    for (let i = count - 1; i >= 0; i--) {
+      this.writeBit(Math.floor(value / 2 ** i) & 1)
+    }
+  }
+
+  /**
+   * su(n): n-bit two's complement signed integer
+   */
+  writeSu(value: number, count: number): void {
+    const signMask = 2 ** (count - 1)
+    if (!Number.isInteger(value) || value < -signMask || value >= signMask) {
+      throw new Error(`Value ${value} does not fit in su(${count})`)
+    }
+    this.writeBits(value < 0 ? value + 2 * signMask : value, count)
+  }
+
+  /**
+   * ns(n): non-symmetric unsigned value in the range [0, n)
+   */
+  writeNs(value: number, n: number): void {
+    if (!Number.isInteger(value) || value < 0 || value >= n) {
+      throw new Error(`Value ${value} is out of range for ns(${n})`)
+    }
+
+    let w = 0
+    for (let x = n; x !== 0; x >>= 1) {
+      w++
+    }
+
+    const m = (1 << w) - n
+    if (value < m) {
+      this.writeBits(value, w - 1)
+      return
+    }
+
+    const extra = value + m
+    this.writeBits(extra >> 1, w - 1)
+    this.writeBit(extra & 1)
+  }
+
+  /**
+   * uvlc(): unsigned variable length code
+   */
+  writeUvlc(value: number): void {
+    if (!Number.isInteger(value) || value < 0 || value >= 0xFFFFFFFF) {
+      throw new Error(`Value ${value} is out of range for uvlc()`)
+    }
+
+    const leadingZeros = Math.floor(Math.log2(value + 1))
+    for (let i = 0; i < leadingZeros; i++) {
+      this.writeBit(0)
+    }
+    this.writeBit(1)
+    this.writeBits(value + 1 - 2 ** leadingZeros, leadingZeros)
+  }
+
+  /**
+   * le(n): n-byte little-endian unsigned integer
+   */
+  writeLe(value: number, bytes: number): void {
+    if (!Number.isInteger(value) || value < 0 || value >= 2 ** (8 * bytes)) {
+      throw new Error(`Value ${value} does not fit in le(${bytes})`)
+    }
+    for (let i = 0; i < bytes; i++) {
+      this.writeBits(Math.floor(value / 2 ** (8 * i)) % 256, 8)
+    }
+  }
+
+  /**
+   * leb128(): little-endian base 128 value, padded to `length` bytes when
+   * given (at most 8)
+   */
+  writeLeb128(value: number, length?: number): void {
+    if (!Number.isInteger(value) || value < 0 || value >= 2 ** 56) {
+      throw new Error(`Value ${value} is out of range for leb128()`)
+    }
+
+    let minLength = 1
+    while (value >= 2 ** (7 * minLength)) {
+      minLength++
+    }
+    const byteCount = length ?? minLength
+    if (byteCount < minLength || byteCount > 8) {
+      throw new Error(`Value ${value} does not fit in a ${byteCount}-byte leb128`)
+    }
+
+    for (let i = 0; i < byteCount; i++) {
+      const more = i < byteCount - 1 ? 0x80 : 0
+      this.writeBits((Math.floor(value / 2 ** (7 * i)) & 0x7F) | more, 8)
+    }
+  }
+
+  /**
+   * Whole bytes, e.g. a tile payload; copied in one step when the position
+   * is byte aligned
+   */
+  writeBytes(data: Uint8Array): void {
+    if (this.bitPos !== 0) {
+      for (const byte of data) {
+        this.writeBits(byte, 8)
+      }
+      return
+    }
+
+    this.reserve(data.length)
+    this.bytes.set(data, this.length)
+    this.length += data.length
+  }
+
+  /**
+   * byte_alignment(): zero bits up to the next byte boundary
+   */
+  byteAlign(): void {
+    while (this.bitPos !== 0) {
+      this.writeBit(0)
+    }
+  }
+
+  /**
+   * trailing_bits(): a one bit, then zero bits up to the next byte boundary
+   */
+  writeTrailingBits(): void {
+    this.writeBit(1)
+    this.byteAlign()
+  }
+
+  /**
+   * The bytes written so far; a partial last byte is zero padded
+   */
+  toUint8Array(): Uint8Array {
+    return this.bytes.slice(0, this.length)
+  }
+
+  /**
+   * Grow the buffer to fit `count` more bytes
+   */
+  private reserve(count: number): void {
+    if (this.length + count <= this.bytes.length) {
+      return
+    }
+
+    let capacity = this.bytes.length * 2
+    while (capacity < this.length + count) {
+      capacity *= 2
+    }
+    const bytes = new Uint8Array(capacity)
+    bytes.set(this.bytes.subarray(0, this.length))
+    this.bytes = bytes
+  }
+}
@@ -0,0 +1,61 @@
+import type { BitstreamFormat, IvfHeader, TemporalUnit } from '../types'
+import { isAnnexB, readAnnexB, writeAnnexB } from './annexb'
+import { isIVF, readIVF, writeIVF } from './ivf'
+import { readSection5, writeSection5 } from './obu'
+
+/**
+ * Detect the framing of a raw AV1 bitstream. Annex B is recognized by its
+ * sizes nesting exactly; anything else is taken as a low-overhead stream.
+ */
+export function detectBitstreamFormat(data: Uint8Array): BitstreamFormat {
+  if (isIVF(data)) {
+    return 'ivf'
+  }
+  return isAnnexB(data) ? 'annexb' : 'section5'
+}
+
+/**
+ * Read the temporal units of a raw AV1 bitstream in any framing, detected
+ * unless `format` is given. IVF streams also return their header.
+ */
+export function readBitstream(data: Uint8Array, format: BitstreamFormat = detectBitstreamFormat(data)): {
+  format: BitstreamFormat
+  temporalUnits: TemporalUnit[]
+  ivfHeader?: IvfHeader
+} {
+  switch (format) {
+    case 'ivf': {
+      const { header, temporalUnits } = readIVF(data)
+      return { format, temporalUnits, ivfHeader: header }
+    }
+    case 'annexb':
+      return { format, temporalUnits: readAnnexB(data) }
+    case 'section5':
+      return { format, temporalUnits: readSection5(data) }
+  }
+}
+
+/**
+ * Write temporal units in the given framing. `ivfHeader` overrides the
+ * defaults of `writeIVF()`.
+ */
+export function writeBitstream(units: TemporalUnit[], format: BitstreamFormat, ivfHeader: Partial<IvfHeader> = {}): Uint8Array {
+  switch (format) {
+    case 'ivf':
+      return writeIVF(units, ivfHeader)
+    case 'annexb':
+      return writeAnnexB(units)
+    case 'section5':
+      return writeSection5(units)
+  }
+}
+
+/**
+ * Convert a raw AV1 bitstream to another framing, detecting the input
+ * framing unless `from` is given. IVF frame timestamps and header fields
+ * carry over to IVF output.
+ */
+export function convertBitstream(data: Uint8Array, to: BitstreamFormat, from?: BitstreamFormat): Uint8Array {
+  const { temporalUnits, ivfHeader } = readBitstream(data, from)
+  return writeBitstream(temporalUnits, to, ivfHeader)
+}
@@ -0,0 +1,215 @@
+import type { FrameState } from './frame-state'
+
+/** Cdef_Uv_Dir[subX][subY][yDir]: chroma direction for subsampled planes */
+const CDEF_UV_DIR = [
+  [[0, 1, 2, 3, 4, 5, 6, 7], [1, 2, 2, 2, 3, 4, 6, 0]],
+  [[7, 0, 2, 4, 5, 6, 6, 6], [0, 1, 2, 3, 4, 5, 6, 7]],
+]
+
+/** Cdef_Directions[dir][k]: (row, col) offset of the k-th tap along each direction */
+const CDEF_DIRECTIONS = [
+  [[-1, 1], [-2, 2]],
+  [[0, 1], [-1, 2]],
+  [[0, 1], [0, 2]],
+  [[0, 1], [1, 2]],
+  [[1, 1], [2, 2]],
+  [[1, 0], [2, 1]],
+  [[1, 0], [2, 0]],
+  [[1, 0], [2, -1]],
+]
+
+const CDEF_PRI_TAPS = [[4, 2], [3, 3]]
+const CDEF_SEC_TAPS = [2, 1]
+
+/** Div_Table[n] = 840 / n */
+const DIV_TABLE = [0, 840, 420, 280, 210, 168, 140, 120, 105]
+
+// Scratch for the direction search
+const partial = Array.from({ length: 8 }, () => new Int32Array(15))
+const cost = new Float64Array(8)
+
+/**
+ * CDEF process (AV1 spec section 7.15). Filters every non-skipped 8x8 block
+ * of the deblocked planes and returns the filtered planes; the input planes
+ * are left untouched because loop restoration still reads them. Returns
+ * `frame.planes` itself when the frame does not use CDEF.
+ */
+export function applyCdef(frame: FrameState): Uint16Array[] {
+  const { frameHeader, seqHeader } = frame
+  if (!seqHeader.enableCdef || frameHeader.codedLossless || frameHeader.allowIntrabc)
+    return frame.planes
+
+  const output = frame.planes.map(plane => plane.slice())
+  const { miRows, miCols, skips } = frame
+  for (let fbr = 0; fbr < miRows; fbr += 16) {
+    for (let fbc = 0; fbc < miCols; fbc += 16) {
+      const idx = frame.cdefIdx[(fbr >> 4) * frame.cdefStride + (fbc >> 4)]
+      if (idx === -1)
+        continue
+      for (let r = fbr; r < Math.min(fbr + 16, miRows); r += 2) {
+        for (let c = fbc; c < Math.min(fbc + 16, miCols); c += 2) {
+          const mi = r * miCols + c
+          const skip = skips[mi] && skips[mi + 1] && skips[mi + miCols] && skips[mi + miCols + 1]
+          if (!skip)
+            cdefBlock(frame, output, r, c, idx)
+        }
+      }
+    }
+  }
+  return output
+}
+
+/**
+ * CDEF block process for the 8x8 luma block at mode info position (r, c)
+ */
+function cdefBlock(frame: FrameState, output: Uint16Array[], r: number, c: number, idx: number): void {
+  const { cdef } = frame.frameHeader
+  const { bitDepth, numPlanes, subsamplingX, subsamplingY } = frame.seqHeader.colorConfig
+  const coeffShift = bitDepth - 8
+  const [yDir, variance] = cdefDirection(frame, r, c)
+
+  let priStr = cdef.yPriStrength[idx] << coeffShift
+  let secStr = cdef.ySecStrength[idx] << coeffShift
+  let dir = priStr === 0 ? 0 : yDir
+  const varStr = (variance >> 6) ? Math.min(31 - Math.clz32(variance >> 6), 12) : 0
+  priStr = variance ? (priStr * (4 + varStr) + 8) >> 4 : 0
+  let damping = cdef.damping + coeffShift
+  cdefFilter(frame, output, 0, r, c, priStr, secStr, damping, dir)
+
+  if (numPlanes === 1)
+    return
+  priStr = cdef.uvPriStrength[idx] << coeffShift
+  secStr = cdef.uvSecStrength[idx] << coeffShift
+  dir = priStr === 0 ? 0 : CDEF_UV_DIR[subsamplingX][subsamplingY][yDir]
+  damping = cdef.damping + coeffShift - 1
+  cdefFilter(frame, output, 1, r, c, priStr, secStr, damping, dir)
+  cdefFilter(frame, output, 2, r, c, priStr, secStr, damping, dir)
+}
+
+/**
+ * CDEF direction process: the dominant edge direction of an 8x8 luma block
+ * and the variance along it
+ */
+function cdefDirection(frame: FrameState, r: number, c: number): [number, number] {
+  const samples = frame.planes[0]
+  const stride = frame.strides[0]
+  const shift = frame.seqHeader.colorConfig.bitDepth - 8
+  const x0 = c * 4
+  const y0 = r * 4
+
+  for (let i = 0; i < 8; i++) {
+    partial[i].fill(0)
+    cost[i] = 0
+  }
+  for (let i = 0; i < 8; i++) {
+    for (let j = 0; j < 8; j++) {
+      const x = (samples[(y0 + i) * stride + x0 + j] >> shift) - 128
+      partial[0][i + j] += x
+      partial[1][i + (j >> 1)] += x
+      partial[2][i] += x
+      partial[3][3 + i - (j >> 1)] += x
+      partial[4][7 + i - j] += x
+      partial[5][3 - (i >> 1) + j] += x
+      partial[6][j] += x
+      partial[7][(i >> 1) + j] += x
+    }
+  }
+
+  for (let i = 0; i < 8; i++) {
+    cost[2] += partial[2][i] * partial[2][i]
+    cost[6] += partial[6][i] * partial[6][i]
+  }
+  cost[2] *= DIV_TABLE[8]
+  cost[6] *= DIV_TABLE[8]
+  for (let i = 0; i < 7; i++) {
+    cost[0] += (partial[0][i] * partial[0][i] + partial[0][14 - i] * partial[0][14 - i]) * DIV_TABLE[i + 1]
+    cost[4] += (partial[4][i] * partial[4][i] + partial[4][14 - i] * partial[4][14 - i]) * DIV_TABLE[i + 1]
+  }
+  cost[0] += partial[0][7] * partial[0][7] * DIV_TABLE[8]
+  cost[4] += partial[4][7] * partial[4][7] * DIV_TABLE[8]
+  for (let i = 1; i < 8; i += 2) {
+    for (let j = 0; j < 5; j++)
+      cost[i] += partial[i][3 + j] * partial[i][3 + j]
+    cost[i] *= DIV_TABLE[8]
+    for (let j = 0; j < 3; j++)
+      cost[i] += (partial[i][j] * partial[i][j] + partial[i][10 - j] * partial[i][10 - j]) * DIV_TABLE[2 * j + 2]
+  }
+
+  let bestCost = 0
+  let yDir = 0
+  for (let i = 0; i < 8; i++) {
+    if (cost[i] > bestCost) {
+      bestCost = cost[i]
+      yDir = i
+    }
+  }
+  return [yDir, Math.floor((bestCost - cost[(yDir + 4) & 7]) / 1024)]
+}
+
+function constrain(diff: number, threshold: number, damping: number): number {
+  if (!threshold)
+    return 0
+  const dampingAdj = Math.max(0, damping - (31 - Math.clz32(threshold)))
+  const val = Math.min(Math.abs(diff), Math.max(0, threshold - (Math.abs(diff) >> dampingAdj)))
+  return diff < 0 ? -val : val
+}
+
+/**
+ * CDEF filter process for one plane of an 8x8 block. Taps outside the frame
+ * are skipped.
+ */
+function cdefFilter(
+  frame: FrameState,
+  output: Uint16Array[],
+  plane: number,
+  r: number,
+  c: number,
+  priStr: number,
+  secStr: number,
+  damping: number,
+  dir: number,
+): void {
+  const { bitDepth, subsamplingX, subsamplingY } = frame.seqHeader.colorConfig
+  const subX = plane > 0 ? subsamplingX : 0
+  const subY = plane > 0 ? subsamplingY : 0
+  const input = frame.planes[plane]
+  const dst = output[plane]
+  const stride = frame.strides[plane]
+  const x0 = (c * 4) >> subX
+  const y0 = (r * 4) >> subY
+  const w = 8 >> subX
+  const h = 8 >> subY
+  // Samples are available up to the edge of the mode info grid
+  const planeW = (frame.miCols * 4) >> subX
+  const planeH = (frame.miRows * 4) >> subY
+  const priTaps = CDEF_PRI_TAPS[(priStr >> (bitDepth - 8)) & 1]
+
+  for (let i = 0; i < h; i++) {
+    for (let j = 0; j < w; j++) {
+      const x = input[(y0 + i) * stride + x0 + j]
+      let sum = 0
+      let max = x
+      let min = x
+      for (let k = 0; k < 2; k++) {
+        for (let sign = -1; sign <= 1; sign += 2) {
+          for (let d = 0; d < 3; d++) {
+            // d = 0 is the primary tap, 1 and 2 the secondary taps at +-45 degrees
+            const tapDir = d === 0 ? dir : (dir + (d === 1 ? -2 : 2)) & 7
+            const y = y0 + i + sign * CDEF_DIRECTIONS[tapDir][k][0]
+            const xx = x0 + j + sign * CDEF_DIRECTIONS[tapDir][k][1]
+            if (y < 0 || y >= planeH || xx < 0 || xx >= planeW)
+              continue
+            const p = input[y * stride + xx]
+            sum += d === 0
+              ? priTaps[k] * constrain(p - x, priStr, damping)
+              : CDEF_SEC_TAPS[k] * constrain(p - x, secStr, damping)
+            max = Math.max(p, max)
+            min = Math.min(p, min)
+          }
+        }
+      }
+      const v = x + ((8 + sum - (sum < 0 ? 1 : 0)) >> 4)
+      dst[(y0 + i) * stride + x0 + j] = Math.max(min, Math.min(max, v))
+    }
+  }
+}
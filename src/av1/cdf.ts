@@ -0,0 +1,307 @@
+import {
+  DEFAULT_ANGLE_DELTA_CDF,
+  DEFAULT_CFL_ALPHA_CDF,
+  DEFAULT_CFL_SIGN_CDF,
+  DEFAULT_COEFF_BASE_CDF,
+  DEFAULT_COEFF_BASE_EOB_CDF,
+  DEFAULT_COEFF_BR_CDF,
+  DEFAULT_DC_SIGN_CDF,
+  DEFAULT_DELTA_LF_CDF,
+  DEFAULT_DELTA_LF_MULTI_CDF,
+  DEFAULT_DELTA_Q_CDF,
+  DEFAULT_EOB_EXTRA_CDF,
+  DEFAULT_EOB_PT_16_CDF,
+  DEFAULT_EOB_PT_32_CDF,
+  DEFAULT_EOB_PT_64_CDF,
+  DEFAULT_EOB_PT_128_CDF,
+  DEFAULT_EOB_PT_256_CDF,
+  DEFAULT_EOB_PT_512_CDF,
+  DEFAULT_EOB_PT_1024_CDF,
+  DEFAULT_FILTER_INTRA_CDF,
+  DEFAULT_FILTER_INTRA_MODE_CDF,
+  DEFAULT_INTER_TX_TYPE_SET1_CDF,
+  DEFAULT_INTER_TX_TYPE_SET2_CDF,
+  DEFAULT_INTER_TX_TYPE_SET3_CDF,
+  DEFAULT_INTRA_FRAME_Y_MODE_CDF,
+  DEFAULT_INTRA_TX_TYPE_SET1_CDF,
+  DEFAULT_INTRA_TX_TYPE_SET2_CDF,
+  DEFAULT_INTRABC_CDF,
+  DEFAULT_MV_BIT_CDF,
+  DEFAULT_MV_CLASS0_BIT_CDF,
+  DEFAULT_MV_CLASS0_FR_CDF,
+  DEFAULT_MV_CLASS0_HP_CDF,
+  DEFAULT_MV_CLASS_CDF,
+  DEFAULT_MV_FR_CDF,
+  DEFAULT_MV_HP_CDF,
+  DEFAULT_MV_JOINT_CDF,
+  DEFAULT_MV_SIGN_CDF,
+  DEFAULT_PALETTE_UV_COLOR_CDF,
+  DEFAULT_PALETTE_UV_MODE_CDF,
+  DEFAULT_PALETTE_UV_SIZE_CDF,
+  DEFAULT_PALETTE_Y_COLOR_CDF,
+  DEFAULT_PALETTE_Y_MODE_CDF,
+  DEFAULT_PALETTE_Y_SIZE_CDF,
+  DEFAULT_PARTITION_W8_CDF,
+  DEFAULT_PARTITION_W16_CDF,
+  DEFAULT_PARTITION_W32_CDF,
+  DEFAULT_PARTITION_W64_CDF,
+  DEFAULT_PARTITION_W128_CDF,
+  DEFAULT_RESTORATION_TYPE_CDF,
+  DEFAULT_SEGMENT_ID_CDF,
+  DEFAULT_SKIP_CDF,
+  DEFAULT_TX_8X8_CDF,
+  DEFAULT_TX_16X16_CDF,
+  DEFAULT_TX_32X32_CDF,
+  DEFAULT_TX_64X64_CDF,
+  DEFAULT_TXB_SKIP_CDF,
+  DEFAULT_TXFM_SPLIT_CDF,
+  DEFAULT_USE_SGRPROJ_CDF,
+  DEFAULT_USE_WIENER_CDF,
+  DEFAULT_UV_MODE_CFL_ALLOWED_CDF,
+  DEFAULT_UV_MODE_CFL_NOT_ALLOWED_CDF,
+} from './cdf-tables'
+
+/**
+ * A single adaptive CDF: N cumulative probabilities ending in 32768,
+ * followed by the adaptation counter
+ */
+export type Cdf = Uint16Array
+
+/** Nested arrays of CDFs, matching the dimensions of the default tables */
+export type CdfArray = Cdf | CdfArray[]
+
+/**
+ * CDFs for one motion vector component (intra block copy only)
+ */
+export interface MvComponentCdfs {
+  sign: Cdf
+  classes: Cdf
+  class0Bit: Cdf
+  class0Fr: Cdf[]
+  class0Hp: Cdf
+  bits: Cdf[]
+  fr: Cdf
+  hp: Cdf
+}
+
+/**
+ * The complete set of CDFs a tile decoder adapts while decoding an intra frame
+ */
+export interface CdfContext {
+  intraFrameYMode: Cdf[][]
+  uvModeCflNotAllowed: Cdf[]
+  uvModeCflAllowed: Cdf[]
+  angleDelta: Cdf[]
+  intrabc: Cdf
+  partitionW8: Cdf[]
+  partitionW16: Cdf[]
+  partitionW32: Cdf[]
+  partitionW64: Cdf[]
+  partitionW128: Cdf[]
+  tx8x8: Cdf[]
+  tx16x16: Cdf[]
+  tx32x32: Cdf[]
+  tx64x64: Cdf[]
+  txfmSplit: Cdf[]
+  segmentId: Cdf[]
+  skip: Cdf[]
+  deltaQ: Cdf
+  deltaLf: Cdf
+  deltaLfMulti: Cdf[]
+  intraTxTypeSet1: Cdf[][]
+  intraTxTypeSet2: Cdf[][]
+  interTxTypeSet1: Cdf[]
+  interTxTypeSet2: Cdf[]
+  interTxTypeSet3: Cdf[]
+  cflSign: Cdf
+  cflAlpha: Cdf[]
+  filterIntraMode: Cdf
+  filterIntra: Cdf[]
+  paletteYSize: Cdf[]
+  paletteUVSize: Cdf[]
+  paletteYMode: Cdf[][]
+  paletteUVMode: Cdf[]
+  paletteYColor: Cdf[][]
+  paletteUVColor: Cdf[][]
+  useWiener: Cdf
+  useSgrproj: Cdf
+  restorationType: Cdf
+  mvJoint: Cdf
+  mvComponents: [MvComponentCdfs, MvComponentCdfs]
+
+  // Coefficient CDFs, already selected for the frame's quantizer context
+  txbSkip: Cdf[][]
+  eobExtra: Cdf[][][]
+  dcSign: Cdf[][]
+  coeffBr: Cdf[][][]
+  coeffBase: Cdf[][][]
+  coeffBaseEob: Cdf[][][]
+  eobPt16: Cdf[][]
+  eobPt32: Cdf[][]
+  eobPt64: Cdf[][]
+  eobPt128: Cdf[][]
+  eobPt256: Cdf[][]
+  eobPt512: Cdf[][]
+  eobPt1024: Cdf[][]
+}
+
+type TableValue = number[] | TableValue[]
+
+/**
+ * Expand a default table into adaptive CDFs with the trailing 32768 and a
+ * zero counter
+ */
+function expand(table: number[]): Cdf
+function expand(table: number[][]): Cdf[]
+function expand(table: number[][][]): Cdf[][]
+function expand(table: number[][][][]): Cdf[][][]
+function expand(table: TableValue): CdfArray {
+  if (typeof table[0] === 'number' || table.length === 0) {
+    const values = table as number[]
+    const cdf = new Uint16Array(values.length + 2)
+    cdf.set(values)
+    cdf[values.length] = 32768
+    return cdf
+  }
+
+  return (table as TableValue[]).map(entry => expand(entry as number[]))
+}
+
+function createMvComponentCdfs(): MvComponentCdfs {
+  return {
+    sign: expand(DEFAULT_MV_SIGN_CDF),
+    classes: expand(DEFAULT_MV_CLASS_CDF),
+    class0Bit: expand(DEFAULT_MV_CLASS0_BIT_CDF),
+    class0Fr: expand(DEFAULT_MV_CLASS0_FR_CDF),
+    class0Hp: expand(DEFAULT_MV_CLASS0_HP_CDF),
+    bits: expand(DEFAULT_MV_BIT_CDF),
+    fr: expand(DEFAULT_MV_FR_CDF),
+    hp: expand(DEFAULT_MV_HP_CDF),
+  }
+}
+
+/**
+ * Adapt a CDF towards a coded symbol and count the symbol (the CDF update of
+ * read_symbol, shared by the symbol decoder and encoder)
+ */
+export function adaptCdf(cdf: Cdf, symbol: number): void {
+  const n = cdf.length - 1
+  const count = cdf[n]
+  const rate = 3 + (count > 15 ? 1 : 0) + (count > 31 ? 1 : 0) + Math.min(31 - Math.clz32(n), 2)
+  let tmp = 0
+  for (let i = 0; i < n - 1; i++) {
+    if (i === symbol)
+      tmp = 1 << 15
+    if (tmp < cdf[i])
+      cdf[i] -= (cdf[i] - tmp) >> rate
+    else
+      cdf[i] += (tmp - cdf[i]) >> rate
+  }
+  if (count < 32)
+    cdf[n] = count + 1
+}
+
+/**
+ * Quantizer context used to select the default coefficient CDFs
+ */
+export function getCoefficientCdfQContext(baseQIdx: number): number {
+  if (baseQIdx <= 20)
+    return 0
+  if (baseQIdx <= 60)
+    return 1
+  if (baseQIdx <= 120)
+    return 2
+  return 3
+}
+
+/**
+ * Create a CDF context holding the default CDFs, with the coefficient CDFs
+ * chosen for base_q_idx (init_non_coeff_cdfs + init_coeff_cdfs)
+ */
+export function createCdfContext(baseQIdx: number): CdfContext {
+  const q = getCoefficientCdfQContext(baseQIdx)
+
+  return {
+    intraFrameYMode: expand(DEFAULT_INTRA_FRAME_Y_MODE_CDF),
+    uvModeCflNotAllowed: expand(DEFAULT_UV_MODE_CFL_NOT_ALLOWED_CDF),
+    uvModeCflAllowed: expand(DEFAULT_UV_MODE_CFL_ALLOWED_CDF),
+    angleDelta: expand(DEFAULT_ANGLE_DELTA_CDF),
+    intrabc: expand(DEFAULT_INTRABC_CDF),
+    partitionW8: expand(DEFAULT_PARTITION_W8_CDF),
+    partitionW16: expand(DEFAULT_PARTITION_W16_CDF),
+    partitionW32: expand(DEFAULT_PARTITION_W32_CDF),
+    partitionW64: expand(DEFAULT_PARTITION_W64_CDF),
+    partitionW128: expand(DEFAULT_PARTITION_W128_CDF),
+    tx8x8: expand(DEFAULT_TX_8X8_CDF),
+    tx16x16: expand(DEFAULT_TX_16X16_CDF),
+    tx32x32: expand(DEFAULT_TX_32X32_CDF),
+    tx64x64: expand(DEFAULT_TX_64X64_CDF),
+    txfmSplit: expand(DEFAULT_TXFM_SPLIT_CDF),
+    segmentId: expand(DEFAULT_SEGMENT_ID_CDF),
+    skip: expand(DEFAULT_SKIP_CDF),
+    deltaQ: expand(DEFAULT_DELTA_Q_CDF),
+    deltaLf: expand(DEFAULT_DELTA_LF_CDF),
+    deltaLfMulti: expand(DEFAULT_DELTA_LF_MULTI_CDF),
+    intraTxTypeSet1: expand(DEFAULT_INTRA_TX_TYPE_SET1_CDF),
+    intraTxTypeSet2: expand(DEFAULT_INTRA_TX_TYPE_SET2_CDF),
+    interTxTypeSet1: expand(DEFAULT_INTER_TX_TYPE_SET1_CDF),
+    interTxTypeSet2: expand(DEFAULT_INTER_TX_TYPE_SET2_CDF),
+    interTxTypeSet3: expand(DEFAULT_INTER_TX_TYPE_SET3_CDF),
+    cflSign: expand(DEFAULT_CFL_SIGN_CDF),
+    cflAlpha: expand(DEFAULT_CFL_ALPHA_CDF),
+    filterIntraMode: expand(DEFAULT_FILTER_INTRA_MODE_CDF),
+    filterIntra: expand(DEFAULT_FILTER_INTRA_CDF),
+    paletteYSize: expand(DEFAULT_PALETTE_Y_SIZE_CDF),
+    paletteUVSize: expand(DEFAULT_PALETTE_UV_SIZE_CDF),
+    paletteYMode: expand(DEFAULT_PALETTE_Y_MODE_CDF),
+    paletteUVMode: expand(DEFAULT_PALETTE_UV_MODE_CDF),
+    paletteYColor: expand(DEFAULT_PALETTE_Y_COLOR_CDF),
+    paletteUVColor: expand(DEFAULT_PALETTE_UV_COLOR_CDF),
+    useWiener: expand(DEFAULT_USE_WIENER_CDF),
+    useSgrproj: expand(DEFAULT_USE_SGRPROJ_CDF),
+    restorationType: expand(DEFAULT_RESTORATION_TYPE_CDF),
+    mvJoint: expand(DEFAULT_MV_JOINT_CDF),
+    mvComponents: [createMvComponentCdfs(), createMvComponentCdfs()],
+
+    txbSkip: expand(DEFAULT_TXB_SKIP_CDF[q]),
+    eobExtra: expand(DEFAULT_EOB_EXTRA_CDF[q]),
+    dcSign: expand(DEFAULT_DC_SIGN_CDF[q]),
+    coeffBr: expand(DEFAULT_COEFF_BR_CDF[q]),
+    coeffBase: expand(DEFAULT_COEFF_BASE_CDF[q]),
+    coeffBaseEob: expand(DEFAULT_COEFF_BASE_EOB_CDF[q]),
+    eobPt16: expand(DEFAULT_EOB_PT_16_CDF[q]),
+    eobPt32: expand(DEFAULT_EOB_PT_32_CDF[q]),
+    eobPt64: expand(DEFAULT_EOB_PT_64_CDF[q]),
+    eobPt128: expand(DEFAULT_EOB_PT_128_CDF[q]),
+    eobPt256: expand(DEFAULT_EOB_PT_256_CDF[q]),
+    eobPt512: expand(DEFAULT_EOB_PT_512_CDF[q]),
+    eobPt1024: expand(DEFAULT_EOB_PT_1024_CDF[q]),
+  }
+}
+
+function copyCdfValue<T>(value: T): T {
+  if (value instanceof Uint16Array) {
+    const copy = value.slice()
+    // The symbol counter restarts from zero whenever CDFs are loaded or saved
+    copy[copy.length - 1] = 0
+    return copy as T
+  }
+
+  if (Array.isArray(value))
+    return value.map(entry => copyCdfValue(entry)) as T
+
+  const copy = {} as Record<string, unknown>
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>))
+    copy[key] = copyCdfValue(entry)
+  return copy as T
+}
+
+/**
+ * Deep copy of a CDF context with all adaptation counters reset.
+ *
+ * Used to load the frame CDFs at the start of every tile, and to save the
+ * adapted CDFs of the tile selected by context_update_tile_id.
+ */
+export function copyCdfContext(context: CdfContext): CdfContext {
+  return copyCdfValue(context)
+}
@@ -1,272 +1,581 @@
-import type { AvifImageData } from '../types'
-import { OBUType } from '../types'
-import { parseOBUs } from './obu'
+import { yuvToRgba } from '../color'
+import type { AV1OBU, AvifDecodeOptions, AvifImageData, AvifYuvImageData, ColorConfig, ColorDescription, FrameHeader, OperatingPoint, SequenceHeader } from '../types'
+import { FrameType, OBUType } from '../types'
+import type { FrameState } from './frame-state'
+import { BitReader } from './bit-reader'
+import { applyCdef } from './cdef'
+import { applyFilmGrain } from './film-grain'
+import { readFrameHeader } from './frame-header'
+import { createFrameState } from './frame-state'
+import { applyLoopFilter } from './loop-filter'
+import { applyLoopRestoration } from './loop-restoration'
+import { inOperatingPoint, parseOBUs } from './obu'
+import { upscaledStrides, upscalePlanes } from './superres'
+import type { TileData } from './tile-group'
+import { decodeTile, decodeTilesInWorkers, readTileGroup } from './tile-group'
+
+const SELECT_SCREEN_CONTENT_TOOLS = 2
+const SELECT_INTEGER_MV = 2
+
+// CICP values referenced by color_config()
+const CP_BT_709 = 1
+const CP_UNSPECIFIED = 2
+const TC_UNSPECIFIED = 2
+const TC_SRGB = 13
+const MC_IDENTITY = 0
+const MC_UNSPECIFIED = 2
+const CSP_UNKNOWN = 0
 
 /**
- * Sequence header information
+ * Decode AV1 bitstream to image data
+ * This is a simplified implementation for still images. `color` carries the
+ * CICP values of the container's colr box, which take precedence over the
+ * sequence header's.
  */
-interface SequenceHeader {
-  seqProfile: number
-  stillPicture: boolean
-  reducedStillPictureHeader: boolean
-  maxFrameWidth: number
-  maxFrameHeight: number
-  bitDepth: number
-  monochrome: boolean
-  colorSpace: number
-  subX: number
-  subY: number
-  matrixCoefficients: number
-  colorRange: boolean
+export function decodeAV1(data: Uint8Array, options: AvifDecodeOptions = {}, color?: ColorDescription): AvifImageData {
+  const image = decodeAV1YUV(data, options, color)
+
+  return {
+    data: yuvToRgba(image, options),
+    width: image.width,
+    height: image.height,
+    hasAlpha: false, // AV1 doesn't have native alpha
+    bitDepth: image.bitDepth,
+    filmGrain: image.filmGrain,
+  }
 }
 
 /**
- * Decode AV1 bitstream to image data
- * This is a simplified implementation for still images
+ * Decode AV1 bitstream to image data, spreading the tiles of the frame over
+ * `options.workers` tile workers
  */
-export function decodeAV1(data: Uint8Array): AvifImageData {
-  // Parse OBUs
+export async function decodeAV1Async(data: Uint8Array, options: AvifDecodeOptions = {}, color?: ColorDescription): Promise<AvifImageData> {
+  const image = await decodeAV1YUVAsync(data, options, color)
+
+  return {
+    data: yuvToRgba(image, options),
+    width: image.width,
+    height: image.height,
+    hasAlpha: false,
+    bitDepth: image.bitDepth,
+    filmGrain: image.filmGrain,
+  }
+}
+
+/**
+ * Decode AV1 bitstream to its reconstructed YUV planes, with film grain
+ * applied unless `options.applyGrain` is false. `options.operatingPoint` and
+ * `options.layer` select the layers of a scalable stream.
+ */
+export function decodeAV1YUV(
+  data: Uint8Array,
+  options: Pick<AvifDecodeOptions, 'applyGrain' | 'operatingPoint' | 'layer'> = {},
+  color?: ColorDescription,
+): AvifYuvImageData {
+  const { seqHeader, frameHeader, tiles } = readCodedFrame(data, options)
+
+  const frame = createFrameState(seqHeader, frameHeader)
+  for (const tile of tiles) {
+    decodeTile(frame, tile)
+  }
+
+  return finishFrame(frame, options, color)
+}
+
+/**
+ * Asynchronous `decodeAV1YUV()`: frames with more than one tile are decoded
+ * on a pool of `options.workers` workers (one per CPU core by default).
+ * Single-tile frames, or `workers: 1`, decode on the calling thread.
+ */
+export async function decodeAV1YUVAsync(
+  data: Uint8Array,
+  options: Pick<AvifDecodeOptions, 'applyGrain' | 'workers' | 'operatingPoint' | 'layer'> = {},
+  color?: ColorDescription,
+): Promise<AvifYuvImageData> {
+  const { seqHeader, frameHeader, tiles } = readCodedFrame(data, options)
+  const workerCount = Math.min(options.workers ?? navigator.hardwareConcurrency ?? 1, tiles.length)
+
+  const frame = createFrameState(seqHeader, frameHeader, workerCount > 1)
+  if (workerCount > 1) {
+    await decodeTilesInWorkers(frame, tiles, workerCount)
+  }
+  else {
+    for (const tile of tiles) {
+      decodeTile(frame, tile)
+    }
+  }
+
+  return finishFrame(frame, options, color)
+}
+
+/**
+ * List the spatial layers of the operating point of an AV1 bitstream that
+ * can be output, i.e. that have an intra-coded frame, in increasing order.
+ * Single-layer streams have layer 0 only.
+ */
+export function listSpatialLayers(data: Uint8Array, operatingPoint = 0): number[] {
   const obus = parseOBUs(data)
+  const seqHeaderOBU = obus.find(obu => obu.type === OBUType.SEQUENCE_HEADER)
+  if (!seqHeaderOBU) {
+    throw new Error('No sequence header found')
+  }
+
+  const seqHeader = parseSequenceHeader(seqHeaderOBU.data)
+  const op = selectOperatingPoint(seqHeader, operatingPoint)
+
+  const layers = new Set<number>()
+  for (const obu of obus) {
+    if ((obu.type === OBUType.FRAME || obu.type === OBUType.FRAME_HEADER) && inOperatingPoint(obu, op.idc)
+      && isIntraFrame(obu, seqHeader)) {
+      layers.add(obu.spatialId)
+    }
+  }
+
+  return [...layers].sort((a, b) => a - b)
+}
+
+/**
+ * The headers and tiles of the output frame in an AV1 bitstream
+ */
+interface CodedFrame {
+  seqHeader: SequenceHeader
+  frameHeader: FrameHeader
+  tiles: TileData[]
+}
+
+/**
+ * Parse the sequence header and the frame to output from a bitstream and
+ * collect its tiles, either from a FRAME OBU (plus any further tile groups)
+ * or from a FRAME_HEADER OBU followed by TILE_GROUP OBUs. Only the OBUs of
+ * the selected operating point are considered, and the output frame is the
+ * first intra-coded one in the highest spatial layer up to `options.layer`:
+ * layers that predict from lower ones (like the progressive layers of
+ * libavif above the first) fall back to the layer below.
+ */
+function readCodedFrame(data: Uint8Array, options: Pick<AvifDecodeOptions, 'operatingPoint' | 'layer'> = {}): CodedFrame {
+  // Parse OBUs
+  const allOBUs = parseOBUs(data)
 
   // Find sequence header
-  const seqHeaderOBU = obus.find(obu => obu.type === OBUType.SEQUENCE_HEADER)
+  const seqHeaderOBU = allOBUs.find(obu => obu.type === OBUType.SEQUENCE_HEADER)
   if (!seqHeaderOBU) {
     throw new Error('No sequence header found')
   }
 
   const seqHeader = parseSequenceHeader(seqHeaderOBU.data)
 
-  // Find frame OBU
-  const frameOBU = obus.find(obu => obu.type === OBUType.FRAME)
-  if (!frameOBU) {
-    throw new Error('No frame data found')
+  // Drop the OBUs of layers outside the operating point
+  const { operatingPoint = 0, layer } = options
+  const op = selectOperatingPoint(seqHeader, operatingPoint)
+  const obus = allOBUs.filter(obu => inOperatingPoint(obu, op.idc))
+
+  // Find the frame to output (a FRAME OBU, or a FRAME_HEADER followed by tile groups)
+  const frameOBUs = obus.filter(obu => (obu.type === OBUType.FRAME || obu.type === OBUType.FRAME_HEADER)
+    && (layer === undefined || obu.spatialId <= layer))
+  if (frameOBUs.length === 0) {
+    throw new Error(layer === undefined ? 'No frame data found' : `No frame data found in layers up to ${layer}`)
   }
 
-  // Decode frame
-  const pixels = decodeFrame(frameOBU.data, seqHeader)
+  const intraOBUs = frameOBUs.filter(obu => isIntraFrame(obu, seqHeader))
+  if (intraOBUs.length === 0) {
+    throw new Error('Inter frames are not supported')
+  }
+
+  const spatialId = Math.max(...intraOBUs.map(obu => obu.spatialId))
+  const frameOBU = intraOBUs.find(obu => obu.spatialId === spatialId)!
+  const frameIndex = obus.indexOf(frameOBU)
+  const reader = new BitReader(frameOBU.data)
+  const frameHeader = readFrameHeader(reader, seqHeader, {
+    temporalId: frameOBU.temporalId,
+    spatialId: frameOBU.spatialId,
+  })
+  const numTiles = frameHeader.tileInfo.tileCols * frameHeader.tileInfo.tileRows
+
+  // Tile groups must cover the tiles of the frame in order
+  const tiles: TileData[] = []
+  const addTileGroup = (group: TileData[]): void => {
+    if (group[0].tileNum !== tiles.length) {
+      throw new Error(`Tile group starts at tile ${group[0].tileNum}, expected ${tiles.length}`)
+    }
+    tiles.push(...group)
+  }
+
+  if (frameOBU.type === OBUType.FRAME) {
+    reader.byteAlign()
+    addTileGroup(readTileGroup(frameOBU.data, reader.bytePosition, frameHeader))
+  }
+  for (const obu of obus.slice(frameIndex + 1)) {
+    if (tiles.length === numTiles) {
+      break
+    }
+    if (obu.type === OBUType.TILE_GROUP && obu.spatialId === spatialId) {
+      addTileGroup(readTileGroup(obu.data, 0, frameHeader))
+    }
+  }
+
+  if (tiles.length < numTiles) {
+    throw new Error(tiles.length === 0 ? 'No tile group found' : `Missing tiles: found ${tiles.length} of ${numTiles}`)
+  }
+
+  return { seqHeader, frameHeader, tiles }
+}
+
+/**
+ * The frame_type at the start of the uncompressed header of a FRAME or
+ * FRAME_HEADER OBU, without parsing the rest. Undefined for
+ * show_existing_frame headers and OBUs too short to hold it.
+ */
+export function peekFrameType(obu: AV1OBU, seqHeader: SequenceHeader): FrameType | undefined {
+  if (seqHeader.reducedStillPictureHeader) {
+    return FrameType.KEY_FRAME
+  }
+  if (obu.data.length === 0) {
+    return undefined
+  }
+
+  const reader = new BitReader(obu.data)
+  if (reader.readBit() === 1) {
+    return undefined
+  }
+  return reader.readBits(2)
+}
+
+/**
+ * Whether a FRAME or FRAME_HEADER OBU codes a key or intra-only frame.
+ * show_existing_frame headers need the reference frames, so they do not
+ * count.
+ */
+function isIntraFrame(obu: AV1OBU, seqHeader: SequenceHeader): boolean {
+  const frameType = peekFrameType(obu, seqHeader)
+  return frameType === FrameType.KEY_FRAME || frameType === FrameType.INTRA_ONLY_FRAME
+}
+
+/**
+ * choose_operating_point(): look up an operating point of the sequence header
+ */
+function selectOperatingPoint(seqHeader: SequenceHeader, index: number): OperatingPoint {
+  const op = seqHeader.operatingPoints[index]
+  if (!op) {
+    throw new Error(`Operating point ${index} not found (the sequence header has ${seqHeader.operatingPoints.length})`)
+  }
+  return op
+}
+
+/**
+ * Post-filter a frame whose tiles have all been decoded, then apply film
+ * grain unless `options.applyGrain` is false
+ */
+function finishFrame(frame: FrameState, options: Pick<AvifDecodeOptions, 'applyGrain'>, color?: ColorDescription): AvifYuvImageData {
+  postFilterFrame(frame)
+
+  const { filmGrain } = frame.frameHeader
+  if (filmGrain.applyGrain && options.applyGrain !== false) {
+    frame.planes = applyFilmGrain(frame, filmGrain)
+  }
 
   return {
-    data: pixels,
-    width: seqHeader.maxFrameWidth,
-    height: seqHeader.maxFrameHeight,
-    hasAlpha: false, // AV1 doesn't have native alpha
-    bitDepth: seqHeader.bitDepth as 8 | 10 | 12,
+    ...frameToYuvImage(frame, color),
+    filmGrain: filmGrain.applyGrain ? filmGrain : undefined,
   }
 }
 
-function parseSequenceHeader(data: Uint8Array): SequenceHeader {
-  const reader = new BitReader(data)
+/**
+ * Parse a sequence_header_obu payload (AV1 spec section 5.5)
+ */
+export function parseSequenceHeader(data: Uint8Array): SequenceHeader {
+  return readSequenceHeader(new BitReader(data))
+}
 
+/**
+ * Read a sequence_header_obu from `reader`, leaving it positioned directly
+ * after the header (before its trailing bits)
+ */
+export function readSequenceHeader(reader: BitReader): SequenceHeader {
   const seqProfile = reader.readBits(3)
+  if (seqProfile > 2) {
+    throw new Error(`Unsupported AV1 seq_profile: ${seqProfile}`)
+  }
+
   const stillPicture = reader.readBit() === 1
   const reducedStillPictureHeader = reader.readBit() === 1
 
-  let maxFrameWidth = 0
-  let maxFrameHeight = 0
-  let bitDepth = 8
+  let timingInfo: SequenceHeader['timingInfo']
+  let decoderModelInfo: SequenceHeader['decoderModelInfo']
+  let initialDisplayDelayPresent = false
+  const operatingPoints: OperatingPoint[] = []
 
   if (reducedStillPictureHeader) {
-    // Simplified header
-    const seqLevelIdx = reader.readBits(5)
-    const frameWidthBits = reader.readBits(4) + 1
-    const frameHeightBits = reader.readBits(4) + 1
-    maxFrameWidth = reader.readBits(frameWidthBits) + 1
-    maxFrameHeight = reader.readBits(frameHeightBits) + 1
+    operatingPoints.push({
+      idc: 0,
+      seqLevelIdx: reader.readBits(5),
+      seqTier: 0,
+    })
   }
   else {
-    // Full sequence header parsing
-    const timingInfoPresentFlag = reader.readBit()
+    const timingInfoPresentFlag = reader.readBit() === 1
 
     if (timingInfoPresentFlag) {
-      // Skip timing info
-      reader.readBits(32) // num_units_in_display_tick
-      reader.readBits(32) // time_scale
-      const equalPictureInterval = reader.readBit()
+      const numUnitsInDisplayTick = reader.readBits(32)
+      const timeScale = reader.readBits(32)
+      const equalPictureInterval = reader.readBit() === 1
+      timingInfo = { numUnitsInDisplayTick, timeScale, equalPictureInterval }
       if (equalPictureInterval) {
-        readUvlc(reader) // num_ticks_per_picture_minus_1
+        timingInfo.numTicksPerPicture = reader.readUvlc() + 1
       }
-    }
 
-    const decoderModelInfoPresentFlag = reader.readBit()
-    if (decoderModelInfoPresentFlag) {
-      // Skip decoder model info
-      reader.readBits(5) // buffer_delay_length_minus_1
-      reader.readBits(32) // num_units_in_decoding_tick
-      reader.readBits(5) // buffer_removal_time_length_minus_1
-      reader.readBits(5) // frame_presentation_time_length_minus_1
+      if (reader.readBit()) {
+        decoderModelInfo = {
+          bufferDelayLength: reader.readBits(5) + 1,
+          numUnitsInDecodingTick: reader.readBits(32),
+          bufferRemovalTimeLength: reader.readBits(5) + 1,
+          framePresentationTimeLength: reader.readBits(5) + 1,
+        }
+      }
     }
 
-    const initialDisplayDelayPresentFlag = reader.readBit()
+    initialDisplayDelayPresent = reader.readBit() === 1
     const operatingPointsCntMinus1 = reader.readBits(5)
 
     for (let i = 0; i <= operatingPointsCntMinus1; i++) {
-      reader.readBits(12) // operating_point_idc
+      const idc = reader.readBits(12)
       const seqLevelIdx = reader.readBits(5)
-
-      if (seqLevelIdx > 7) {
-        reader.readBit() // seq_tier
-      }
-
-      if (decoderModelInfoPresentFlag) {
-        const decoderModelPresentForThisOp = reader.readBit()
-        if (decoderModelPresentForThisOp) {
-          // Skip operating parameters info
-          reader.readBits(5) // decoder_buffer_delay
-          reader.readBits(5) // encoder_buffer_delay
-          reader.readBit() // low_delay_mode_flag
+      const seqTier = seqLevelIdx > 7 ? reader.readBit() : 0
+      const op: OperatingPoint = { idc, seqLevelIdx, seqTier }
+
+      if (decoderModelInfo && reader.readBit()) {
+        const n = decoderModelInfo.bufferDelayLength
+        op.decoderModel = {
+          decoderBufferDelay: reader.readBits(n),
+          encoderBufferDelay: reader.readBits(n),
+          lowDelayMode: reader.readBit() === 1,
         }
       }
 
-      if (initialDisplayDelayPresentFlag) {
-        const initialDisplayDelayPresentForThisOp = reader.readBit()
-        if (initialDisplayDelayPresentForThisOp) {
-          reader.readBits(4) // initial_display_delay_minus_1
-        }
+      if (initialDisplayDelayPresent && reader.readBit()) {
+        op.initialDisplayDelay = reader.readBits(4) + 1
       }
+
+      operatingPoints.push(op)
     }
+  }
+
+  const frameWidthBits = reader.readBits(4) + 1
+  const frameHeightBits = reader.readBits(4) + 1
+  const maxFrameWidth = reader.readBits(frameWidthBits) + 1
+  const maxFrameHeight = reader.readBits(frameHeightBits) + 1
 
-    const frameWidthBitsMinus1 = reader.readBits(4)
-    const frameHeightBitsMinus1 = reader.readBits(4)
-    maxFrameWidth = reader.readBits(frameWidthBitsMinus1 + 1) + 1
-    maxFrameHeight = reader.readBits(frameHeightBitsMinus1 + 1) + 1
+  let frameIdNumbersPresent = false
+  let deltaFrameIdLength = 0
+  let additionalFrameIdLength = 0
+
+  if (!reducedStillPictureHeader && reader.readBit()) {
+    frameIdNumbersPresent = true
+    deltaFrameIdLength = reader.readBits(4) + 2
+    additionalFrameIdLength = reader.readBits(3) + 1
   }
 
-  // Color config
-  const highBitdepth = false
-  const twelveBit = false
-  const monochrome = false
-  const colorSpace = 0
-  const subX = 1
-  const subY = 1
-  const matrixCoefficients = 0
-  const colorRange = false
+  const use128x128Superblock = reader.readBit() === 1
+  const enableFilterIntra = reader.readBit() === 1
+  const enableIntraEdgeFilter = reader.readBit() === 1
+
+  let enableInterintraCompound = false
+  let enableMaskedCompound = false
+  let enableWarpedMotion = false
+  let enableDualFilter = false
+  let enableOrderHint = false
+  let enableJntComp = false
+  let enableRefFrameMvs = false
+  let seqForceScreenContentTools = SELECT_SCREEN_CONTENT_TOOLS
+  let seqForceIntegerMv = SELECT_INTEGER_MV
+  let orderHintBits = 0
 
   if (!reducedStillPictureHeader) {
-    // Parse remaining sequence header for color info
-    const frameIdNumbersPresentFlag = reader.readBit()
-    if (frameIdNumbersPresentFlag) {
-      reader.readBits(4) // delta_frame_id_length_minus_2
-      reader.readBits(3) // additional_frame_id_length_minus_1
+    enableInterintraCompound = reader.readBit() === 1
+    enableMaskedCompound = reader.readBit() === 1
+    enableWarpedMotion = reader.readBit() === 1
+    enableDualFilter = reader.readBit() === 1
+    enableOrderHint = reader.readBit() === 1
+
+    if (enableOrderHint) {
+      enableJntComp = reader.readBit() === 1
+      enableRefFrameMvs = reader.readBit() === 1
     }
 
-    reader.readBit() // use_128x128_superblock
-    reader.readBit() // enable_filter_intra
-    reader.readBit() // enable_intra_edge_filter
+    const seqChooseScreenContentTools = reader.readBit() === 1
+    seqForceScreenContentTools = seqChooseScreenContentTools
+      ? SELECT_SCREEN_CONTENT_TOOLS
+      : reader.readBit()
 
-    // ... more parsing would go here for a complete implementation
-  }
+    if (seqForceScreenContentTools > 0) {
+      const seqChooseIntegerMv = reader.readBit() === 1
+      seqForceIntegerMv = seqChooseIntegerMv ? SELECT_INTEGER_MV : reader.readBit()
+    }
 
-  // Determine bit depth
-  if (seqProfile === 2 && highBitdepth) {
-    bitDepth = twelveBit ? 12 : 10
-  }
-  else if (seqProfile >= 2) {
-    bitDepth = 10
-  }
-  else {
-    bitDepth = highBitdepth ? 10 : 8
+    if (enableOrderHint) {
+      orderHintBits = reader.readBits(3) + 1
+    }
   }
 
+  const enableSuperres = reader.readBit() === 1
+  const enableCdef = reader.readBit() === 1
+  const enableRestoration = reader.readBit() === 1
+  const colorConfig = parseColorConfig(reader, seqProfile)
+  const filmGrainParamsPresent = reader.readBit() === 1
+
   return {
     seqProfile,
     stillPicture,
     reducedStillPictureHeader,
+    timingInfo,
+    decoderModelInfo,
+    initialDisplayDelayPresent,
+    operatingPoints,
+    frameWidthBits,
+    frameHeightBits,
     maxFrameWidth,
     maxFrameHeight,
-    bitDepth,
-    monochrome,
-    colorSpace,
-    subX,
-    subY,
-    matrixCoefficients,
-    colorRange,
+    frameIdNumbersPresent,
+    deltaFrameIdLength,
+    additionalFrameIdLength,
+    use128x128Superblock,
+    enableFilterIntra,
+    enableIntraEdgeFilter,
+    enableInterintraCompound,
+    enableMaskedCompound,
+    enableWarpedMotion,
+    enableDualFilter,
+    enableOrderHint,
+    enableJntComp,
+    enableRefFrameMvs,
+    seqForceScreenContentTools,
+    seqForceIntegerMv,
+    orderHintBits,
+    enableSuperres,
+    enableCdef,
+    enableRestoration,
+    colorConfig,
+    filmGrainParamsPresent,
   }
 }
 
-function decodeFrame(data: Uint8Array, seqHeader: SequenceHeader): Uint8Array {
-  const { maxFrameWidth: width, maxFrameHeight: height } = seqHeader
-  const numPixels = width * height
-
-  // For a complete implementation, this would:
-  // 1. Parse frame header from data
-  // 2. Decode tiles
-  // 3. Apply transforms (DCT, ADST, identity)
-  // 4. Apply intra prediction
-  // 5. Apply loop filtering
-  // 6. Apply CDEF (Constrained Directional Enhancement Filter)
-  // 7. Apply loop restoration
-  // 8. Convert YUV to RGB
-  void data
-
-  // For now, return a gray placeholder
-  const rgba = new Uint8Array(numPixels * 4)
+/**
+ * Parse color_config() (AV1 spec section 5.5.2)
+ */
+function parseColorConfig(reader: BitReader, seqProfile: number): ColorConfig {
+  const highBitdepth = reader.readBit() === 1
+  let bitDepth: 8 | 10 | 12 = highBitdepth ? 10 : 8
 
-  for (let i = 0; i < numPixels; i++) {
-    rgba[i * 4] = 128
-    rgba[i * 4 + 1] = 128
-    rgba[i * 4 + 2] = 128
-    rgba[i * 4 + 3] = 255
+  if (seqProfile === 2 && highBitdepth) {
+    bitDepth = reader.readBit() ? 12 : 10
   }
 
-  return rgba
-}
+  const monochrome = seqProfile === 1 ? false : reader.readBit() === 1
+  const colorDescriptionPresent = reader.readBit() === 1
 
-/**
- * Read unsigned variable length code
- */
-function readUvlc(reader: BitReader): number {
-  let leadingZeros = 0
+  let colorPrimaries = CP_UNSPECIFIED
+  let transferCharacteristics = TC_UNSPECIFIED
+  let matrixCoefficients = MC_UNSPECIFIED
 
-  while (reader.readBit() === 0) {
-    leadingZeros++
-    if (leadingZeros >= 32) {
-      return 0xFFFFFFFF
-    }
+  if (colorDescriptionPresent) {
+    colorPrimaries = reader.readBits(8)
+    transferCharacteristics = reader.readBits(8)
+    matrixCoefficients = reader.readBits(8)
   }
 
-  if (leadingZeros >= 32) {
-    return 0xFFFFFFFF
+  const config: ColorConfig = {
+    bitDepth,
+    monochrome,
+    numPlanes: monochrome ? 1 : 3,
+    colorDescriptionPresent,
+    colorPrimaries,
+    transferCharacteristics,
+    matrixCoefficients,
+    colorRange: false,
+    subsamplingX: 1,
+    subsamplingY: 1,
+    chromaSamplePosition: CSP_UNKNOWN,
+    separateUvDeltaQ: false,
   }
 
-  const value = reader.readBits(leadingZeros)
-  return value + (1 << leadingZeros) - 1
-}
-
-/**
- * Simple bit reader for AV1 parsing
- */
-class BitReader {
-  private data: Uint8Array
-  private pos: number = 0
-  private bitPos: number = 0
+  if (monochrome) {
+    config.colorRange = reader.readBit() === 1
+    return config
+  }
 
-  constructor(data: Uint8Array) {
-    this.data = data
+  if (colorPrimaries === CP_BT_709 && transferCharacteristics === TC_SRGB && matrixCoefficients === MC_IDENTITY) {
+    // sRGB-in-GBR is always full range 4:4:4
+    config.colorRange = true
+    config.subsamplingX = 0
+    config.subsamplingY = 0
   }
+  else {
+    config.colorRange = reader.readBit() === 1
 
-  readBit(): number {
-    if (this.pos >= this.data.length) {
-      return 0
+    if (seqProfile === 1) {
+      config.subsamplingX = 0
+      config.subsamplingY = 0
     }
-
-    const bit = (this.data[this.pos] >> (7 - this.bitPos)) & 1
-    this.bitPos++
-
-    if (this.bitPos === 8) {
-      this.bitPos = 0
-      this.pos++
+    else if (seqProfile === 2) {
+      if (bitDepth === 12) {
+        config.subsamplingX = reader.readBit()
+        config.subsamplingY = config.subsamplingX ? reader.readBit() : 0
+      }
+      else {
+        config.subsamplingX = 1
+        config.subsamplingY = 0
+      }
     }
 
-    return bit
+    if (config.subsamplingX && config.subsamplingY) {
+      config.chromaSamplePosition = reader.readBits(2)
+    }
   }
 
-  readBits(count: number): number {
-    let value = 0
+  config.separateUvDeltaQ = reader.readBit() === 1
 
-    for (let i = 0; i < count; i++) {
-      value = (value << 1) | this.readBit()
-    }
+  return config
+}
 
-    return value
+/**
+ * Run the in-loop post filters over the reconstructed frame: deblocking,
+ * CDEF, super-resolution upscaling and loop restoration, in that order.
+ * Each stage is driven by the frame header and skips itself when disabled.
+ */
+function postFilterFrame(frame: FrameState): void {
+  applyLoopFilter(frame)
+  let deblocked = frame.planes
+  frame.planes = applyCdef(frame)
+
+  if (frame.frameHeader.useSuperres) {
+    const strides = upscaledStrides(frame)
+    deblocked = upscalePlanes(frame, deblocked, strides)
+    frame.planes = upscalePlanes(frame, frame.planes, strides)
+    frame.strides = strides
+  }
+
+  frame.planes = applyLoopRestoration(frame, frame.planes, deblocked)
+}
+
+/**
+ * Describe the decoded planes of a frame for color conversion, using the
+ * CICP values of the sequence header unless `color` overrides them
+ */
+function frameToYuvImage(frame: FrameState, color?: ColorDescription): AvifYuvImageData {
+  const { colorConfig } = frame.seqHeader
+  return {
+    planes: frame.planes,
+    strides: frame.strides,
+    width: frame.frameHeader.upscaledWidth,
+    height: frame.frameHeader.frameHeight,
+    bitDepth: colorConfig.bitDepth,
+    subsamplingX: colorConfig.subsamplingX,
+    subsamplingY: colorConfig.subsamplingY,
+    chromaSamplePosition: colorConfig.chromaSamplePosition,
+    color: color ?? {
+      colorPrimaries: colorConfig.colorPrimaries,
+      transferCharacteristics: colorConfig.transferCharacteristics,
+      matrixCoefficients: colorConfig.matrixCoefficients,
+      fullRange: colorConfig.colorRange,
+    },
   }
 }
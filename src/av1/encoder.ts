@@ -0,0 +1,127 @@
+import type { AvifYuvImageData, SequenceHeader } from '../types'
+import { OBUType } from '../types'
+import { BitWriter } from './bit-writer'
+import { copyCdfContext, createCdfContext } from './cdf'
+import { createKeyFrameHeader, writeFrameHeader } from './frame-header'
+import { createFrameState } from './frame-state'
+import { concatBytes, createOBU } from './obu'
+import { acQ } from './quantizer'
+import { writeSequenceHeader } from './sequence-header'
+import { SymbolEncoder } from './symbol-encoder'
+import { writeTileGroup } from './tile-group'
+import { getSearchSettings, TileEncoder } from './tile-encoder'
+
+/**
+ * Options of `encodeAV1YUV()`
+ */
+export interface AV1EncodeOptions {
+  /** Base quantizer index (0-255, default: 0, which is lossless) */
+  qindex?: number
+  /** Speed/effort trade-off (0-10, default: 6) */
+  effort?: number
+}
+
+/**
+ * Encode YUV planes as an AV1 key frame. qindex 0 codes the frame
+ * losslessly, every block using the Walsh-Hadamard transform; other
+ * qindexes quantize DCT/ADST coefficients and deblock the result. From
+ * effort 3 decisions are rate-distortion optimized, and from effort 8
+ * blocks also choose their transform size. Returns a
+ * temporal unit holding the sequence header OBU and a FRAME OBU. The planes
+ * must match the size, bit depth and subsampling of `seqHeader`.
+ */
+export function encodeAV1YUV(image: AvifYuvImageData, seqHeader: SequenceHeader, options: AV1EncodeOptions = {}): Uint8Array {
+  const { qindex = 0, effort = 6 } = options
+  const { bitDepth, numPlanes, subsamplingX, subsamplingY } = seqHeader.colorConfig
+  if (image.width !== seqHeader.maxFrameWidth || image.height !== seqHeader.maxFrameHeight) {
+    throw new Error(
+      `Image size ${image.width}x${image.height} does not match the sequence header `
+      + `(${seqHeader.maxFrameWidth}x${seqHeader.maxFrameHeight})`,
+    )
+  }
+  if (image.bitDepth !== bitDepth || image.planes.length !== numPlanes
+    || (numPlanes > 1 && (image.subsamplingX !== subsamplingX || image.subsamplingY !== subsamplingY))) {
+    throw new Error('Image format does not match the sequence header color config')
+  }
+
+  if (!Number.isInteger(qindex) || qindex < 0 || qindex > 255) {
+    throw new Error(`Invalid qindex ${qindex}`)
+  }
+
+  const frameHeader = createKeyFrameHeader(seqHeader, qindex)
+  if (!frameHeader.codedLossless) {
+    const level = pickLoopFilterLevel(qindex, bitDepth)
+    frameHeader.loopFilter.level = [level, level, level, level]
+    if (getSearchSettings(effort).searchTxSize) {
+      frameHeader.txMode = 2 // TX_MODE_SELECT
+    }
+  }
+  const frame = createFrameState(seqHeader, frameHeader)
+
+  // The tile encoders predict from the source until blocks are coded
+  const source = frame.planes.map((_plane, i) => {
+    const subX = i > 0 ? subsamplingX : 0
+    const subY = i > 0 ? subsamplingY : 0
+    return padPlane(image.planes[i], image.strides[i], (image.width + subX) >> subX, (image.height + subY) >> subY, frame.strides[i], frame.planeHeights[i])
+  })
+  frame.planes.forEach((plane, i) => plane.set(source[i]))
+
+  const { tileCols, tileRows, miRowStarts, miColStarts } = frameHeader.tileInfo
+  const tiles: Uint8Array[] = []
+  for (let tileRow = 0; tileRow < tileRows; tileRow++) {
+    for (let tileCol = 0; tileCol < tileCols; tileCol++) {
+      const cdf = copyCdfContext(createCdfContext(frameHeader.quantization.baseQIdx))
+      const symbolEncoder = new SymbolEncoder(frameHeader.disableCdfUpdate)
+      new TileEncoder(frame, source, cdf, symbolEncoder, {
+        miRowStart: miRowStarts[tileRow],
+        miRowEnd: miRowStarts[tileRow + 1],
+        miColStart: miColStarts[tileCol],
+        miColEnd: miColStarts[tileCol + 1],
+      }, effort).encode()
+      tiles.push(symbolEncoder.finish())
+    }
+  }
+
+  const writer = new BitWriter()
+  writeFrameHeader(writer, seqHeader, frameHeader)
+  writer.byteAlign()
+
+  return concatBytes([
+    createOBU(OBUType.SEQUENCE_HEADER, writeSequenceHeader(seqHeader)),
+    createOBU(OBUType.FRAME, concatBytes([writer.toUint8Array(), writeTileGroup(tiles, frameHeader)])),
+  ])
+}
+
+/**
+ * Deblocking filter level for a key frame of a qindex, fitted to the AC
+ * step size as libaom does when it picks the level from q
+ */
+function pickLoopFilterLevel(qindex: number, bitDepth: number): number {
+  const q = acQ(qindex, bitDepth)
+  let level: number
+  if (bitDepth === 8) {
+    level = Math.round((q * 17563 - 421574) / 2 ** 18)
+  }
+  else if (bitDepth === 10) {
+    level = Math.round((q * 20723 + 4060632) / 2 ** 20)
+  }
+  else {
+    level = Math.round((q * 20723 + 16242526) / 2 ** 22)
+  }
+  return Math.max(0, Math.min(63, level))
+}
+
+/**
+ * Copy a `width` x `height` plane into a `stride` x `rows` one, repeating
+ * the last column and row into the padding
+ */
+function padPlane(plane: Uint16Array, planeStride: number, width: number, height: number, stride: number, rows: number): Uint16Array {
+  const padded = new Uint16Array(stride * rows)
+  for (let y = 0; y < rows; y++) {
+    const src = Math.min(y, height - 1) * planeStride
+    const dst = y * stride
+    padded.set(plane.subarray(src, src + width), dst)
+    padded.fill(plane[src + width - 1], dst + width, dst + stride)
+  }
+  return padded
+}
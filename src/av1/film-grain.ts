@@ -0,0 +1,334 @@
+import type { FilmGrainParams } from '../types'
+import type { FrameState } from './frame-state'
+import { GAUSSIAN_SEQUENCE } from './film-grain-tables'
+
+const MC_IDENTITY = 0
+
+/** Size of the luma grain template */
+const GRAIN_WIDTH = 82
+const GRAIN_HEIGHT = 73
+/** Auto-regressive filtering skips this many samples at the template edges */
+const AR_PADDING = 3
+
+/**
+ * Film grain synthesis process (AV1 spec section 7.18.3). Returns new planes
+ * with grain added to the decoded frame; the frame itself is left untouched.
+ */
+export function applyFilmGrain(frame: FrameState, params: FilmGrainParams): Uint16Array[] {
+  const { upscaledWidth: w, frameHeight: h } = frame.frameHeader
+  const { bitDepth, matrixCoefficients, numPlanes, subsamplingX: subX, subsamplingY: subY } = frame.seqHeader.colorConfig
+  const grain = new GrainSynthesis(params, bitDepth)
+
+  const templates = [grain.generateLumaGrain()]
+  if (numPlanes > 1)
+    templates.push(...grain.generateChromaGrain(templates[0], subX, subY))
+  const noise = grain.generateNoise(templates, w, h, subX, subY)
+  const luts = templates.map((_, plane) => scalingLookup(params, plane))
+
+  const output = frame.planes.map(plane => plane.slice())
+  const shift = bitDepth - 8
+  let minValue = 0
+  let maxLuma = (256 << shift) - 1
+  let maxChroma = maxLuma
+  if (params.clipToRestrictedRange) {
+    minValue = 16 << shift
+    maxLuma = 235 << shift
+    maxChroma = matrixCoefficients === MC_IDENTITY ? maxLuma : 240 << shift
+  }
+  const scalingShift = params.grainScalingMinus8 + 8
+  const pixelMax = (1 << bitDepth) - 1
+  const round = (v: number, n: number): number => (v + (1 << (n - 1))) >> n
+
+  const [outY] = output
+  const yStride = frame.strides[0]
+  if (params.pointY.length) {
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const orig = outY[y * yStride + x]
+        const n = round(scaleLut(luts[0], orig, bitDepth) * noise[0][y * w + x], scalingShift)
+        outY[y * yStride + x] = Math.max(minValue, Math.min(maxLuma, orig + n))
+      }
+    }
+  }
+
+  // Chroma scaling reads the luma samples with grain already applied
+  if (numPlanes > 1) {
+    const uvStride = frame.strides[1]
+    const chroma = [
+      { points: params.pointCb.length, mult: params.cbMult, lumaMult: params.cbLumaMult, offset: params.cbOffset },
+      { points: params.pointCr.length, mult: params.crMult, lumaMult: params.crLumaMult, offset: params.crOffset },
+    ]
+    const chromaW = (w + subX) >> subX
+    for (let y = 0; y < (h + subY) >> subY; y++) {
+      for (let x = 0; x < chromaW; x++) {
+        const lumaX = x << subX
+        const lumaPos = (y << subY) * yStride
+        const averageLuma = subX
+          ? (outY[lumaPos + lumaX] + outY[lumaPos + Math.min(lumaX + 1, w - 1)] + 1) >> 1
+          : outY[lumaPos + lumaX]
+
+        for (let c = 0; c < 2; c++) {
+          const { points, mult, lumaMult, offset } = chroma[c]
+          if (!points && !params.chromaScalingFromLuma)
+            continue
+          const plane = output[1 + c]
+          const orig = plane[y * uvStride + x]
+          let merged = averageLuma
+          if (!params.chromaScalingFromLuma) {
+            const combined = averageLuma * (lumaMult - 128) + orig * (mult - 128)
+            merged = Math.max(0, Math.min(pixelMax, (combined >> 6) + ((offset - 256) << shift)))
+          }
+          const n = round(scaleLut(luts[1 + c], merged, bitDepth) * noise[1 + c][y * chromaW + x], scalingShift)
+          plane[y * uvStride + x] = Math.max(minValue, Math.min(maxChroma, orig + n))
+        }
+      }
+    }
+  }
+
+  return output
+}
+
+/**
+ * Grain template generation and noise stripe synthesis, driven by the
+ * 16-bit pseudo-random generator of the spec
+ */
+class GrainSynthesis {
+  private randomRegister = 0
+  private readonly grainMin: number
+  private readonly grainMax: number
+
+  constructor(private readonly params: FilmGrainParams, private readonly bitDepth: number) {
+    const grainCenter = 128 << (bitDepth - 8)
+    this.grainMin = -grainCenter
+    this.grainMax = (256 << (bitDepth - 8)) - 1 - grainCenter
+  }
+
+  /**
+   * get_random_number()
+   */
+  private randomNumber(bits: number): number {
+    let r = this.randomRegister
+    const bit = ((r >> 0) ^ (r >> 1) ^ (r >> 3) ^ (r >> 12)) & 1
+    r = (r >> 1) | (bit << 15)
+    this.randomRegister = r
+    return (r >> (16 - bits)) & ((1 << bits) - 1)
+  }
+
+  private clampGrain(v: number): number {
+    return v < this.grainMin ? this.grainMin : v > this.grainMax ? this.grainMax : v
+  }
+
+  /** Fill a template with gaussian noise, or zeros when the plane has no grain */
+  private gaussianTemplate(width: number, height: number, seed: number, enabled: boolean): Int32Array {
+    const template = new Int32Array(width * height)
+    if (!enabled)
+      return template
+    this.randomRegister = seed
+    const shift = 12 - this.bitDepth + this.params.grainScaleShift
+    for (let i = 0; i < template.length; i++) {
+      const g = GAUSSIAN_SEQUENCE[this.randomNumber(11)]
+      template[i] = shift ? (g + (1 << (shift - 1))) >> shift : g
+    }
+    return template
+  }
+
+  /**
+   * Generate the 82x73 luma grain template with the auto-regressive filter
+   */
+  generateLumaGrain(): Int32Array {
+    const { params } = this
+    const grain = this.gaussianTemplate(GRAIN_WIDTH, GRAIN_HEIGHT, params.grainSeed, params.pointY.length > 0)
+    if (!params.pointY.length)
+      return grain
+
+    const lag = params.arCoeffLag
+    const shift = params.arCoeffShiftMinus6 + 6
+    for (let y = AR_PADDING; y < GRAIN_HEIGHT; y++) {
+      for (let x = AR_PADDING; x < GRAIN_WIDTH - AR_PADDING; x++) {
+        let sum = 0
+        let pos = 0
+        for (let deltaRow = -lag; deltaRow <= 0; deltaRow++) {
+          for (let deltaCol = -lag; deltaCol <= lag; deltaCol++) {
+            if (deltaRow === 0 && deltaCol === 0)
+              break
+            sum += grain[(y + deltaRow) * GRAIN_WIDTH + x + deltaCol] * params.arCoeffsY[pos++]
+          }
+        }
+        const i = y * GRAIN_WIDTH + x
+        grain[i] = this.clampGrain(grain[i] + ((sum + (1 << (shift - 1))) >> shift))
+      }
+    }
+    return grain
+  }
+
+  /**
+   * Generate the Cb and Cr grain templates, whose auto-regressive filter also
+   * takes the co-located luma grain as input
+   */
+  generateChromaGrain(lumaGrain: Int32Array, subX: number, subY: number): Int32Array[] {
+    const { params } = this
+    const chromaW = subX ? 44 : 82
+    const chromaH = subY ? 38 : 73
+    const enabled = [
+      params.pointCb.length > 0 || params.chromaScalingFromLuma,
+      params.pointCr.length > 0 || params.chromaScalingFromLuma,
+    ]
+    const grains = [
+      this.gaussianTemplate(chromaW, chromaH, params.grainSeed ^ 0xB524, enabled[0]),
+      this.gaussianTemplate(chromaW, chromaH, params.grainSeed ^ 0x49D8, enabled[1]),
+    ]
+    const coeffs = [params.arCoeffsCb, params.arCoeffsCr]
+
+    const lag = params.arCoeffLag
+    const shift = params.arCoeffShiftMinus6 + 6
+    for (let y = AR_PADDING; y < chromaH; y++) {
+      for (let x = AR_PADDING; x < chromaW - AR_PADDING; x++) {
+        for (let c = 0; c < 2; c++) {
+          if (!enabled[c])
+            continue
+          const grain = grains[c]
+          let sum = 0
+          let pos = 0
+          for (let deltaRow = -lag; deltaRow <= 0; deltaRow++) {
+            for (let deltaCol = -lag; deltaCol <= lag; deltaCol++) {
+              if (deltaRow === 0 && deltaCol === 0) {
+                if (params.pointY.length) {
+                  let luma = 0
+                  const lumaX = ((x - AR_PADDING) << subX) + AR_PADDING
+                  const lumaY = ((y - AR_PADDING) << subY) + AR_PADDING
+                  for (let i = 0; i <= subY; i++) {
+                    for (let j = 0; j <= subX; j++)
+                      luma += lumaGrain[(lumaY + i) * GRAIN_WIDTH + lumaX + j]
+                  }
+                  const lumaShift = subX + subY
+                  luma = lumaShift ? (luma + (1 << (lumaShift - 1))) >> lumaShift : luma
+                  sum += luma * coeffs[c][pos]
+                }
+                break
+              }
+              sum += grain[(y + deltaRow) * chromaW + x + deltaCol] * coeffs[c][pos++]
+            }
+          }
+          const i = y * chromaW + x
+          grain[i] = this.clampGrain(grain[i] + ((sum + (1 << (shift - 1))) >> shift))
+        }
+      }
+    }
+    return grains
+  }
+
+  /**
+   * Add noise synthesis: place randomly offset 32x32 windows of the grain
+   * templates over the frame, blending the overlapping rows and columns when
+   * overlap_flag is set. Returns the noise image of each plane, with rows as
+   * wide as the plane.
+   */
+  generateNoise(templates: Int32Array[], w: number, h: number, subX: number, subY: number): Int32Array[] {
+    const { params } = this
+    const halfW = (w + 1) >> 1
+    const stripeW = (Math.ceil(halfW / 16) * 16) * 2 + 2
+    const planeSub = templates.map((_, plane) => plane > 0 ? [subX, subY] : [0, 0])
+    const noise = planeSub.map(([sx, sy]) => new Int32Array(((w + sx) >> sx) * ((h + sy) >> sy)))
+    let previous: Int32Array[] = []
+
+    for (let y = 0, lumaNum = 0; y < (h + 1) >> 1; y += 16, lumaNum++) {
+      this.randomRegister = params.grainSeed
+        ^ (((lumaNum * 37 + 178) & 255) << 8)
+        ^ ((lumaNum * 173 + 105) & 255)
+      const stripes = planeSub.map(([, sy]) => new Int32Array((34 >> sy) * stripeW))
+
+      for (let x = 0; x < halfW; x += 16) {
+        const rand = this.randomNumber(8)
+        const offsetX = rand >> 4
+        const offsetY = rand & 15
+        for (let plane = 0; plane < templates.length; plane++) {
+          const [sx, sy] = planeSub[plane]
+          const template = templates[plane]
+          const templateW = plane > 0 ? (subX ? 44 : 82) : GRAIN_WIDTH
+          const planeOffsetX = sx ? 6 + offsetX : 9 + offsetX * 2
+          const planeOffsetY = sy ? 6 + offsetY : 9 + offsetY * 2
+          const stripe = stripes[plane]
+          for (let i = 0; i < (34 >> sy); i++) {
+            for (let j = 0; j < (34 >> sx); j++) {
+              let g = template[(planeOffsetY + i) * templateW + planeOffsetX + j]
+              const col = sx ? x + j : x * 2 + j
+              if (params.overlapFlag && x > 0) {
+                const old = stripe[i * stripeW + col]
+                if (!sx && j < 2)
+                  g = this.clampGrain(((j === 0 ? old * 27 + g * 17 : old * 17 + g * 27) + 16) >> 5)
+                else if (sx && j === 0)
+                  g = this.clampGrain((old * 23 + g * 22 + 16) >> 5)
+              }
+              stripe[i * stripeW + col] = g
+            }
+          }
+        }
+      }
+
+      // Copy this stripe into the noise image, blending its first rows with
+      // the bottom rows of the previous stripe
+      for (let plane = 0; plane < templates.length; plane++) {
+        const [sx, sy] = planeSub[plane]
+        const planeW = (w + sx) >> sx
+        const planeH = (h + sy) >> sy
+        const rows = 32 >> sy
+        const stripe = stripes[plane]
+        for (let i = 0; i < rows && lumaNum * rows + i < planeH; i++) {
+          const out = (lumaNum * rows + i) * planeW
+          for (let x = 0; x < planeW; x++) {
+            let g = stripe[i * stripeW + x]
+            if (params.overlapFlag && lumaNum > 0 && i < (2 >> sy)) {
+              const old = previous[plane][(i + rows) * stripeW + x]
+              if (sy)
+                g = this.clampGrain((old * 23 + g * 22 + 16) >> 5)
+              else
+                g = this.clampGrain(((i === 0 ? old * 27 + g * 17 : old * 17 + g * 27) + 16) >> 5)
+            }
+            noise[plane][out + x] = g
+          }
+        }
+      }
+      previous = stripes
+    }
+    return noise
+  }
+}
+
+/**
+ * Build the 256 entry piecewise-linear scaling function of a plane
+ */
+function scalingLookup(params: FilmGrainParams, plane: number): Uint8Array {
+  const points = plane === 0 || params.chromaScalingFromLuma
+    ? params.pointY
+    : plane === 1 ? params.pointCb : params.pointCr
+  const lut = new Uint8Array(256)
+  if (!points.length)
+    return lut
+
+  lut.fill(points[0][1], 0, points[0][0])
+  for (let i = 0; i < points.length - 1; i++) {
+    const deltaY = points[i + 1][1] - points[i][1]
+    const deltaX = points[i + 1][0] - points[i][0]
+    const delta = deltaY * Math.floor((65536 + (deltaX >> 1)) / deltaX)
+    for (let x = 0; x < deltaX; x++)
+      lut[points[i][0] + x] = points[i][1] + ((x * delta + 32768) >> 16)
+  }
+  const [lastValue, lastScaling] = points[points.length - 1]
+  lut.fill(lastScaling, lastValue)
+  return lut
+}
+
+/**
+ * scale_lut(): look up the scaling function, interpolating between entries
+ * above 8 bits
+ */
+function scaleLut(lut: Uint8Array, index: number, bitDepth: number): number {
+  const shift = bitDepth - 8
+  const x = index >> shift
+  const rem = index - (x << shift)
+  if (bitDepth === 8 || x === 255)
+    return lut[x]
+  const start = lut[x]
+  const end = lut[x + 1]
+  return start + (((end - start) * rem + (1 << (shift - 1))) >> shift)
+}
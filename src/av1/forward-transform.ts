@@ -0,0 +1,152 @@
+import { TX_HEIGHT_LOG2, TX_WIDTH_LOG2 } from './tables'
+import {
+  HORIZONTAL_TX_1D,
+  inverseAdst,
+  inverseDct,
+  inverseIdentity,
+  TRANSFORM_ROW_SHIFT,
+  TX_1D_ADST,
+  TX_1D_DCT,
+  TX_1D_FLIPADST,
+  TX_1D_IDENTITY,
+  VERTICAL_TX_1D,
+} from './transform'
+
+/** Amplitude of the impulses that sample the inverse transforms */
+const BASIS_SCALE = 1 << 12
+
+/**
+ * Forward Walsh-Hadamard transform of length 4, in place; the exact inverse
+ * of `inverseWht`
+ */
+function forwardWht(t: Int32Array): void {
+  let a = t[0]
+  let b = t[1]
+  let c = t[2]
+  let d = t[3]
+  a += b
+  d -= c
+  const e = (a - d) >> 1
+  b = e - b
+  c = e - c
+  a -= c
+  d += b
+  t[0] = a
+  t[1] = c
+  t[2] = d
+  t[3] = b
+}
+
+const t = new Int32Array(4)
+
+/**
+ * Forward 4x4 Walsh-Hadamard transform of lossless blocks. `residual` and
+ * `coeffs` have a row stride of 4; the coefficients are the quantized
+ * levels for qindex 0, so dequantizing and inverting them gives back the
+ * residual exactly.
+ */
+export function forwardWht4x4(residual: Int32Array, coeffs: Int32Array): void {
+  for (let j = 0; j < 4; j++) {
+    for (let i = 0; i < 4; i++)
+      t[i] = residual[i * 4 + j]
+    forwardWht(t)
+    for (let i = 0; i < 4; i++)
+      coeffs[i * 4 + j] = t[i]
+  }
+  for (let i = 0; i < 4; i++) {
+    for (let j = 0; j < 4; j++)
+      t[j] = coeffs[i * 4 + j]
+    forwardWht(t)
+    for (let j = 0; j < 4; j++)
+      coeffs[i * 4 + j] = t[j]
+  }
+}
+
+/** Analysis vectors of the 1D transforms, keyed by kind and log2 length */
+const analysisCache = new Map<number, Float64Array>()
+
+/**
+ * The analysis vectors of a 1D transform, n0 x n0 with a row stride of n0:
+ * row k dotted with a signal gives the coefficient that the decoder's
+ * inverse transform maps back onto the signal's component along basis
+ * vector k. The basis is sampled from the inverse transform itself, so the
+ * forward transform matches its scaling and signs; its vectors are
+ * orthogonal, making each row the basis vector over its squared norm.
+ */
+function getAnalysis(kind: number, n: number): Float64Array {
+  const key = kind * 8 + n
+  const cached = analysisCache.get(key)
+  if (cached)
+    return cached
+
+  const n0 = 1 << n
+  const analysis = new Float64Array(n0 * n0)
+  const t = new Int32Array(64)
+  for (let k = 0; k < n0; k++) {
+    t.fill(0)
+    t[k] = BASIS_SCALE
+    if (kind === TX_1D_DCT)
+      inverseDct(t, n, 24)
+    else if (kind === TX_1D_IDENTITY)
+      inverseIdentity(t, n)
+    else
+      inverseAdst(t, n, 24)
+
+    let norm = 0
+    for (let i = 0; i < n0; i++)
+      norm += t[i] * t[i]
+    for (let i = 0; i < n0; i++)
+      analysis[k * n0 + i] = t[i] * BASIS_SCALE / norm
+  }
+
+  analysisCache.set(key, analysis)
+  return analysis
+}
+
+const columns = new Float64Array(32 * 64)
+
+/**
+ * Forward 2D transform of lossy blocks, the inverse of
+ * `inverseTransform2D()` up to rounding. `residual` has a row stride of the
+ * transform width; `coeffs` receives the unquantized coefficients in the
+ * dequantized domain with a row stride of min(32, width), only the top-left
+ * 32x32 of 64-sample transforms being kept.
+ */
+export function forwardTransform2D(residual: Int32Array, coeffs: Float64Array, txSz: number, txType: number): void {
+  const log2W = TX_WIDTH_LOG2[txSz]
+  const log2H = TX_HEIGHT_LOG2[txSz]
+  const w = 1 << log2W
+  const h = 1 << log2H
+  const tw = Math.min(32, w)
+  const th = Math.min(32, h)
+  const rowKind = HORIZONTAL_TX_1D[txType]
+  const colKind = VERTICAL_TX_1D[txType]
+  const flipLR = rowKind === TX_1D_FLIPADST
+  const flipUD = colKind === TX_1D_FLIPADST
+  const rowAnalysis = getAnalysis(flipLR ? TX_1D_ADST : rowKind, log2W)
+  const colAnalysis = getAnalysis(flipUD ? TX_1D_ADST : colKind, log2H)
+
+  // Undo the rounding shifts and the rectangular scaling of the inverse
+  let scale = 2 ** (TRANSFORM_ROW_SHIFT[txSz] + 4)
+  if (Math.abs(log2W - log2H) === 1)
+    scale *= 4096 / 2896
+
+  for (let i = 0; i < th; i++) {
+    for (let x = 0; x < w; x++) {
+      const srcX = flipLR ? w - 1 - x : x
+      let sum = 0
+      for (let y = 0; y < h; y++)
+        sum += colAnalysis[i * h + y] * residual[(flipUD ? h - 1 - y : y) * w + srcX]
+      columns[i * w + x] = sum
+    }
+  }
+
+  for (let i = 0; i < th; i++) {
+    for (let j = 0; j < tw; j++) {
+      let sum = 0
+      for (let x = 0; x < w; x++)
+        sum += rowAnalysis[j * w + x] * columns[i * w + x]
+      coeffs[i * tw + j] = sum * scale
+    }
+  }
+}
@@ -0,0 +1,1250 @@
+import type {
+  CdefParams,
+  DeltaParams,
+  FilmGrainParams,
+  FrameHeader,
+  LoopFilterParams,
+  LoopRestorationParams,
+  QuantizationParams,
+  SegmentationParams,
+  SequenceHeader,
+  TileInfo,
+} from '../types'
+import { FrameType } from '../types'
+import { BitReader } from './bit-reader'
+import type { BitWriter } from './bit-writer'
+
+const NUM_REF_FRAMES = 8
+const PRIMARY_REF_NONE = 7
+const SELECT_SCREEN_CONTENT_TOOLS = 2
+const SELECT_INTEGER_MV = 2
+const SUPERRES_NUM = 8
+const SUPERRES_DENOM_MIN = 9
+const SUPERRES_DENOM_BITS = 3
+const MAX_SEGMENTS = 8
+const SEG_LVL_MAX = 8
+const SEG_LVL_REF_FRAME = 5
+const MAX_LOOP_FILTER = 63
+const MAX_TILE_WIDTH = 4096
+const MAX_TILE_AREA = 4096 * 2304
+const MAX_TILE_ROWS = 64
+const MAX_TILE_COLS = 64
+const RESTORATION_TILESIZE_MAX = 256
+
+const SEGMENTATION_FEATURE_BITS = [8, 6, 6, 6, 6, 3, 0, 0]
+const SEGMENTATION_FEATURE_SIGNED = [true, true, true, true, true, false, false, false]
+const SEGMENTATION_FEATURE_MAX = [255, MAX_LOOP_FILTER, MAX_LOOP_FILTER, MAX_LOOP_FILTER, MAX_LOOP_FILTER, 7, 0, 0]
+
+// lr_type → FrameRestorationType (NONE, SWITCHABLE, WIENER, SGRPROJ)
+const REMAP_LR_TYPE = [0, 3, 1, 2]
+
+/** Loop filter ref deltas set up by setup_past_independence() */
+const DEFAULT_LOOP_FILTER_REF_DELTAS = [1, 0, 0, 0, -1, 0, -1, -1]
+
+/**
+ * Options for frame header parsing
+ */
+export interface FrameHeaderOptions {
+  /** temporal_id from the OBU extension header */
+  temporalId?: number
+  /** spatial_id from the OBU extension header */
+  spatialId?: number
+  /** Frame type stored in each reference slot, used by show_existing_frame */
+  refFrameTypes?: FrameType[]
+}
+
+/**
+ * Parse an uncompressed frame header from a FRAME_HEADER, REDUNDANT_FRAME_HEADER
+ * or FRAME OBU payload (AV1 spec section 5.9). Key and intra-only frames are
+ * supported; inter frames need reference state and are rejected.
+ */
+export function parseFrameHeader(
+  data: Uint8Array,
+  seqHeader: SequenceHeader,
+  options: FrameHeaderOptions = {},
+): FrameHeader {
+  return readFrameHeader(new BitReader(data), seqHeader, options)
+}
+
+/**
+ * Read an uncompressed frame header from `reader`, leaving it positioned
+ * directly after the header (before any byte_alignment)
+ */
+export function readFrameHeader(
+  reader: BitReader,
+  seqHeader: SequenceHeader,
+  options: FrameHeaderOptions = {},
+): FrameHeader {
+  const { temporalId = 0, spatialId = 0 } = options
+  const { decoderModelInfo, timingInfo } = seqHeader
+  const idLen = seqHeader.additionalFrameIdLength + seqHeader.deltaFrameIdLength
+  const allFrames = (1 << NUM_REF_FRAMES) - 1
+  const readTemporalPointInfo = decoderModelInfo !== undefined && !timingInfo?.equalPictureInterval
+
+  const header = createDefaultFrameHeader(seqHeader)
+
+  if (!seqHeader.reducedStillPictureHeader) {
+    header.showExistingFrame = reader.readBit() === 1
+
+    if (header.showExistingFrame) {
+      header.frameToShowMapIdx = reader.readBits(3)
+      if (readTemporalPointInfo) {
+        reader.readBits(decoderModelInfo.framePresentationTimeLength) // frame_presentation_time
+      }
+      header.refreshFrameFlags = 0
+      if (seqHeader.frameIdNumbersPresent) {
+        reader.readBits(idLen) // display_frame_id
+      }
+      header.frameType = options.refFrameTypes?.[header.frameToShowMapIdx] ?? FrameType.KEY_FRAME
+      header.frameIsIntra = header.frameType === FrameType.KEY_FRAME || header.frameType === FrameType.INTRA_ONLY_FRAME
+      if (header.frameType === FrameType.KEY_FRAME) {
+        header.refreshFrameFlags = allFrames
+      }
+      return header
+    }
+
+    header.frameType = reader.readBits(2) as FrameType
+    header.frameIsIntra = header.frameType === FrameType.INTRA_ONLY_FRAME || header.frameType === FrameType.KEY_FRAME
+    header.showFrame = reader.readBit() === 1
+
+    if (header.showFrame && readTemporalPointInfo) {
+      reader.readBits(decoderModelInfo.framePresentationTimeLength) // frame_presentation_time
+    }
+
+    header.showableFrame = header.showFrame
+      ? header.frameType !== FrameType.KEY_FRAME
+      : reader.readBit() === 1
+
+    header.errorResilientMode = header.frameType === FrameType.SWITCH_FRAME
+      || (header.frameType === FrameType.KEY_FRAME && header.showFrame)
+      ? true
+      : reader.readBit() === 1
+  }
+
+  if (!header.frameIsIntra) {
+    throw new Error('Inter frames are not supported')
+  }
+
+  header.disableCdfUpdate = reader.readBit() === 1
+
+  header.allowScreenContentTools = seqHeader.seqForceScreenContentTools === SELECT_SCREEN_CONTENT_TOOLS
+    ? reader.readBit() === 1
+    : seqHeader.seqForceScreenContentTools === 1
+
+  if (header.allowScreenContentTools && seqHeader.seqForceIntegerMv === SELECT_INTEGER_MV) {
+    reader.readBit() // force_integer_mv, overridden below for intra frames
+  }
+  header.forceIntegerMv = true
+
+  if (seqHeader.frameIdNumbersPresent) {
+    header.currentFrameId = reader.readBits(idLen)
+  }
+
+  header.frameSizeOverride = seqHeader.reducedStillPictureHeader ? false : reader.readBit() === 1
+  header.orderHint = reader.readBits(seqHeader.orderHintBits)
+  header.primaryRefFrame = PRIMARY_REF_NONE
+
+  if (decoderModelInfo && reader.readBit()) {
+    // buffer_removal_time for every operating point this frame belongs to
+    for (const op of seqHeader.operatingPoints) {
+      if (op.decoderModel) {
+        const inTemporalLayer = (op.idc >> temporalId) & 1
+        const inSpatialLayer = (op.idc >> (spatialId + 8)) & 1
+        if (op.idc === 0 || (inTemporalLayer && inSpatialLayer)) {
+          reader.readBits(decoderModelInfo.bufferRemovalTimeLength)
+        }
+      }
+    }
+  }
+
+  if (header.frameType === FrameType.KEY_FRAME && header.showFrame) {
+    header.refreshFrameFlags = allFrames
+  }
+  else {
+    header.refreshFrameFlags = reader.readBits(8)
+  }
+
+  if (header.refreshFrameFlags !== allFrames && header.errorResilientMode && seqHeader.enableOrderHint) {
+    for (let i = 0; i < NUM_REF_FRAMES; i++) {
+      reader.readBits(seqHeader.orderHintBits) // ref_order_hint[i]
+    }
+  }
+
+  readFrameSize(reader, seqHeader, header)
+  readRenderSize(reader, header)
+
+  if (header.allowScreenContentTools && header.upscaledWidth === header.frameWidth) {
+    header.allowIntrabc = reader.readBit() === 1
+  }
+
+  header.disableFrameEndUpdateCdf = seqHeader.reducedStillPictureHeader || header.disableCdfUpdate
+    ? true
+    : reader.readBit() === 1
+
+  header.tileInfo = readTileInfo(reader, seqHeader, header)
+  header.quantization = readQuantizationParams(reader, seqHeader)
+  header.segmentation = readSegmentationParams(reader)
+  header.delta = readDeltaParams(reader, header)
+
+  setLosslessFlags(header)
+
+  header.loopFilter = readLoopFilterParams(reader, seqHeader, header)
+  header.cdef = readCdefParams(reader, seqHeader, header)
+  header.loopRestoration = readLrParams(reader, seqHeader, header)
+
+  if (header.codedLossless) {
+    header.txMode = 0
+  }
+  else {
+    header.txMode = reader.readBit() ? 2 : 1
+  }
+
+  // frame_reference_mode(), skip_mode_params(), allow_warped_motion and
+  // global_motion_params() carry no bits for intra frames
+  header.referenceSelect = false
+  header.skipModePresent = false
+  header.allowWarpedMotion = false
+  header.reducedTxSet = reader.readBit() === 1
+
+  header.filmGrain = readFilmGrainParams(reader, seqHeader, header)
+
+  return header
+}
+
+/**
+ * A shown key frame header for `seqHeader`: uniformly spaced tiles (the
+ * fewest the frame size allows), no segmentation and no loop filtering.
+ * Encoders adjust the fields they use before `writeFrameHeader()`.
+ */
+export function createKeyFrameHeader(seqHeader: SequenceHeader, baseQIdx: number): FrameHeader {
+  const header = createDefaultFrameHeader(seqHeader)
+  header.refreshFrameFlags = (1 << NUM_REF_FRAMES) - 1
+  header.allowScreenContentTools = seqHeader.seqForceScreenContentTools === 1
+  header.forceIntegerMv = true
+  header.miCols = 2 * ((header.frameWidth + 7) >> 3)
+  header.miRows = 2 * ((header.frameHeight + 7) >> 3)
+  header.tileInfo = createUniformTileInfo(seqHeader, header)
+  header.quantization.baseQIdx = baseQIdx
+  setLosslessFlags(header)
+  // Lossless frames only have 4x4 transforms; others use the largest size
+  header.txMode = header.codedLossless ? 0 : 1
+  return header
+}
+
+/**
+ * Write the uncompressed header of a shown key frame, the counterpart of
+ * `readFrameHeader()`. The byte_alignment() that follows it in a FRAME OBU
+ * is left to the caller. Headers the syntax cannot express throw, as do
+ * segmentation and film grain, which the writer does not support.
+ */
+export function writeFrameHeader(writer: BitWriter, seqHeader: SequenceHeader, header: FrameHeader): void {
+  const { decoderModelInfo, timingInfo } = seqHeader
+  const idLen = seqHeader.additionalFrameIdLength + seqHeader.deltaFrameIdLength
+
+  if (header.showExistingFrame || header.frameType !== FrameType.KEY_FRAME || !header.showFrame) {
+    throw new Error('Only shown key frames can be written')
+  }
+  if (header.upscaledWidth !== seqHeader.maxFrameWidth || header.frameHeight !== seqHeader.maxFrameHeight) {
+    throw new Error(
+      `Frame size ${header.upscaledWidth}x${header.frameHeight} differs from the sequence maximum `
+      + `${seqHeader.maxFrameWidth}x${seqHeader.maxFrameHeight}`,
+    )
+  }
+
+  if (!seqHeader.reducedStillPictureHeader) {
+    writer.writeBit(0) // show_existing_frame
+    writer.writeBits(header.frameType, 2)
+    writer.writeBit(1) // show_frame
+    if (decoderModelInfo !== undefined && !timingInfo?.equalPictureInterval) {
+      writer.writeBits(0, decoderModelInfo.framePresentationTimeLength) // frame_presentation_time
+    }
+    // showable_frame and error_resilient_mode are implied for shown key frames
+  }
+
+  writer.writeBit(header.disableCdfUpdate)
+
+  if (seqHeader.seqForceScreenContentTools === SELECT_SCREEN_CONTENT_TOOLS) {
+    writer.writeBit(header.allowScreenContentTools)
+  }
+  else if (header.allowScreenContentTools !== (seqHeader.seqForceScreenContentTools === 1)) {
+    throw new Error(`allow_screen_content_tools is fixed to ${seqHeader.seqForceScreenContentTools} by the sequence header`)
+  }
+
+  if (header.allowScreenContentTools && seqHeader.seqForceIntegerMv === SELECT_INTEGER_MV) {
+    writer.writeBit(1) // force_integer_mv, always on for intra frames
+  }
+
+  if (seqHeader.frameIdNumbersPresent) {
+    writer.writeBits(header.currentFrameId, idLen)
+  }
+
+  if (!seqHeader.reducedStillPictureHeader) {
+    writer.writeBit(0) // frame_size_override_flag
+  }
+  writer.writeBits(header.orderHint, seqHeader.orderHintBits)
+
+  if (decoderModelInfo !== undefined) {
+    writer.writeBit(0) // buffer_removal_time_present_flag
+  }
+
+  // frame_size(): the size comes from the sequence header
+  if (seqHeader.enableSuperres) {
+    writer.writeBit(header.useSuperres)
+    if (header.useSuperres) {
+      writer.writeBits(header.superresDenom - SUPERRES_DENOM_MIN, SUPERRES_DENOM_BITS)
+    }
+  }
+  else if (header.useSuperres) {
+    throw new Error('Superres is not enabled in the sequence header')
+  }
+
+  // render_size()
+  const renderSizeDifferent = header.renderWidth !== header.upscaledWidth || header.renderHeight !== header.frameHeight
+  writer.writeBit(renderSizeDifferent)
+  if (renderSizeDifferent) {
+    writer.writeBits(header.renderWidth - 1, 16)
+    writer.writeBits(header.renderHeight - 1, 16)
+  }
+
+  if (header.allowScreenContentTools && header.upscaledWidth === header.frameWidth) {
+    writer.writeBit(header.allowIntrabc)
+  }
+
+  if (!seqHeader.reducedStillPictureHeader && !header.disableCdfUpdate) {
+    writer.writeBit(header.disableFrameEndUpdateCdf)
+  }
+
+  writeTileInfo(writer, seqHeader, header)
+  writeQuantizationParams(writer, seqHeader, header.quantization)
+
+  if (header.segmentation.enabled) {
+    throw new Error('Segmentation parameters cannot be written')
+  }
+  writer.writeBit(0) // segmentation_enabled
+
+  writeDeltaParams(writer, header)
+  writeLoopFilterParams(writer, seqHeader, header)
+  writeCdefParams(writer, seqHeader, header)
+  writeLrParams(writer, seqHeader, header)
+
+  if (!header.codedLossless) {
+    writer.writeBit(header.txMode === 2) // tx_mode_select
+  }
+  writer.writeBit(header.reducedTxSet)
+
+  if (seqHeader.filmGrainParamsPresent) {
+    if (header.filmGrain.applyGrain) {
+      throw new Error('Film grain parameters cannot be written')
+    }
+    writer.writeBit(0) // apply_grain
+  }
+}
+
+/**
+ * get_qindex(): the qindex of a segment, optionally including the
+ * block-level delta (`currentQIndex`) when delta_q is present
+ */
+export function getQIndex(
+  header: FrameHeader,
+  ignoreDeltaQ: boolean,
+  segmentId: number,
+  currentQIndex: number,
+): number {
+  const { segmentation, quantization } = header
+
+  if (segmentation.enabled && segmentation.featureEnabled[segmentId][0]) {
+    const data = segmentation.featureData[segmentId][0]
+    const qindex = (ignoreDeltaQ || !header.delta.deltaQPresent ? quantization.baseQIdx : currentQIndex) + data
+    return Math.max(0, Math.min(255, qindex))
+  }
+
+  if (!ignoreDeltaQ && header.delta.deltaQPresent) {
+    return currentQIndex
+  }
+
+  return quantization.baseQIdx
+}
+
+/**
+ * Derive LosslessArray, CodedLossless, AllLossless and SegQMLevel from the
+ * quantization and segmentation parameters
+ */
+function setLosslessFlags(header: FrameHeader): void {
+  const q = header.quantization
+  header.codedLossless = true
+  for (let segmentId = 0; segmentId < MAX_SEGMENTS; segmentId++) {
+    const qindex = getQIndex(header, true, segmentId, 0)
+    const lossless = qindex === 0 && q.deltaQYDc === 0 && q.deltaQUAc === 0
+      && q.deltaQUDc === 0 && q.deltaQVAc === 0 && q.deltaQVDc === 0
+    header.losslessArray[segmentId] = lossless
+    if (!lossless) {
+      header.codedLossless = false
+    }
+    if (q.usingQmatrix) {
+      header.segQMLevel[0][segmentId] = lossless ? 15 : q.qmY
+      header.segQMLevel[1][segmentId] = lossless ? 15 : q.qmU
+      header.segQMLevel[2][segmentId] = lossless ? 15 : q.qmV
+    }
+  }
+  header.allLossless = header.codedLossless && header.frameWidth === header.upscaledWidth
+}
+
+function createDefaultFrameHeader(seqHeader: SequenceHeader): FrameHeader {
+  return {
+    showExistingFrame: false,
+    frameType: FrameType.KEY_FRAME,
+    frameIsIntra: true,
+    showFrame: true,
+    showableFrame: false,
+    errorResilientMode: true,
+    disableCdfUpdate: false,
+    allowScreenContentTools: false,
+    forceIntegerMv: false,
+    currentFrameId: 0,
+    frameSizeOverride: false,
+    orderHint: 0,
+    primaryRefFrame: PRIMARY_REF_NONE,
+    refreshFrameFlags: 0,
+    frameWidth: seqHeader.maxFrameWidth,
+    frameHeight: seqHeader.maxFrameHeight,
+    upscaledWidth: seqHeader.maxFrameWidth,
+    useSuperres: false,
+    superresDenom: SUPERRES_NUM,
+    renderWidth: seqHeader.maxFrameWidth,
+    renderHeight: seqHeader.maxFrameHeight,
+    miCols: 0,
+    miRows: 0,
+    allowIntrabc: false,
+    disableFrameEndUpdateCdf: true,
+    tileInfo: {
+      uniformTileSpacing: true,
+      tileCols: 1,
+      tileRows: 1,
+      tileColsLog2: 0,
+      tileRowsLog2: 0,
+      miColStarts: [],
+      miRowStarts: [],
+      contextUpdateTileId: 0,
+      tileSizeBytes: 4,
+    },
+    quantization: {
+      baseQIdx: 0,
+      deltaQYDc: 0,
+      deltaQUDc: 0,
+      deltaQUAc: 0,
+      deltaQVDc: 0,
+      deltaQVAc: 0,
+      usingQmatrix: false,
+      qmY: 0,
+      qmU: 0,
+      qmV: 0,
+    },
+    segmentation: createEmptySegmentation(),
+    delta: {
+      deltaQPresent: false,
+      deltaQRes: 0,
+      deltaLfPresent: false,
+      deltaLfRes: 0,
+      deltaLfMulti: false,
+    },
+    losslessArray: Array.from({ length: MAX_SEGMENTS }, () => false),
+    codedLossless: false,
+    allLossless: false,
+    segQMLevel: [[], [], []],
+    loopFilter: {
+      level: [0, 0, 0, 0],
+      sharpness: 0,
+      deltaEnabled: true,
+      deltaUpdate: false,
+      refDeltas: [...DEFAULT_LOOP_FILTER_REF_DELTAS],
+      modeDeltas: [0, 0],
+    },
+    cdef: {
+      damping: 3,
+      bits: 0,
+      yPriStrength: [0],
+      ySecStrength: [0],
+      uvPriStrength: [0],
+      uvSecStrength: [0],
+    },
+    loopRestoration: {
+      type: [0, 0, 0],
+      unitSize: [RESTORATION_TILESIZE_MAX, RESTORATION_TILESIZE_MAX, RESTORATION_TILESIZE_MAX],
+      usesLr: false,
+      usesChromaLr: false,
+    },
+    txMode: 0,
+    referenceSelect: false,
+    skipModePresent: false,
+    allowWarpedMotion: false,
+    reducedTxSet: false,
+    filmGrain: createEmptyFilmGrain(),
+  }
+}
+
+function createEmptySegmentation(): SegmentationParams {
+  return {
+    enabled: false,
+    updateMap: false,
+    temporalUpdate: false,
+    updateData: false,
+    featureEnabled: Array.from({ length: MAX_SEGMENTS }, () => Array.from({ length: SEG_LVL_MAX }, () => false)),
+    featureData: Array.from({ length: MAX_SEGMENTS }, () => Array.from({ length: SEG_LVL_MAX }, () => 0)),
+    segIdPreSkip: false,
+    lastActiveSegId: 0,
+  }
+}
+
+function createEmptyFilmGrain(): FilmGrainParams {
+  return {
+    applyGrain: false,
+    grainSeed: 0,
+    updateGrain: false,
+    pointY: [],
+    chromaScalingFromLuma: false,
+    pointCb: [],
+    pointCr: [],
+    grainScalingMinus8: 0,
+    arCoeffLag: 0,
+    arCoeffsY: [],
+    arCoeffsCb: [],
+    arCoeffsCr: [],
+    arCoeffShiftMinus6: 0,
+    grainScaleShift: 0,
+    cbMult: 0,
+    cbLumaMult: 0,
+    cbOffset: 0,
+    crMult: 0,
+    crLumaMult: 0,
+    crOffset: 0,
+    overlapFlag: false,
+    clipToRestrictedRange: false,
+  }
+}
+
+/**
+ * frame_size() including superres_params() and compute_image_size()
+ */
+function readFrameSize(reader: BitReader, seqHeader: SequenceHeader, header: FrameHeader): void {
+  if (header.frameSizeOverride) {
+    header.frameWidth = reader.readBits(seqHeader.frameWidthBits) + 1
+    header.frameHeight = reader.readBits(seqHeader.frameHeightBits) + 1
+  }
+  else {
+    header.frameWidth = seqHeader.maxFrameWidth
+    header.frameHeight = seqHeader.maxFrameHeight
+  }
+
+  header.useSuperres = seqHeader.enableSuperres ? reader.readBit() === 1 : false
+  header.superresDenom = header.useSuperres
+    ? reader.readBits(SUPERRES_DENOM_BITS) + SUPERRES_DENOM_MIN
+    : SUPERRES_NUM
+  header.upscaledWidth = header.frameWidth
+  header.frameWidth = Math.floor(
+    (header.upscaledWidth * SUPERRES_NUM + (header.superresDenom >> 1)) / header.superresDenom,
+  )
+
+  header.miCols = 2 * ((header.frameWidth + 7) >> 3)
+  header.miRows = 2 * ((header.frameHeight + 7) >> 3)
+}
+
+/**
+ * render_size()
+ */
+function readRenderSize(reader: BitReader, header: FrameHeader): void {
+  if (reader.readBit()) {
+    header.renderWidth = reader.readBits(16) + 1
+    header.renderHeight = reader.readBits(16) + 1
+  }
+  else {
+    header.renderWidth = header.upscaledWidth
+    header.renderHeight = header.frameHeight
+  }
+}
+
+function tileLog2(blkSize: number, target: number): number {
+  let k = 0
+  while ((blkSize << k) < target) {
+    k++
+  }
+  return k
+}
+
+/**
+ * Superblock counts and tile count limits of a frame (the set-up of
+ * tile_info())
+ */
+interface TileLimits {
+  sbCols: number
+  sbRows: number
+  sbShift: number
+  maxTileWidthSb: number
+  minLog2TileCols: number
+  maxLog2TileCols: number
+  maxLog2TileRows: number
+  minLog2Tiles: number
+}
+
+function getTileLimits(seqHeader: SequenceHeader, header: FrameHeader): TileLimits {
+  const { miCols, miRows } = header
+  const sb128 = seqHeader.use128x128Superblock
+  const sbCols = sb128 ? (miCols + 31) >> 5 : (miCols + 15) >> 4
+  const sbRows = sb128 ? (miRows + 31) >> 5 : (miRows + 15) >> 4
+  const sbShift = sb128 ? 5 : 4
+  const sbSize = sbShift + 2
+  const maxTileWidthSb = MAX_TILE_WIDTH >> sbSize
+  const maxTileAreaSb = MAX_TILE_AREA >> (2 * sbSize)
+  const minLog2TileCols = tileLog2(maxTileWidthSb, sbCols)
+
+  return {
+    sbCols,
+    sbRows,
+    sbShift,
+    maxTileWidthSb,
+    minLog2TileCols,
+    maxLog2TileCols: tileLog2(1, Math.min(sbCols, MAX_TILE_COLS)),
+    maxLog2TileRows: tileLog2(1, Math.min(sbRows, MAX_TILE_ROWS)),
+    minLog2Tiles: Math.max(minLog2TileCols, tileLog2(maxTileAreaSb, sbRows * sbCols)),
+  }
+}
+
+/**
+ * Mode-info starts of uniformly spaced tiles along one dimension
+ */
+function uniformTileStarts(sbCount: number, log2: number, sbShift: number): number[] {
+  const starts: number[] = []
+  const tileSizeSb = (sbCount + (1 << log2) - 1) >> log2
+  for (let startSb = 0; startSb < sbCount; startSb += tileSizeSb) {
+    starts.push(startSb << sbShift)
+  }
+  return starts
+}
+
+/**
+ * tile_info()
+ */
+function readTileInfo(reader: BitReader, seqHeader: SequenceHeader, header: FrameHeader): TileInfo {
+  const { miCols, miRows } = header
+  const {
+    sbCols,
+    sbRows,
+    sbShift,
+    maxTileWidthSb,
+    minLog2TileCols,
+    maxLog2TileCols,
+    maxLog2TileRows,
+    minLog2Tiles,
+  } = getTileLimits(seqHeader, header)
+
+  let miColStarts: number[] = []
+  let miRowStarts: number[] = []
+  const uniformTileSpacing = reader.readBit() === 1
+  let tileColsLog2: number
+  let tileRowsLog2: number
+
+  if (uniformTileSpacing) {
+    tileColsLog2 = minLog2TileCols
+    while (tileColsLog2 < maxLog2TileCols && reader.readBit()) {
+      tileColsLog2++
+    }
+    miColStarts = uniformTileStarts(sbCols, tileColsLog2, sbShift)
+
+    tileRowsLog2 = Math.max(minLog2Tiles - tileColsLog2, 0)
+    while (tileRowsLog2 < maxLog2TileRows && reader.readBit()) {
+      tileRowsLog2++
+    }
+    miRowStarts = uniformTileStarts(sbRows, tileRowsLog2, sbShift)
+  }
+  else {
+    let widestTileSb = 0
+    for (let startSb = 0; startSb < sbCols;) {
+      miColStarts.push(startSb << sbShift)
+      const maxWidth = Math.min(sbCols - startSb, maxTileWidthSb)
+      const sizeSb = reader.readNs(maxWidth) + 1
+      widestTileSb = Math.max(sizeSb, widestTileSb)
+      startSb += sizeSb
+    }
+    tileColsLog2 = tileLog2(1, miColStarts.length)
+
+    const maxTileAreaSb = minLog2Tiles > 0
+      ? (sbRows * sbCols) >> (minLog2Tiles + 1)
+      : sbRows * sbCols
+    const maxTileHeightSb = Math.max(Math.floor(maxTileAreaSb / widestTileSb), 1)
+
+    for (let startSb = 0; startSb < sbRows;) {
+      miRowStarts.push(startSb << sbShift)
+      const maxHeight = Math.min(sbRows - startSb, maxTileHeightSb)
+      startSb += reader.readNs(maxHeight) + 1
+    }
+    tileRowsLog2 = tileLog2(1, miRowStarts.length)
+  }
+
+  const tileCols = miColStarts.length
+  const tileRows = miRowStarts.length
+  miColStarts.push(miCols)
+  miRowStarts.push(miRows)
+
+  let contextUpdateTileId = 0
+  let tileSizeBytes = 4
+
+  if (tileColsLog2 > 0 || tileRowsLog2 > 0) {
+    contextUpdateTileId = reader.readBits(tileRowsLog2 + tileColsLog2)
+    tileSizeBytes = reader.readBits(2) + 1
+  }
+
+  return {
+    uniformTileSpacing,
+    tileCols,
+    tileRows,
+    tileColsLog2,
+    tileRowsLog2,
+    miColStarts,
+    miRowStarts,
+    contextUpdateTileId,
+    tileSizeBytes,
+  }
+}
+
+/**
+ * tile_info() values for uniformly spaced tiles, using the fewest tiles the
+ * frame size allows
+ */
+function createUniformTileInfo(seqHeader: SequenceHeader, header: FrameHeader): TileInfo {
+  const { sbCols, sbRows, sbShift, minLog2TileCols, minLog2Tiles } = getTileLimits(seqHeader, header)
+  const tileColsLog2 = minLog2TileCols
+  const tileRowsLog2 = Math.max(minLog2Tiles - tileColsLog2, 0)
+  const miColStarts = uniformTileStarts(sbCols, tileColsLog2, sbShift)
+  const miRowStarts = uniformTileStarts(sbRows, tileRowsLog2, sbShift)
+
+  return {
+    uniformTileSpacing: true,
+    tileCols: miColStarts.length,
+    tileRows: miRowStarts.length,
+    tileColsLog2,
+    tileRowsLog2,
+    miColStarts: [...miColStarts, header.miCols],
+    miRowStarts: [...miRowStarts, header.miRows],
+    contextUpdateTileId: 0,
+    tileSizeBytes: 4,
+  }
+}
+
+/**
+ * Write tile_info() for uniformly spaced tiles
+ */
+function writeTileInfo(writer: BitWriter, seqHeader: SequenceHeader, header: FrameHeader): void {
+  const { uniformTileSpacing, tileColsLog2, tileRowsLog2, contextUpdateTileId, tileSizeBytes } = header.tileInfo
+  if (!uniformTileSpacing) {
+    throw new Error('Only uniformly spaced tiles can be written')
+  }
+
+  const { minLog2TileCols, maxLog2TileCols, maxLog2TileRows, minLog2Tiles } = getTileLimits(seqHeader, header)
+  writer.writeBit(1) // uniform_tile_spacing_flag
+  writeTileLog2(writer, tileColsLog2, minLog2TileCols, maxLog2TileCols)
+  writeTileLog2(writer, tileRowsLog2, Math.max(minLog2Tiles - tileColsLog2, 0), maxLog2TileRows)
+
+  if (tileColsLog2 > 0 || tileRowsLog2 > 0) {
+    writer.writeBits(contextUpdateTileId, tileRowsLog2 + tileColsLog2)
+    writer.writeBits(tileSizeBytes - 1, 2)
+  }
+}
+
+/**
+ * increment_tile_cols_log2 / increment_tile_rows_log2 flags counting up
+ * from `min` to `log2`
+ */
+function writeTileLog2(writer: BitWriter, log2: number, min: number, max: number): void {
+  if (log2 < min || log2 > max) {
+    throw new Error(`Tile log2 count ${log2} is outside ${min} to ${max} for this frame size`)
+  }
+  for (let i = min; i < log2; i++) {
+    writer.writeBit(1)
+  }
+  if (log2 < max) {
+    writer.writeBit(0)
+  }
+}
+
+function readDeltaQ(reader: BitReader): number {
+  return reader.readBit() ? reader.readSu(7) : 0
+}
+
+/**
+ * quantization_params()
+ */
+function readQuantizationParams(reader: BitReader, seqHeader: SequenceHeader): QuantizationParams {
+  const { numPlanes, separateUvDeltaQ } = seqHeader.colorConfig
+  const baseQIdx = reader.readBits(8)
+  const deltaQYDc = readDeltaQ(reader)
+  let deltaQUDc = 0
+  let deltaQUAc = 0
+  let deltaQVDc = 0
+  let deltaQVAc = 0
+
+  if (numPlanes > 1) {
+    const diffUvDelta = separateUvDeltaQ ? reader.readBit() === 1 : false
+    deltaQUDc = readDeltaQ(reader)
+    deltaQUAc = readDeltaQ(reader)
+    if (diffUvDelta) {
+      deltaQVDc = readDeltaQ(reader)
+      deltaQVAc = readDeltaQ(reader)
+    }
+    else {
+      deltaQVDc = deltaQUDc
+      deltaQVAc = deltaQUAc
+    }
+  }
+
+  const usingQmatrix = reader.readBit() === 1
+  let qmY = 0
+  let qmU = 0
+  let qmV = 0
+
+  if (usingQmatrix) {
+    qmY = reader.readBits(4)
+    qmU = reader.readBits(4)
+    qmV = separateUvDeltaQ ? reader.readBits(4) : qmU
+  }
+
+  return { baseQIdx, deltaQYDc, deltaQUDc, deltaQUAc, deltaQVDc, deltaQVAc, usingQmatrix, qmY, qmU, qmV }
+}
+
+function writeDeltaQ(writer: BitWriter, value: number): void {
+  writer.writeBit(value !== 0)
+  if (value !== 0) {
+    writer.writeSu(value, 7)
+  }
+}
+
+/**
+ * Write quantization_params()
+ */
+function writeQuantizationParams(writer: BitWriter, seqHeader: SequenceHeader, params: QuantizationParams): void {
+  const { numPlanes, separateUvDeltaQ } = seqHeader.colorConfig
+  writer.writeBits(params.baseQIdx, 8)
+  writeDeltaQ(writer, params.deltaQYDc)
+
+  if (numPlanes > 1) {
+    const diffUvDelta = params.deltaQVDc !== params.deltaQUDc || params.deltaQVAc !== params.deltaQUAc
+    if (separateUvDeltaQ) {
+      writer.writeBit(diffUvDelta)
+    }
+    else if (diffUvDelta) {
+      throw new Error('Separate U and V delta_q values require separate_uv_delta_q')
+    }
+    writeDeltaQ(writer, params.deltaQUDc)
+    writeDeltaQ(writer, params.deltaQUAc)
+    if (diffUvDelta) {
+      writeDeltaQ(writer, params.deltaQVDc)
+      writeDeltaQ(writer, params.deltaQVAc)
+    }
+  }
+
+  writer.writeBit(params.usingQmatrix)
+  if (params.usingQmatrix) {
+    writer.writeBits(params.qmY, 4)
+    writer.writeBits(params.qmU, 4)
+    if (separateUvDeltaQ) {
+      writer.writeBits(params.qmV, 4)
+    }
+    else if (params.qmV !== params.qmU) {
+      throw new Error('A separate qm_v requires separate_uv_delta_q')
+    }
+  }
+}
+
+/**
+ * segmentation_params() for frames without a primary reference frame
+ */
+function readSegmentationParams(reader: BitReader): SegmentationParams {
+  const params = createEmptySegmentation()
+  params.enabled = reader.readBit() === 1
+
+  if (params.enabled) {
+    params.updateMap = true
+    params.updateData = true
+
+    for (let i = 0; i < MAX_SEGMENTS; i++) {
+      for (let j = 0; j < SEG_LVL_MAX; j++) {
+        const enabled = reader.readBit() === 1
+        params.featureEnabled[i][j] = enabled
+        if (enabled) {
+          const bits = SEGMENTATION_FEATURE_BITS[j]
+          const limit = SEGMENTATION_FEATURE_MAX[j]
+          const value = SEGMENTATION_FEATURE_SIGNED[j] ? reader.readSu(1 + bits) : reader.readBits(bits)
+          params.featureData[i][j] = Math.max(SEGMENTATION_FEATURE_SIGNED[j] ? -limit : 0, Math.min(limit, value))
+        }
+      }
+    }
+
+    for (let i = 0; i < MAX_SEGMENTS; i++) {
+      for (let j = 0; j < SEG_LVL_MAX; j++) {
+        if (params.featureEnabled[i][j]) {
+          params.lastActiveSegId = i
+          if (j >= SEG_LVL_REF_FRAME) {
+            params.segIdPreSkip = true
+          }
+        }
+      }
+    }
+  }
+
+  return params
+}
+
+/**
+ * delta_q_params() and delta_lf_params()
+ */
+function readDeltaParams(reader: BitReader, header: FrameHeader): DeltaParams {
+  const params: DeltaParams = {
+    deltaQPresent: false,
+    deltaQRes: 0,
+    deltaLfPresent: false,
+    deltaLfRes: 0,
+    deltaLfMulti: false,
+  }
+
+  if (header.quantization.baseQIdx > 0) {
+    params.deltaQPresent = reader.readBit() === 1
+  }
+
+  if (params.deltaQPresent) {
+    params.deltaQRes = reader.readBits(2)
+
+    if (!header.allowIntrabc) {
+      params.deltaLfPresent = reader.readBit() === 1
+    }
+    if (params.deltaLfPresent) {
+      params.deltaLfRes = reader.readBits(2)
+      params.deltaLfMulti = reader.readBit() === 1
+    }
+  }
+
+  return params
+}
+
+/**
+ * Write delta_q_params() and delta_lf_params()
+ */
+function writeDeltaParams(writer: BitWriter, header: FrameHeader): void {
+  const { delta } = header
+  if (header.quantization.baseQIdx > 0) {
+    writer.writeBit(delta.deltaQPresent)
+  }
+  else if (delta.deltaQPresent) {
+    throw new Error('delta_q_present requires a non-zero base_q_idx')
+  }
+
+  if (delta.deltaQPresent) {
+    writer.writeBits(delta.deltaQRes, 2)
+    if (!header.allowIntrabc) {
+      writer.writeBit(delta.deltaLfPresent)
+    }
+    if (delta.deltaLfPresent) {
+      writer.writeBits(delta.deltaLfRes, 2)
+      writer.writeBit(delta.deltaLfMulti)
+    }
+  }
+}
+
+/**
+ * loop_filter_params()
+ */
+function readLoopFilterParams(reader: BitReader, seqHeader: SequenceHeader, header: FrameHeader): LoopFilterParams {
+  const params = header.loopFilter
+
+  if (header.codedLossless || header.allowIntrabc) {
+    params.refDeltas = [...DEFAULT_LOOP_FILTER_REF_DELTAS]
+    params.modeDeltas = [0, 0]
+    return params
+  }
+
+  params.level[0] = reader.readBits(6)
+  params.level[1] = reader.readBits(6)
+  if (seqHeader.colorConfig.numPlanes > 1 && (params.level[0] || params.level[1])) {
+    params.level[2] = reader.readBits(6)
+    params.level[3] = reader.readBits(6)
+  }
+
+  params.sharpness = reader.readBits(3)
+  params.deltaEnabled = reader.readBit() === 1
+
+  if (params.deltaEnabled) {
+    params.deltaUpdate = reader.readBit() === 1
+    if (params.deltaUpdate) {
+      for (let i = 0; i < NUM_REF_FRAMES; i++) {
+        if (reader.readBit()) {
+          params.refDeltas[i] = reader.readSu(7)
+        }
+      }
+      for (let i = 0; i < 2; i++) {
+        if (reader.readBit()) {
+          params.modeDeltas[i] = reader.readSu(7)
+        }
+      }
+    }
+  }
+
+  return params
+}
+
+/**
+ * Write loop_filter_params(); ref and mode deltas that differ from their
+ * defaults are sent as an update
+ */
+function writeLoopFilterParams(writer: BitWriter, seqHeader: SequenceHeader, header: FrameHeader): void {
+  const params = header.loopFilter
+  if (header.codedLossless || header.allowIntrabc) {
+    return
+  }
+
+  writer.writeBits(params.level[0], 6)
+  writer.writeBits(params.level[1], 6)
+  if (seqHeader.colorConfig.numPlanes > 1 && (params.level[0] || params.level[1])) {
+    writer.writeBits(params.level[2], 6)
+    writer.writeBits(params.level[3], 6)
+  }
+
+  writer.writeBits(params.sharpness, 3)
+  writer.writeBit(params.deltaEnabled)
+
+  if (params.deltaEnabled) {
+    const refChanged = params.refDeltas.map((delta, i) => delta !== DEFAULT_LOOP_FILTER_REF_DELTAS[i])
+    const modeChanged = params.modeDeltas.map(delta => delta !== 0)
+    const deltaUpdate = refChanged.includes(true) || modeChanged.includes(true)
+    writer.writeBit(deltaUpdate)
+    if (deltaUpdate) {
+      for (let i = 0; i < NUM_REF_FRAMES; i++) {
+        writer.writeBit(refChanged[i])
+        if (refChanged[i]) {
+          writer.writeSu(params.refDeltas[i], 7)
+        }
+      }
+      for (let i = 0; i < 2; i++) {
+        writer.writeBit(modeChanged[i])
+        if (modeChanged[i]) {
+          writer.writeSu(params.modeDeltas[i], 7)
+        }
+      }
+    }
+  }
+}
+
+/**
+ * cdef_params()
+ */
+function readCdefParams(reader: BitReader, seqHeader: SequenceHeader, header: FrameHeader): CdefParams {
+  const params = header.cdef
+
+  if (header.codedLossless || header.allowIntrabc || !seqHeader.enableCdef) {
+    return params
+  }
+
+  params.damping = reader.readBits(2) + 3
+  params.bits = reader.readBits(2)
+
+  for (let i = 0; i < (1 << params.bits); i++) {
+    params.yPriStrength[i] = reader.readBits(4)
+    params.ySecStrength[i] = reader.readBits(2)
+    if (params.ySecStrength[i] === 3) {
+      params.ySecStrength[i]++
+    }
+
+    if (seqHeader.colorConfig.numPlanes > 1) {
+      params.uvPriStrength[i] = reader.readBits(4)
+      params.uvSecStrength[i] = reader.readBits(2)
+      if (params.uvSecStrength[i] === 3) {
+        params.uvSecStrength[i]++
+      }
+    }
+  }
+
+  return params
+}
+
+/**
+ * cdef_sec_strength: a strength of 4 is coded as 3, and 3 cannot be coded
+ */
+function writeCdefSecStrength(writer: BitWriter, strength: number): void {
+  if (strength === 3) {
+    throw new Error('CDEF secondary strength 3 cannot be coded')
+  }
+  writer.writeBits(strength === 4 ? 3 : strength, 2)
+}
+
+/**
+ * Write cdef_params()
+ */
+function writeCdefParams(writer: BitWriter, seqHeader: SequenceHeader, header: FrameHeader): void {
+  const params = header.cdef
+  if (header.codedLossless || header.allowIntrabc || !seqHeader.enableCdef) {
+    return
+  }
+
+  writer.writeBits(params.damping - 3, 2)
+  writer.writeBits(params.bits, 2)
+  for (let i = 0; i < (1 << params.bits); i++) {
+    writer.writeBits(params.yPriStrength[i], 4)
+    writeCdefSecStrength(writer, params.ySecStrength[i])
+    if (seqHeader.colorConfig.numPlanes > 1) {
+      writer.writeBits(params.uvPriStrength[i], 4)
+      writeCdefSecStrength(writer, params.uvSecStrength[i])
+    }
+  }
+}
+
+/**
+ * lr_params()
+ */
+function readLrParams(reader: BitReader, seqHeader: SequenceHeader, header: FrameHeader): LoopRestorationParams {
+  const params = header.loopRestoration
+  const { numPlanes, subsamplingX, subsamplingY } = seqHeader.colorConfig
+
+  if (header.allLossless || header.allowIntrabc || !seqHeader.enableRestoration) {
+    return params
+  }
+
+  for (let i = 0; i < numPlanes; i++) {
+    params.type[i] = REMAP_LR_TYPE[reader.readBits(2)]
+    if (params.type[i] !== 0) {
+      params.usesLr = true
+      if (i > 0) {
+        params.usesChromaLr = true
+      }
+    }
+  }
+
+  if (params.usesLr) {
+    let lrUnitShift = reader.readBit()
+    if (seqHeader.use128x128Superblock) {
+      lrUnitShift++
+    }
+    else if (lrUnitShift) {
+      lrUnitShift += reader.readBit()
+    }
+
+    const lumaSize = RESTORATION_TILESIZE_MAX >> (2 - lrUnitShift)
+    const lrUvShift = subsamplingX && subsamplingY && params.usesChromaLr ? reader.readBit() : 0
+    params.unitSize = [lumaSize, lumaSize >> lrUvShift, lumaSize >> lrUvShift]
+  }
+
+  return params
+}
+
+/**
+ * Write lr_params()
+ */
+function writeLrParams(writer: BitWriter, seqHeader: SequenceHeader, header: FrameHeader): void {
+  const params = header.loopRestoration
+  const { numPlanes, subsamplingX, subsamplingY } = seqHeader.colorConfig
+  if (header.allLossless || header.allowIntrabc || !seqHeader.enableRestoration) {
+    return
+  }
+
+  for (let i = 0; i < numPlanes; i++) {
+    writer.writeBits(REMAP_LR_TYPE.indexOf(params.type[i]), 2)
+  }
+
+  if (params.usesLr) {
+    const lrUnitShift = Math.log2(params.unitSize[0] / (RESTORATION_TILESIZE_MAX >> 2))
+    if (!Number.isInteger(lrUnitShift) || lrUnitShift < (seqHeader.use128x128Superblock ? 1 : 0) || lrUnitShift > 2) {
+      throw new Error(`Invalid loop restoration unit size ${params.unitSize[0]}`)
+    }
+    if (seqHeader.use128x128Superblock) {
+      writer.writeBit(lrUnitShift - 1)
+    }
+    else {
+      writer.writeBit(lrUnitShift > 0)
+      if (lrUnitShift > 0) {
+        writer.writeBit(lrUnitShift - 1)
+      }
+    }
+    if (subsamplingX && subsamplingY && params.usesChromaLr) {
+      writer.writeBit(params.unitSize[1] < params.unitSize[0]) // lr_uv_shift
+    }
+  }
+}
+
+/**
+ * film_grain_params()
+ */
+function readFilmGrainParams(reader: BitReader, seqHeader: SequenceHeader, header: FrameHeader): FilmGrainParams {
+  const params = createEmptyFilmGrain()
+  const { monochrome, subsamplingX, subsamplingY } = seqHeader.colorConfig
+
+  if (!seqHeader.filmGrainParamsPresent || (!header.showFrame && !header.showableFrame)) {
+    return params
+  }
+
+  params.applyGrain = reader.readBit() === 1
+  if (!params.applyGrain) {
+    return params
+  }
+
+  params.grainSeed = reader.readBits(16)
+  params.updateGrain = header.frameType === FrameType.INTER_FRAME ? reader.readBit() === 1 : true
+
+  if (!params.updateGrain) {
+    params.filmGrainParamsRefIdx = reader.readBits(3)
+    return params
+  }
+
+  const numYPoints = reader.readBits(4)
+  for (let i = 0; i < numYPoints; i++) {
+    params.pointY.push([reader.readBits(8), reader.readBits(8)])
+  }
+
+  params.chromaScalingFromLuma = monochrome ? false : reader.readBit() === 1
+
+  if (!monochrome && !params.chromaScalingFromLuma && !(subsamplingX && subsamplingY && numYPoints === 0)) {
+    const numCbPoints = reader.readBits(4)
+    for (let i = 0; i < numCbPoints; i++) {
+      params.pointCb.push([reader.readBits(8), reader.readBits(8)])
+    }
+    const numCrPoints = reader.readBits(4)
+    for (let i = 0; i < numCrPoints; i++) {
+      params.pointCr.push([reader.readBits(8), reader.readBits(8)])
+    }
+  }
+
+  params.grainScalingMinus8 = reader.readBits(2)
+  params.arCoeffLag = reader.readBits(2)
+
+  const numPosLuma = 2 * params.arCoeffLag * (params.arCoeffLag + 1)
+  const numPosChroma = numYPoints ? numPosLuma + 1 : numPosLuma
+
+  if (numYPoints) {
+    for (let i = 0; i < numPosLuma; i++) {
+      params.arCoeffsY.push(reader.readBits(8) - 128)
+    }
+  }
+  if (params.chromaScalingFromLuma || params.pointCb.length) {
+    for (let i = 0; i < numPosChroma; i++) {
+      params.arCoeffsCb.push(reader.readBits(8) - 128)
+    }
+  }
+  if (params.chromaScalingFromLuma || params.pointCr.length) {
+    for (let i = 0; i < numPosChroma; i++) {
+      params.arCoeffsCr.push(reader.readBits(8) - 128)
+    }
+  }
+
+  params.arCoeffShiftMinus6 = reader.readBits(2)
+  params.grainScaleShift = reader.readBits(2)
+
+  if (params.pointCb.length) {
+    params.cbMult = reader.readBits(8)
+    params.cbLumaMult = reader.readBits(8)
+    params.cbOffset = reader.readBits(9)
+  }
+  if (params.pointCr.length) {
+    params.crMult = reader.readBits(8)
+    params.crLumaMult = reader.readBits(8)
+    params.crOffset = reader.readBits(9)
+  }
+
+  params.overlapFlag = reader.readBit() === 1
+  params.clipToRestrictedRange = reader.readBit() === 1
+
+  return params
+}
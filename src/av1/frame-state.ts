@@ -0,0 +1,152 @@
+import type { FrameHeader, SequenceHeader } from '../types'
+import { BLOCK_INVALID } from './tables'
+
+/** Loop restoration unit parameters are stored per plane */
+export interface RestorationUnits {
+  /** Units per row and column of the plane */
+  cols: number
+  rows: number
+  /** LrType per unit: 0 = none, 1 = Wiener, 2 = self-guided */
+  type: Uint8Array
+  /** LrWiener per unit: [pass][coeff], 2 passes of 3 coefficients */
+  wiener: Int8Array
+  /** LrSgrSet per unit */
+  sgrSet: Uint8Array
+  /** LrSgrXqd per unit: 2 projection weights */
+  sgrXqd: Int16Array
+}
+
+/**
+ * Everything decoded for the current frame: reconstructed planes plus the
+ * per-4x4 mode info the loop filter, CDEF and loop restoration read back.
+ * Mode info arrays are indexed by `miRow * miCols + miCol`.
+ */
+export interface FrameState {
+  seqHeader: SequenceHeader
+  frameHeader: FrameHeader
+  miRows: number
+  miCols: number
+  /** Reconstructed samples for each plane (Y, U, V) */
+  planes: Uint16Array[]
+  /** Row stride of each plane in samples */
+  strides: number[]
+  /** Allocated rows of each plane (padded up to a superblock multiple) */
+  planeHeights: number[]
+
+  /** MiSizes, where BLOCK_INVALID marks positions that have not been decoded yet */
+  miSizes: Uint8Array
+  yModes: Uint8Array
+  uvModes: Uint8Array
+  isInters: Uint8Array
+  skips: Uint8Array
+  segmentIds: Uint8Array
+  /** TxSize of each block (luma) */
+  txSizes: Uint8Array
+  /** InterTxSizes: the luma transform size covering each position */
+  interTxSizes: Uint8Array
+  /** TxTypes of luma transform blocks */
+  txTypes: Uint8Array
+  /** PaletteSizes for Y and UV */
+  paletteSizes: [Uint8Array, Uint8Array]
+  /** PaletteColors for Y and U, 8 entries per position */
+  paletteColors: [Uint16Array, Uint16Array]
+  /** DeltaLFs, 4 entries per position */
+  deltaLFs: Int8Array
+  /** Intra block copy vectors (row, col) in 1/8 sample units */
+  mvs: Int32Array
+  /** LoopfilterTxSizes per plane, indexed in plane 4x4 units with stride miCols */
+  loopfilterTxSizes: Uint8Array[]
+  /** cdef_idx per 64x64 block (-1 = not coded) */
+  cdefIdx: Int8Array
+  /** Stride of `cdefIdx` in 64x64 blocks */
+  cdefStride: number
+  /** Loop restoration parameters per plane */
+  restoration: RestorationUnits[]
+}
+
+/**
+ * count_units_in_frame()
+ */
+export function countUnitsInFrame(unitSize: number, frameSize: number): number {
+  return Math.max(Math.floor((frameSize + (unitSize >> 1)) / unitSize), 1)
+}
+
+interface TypedArrayConstructor<T> {
+  new (buffer: ArrayBufferLike): T
+  BYTES_PER_ELEMENT: number
+}
+
+/**
+ * Allocate the decoding state for a frame, with planes filled with the
+ * mid-grey value. With `shared`, every array is backed by a
+ * SharedArrayBuffer so tile workers can decode into the same frame.
+ */
+export function createFrameState(seqHeader: SequenceHeader, frameHeader: FrameHeader, shared = false): FrameState {
+  const alloc = <T>(Type: TypedArrayConstructor<T>, length: number): T => {
+    const byteLength = length * Type.BYTES_PER_ELEMENT
+    return new Type(shared ? new SharedArrayBuffer(byteLength) : new ArrayBuffer(byteLength))
+  }
+
+  const { miRows, miCols } = frameHeader
+  const { bitDepth, numPlanes, subsamplingX, subsamplingY } = seqHeader.colorConfig
+  const sbSize = seqHeader.use128x128Superblock ? 128 : 64
+  const lumaWidth = Math.ceil(miCols * 4 / sbSize) * sbSize
+  const lumaHeight = Math.ceil(miRows * 4 / sbSize) * sbSize
+  const count = miRows * miCols
+
+  const planes: Uint16Array[] = []
+  const strides: number[] = []
+  const planeHeights: number[] = []
+  const restoration: RestorationUnits[] = []
+
+  for (let plane = 0; plane < numPlanes; plane++) {
+    const subX = plane > 0 ? subsamplingX : 0
+    const subY = plane > 0 ? subsamplingY : 0
+    const width = lumaWidth >> subX
+    const height = lumaHeight >> subY
+    planes.push(alloc(Uint16Array, width * height).fill(1 << (bitDepth - 1)))
+    strides.push(width)
+    planeHeights.push(height)
+
+    const unitSize = frameHeader.loopRestoration.unitSize[plane]
+    const cols = countUnitsInFrame(unitSize, (frameHeader.upscaledWidth + subX) >> subX)
+    const rows = countUnitsInFrame(unitSize, (frameHeader.frameHeight + subY) >> subY)
+    restoration.push({
+      cols,
+      rows,
+      type: alloc(Uint8Array, cols * rows),
+      wiener: alloc(Int8Array, cols * rows * 6),
+      sgrSet: alloc(Uint8Array, cols * rows),
+      sgrXqd: alloc(Int16Array, cols * rows * 2),
+    })
+  }
+
+  const cdefStride = (miCols + 15) >> 4
+
+  return {
+    seqHeader,
+    frameHeader,
+    miRows,
+    miCols,
+    planes,
+    strides,
+    planeHeights,
+    miSizes: alloc(Uint8Array, count).fill(BLOCK_INVALID),
+    yModes: alloc(Uint8Array, count),
+    uvModes: alloc(Uint8Array, count),
+    isInters: alloc(Uint8Array, count),
+    skips: alloc(Uint8Array, count),
+    segmentIds: alloc(Uint8Array, count),
+    txSizes: alloc(Uint8Array, count),
+    interTxSizes: alloc(Uint8Array, count),
+    txTypes: alloc(Uint8Array, count),
+    paletteSizes: [alloc(Uint8Array, count), alloc(Uint8Array, count)],
+    paletteColors: [alloc(Uint16Array, count * 8), alloc(Uint16Array, count * 8)],
+    deltaLFs: alloc(Int8Array, count * 4),
+    mvs: alloc(Int32Array, count * 2),
+    loopfilterTxSizes: Array.from({ length: numPlanes }, () => alloc(Uint8Array, count)),
+    cdefIdx: alloc(Int8Array, cdefStride * ((miRows + 15) >> 4)).fill(-1),
+    cdefStride,
+    restoration,
+  }
+}
@@ -0,0 +1,769 @@
+import {
+  D67_PRED,
+  DC_PRED,
+  PAETH_PRED,
+  SMOOTH_H_PRED,
+  SMOOTH_PRED,
+  SMOOTH_V_PRED,
+  V_PRED,
+} from './tables'
+
+const ANGLE_STEP = 3
+const INTRA_FILTER_SCALE_BITS = 4
+
+/** Edge buffers store AboveRow[-EDGE_OFFSET..] and LeftCol[-EDGE_OFFSET..] */
+export const EDGE_OFFSET = 16
+const EDGE_SIZE = EDGE_OFFSET + 2 * (64 + 64) + 16
+
+/** Mode_To_Angle: nominal angle of each directional mode in degrees */
+export const MODE_TO_ANGLE = [0, 90, 180, 45, 135, 113, 157, 203, 67, 0, 0, 0, 0]
+
+/** Dr_Intra_Derivative, indexed by angle */
+const DR_INTRA_DERIVATIVE: number[] = (() => {
+  const table: number[] = Array.from({ length: 90 }, () => 0)
+  const entries = [
+    [3, 1023],
+    [6, 547],
+    [9, 372],
+    [14, 273],
+    [17, 215],
+    [20, 178],
+    [23, 151],
+    [26, 132],
+    [29, 116],
+    [32, 102],
+    [36, 90],
+    [39, 80],
+    [42, 71],
+    [45, 64],
+    [48, 57],
+    [51, 51],
+    [54, 45],
+    [58, 40],
+    [61, 35],
+    [64, 31],
+    [67, 27],
+    [70, 23],
+    [73, 19],
+    [76, 15],
+    [81, 11],
+    [84, 7],
+    [87, 3],
+  ]
+  for (const [angle, value] of entries)
+    table[angle] = value
+  return table
+})()
+
+/** Sm_Weights_Tx_4x4 .. Sm_Weights_Tx_64x64, indexed by log2 of the size */
+const SM_WEIGHTS: number[][] = [
+  [],
+  [],
+  [255, 149, 85, 64],
+  [255, 197, 146, 105, 73, 50, 37, 32],
+  [255, 225, 196, 170, 145, 123, 102, 84, 68, 54, 43, 33, 26, 20, 17, 16],
+  [
+    255, 240, 225, 210, 196, 182, 169, 157, 145, 133, 122, 111, 101, 92, 83, 74,
+    66, 59, 52, 45, 39, 34, 29, 25, 21, 17, 14, 12, 10, 9, 8, 8,
+  ],
+  [
+    255, 248, 240, 233, 225, 218, 210, 203, 196, 189, 182, 176, 169, 163, 156, 150,
+    144, 138, 133, 127, 121, 116, 111, 106, 101, 96, 91, 86, 82, 77, 73, 69,
+    65, 61, 57, 54, 50, 47, 44, 41, 38, 35, 32, 29, 27, 25, 22, 20,
+    18, 16, 15, 13, 12, 10, 9, 8, 7, 6, 6, 5, 5, 4, 4, 4,
+  ],
+]
+
+/** Intra_Filter_Taps[mode][output][tap] for recursive filter intra prediction */
+const INTRA_FILTER_TAPS = [
+  [
+    [-6, 10, 0, 0, 0, 12, 0],
+    [-5, 2, 10, 0, 0, 9, 0],
+    [-3, 1, 1, 10, 0, 7, 0],
+    [-3, 1, 1, 2, 10, 5, 0],
+    [-4, 6, 0, 0, 0, 2, 12],
+    [-3, 2, 6, 0, 0, 2, 9],
+    [-3, 2, 2, 6, 0, 2, 7],
+    [-3, 1, 2, 2, 6, 3, 5],
+  ],
+  [
+    [-10, 16, 0, 0, 0, 10, 0],
+    [-6, 0, 16, 0, 0, 6, 0],
+    [-4, 0, 0, 16, 0, 4, 0],
+    [-2, 0, 0, 0, 16, 2, 0],
+    [-10, 16, 0, 0, 0, 0, 10],
+    [-6, 0, 16, 0, 0, 0, 6],
+    [-4, 0, 0, 16, 0, 0, 4],
+    [-2, 0, 0, 0, 16, 0, 2],
+  ],
+  [
+    [-8, 8, 0, 0, 0, 16, 0],
+    [-8, 0, 8, 0, 0, 16, 0],
+    [-8, 0, 0, 8, 0, 16, 0],
+    [-8, 0, 0, 0, 8, 16, 0],
+    [-4, 4, 0, 0, 0, 0, 16],
+    [-4, 0, 4, 0, 0, 0, 16],
+    [-4, 0, 0, 4, 0, 0, 16],
+    [-4, 0, 0, 0, 4, 0, 16],
+  ],
+  [
+    [-2, 8, 0, 0, 0, 10, 0],
+    [-1, 3, 8, 0, 0, 6, 0],
+    [-1, 2, 3, 8, 0, 4, 0],
+    [0, 1, 2, 3, 8, 2, 0],
+    [-1, 4, 0, 0, 0, 3, 10],
+    [-1, 3, 4, 0, 0, 4, 6],
+    [-1, 2, 3, 4, 0, 4, 4],
+    [-1, 2, 2, 3, 4, 3, 3],
+  ],
+  [
+    [-12, 14, 0, 0, 0, 14, 0],
+    [-10, 0, 14, 0, 0, 12, 0],
+    [-9, 0, 0, 14, 0, 11, 0],
+    [-8, 0, 0, 0, 14, 10, 0],
+    [-10, 12, 0, 0, 0, 0, 14],
+    [-9, 1, 12, 0, 0, 0, 12],
+    [-8, 0, 0, 12, 0, 1, 11],
+    [-7, 0, 0, 1, 12, 1, 9],
+  ],
+]
+
+const INTRA_EDGE_KERNEL = [
+  [0, 4, 8, 4, 0],
+  [0, 5, 6, 5, 0],
+  [2, 4, 4, 4, 2],
+]
+
+/**
+ * A block to predict in a plane of reconstructed samples, together with the
+ * availability of its neighbours (the inputs of predict_intra)
+ */
+export interface IntraPredictionParams {
+  /** Samples of the plane, the prediction is written in place */
+  plane: Uint16Array
+  stride: number
+  /** Top-left sample of the block */
+  x: number
+  y: number
+  log2W: number
+  log2H: number
+  /** Last sample column and row that may be referenced */
+  maxX: number
+  maxY: number
+  haveLeft: boolean
+  haveAbove: boolean
+  haveAboveRight: boolean
+  haveBelowLeft: boolean
+  /** Intra prediction mode (DC_PRED .. PAETH_PRED) */
+  mode: number
+  /** Angle delta in steps of 3 degrees, for directional modes */
+  angleDelta: number
+  /** Filter intra mode, or -1 when filter intra is not used */
+  filterIntraMode: number
+  bitDepth: number
+  /** enable_intra_edge_filter from the sequence header */
+  enableIntraEdgeFilter: boolean
+  /** get_filter_type(): whether the above or left block uses a smooth mode */
+  smoothNeighbor: boolean
+}
+
+const aboveRow = new Int32Array(EDGE_SIZE)
+const leftCol = new Int32Array(EDGE_SIZE)
+
+/**
+ * Predict a block from its neighbouring samples (predict_intra, AV1 spec
+ * section 7.11.2)
+ */
+export function predictIntra(params: IntraPredictionParams): void {
+  const { plane, stride, x, y, log2W, log2H, maxX, maxY, haveLeft, haveAbove, bitDepth } = params
+  const w = 1 << log2W
+  const h = 1 << log2H
+  const o = EDGE_OFFSET
+
+  if (!haveAbove && haveLeft) {
+    aboveRow.fill(plane[y * stride + x - 1], o, o + w + h)
+  }
+  else if (!haveAbove) {
+    aboveRow.fill((1 << (bitDepth - 1)) - 1, o, o + w + h)
+  }
+  else {
+    const aboveLimit = Math.min(maxX, x + (params.haveAboveRight ? 2 * w : w) - 1)
+    const row = (y - 1) * stride
+    for (let i = 0; i < w + h; i++)
+      aboveRow[o + i] = plane[row + Math.min(aboveLimit, x + i)]
+  }
+
+  if (!haveLeft && haveAbove) {
+    leftCol.fill(plane[(y - 1) * stride + x], o, o + w + h)
+  }
+  else if (!haveLeft) {
+    leftCol.fill((1 << (bitDepth - 1)) + 1, o, o + w + h)
+  }
+  else {
+    const leftLimit = Math.min(maxY, y + (params.haveBelowLeft ? 2 * h : h) - 1)
+    for (let i = 0; i < w + h; i++)
+      leftCol[o + i] = plane[Math.min(leftLimit, y + i) * stride + x - 1]
+  }
+
+  let corner: number
+  if (haveAbove && haveLeft)
+    corner = plane[(y - 1) * stride + x - 1]
+  else if (haveAbove)
+    corner = plane[(y - 1) * stride + x]
+  else if (haveLeft)
+    corner = plane[y * stride + x - 1]
+  else
+    corner = 1 << (bitDepth - 1)
+  aboveRow[o - 1] = corner
+  leftCol[o - 1] = corner
+
+  const dst = y * stride + x
+  const { mode } = params
+
+  if (params.filterIntraMode >= 0) {
+    predictFilterIntra(plane, dst, stride, aboveRow, leftCol, w, h, params.filterIntraMode, bitDepth)
+  }
+  else if (mode >= V_PRED && mode <= D67_PRED) {
+    const pAngle = MODE_TO_ANGLE[mode] + params.angleDelta * ANGLE_STEP
+    let upsampleAbove = 0
+    let upsampleLeft = 0
+
+    if (params.enableIntraEdgeFilter) {
+      const filterType = params.smoothNeighbor ? 1 : 0
+      if (pAngle !== 90 && pAngle !== 180) {
+        if (pAngle > 90 && pAngle < 180 && w + h >= 24) {
+          // Filter the corner sample shared by both edges
+          const filtered = (leftCol[o] * 5 + aboveRow[o - 1] * 6 + aboveRow[o] * 5 + 8) >> 4
+          aboveRow[o - 1] = filtered
+          leftCol[o - 1] = filtered
+        }
+        if (haveAbove) {
+          const strength = getIntraEdgeFilterStrength(w, h, filterType, pAngle - 90)
+          const numPx = Math.min(w, maxX - x + 1) + (pAngle < 90 ? h : 0) + 1
+          filterIntraEdge(aboveRow, numPx, strength)
+        }
+        if (haveLeft) {
+          const strength = getIntraEdgeFilterStrength(w, h, filterType, pAngle - 180)
+          const numPx = Math.min(h, maxY - y + 1) + (pAngle > 180 ? w : 0) + 1
+          filterIntraEdge(leftCol, numPx, strength)
+        }
+      }
+
+      upsampleAbove = useIntraEdgeUpsample(w, h, filterType, pAngle - 90) ? 1 : 0
+      if (upsampleAbove)
+        upsampleIntraEdge(aboveRow, w + (pAngle < 90 ? h : 0), bitDepth)
+      upsampleLeft = useIntraEdgeUpsample(w, h, filterType, pAngle - 180) ? 1 : 0
+      if (upsampleLeft)
+        upsampleIntraEdge(leftCol, h + (pAngle > 180 ? w : 0), bitDepth)
+    }
+
+    predictDirectional(plane, dst, stride, aboveRow, leftCol, w, h, pAngle, upsampleAbove, upsampleLeft)
+  }
+  else if (mode === SMOOTH_PRED || mode === SMOOTH_V_PRED || mode === SMOOTH_H_PRED) {
+    predictSmooth(plane, dst, stride, aboveRow, leftCol, log2W, log2H, mode)
+  }
+  else if (mode === DC_PRED) {
+    predictDc(plane, dst, stride, aboveRow, leftCol, log2W, log2H, haveAbove, haveLeft, bitDepth)
+  }
+  else if (mode === PAETH_PRED) {
+    predictPaeth(plane, dst, stride, aboveRow, leftCol, w, h)
+  }
+  else {
+    throw new Error(`Invalid intra prediction mode: ${mode}`)
+  }
+}
+
+/**
+ * DC intra prediction: the average of the available edge samples
+ */
+export function predictDc(
+  dst: Uint16Array,
+  offset: number,
+  stride: number,
+  above: Int32Array,
+  left: Int32Array,
+  log2W: number,
+  log2H: number,
+  haveAbove: boolean,
+  haveLeft: boolean,
+  bitDepth: number,
+): void {
+  const w = 1 << log2W
+  const h = 1 << log2H
+  const o = EDGE_OFFSET
+  let avg: number
+
+  if (haveAbove && haveLeft) {
+    let sum = 0
+    for (let k = 0; k < w; k++)
+      sum += above[o + k]
+    for (let k = 0; k < h; k++)
+      sum += left[o + k]
+    avg = Math.floor((sum + ((w + h) >> 1)) / (w + h))
+  }
+  else if (haveLeft) {
+    let sum = 0
+    for (let k = 0; k < h; k++)
+      sum += left[o + k]
+    avg = (sum + (h >> 1)) >> log2H
+  }
+  else if (haveAbove) {
+    let sum = 0
+    for (let k = 0; k < w; k++)
+      sum += above[o + k]
+    avg = (sum + (w >> 1)) >> log2W
+  }
+  else {
+    avg = 1 << (bitDepth - 1)
+  }
+
+  for (let i = 0; i < h; i++)
+    dst.fill(avg, offset + i * stride, offset + i * stride + w)
+}
+
+/**
+ * Paeth intra prediction: each sample copies whichever of the left, above
+ * and top-left neighbours is closest to left + above - topLeft
+ */
+export function predictPaeth(
+  dst: Uint16Array,
+  offset: number,
+  stride: number,
+  above: Int32Array,
+  left: Int32Array,
+  w: number,
+  h: number,
+): void {
+  const o = EDGE_OFFSET
+  const topLeft = above[o - 1]
+
+  for (let i = 0; i < h; i++) {
+    for (let j = 0; j < w; j++) {
+      const base = above[o + j] + left[o + i] - topLeft
+      const pLeft = Math.abs(base - left[o + i])
+      const pTop = Math.abs(base - above[o + j])
+      const pTopLeft = Math.abs(base - topLeft)
+      let pred: number
+      if (pLeft <= pTop && pLeft <= pTopLeft)
+        pred = left[o + i]
+      else if (pTop <= pTopLeft)
+        pred = above[o + j]
+      else
+        pred = topLeft
+      dst[offset + i * stride + j] = pred
+    }
+  }
+}
+
+/**
+ * SMOOTH_PRED, SMOOTH_V_PRED and SMOOTH_H_PRED: quadratic interpolation
+ * between the edges and the bottom-left / top-right samples
+ */
+export function predictSmooth(
+  dst: Uint16Array,
+  offset: number,
+  stride: number,
+  above: Int32Array,
+  left: Int32Array,
+  log2W: number,
+  log2H: number,
+  mode: number,
+): void {
+  const w = 1 << log2W
+  const h = 1 << log2H
+  const o = EDGE_OFFSET
+  const weightsX = SM_WEIGHTS[log2W]
+  const weightsY = SM_WEIGHTS[log2H]
+  const bottomLeft = left[o + h - 1]
+  const topRight = above[o + w - 1]
+
+  for (let i = 0; i < h; i++) {
+    for (let j = 0; j < w; j++) {
+      let pred: number
+      if (mode === SMOOTH_PRED) {
+        pred = (weightsY[i] * above[o + j] + (256 - weightsY[i]) * bottomLeft
+          + weightsX[j] * left[o + i] + (256 - weightsX[j]) * topRight + 256) >> 9
+      }
+      else if (mode === SMOOTH_V_PRED) {
+        pred = (weightsY[i] * above[o + j] + (256 - weightsY[i]) * bottomLeft + 128) >> 8
+      }
+      else {
+        pred = (weightsX[j] * left[o + i] + (256 - weightsX[j]) * topRight + 128) >> 8
+      }
+      dst[offset + i * stride + j] = pred
+    }
+  }
+}
+
+/**
+ * Directional intra prediction along `pAngle` degrees, from edges that may
+ * have been upsampled by a factor of two
+ */
+export function predictDirectional(
+  dst: Uint16Array,
+  offset: number,
+  stride: number,
+  above: Int32Array,
+  left: Int32Array,
+  w: number,
+  h: number,
+  pAngle: number,
+  upsampleAbove: number,
+  upsampleLeft: number,
+): void {
+  const o = EDGE_OFFSET
+  let dx = 0
+  let dy = 0
+  if (pAngle < 90)
+    dx = DR_INTRA_DERIVATIVE[pAngle]
+  else if (pAngle > 90 && pAngle < 180)
+    dx = DR_INTRA_DERIVATIVE[180 - pAngle]
+  if (pAngle > 90 && pAngle < 180)
+    dy = DR_INTRA_DERIVATIVE[pAngle - 90]
+  else if (pAngle > 180)
+    dy = DR_INTRA_DERIVATIVE[270 - pAngle]
+
+  for (let i = 0; i < h; i++) {
+    const row = offset + i * stride
+    for (let j = 0; j < w; j++) {
+      let pred: number
+      if (pAngle < 90) {
+        const idx = (i + 1) * dx
+        const base = (idx >> (6 - upsampleAbove)) + (j << upsampleAbove)
+        const shift = ((idx << upsampleAbove) >> 1) & 0x1F
+        const maxBaseX = (w + h - 1) << upsampleAbove
+        if (base < maxBaseX)
+          pred = (above[o + base] * (32 - shift) + above[o + base + 1] * shift + 16) >> 5
+        else
+          pred = above[o + maxBaseX]
+      }
+      else if (pAngle > 90 && pAngle < 180) {
+        const idx = (j << 6) - (i + 1) * dx
+        const base = idx >> (6 - upsampleAbove)
+        if (base >= -(1 << upsampleAbove)) {
+          const shift = ((idx << upsampleAbove) >> 1) & 0x1F
+          pred = (above[o + base] * (32 - shift) + above[o + base + 1] * shift + 16) >> 5
+        }
+        else {
+          const idy = (i << 6) - (j + 1) * dy
+          const baseY = idy >> (6 - upsampleLeft)
+          const shift = ((idy << upsampleLeft) >> 1) & 0x1F
+          pred = (left[o + baseY] * (32 - shift) + left[o + baseY + 1] * shift + 16) >> 5
+        }
+      }
+      else if (pAngle > 180) {
+        const idx = (j + 1) * dy
+        const base = (idx >> (6 - upsampleLeft)) + (i << upsampleLeft)
+        const shift = ((idx << upsampleLeft) >> 1) & 0x1F
+        const maxBaseY = (w + h - 1) << upsampleLeft
+        if (base < maxBaseY)
+          pred = (left[o + base] * (32 - shift) + left[o + base + 1] * shift + 16) >> 5
+        else
+          pred = left[o + maxBaseY]
+      }
+      else if (pAngle === 90) {
+        pred = above[o + j]
+      }
+      else {
+        pred = left[o + i]
+      }
+      dst[row + j] = pred
+    }
+  }
+}
+
+/**
+ * Recursive filter intra prediction: 4x2 patches are predicted from the 7
+ * samples above and to the left of them
+ */
+export function predictFilterIntra(
+  dst: Uint16Array,
+  offset: number,
+  stride: number,
+  above: Int32Array,
+  left: Int32Array,
+  w: number,
+  h: number,
+  filterIntraMode: number,
+  bitDepth: number,
+): void {
+  const o = EDGE_OFFSET
+  const taps = INTRA_FILTER_TAPS[filterIntraMode]
+  const maxValue = (1 << bitDepth) - 1
+  const p = [0, 0, 0, 0, 0, 0, 0]
+
+  for (let i2 = 0; i2 < h >> 1; i2++) {
+    for (let j4 = 0; j4 < w >> 2; j4++) {
+      const r = i2 << 1
+      const c = j4 << 2
+      for (let i = 0; i < 7; i++) {
+        if (i < 5) {
+          if (i2 === 0)
+            p[i] = above[o + c + i - 1]
+          else if (j4 === 0 && i === 0)
+            p[i] = left[o + r - 1]
+          else
+            p[i] = dst[offset + (r - 1) * stride + c + i - 1]
+        }
+        else if (j4 === 0) {
+          p[i] = left[o + r + i - 5]
+        }
+        else {
+          p[i] = dst[offset + (r + i - 5) * stride + c - 1]
+        }
+      }
+
+      for (let i = 0; i < 8; i++) {
+        let pr = 0
+        for (let j = 0; j < 7; j++)
+          pr += taps[i][j] * p[j]
+        const v = pr < 0 ? -((-pr + 8) >> INTRA_FILTER_SCALE_BITS) : (pr + 8) >> INTRA_FILTER_SCALE_BITS
+        dst[offset + (r + (i >> 2)) * stride + c + (i & 3)] = Math.max(0, Math.min(maxValue, v))
+      }
+    }
+  }
+}
+
+/**
+ * Chroma from luma prediction: add the scaled AC part of the co-located
+ * luma samples to the DC prediction already in the chroma block. Luma
+ * outside `maxLumaW` x `maxLumaH` (the decoded part) is replicated.
+ */
+export function predictChromaFromLuma(
+  chroma: Uint16Array,
+  chromaStride: number,
+  luma: Uint16Array,
+  lumaStride: number,
+  startX: number,
+  startY: number,
+  log2W: number,
+  log2H: number,
+  subX: number,
+  subY: number,
+  maxLumaW: number,
+  maxLumaH: number,
+  alpha: number,
+  bitDepth: number,
+): void {
+  const w = 1 << log2W
+  const h = 1 << log2H
+  const maxValue = (1 << bitDepth) - 1
+  const lumaX0 = startX << subX
+  const lumaY0 = startY << subY
+  const lumaW = Math.max(1, (maxLumaW - lumaX0) >> subX)
+  const lumaH = Math.max(1, (maxLumaH - lumaY0) >> subY)
+  const values = new Int32Array(w * h)
+  let lumaAvg = 0
+
+  for (let i = 0; i < h; i++) {
+    const lumaY = lumaY0 + (Math.min(i, lumaH - 1) << subY)
+    for (let j = 0; j < w; j++) {
+      const lumaX = lumaX0 + (Math.min(j, lumaW - 1) << subX)
+      let t = 0
+      for (let dy = 0; dy <= subY; dy++) {
+        for (let dx = 0; dx <= subX; dx++)
+          t += luma[(lumaY + dy) * lumaStride + lumaX + dx]
+      }
+      const v = t << (3 - subX - subY)
+      values[i * w + j] = v
+      lumaAvg += v
+    }
+  }
+  lumaAvg = (lumaAvg + ((1 << (log2W + log2H)) >> 1)) >> (log2W + log2H)
+
+  for (let i = 0; i < h; i++) {
+    for (let j = 0; j < w; j++) {
+      const idx = (startY + i) * chromaStride + startX + j
+      const scaled = alpha * (values[i * w + j] - lumaAvg)
+      const scaledLuma = scaled < 0 ? -((-scaled + 32) >> 6) : (scaled + 32) >> 6
+      chroma[idx] = Math.max(0, Math.min(maxValue, chroma[idx] + scaledLuma))
+    }
+  }
+}
+
+/**
+ * Palette prediction: map color indices (`map`, row stride `mapStride`) to
+ * palette colors
+ */
+export function predictPalette(
+  dst: Uint16Array,
+  offset: number,
+  stride: number,
+  palette: ArrayLike<number>,
+  map: Uint8Array,
+  mapOffset: number,
+  mapStride: number,
+  w: number,
+  h: number,
+): void {
+  for (let i = 0; i < h; i++) {
+    for (let j = 0; j < w; j++)
+      dst[offset + i * stride + j] = palette[map[mapOffset + i * mapStride + j]]
+  }
+}
+
+/**
+ * Intra block copy: predict a block from already decoded samples of the
+ * same plane displaced by `mvRow`, `mvCol` (1/8 luma samples). Chroma
+ * vectors can land between samples and use the bilinear filter.
+ */
+export function predictIntraBlockCopy(
+  plane: Uint16Array,
+  stride: number,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  mvRow: number,
+  mvCol: number,
+  subX: number,
+  subY: number,
+  lastX: number,
+  lastY: number,
+  bitDepth: number,
+): void {
+  const round0 = bitDepth === 12 ? 5 : 3
+  const round1 = bitDepth === 12 ? 9 : 11
+  const maxValue = (1 << bitDepth) - 1
+  // Positions in 1/1024 sample units (the motion vector scaling process
+  // without reference scaling)
+  const startX = (((x << 4) + ((2 * mvCol) >> subX)) << 6) + 32
+  const startY = (((y << 4) + ((2 * mvRow) >> subY)) << 6) + 32
+  const fracX = ((startX & 1023) >> 6) * 8
+  const fracY = ((startY & 1023) >> 6) * 8
+  const intX = startX >> 10
+  const intY = startY >> 10
+  const intermediate = new Int32Array((h + 1) * w)
+
+  // Only taps 3 and 4 of the bilinear filter are non-zero
+  for (let r = 0; r < h + 1; r++) {
+    const row = Math.max(0, Math.min(lastY, intY + r)) * stride
+    for (let c = 0; c < w; c++) {
+      const x0 = Math.max(0, Math.min(lastX, intX + c))
+      const x1 = Math.max(0, Math.min(lastX, intX + c + 1))
+      const sum = (128 - fracX) * plane[row + x0] + fracX * plane[row + x1]
+      intermediate[r * w + c] = (sum + ((1 << round0) >> 1)) >> round0
+    }
+  }
+
+  for (let r = 0; r < h; r++) {
+    for (let c = 0; c < w; c++) {
+      const sum = (128 - fracY) * intermediate[r * w + c] + fracY * intermediate[(r + 1) * w + c]
+      const pred = (sum + ((1 << round1) >> 1)) >> round1
+      plane[(y + r) * stride + x + c] = Math.max(0, Math.min(maxValue, pred))
+    }
+  }
+}
+
+/**
+ * intra_edge_filter_strength_selection()
+ */
+function getIntraEdgeFilterStrength(w: number, h: number, filterType: number, delta: number): number {
+  const d = Math.abs(delta)
+  const blkWh = w + h
+  let strength = 0
+
+  if (filterType === 0) {
+    if (blkWh <= 8) {
+      if (d >= 56)
+        strength = 1
+    }
+    else if (blkWh <= 16) {
+      if (d >= 40)
+        strength = 1
+    }
+    else if (blkWh <= 24) {
+      if (d >= 8)
+        strength = 1
+      if (d >= 16)
+        strength = 2
+      if (d >= 32)
+        strength = 3
+    }
+    else if (blkWh <= 32) {
+      if (d >= 1)
+        strength = 1
+      if (d >= 4)
+        strength = 2
+      if (d >= 32)
+        strength = 3
+    }
+    else if (d >= 1) {
+      strength = 3
+    }
+  }
+  else {
+    if (blkWh <= 8) {
+      if (d >= 40)
+        strength = 1
+      if (d >= 64)
+        strength = 2
+    }
+    else if (blkWh <= 16) {
+      if (d >= 20)
+        strength = 1
+      if (d >= 48)
+        strength = 2
+    }
+    else if (blkWh <= 24) {
+      if (d >= 4)
+        strength = 3
+    }
+    else if (d >= 1) {
+      strength = 3
+    }
+  }
+
+  return strength
+}
+
+/**
+ * intra_edge_upsample_selection()
+ */
+function useIntraEdgeUpsample(w: number, h: number, filterType: number, delta: number): boolean {
+  const d = Math.abs(delta)
+  if (d <= 0 || d >= 40)
+    return false
+  return filterType === 0 ? w + h <= 16 : w + h <= 8
+}
+
+/**
+ * Smooth `numPx` edge samples starting at index -1 with a 5-tap kernel
+ */
+function filterIntraEdge(edge: Int32Array, numPx: number, strength: number): void {
+  if (strength === 0)
+    return
+
+  const o = EDGE_OFFSET - 1
+  const kernel = INTRA_EDGE_KERNEL[strength - 1]
+  const copy = edge.slice(o, o + numPx)
+  for (let i = 1; i < numPx; i++) {
+    let s = 0
+    for (let j = 0; j < 5; j++) {
+      const k = Math.max(0, Math.min(numPx - 1, i - 2 + j))
+      s += kernel[j] * copy[k]
+    }
+    edge[o + i] = (s + 8) >> 4
+  }
+}
+
+/**
+ * Double the resolution of `numPx` edge samples, writing indices -2 to
+ * 2 * numPx - 2
+ */
+function upsampleIntraEdge(edge: Int32Array, numPx: number, bitDepth: number): void {
+  const o = EDGE_OFFSET
+  const maxValue = (1 << bitDepth) - 1
+  const dup = new Int32Array(numPx + 3)
+  dup[0] = edge[o - 1]
+  for (let i = -1; i < numPx; i++)
+    dup[i + 2] = edge[o + i]
+  dup[numPx + 2] = edge[o + numPx - 1]
+
+  edge[o - 2] = dup[0]
+  for (let i = 0; i < numPx; i++) {
+    const s = -dup[i] + 9 * dup[i + 1] + 9 * dup[i + 2] - dup[i + 3]
+    edge[o + 2 * i - 1] = Math.max(0, Math.min(maxValue, (s + 8) >> 4))
+    edge[o + 2 * i] = dup[i + 2]
+  }
+}
@@ -0,0 +1,104 @@
+import type { IvfHeader, TemporalUnit } from '../types'
+import { OBUType } from '../types'
+import { parseSequenceHeader } from './decoder'
+import { concatBytes, parseOBUs, withTemporalDelimiter, writeOBU } from './obu'
+
+const IVF_SIGNATURE = 'DKIF'
+const IVF_HEADER_SIZE = 32
+const IVF_FRAME_HEADER_SIZE = 12
+
+/**
+ * Parse an IVF file: its header and one temporal unit per IVF frame
+ */
+export function readIVF(data: Uint8Array): { header: IvfHeader, temporalUnits: TemporalUnit[] } {
+  if (!isIVF(data) || data.length < IVF_HEADER_SIZE) {
+    throw new Error('Invalid IVF file: missing DKIF signature')
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const headerSize = view.getUint16(6, true)
+  if (headerSize < IVF_HEADER_SIZE || headerSize > data.length) {
+    throw new Error(`Invalid IVF header size ${headerSize}`)
+  }
+
+  const header: IvfHeader = {
+    fourcc: String.fromCharCode(data[8], data[9], data[10], data[11]),
+    width: view.getUint16(12, true),
+    height: view.getUint16(14, true),
+    timebaseDenominator: view.getUint32(16, true),
+    timebaseNumerator: view.getUint32(20, true),
+    frameCount: view.getUint32(24, true),
+  }
+
+  const temporalUnits: TemporalUnit[] = []
+  let offset = headerSize
+  while (offset < data.length) {
+    if (offset + IVF_FRAME_HEADER_SIZE > data.length) {
+      throw new Error(`Truncated IVF frame header at byte ${offset}`)
+    }
+
+    const frameSize = view.getUint32(offset, true)
+    const timestamp = Number(view.getBigUint64(offset + 4, true))
+    offset += IVF_FRAME_HEADER_SIZE
+    if (offset + frameSize > data.length) {
+      throw new Error(`Truncated IVF frame at byte ${offset}: expected ${frameSize} bytes, only ${data.length - offset} remain`)
+    }
+
+    // Report OBU offsets relative to the whole file
+    const frameOffset = offset
+    const obus = parseOBUs(data.subarray(offset, offset + frameSize)).map(obu => ({ ...obu, offset: frameOffset + obu.offset }))
+    temporalUnits.push({ obus, timestamp })
+    offset += frameSize
+  }
+
+  return { header, temporalUnits }
+}
+
+/**
+ * Write temporal units as an IVF file. The frame size defaults to the
+ * maximum frame size of the first sequence header, the timebase to 1/30 s
+ * and frame timestamps to their index.
+ */
+export function writeIVF(units: TemporalUnit[], header: Partial<IvfHeader> = {}): Uint8Array {
+  let { width, height } = header
+  if (width === undefined || height === undefined) {
+    const seqHeaderOBU = units.flatMap(unit => unit.obus).find(obu => obu.type === OBUType.SEQUENCE_HEADER)
+    const seqHeader = seqHeaderOBU ? parseSequenceHeader(seqHeaderOBU.data) : undefined
+    width ??= seqHeader?.maxFrameWidth ?? 0
+    height ??= seqHeader?.maxFrameHeight ?? 0
+  }
+
+  const fileHeader = new Uint8Array(IVF_HEADER_SIZE)
+  const view = new DataView(fileHeader.buffer)
+  const fourcc = header.fourcc ?? 'AV01'
+  for (let i = 0; i < 4; i++) {
+    fileHeader[i] = IVF_SIGNATURE.charCodeAt(i)
+    fileHeader[8 + i] = fourcc.charCodeAt(i)
+  }
+  view.setUint16(4, 0, true) // version
+  view.setUint16(6, IVF_HEADER_SIZE, true)
+  view.setUint16(12, width, true)
+  view.setUint16(14, height, true)
+  view.setUint32(16, header.timebaseDenominator ?? 30, true)
+  view.setUint32(20, header.timebaseNumerator ?? 1, true)
+  view.setUint32(24, header.frameCount ?? units.length, true)
+
+  const parts: Uint8Array[] = [fileHeader]
+  units.forEach((unit, index) => {
+    const frame = concatBytes(withTemporalDelimiter(unit.obus).map(obu => writeOBU(obu)))
+    const frameHeader = new Uint8Array(IVF_FRAME_HEADER_SIZE)
+    const frameView = new DataView(frameHeader.buffer)
+    frameView.setUint32(0, frame.length, true)
+    frameView.setBigUint64(4, BigInt(unit.timestamp ?? index), true)
+    parts.push(frameHeader, frame)
+  })
+
+  return concatBytes(parts)
+}
+
+/**
+ * Whether data starts with the IVF signature
+ */
+export function isIVF(data: Uint8Array): boolean {
+  return data.length >= 4 && String.fromCharCode(data[0], data[1], data[2], data[3]) === IVF_SIGNATURE
+}
@@ -0,0 +1,249 @@
+import type { FrameState } from './frame-state'
+import { BLOCK_HEIGHT, BLOCK_WIDTH, getPlaneResidualSize, TX_HEIGHT, TX_WIDTH } from './tables'
+
+const MAX_LOOP_FILTER = 63
+const SEG_LVL_ALT_LF_Y_V = 1
+const INTRA_FRAME = 0
+
+/**
+ * Deblocking filter process (AV1 spec section 7.14), applied in place to the
+ * reconstructed planes: all vertical edges of a plane first, then all
+ * horizontal edges.
+ */
+export function applyLoopFilter(frame: FrameState): void {
+  const { level } = frame.frameHeader.loopFilter
+  if (!level[0] && !level[1])
+    return
+
+  const { numPlanes, subsamplingX, subsamplingY } = frame.seqHeader.colorConfig
+  for (let plane = 0; plane < numPlanes; plane++) {
+    if (plane > 0 && !level[1 + plane])
+      continue
+    const rowStep = plane === 0 ? 1 : 1 << subsamplingY
+    const colStep = plane === 0 ? 1 : 1 << subsamplingX
+    for (let pass = 0; pass < 2; pass++) {
+      for (let row = 0; row < frame.miRows; row += rowStep) {
+        for (let col = 0; col < frame.miCols; col += colStep)
+          edgeLoopFilter(frame, plane, pass, row, col)
+      }
+    }
+  }
+}
+
+/**
+ * Edge loop filter process: filters the left (pass 0) or top (pass 1) edge of
+ * the 4x4 plane block at mode info position (row, col)
+ */
+function edgeLoopFilter(frame: FrameState, plane: number, pass: number, row: number, col: number): void {
+  const { frameWidth, frameHeight } = frame.frameHeader
+  const { subsamplingX, subsamplingY } = frame.seqHeader.colorConfig
+  const subX = plane > 0 ? subsamplingX : 0
+  const subY = plane > 0 ? subsamplingY : 0
+  const dx = pass === 0 ? 1 : 0
+  const dy = pass === 1 ? 1 : 0
+  const x = col * 4
+  const y = row * 4
+  row |= subY
+  col |= subX
+
+  if (x >= frameWidth || y >= frameHeight)
+    return
+  if ((pass === 0 && x === 0) || (pass === 1 && y === 0))
+    return
+
+  const xP = x >> subX
+  const yP = y >> subY
+  const prevRow = row - (dy << subY)
+  const prevCol = col - (dx << subX)
+  const { miCols } = frame
+  const mi = row * miCols + col
+  const prevMi = prevRow * miCols + prevCol
+
+  const lfTxSizes = frame.loopfilterTxSizes[plane]
+  const txSz = lfTxSizes[(row >> subY) * miCols + (col >> subX)]
+  const prevTxSz = lfTxSizes[(prevRow >> subY) * miCols + (prevCol >> subX)]
+  const planeSize = getPlaneResidualSize(frame.miSizes[mi], subX, subY)
+
+  const isBlockEdge = pass === 0 ? xP % BLOCK_WIDTH[planeSize] === 0 : yP % BLOCK_HEIGHT[planeSize] === 0
+  const isTxEdge = pass === 0 ? xP % TX_WIDTH[txSz] === 0 : yP % TX_HEIGHT[txSz] === 0
+  if (!isTxEdge)
+    return
+  // Transform edges inside a skipped inter block have no residual to hide
+  if (!isBlockEdge && frame.skips[mi] && frame.isInters[mi])
+    return
+
+  const baseSize = pass === 0
+    ? Math.min(TX_WIDTH[prevTxSz], TX_WIDTH[txSz])
+    : Math.min(TX_HEIGHT[prevTxSz], TX_HEIGHT[txSz])
+  const filterSize = plane === 0 ? Math.min(16, baseSize) : Math.min(8, baseSize)
+
+  let lvl = filterLevel(frame, mi, plane, pass)
+  if (lvl === 0)
+    lvl = filterLevel(frame, prevMi, plane, pass)
+  if (lvl === 0)
+    return
+
+  const { sharpness } = frame.frameHeader.loopFilter
+  const shift = sharpness > 4 ? 2 : sharpness > 0 ? 1 : 0
+  const limit = sharpness > 0
+    ? Math.max(1, Math.min(9 - sharpness, lvl >> shift))
+    : Math.max(1, lvl >> shift)
+  const blimit = 2 * (lvl + 2) + limit
+  const thresh = lvl >> 4
+
+  const samples = frame.planes[plane]
+  const stride = frame.strides[plane]
+  const bitDepth = frame.seqHeader.colorConfig.bitDepth
+  // Step between the samples across the edge, and along it
+  const step = pass === 0 ? 1 : stride
+  const along = pass === 0 ? stride : 1
+  let pos = yP * stride + xP
+  for (let i = 0; i < 4; i++, pos += along)
+    sampleFilter(samples, pos, step, plane, limit, blimit, thresh, filterSize, bitDepth)
+}
+
+/**
+ * Adaptive filter strength process: the filter level of the block at `mi`
+ */
+function filterLevel(frame: FrameState, mi: number, plane: number, pass: number): number {
+  const { delta, loopFilter, segmentation } = frame.frameHeader
+  const i = plane === 0 ? pass : plane + 1
+  const deltaLF = frame.deltaLFs[mi * 4 + (delta.deltaLfMulti ? i : 0)]
+  let lvlSeg = Math.max(0, Math.min(MAX_LOOP_FILTER, deltaLF + loopFilter.level[i]))
+
+  const segmentId = frame.segmentIds[mi]
+  const feature = SEG_LVL_ALT_LF_Y_V + i
+  if (segmentation.enabled && segmentation.featureEnabled[segmentId][feature])
+    lvlSeg = Math.max(0, Math.min(MAX_LOOP_FILTER, lvlSeg + segmentation.featureData[segmentId][feature]))
+
+  if (loopFilter.deltaEnabled) {
+    // Only intra frames are decoded, so the reference is always INTRA_FRAME
+    const nShift = lvlSeg >> 5
+    lvlSeg = Math.max(0, Math.min(MAX_LOOP_FILTER, lvlSeg + (loopFilter.refDeltas[INTRA_FRAME] << nShift)))
+  }
+  return lvlSeg
+}
+
+/**
+ * Sample filtering process for one line of samples across an edge. `pos` is
+ * the first sample after the edge (q0) and `step` the distance between
+ * samples across it.
+ */
+function sampleFilter(
+  s: Uint16Array,
+  pos: number,
+  step: number,
+  plane: number,
+  limit: number,
+  blimit: number,
+  thresh: number,
+  filterSize: number,
+  bitDepth: number,
+): void {
+  const q0 = s[pos]
+  const q1 = s[pos + step]
+  const p0 = s[pos - step]
+  const p1 = s[pos - 2 * step]
+  const shift = bitDepth - 8
+
+  const hevMask = Math.abs(p1 - p0) > thresh << shift || Math.abs(q1 - q0) > thresh << shift
+
+  const filterLen = filterSize === 4 ? 4 : plane !== 0 ? 6 : filterSize === 8 ? 8 : 16
+  const limitBd = limit << shift
+  const blimitBd = blimit << shift
+  let filterMask = Math.abs(p1 - p0) <= limitBd
+    && Math.abs(q1 - q0) <= limitBd
+    && Math.abs(p0 - q0) * 2 + (Math.abs(p1 - q1) >> 1) <= blimitBd
+
+  let flatMask = false
+  const one = 1 << shift
+  if (filterLen >= 6) {
+    const q2 = s[pos + 2 * step]
+    const p2 = s[pos - 3 * step]
+    filterMask = filterMask && Math.abs(p2 - p1) <= limitBd && Math.abs(q2 - q1) <= limitBd
+    flatMask = Math.abs(p1 - p0) <= one && Math.abs(q1 - q0) <= one
+      && Math.abs(p2 - p0) <= one && Math.abs(q2 - q0) <= one
+    if (filterLen >= 8) {
+      const q3 = s[pos + 3 * step]
+      const p3 = s[pos - 4 * step]
+      filterMask = filterMask && Math.abs(p3 - p2) <= limitBd && Math.abs(q3 - q2) <= limitBd
+      flatMask = flatMask && Math.abs(p3 - p0) <= one && Math.abs(q3 - q0) <= one
+    }
+  }
+  if (!filterMask)
+    return
+
+  if (filterSize === 4 || !flatMask) {
+    narrowFilter(s, pos, step, hevMask, bitDepth)
+    return
+  }
+
+  let flatMask2 = false
+  if (filterSize >= 16) {
+    flatMask2 = true
+    for (let k = 4; k <= 6 && flatMask2; k++)
+      flatMask2 = Math.abs(s[pos - (k + 1) * step] - p0) <= one && Math.abs(s[pos + k * step] - q0) <= one
+  }
+
+  if (filterSize === 8 || !flatMask2)
+    wideFilter(s, pos, step, plane, 3)
+  else
+    wideFilter(s, pos, step, plane, 4)
+}
+
+/**
+ * Narrow filter process: adjusts up to two samples on each side of the edge
+ */
+function narrowFilter(s: Uint16Array, pos: number, step: number, hevMask: boolean, bitDepth: number): void {
+  const half = 0x80 << (bitDepth - 8)
+  const lo = -(1 << (bitDepth - 1))
+  const hi = (1 << (bitDepth - 1)) - 1
+  const clamp = (v: number): number => v < lo ? lo : v > hi ? hi : v
+
+  const ps1 = s[pos - 2 * step] - half
+  const ps0 = s[pos - step] - half
+  const qs0 = s[pos] - half
+  const qs1 = s[pos + step] - half
+
+  let filter = hevMask ? clamp(ps1 - qs1) : 0
+  filter = clamp(filter + 3 * (qs0 - ps0))
+  const filter1 = clamp(filter + 4) >> 3
+  const filter2 = clamp(filter + 3) >> 3
+  s[pos] = clamp(qs0 - filter1) + half
+  s[pos - step] = clamp(ps0 + filter2) + half
+
+  if (!hevMask) {
+    filter = (filter1 + 1) >> 1
+    s[pos + step] = clamp(qs1 - filter) + half
+    s[pos - 2 * step] = clamp(ps1 + filter) + half
+  }
+}
+
+// Scratch for the unfiltered and filtered samples of the wide filter,
+// offset by 7 so index 7 is q0
+const wideIn = new Int32Array(14)
+const wideOut = new Int32Array(14)
+
+/**
+ * Wide filter process: the 6-, 8- and 13-tap smoothing filters
+ */
+function wideFilter(s: Uint16Array, pos: number, step: number, plane: number, log2Size: number): void {
+  const n = log2Size === 4 ? 6 : plane === 0 ? 3 : 2
+  const n2 = log2Size === 3 && plane === 0 ? 0 : 1
+
+  for (let k = -(n + 1); k <= n; k++)
+    wideIn[7 + k] = s[pos + k * step]
+
+  for (let i = -n; i < n; i++) {
+    let t = 0
+    for (let j = -n; j <= n; j++) {
+      const p = Math.max(-(n + 1), Math.min(n, i + j))
+      const tap = Math.abs(j) <= n2 ? 2 : 1
+      t += wideIn[7 + p] * tap
+    }
+    wideOut[7 + i] = (t + (1 << (log2Size - 1))) >> log2Size
+  }
+
+  for (let i = -n; i < n; i++)
+    s[pos + i * step] = wideOut[7 + i]
+}
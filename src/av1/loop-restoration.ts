@@ -0,0 +1,292 @@
+import type { FrameState } from './frame-state'
+import { SGR_PARAMS } from './tile-decoder'
+
+const RESTORE_WIENER = 1
+const RESTORE_SGRPROJ = 2
+
+const FILTER_BITS = 7
+const SGRPROJ_RST_BITS = 4
+const SGRPROJ_PRJ_BITS = 7
+const SGRPROJ_MTABLE_BITS = 20
+const SGRPROJ_SGR_BITS = 8
+const SGRPROJ_RECIP_BITS = 12
+
+/** Height of a loop restoration stripe in luma rows. Stripes start 8 rows above the frame */
+const STRIPE_HEIGHT = 64
+const STRIPE_OFFSET = 8
+
+/** Samples each filter reads around the block it restores */
+const BORDER = 3
+
+// The last unit of a row absorbs up to half a unit of remainder
+const MAX_BLOCK_WIDTH = 256 * 3 / 2
+const MAX_BLOCK_HEIGHT = STRIPE_HEIGHT
+
+// Scratch buffers sized for the largest restoration block
+const source = new Int32Array((MAX_BLOCK_HEIGHT + 2 * BORDER) * (MAX_BLOCK_WIDTH + 2 * BORDER))
+const wienerIntermediate = new Int32Array((MAX_BLOCK_HEIGHT + 6) * MAX_BLOCK_WIDTH)
+const boxA = new Int32Array((MAX_BLOCK_HEIGHT + 2) * (MAX_BLOCK_WIDTH + 2))
+const boxB = new Int32Array((MAX_BLOCK_HEIGHT + 2) * (MAX_BLOCK_WIDTH + 2))
+const flt = [new Int32Array(MAX_BLOCK_HEIGHT * MAX_BLOCK_WIDTH), new Int32Array(MAX_BLOCK_HEIGHT * MAX_BLOCK_WIDTH)]
+
+/** One block of samples that lies inside a single stripe and restoration unit */
+interface RestorationBlock {
+  plane: number
+  unit: number
+  x: number
+  y: number
+  w: number
+  h: number
+  bitDepth: number
+}
+
+/**
+ * Loop restoration process (AV1 spec section 7.17). `planes` holds the
+ * CDEF output and `deblocked` the frame before CDEF, both at the upscaled
+ * width and laid out with `frame.strides`. Samples above and below the
+ * current 64-row stripe come from `deblocked`, everything else from
+ * `planes`. Returns the restored planes, or `planes` itself when the frame
+ * does not use loop restoration.
+ */
+export function applyLoopRestoration(frame: FrameState, planes: Uint16Array[], deblocked: Uint16Array[]): Uint16Array[] {
+  const lr = frame.frameHeader.loopRestoration
+  if (!lr.usesLr)
+    return planes
+
+  const { upscaledWidth, frameHeight } = frame.frameHeader
+  const { bitDepth, subsamplingX, subsamplingY } = frame.seqHeader.colorConfig
+  const output = planes.slice()
+
+  for (let plane = 0; plane < planes.length; plane++) {
+    if (!lr.type[plane])
+      continue
+    output[plane] = planes[plane].slice()
+    const subX = plane > 0 ? subsamplingX : 0
+    const subY = plane > 0 ? subsamplingY : 0
+    const planeEndX = ((upscaledWidth + subX) >> subX) - 1
+    const planeEndY = ((frameHeight + subY) >> subY) - 1
+    const unitSize = lr.unitSize[plane]
+    const units = frame.restoration[plane]
+
+    for (let stripe = 0; ; stripe++) {
+      const stripeStartY = (-STRIPE_OFFSET + stripe * STRIPE_HEIGHT) >> subY
+      const stripeEndY = stripeStartY + (STRIPE_HEIGHT >> subY) - 1
+      const y = Math.max(0, stripeStartY)
+      if (y > planeEndY)
+        break
+      const h = Math.min(stripeEndY, planeEndY) - y + 1
+      const unitRow = Math.min(units.rows - 1, Math.floor(((stripe * STRIPE_HEIGHT) >> subY) / unitSize))
+
+      for (let unitCol = 0; unitCol < units.cols; unitCol++) {
+        const x = unitCol * unitSize
+        const w = (unitCol === units.cols - 1 ? planeEndX + 1 : x + unitSize) - x
+        const unit = unitRow * units.cols + unitCol
+        const block: RestorationBlock = { plane, unit, x, y, w, h, bitDepth }
+
+        const type = units.type[unit]
+        if (type !== RESTORE_WIENER && type !== RESTORE_SGRPROJ)
+          continue
+        loadSource(frame, planes[plane], deblocked[plane], block, planeEndX, planeEndY, stripeStartY, stripeEndY)
+        if (type === RESTORE_WIENER)
+          wienerFilter(frame, output[plane], block)
+        else
+          selfGuidedFilter(frame, planes[plane], output[plane], block)
+      }
+    }
+  }
+  return output
+}
+
+/**
+ * Fill `source` with the block and a border of `BORDER` samples using
+ * get_source_sample(): coordinates are clamped to the plane, and rows
+ * outside the stripe (at most two) come from the deblocked frame
+ */
+function loadSource(
+  frame: FrameState,
+  cdef: Uint16Array,
+  deblocked: Uint16Array,
+  block: RestorationBlock,
+  planeEndX: number,
+  planeEndY: number,
+  stripeStartY: number,
+  stripeEndY: number,
+): void {
+  const stride = frame.strides[block.plane]
+  const width = block.w + 2 * BORDER
+  for (let i = 0; i < block.h + 2 * BORDER; i++) {
+    let y = Math.max(0, Math.min(planeEndY, block.y + i - BORDER))
+    let samples = cdef
+    if (y < stripeStartY) {
+      y = Math.max(stripeStartY - 2, y)
+      samples = deblocked
+    }
+    else if (y > stripeEndY) {
+      y = Math.min(stripeEndY + 2, y)
+      samples = deblocked
+    }
+    for (let j = 0; j < width; j++) {
+      const x = Math.max(0, Math.min(planeEndX, block.x + j - BORDER))
+      source[i * width + j] = samples[y * stride + x]
+    }
+  }
+}
+
+/**
+ * Wiener filter process: separable 7-tap filter, horizontal then vertical
+ */
+function wienerFilter(frame: FrameState, output: Uint16Array, block: RestorationBlock): void {
+  const { plane, unit, x, y, w, h, bitDepth } = block
+  const coeffs = frame.restoration[plane].wiener
+  const vfilter = wienerTaps(coeffs, unit * 6)
+  const hfilter = wienerTaps(coeffs, unit * 6 + 3)
+  const round0 = bitDepth === 12 ? 5 : 3
+  const round1 = bitDepth === 12 ? 9 : 11
+  const offset = 1 << (bitDepth + FILTER_BITS - round0 - 1)
+  const limit = (1 << (bitDepth + 1 + FILTER_BITS - round0)) - 1
+  const width = w + 2 * BORDER
+
+  for (let r = 0; r < h + 6; r++) {
+    for (let c = 0; c < w; c++) {
+      let s = 0
+      for (let t = 0; t < 7; t++)
+        s += hfilter[t] * source[r * width + c + t]
+      const v = (s + (1 << (round0 - 1))) >> round0
+      wienerIntermediate[r * w + c] = Math.max(-offset, Math.min(limit - offset, v))
+    }
+  }
+
+  const stride = frame.strides[plane]
+  const pixelMax = (1 << bitDepth) - 1
+  for (let r = 0; r < h; r++) {
+    for (let c = 0; c < w; c++) {
+      let s = 0
+      for (let t = 0; t < 7; t++)
+        s += vfilter[t] * wienerIntermediate[(r + t) * w + c]
+      const v = (s + (1 << (round1 - 1))) >> round1
+      output[(y + r) * stride + x + c] = v < 0 ? 0 : v > pixelMax ? pixelMax : v
+    }
+  }
+}
+
+/**
+ * get_filter(): expand 3 coded Wiener coefficients to a symmetric 7-tap
+ * filter whose taps sum to 128
+ */
+function wienerTaps(coeffs: Int8Array, offset: number): number[] {
+  const filter = [0, 0, 0, 128, 0, 0, 0]
+  for (let i = 0; i < 3; i++) {
+    const c = coeffs[offset + i]
+    filter[i] = c
+    filter[6 - i] = c
+    filter[3] -= 2 * c
+  }
+  return filter
+}
+
+/**
+ * Self guided filter process: blends up to two box filtered versions of the
+ * block with the projection weights of the unit
+ */
+function selfGuidedFilter(frame: FrameState, cdef: Uint16Array, output: Uint16Array, block: RestorationBlock): void {
+  const { plane, unit, x, y, w, h, bitDepth } = block
+  const units = frame.restoration[plane]
+  const set = units.sgrSet[unit]
+  const r0 = SGR_PARAMS[set][0]
+  const r1 = SGR_PARAMS[set][2]
+  if (r0)
+    boxFilter(cdef, frame.strides[plane], block, set, 0)
+  if (r1)
+    boxFilter(cdef, frame.strides[plane], block, set, 1)
+
+  const w0 = units.sgrXqd[unit * 2]
+  const w1 = units.sgrXqd[unit * 2 + 1]
+  const w2 = (1 << SGRPROJ_PRJ_BITS) - w0 - w1
+  const stride = frame.strides[plane]
+  const pixelMax = (1 << bitDepth) - 1
+  const shift = SGRPROJ_RST_BITS + SGRPROJ_PRJ_BITS
+
+  for (let i = 0; i < h; i++) {
+    for (let j = 0; j < w; j++) {
+      const pos = (y + i) * stride + x + j
+      const u = cdef[pos] << SGRPROJ_RST_BITS
+      let v = w1 * u
+      v += w0 * (r0 ? flt[0][i * w + j] : u)
+      v += w2 * (r1 ? flt[1][i * w + j] : u)
+      const s = (v + (1 << (shift - 1))) >> shift
+      output[pos] = s < 0 ? 0 : s > pixelMax ? pixelMax : s
+    }
+  }
+}
+
+/**
+ * Box filter process for one pass of the self guided filter, writing the
+ * filtered block to `flt[pass]`
+ */
+function boxFilter(cdef: Uint16Array, stride: number, block: RestorationBlock, set: number, pass: number): void {
+  const { x, y, w, h, bitDepth } = block
+  const r = SGR_PARAMS[set][pass * 2]
+  const s = SGR_PARAMS[set][pass * 2 + 1]
+  const n = (2 * r + 1) * (2 * r + 1)
+  const oneOverN = Math.floor(((1 << SGRPROJ_RECIP_BITS) + (n >> 1)) / n)
+  const width = w + 2 * BORDER
+  const abWidth = w + 2
+  const shiftA = 2 * (bitDepth - 8)
+  const shiftB = bitDepth - 8
+
+  // A and B cover the block plus one sample on each side
+  for (let i = -1; i < h + 1; i++) {
+    for (let j = -1; j < w + 1; j++) {
+      let a = 0
+      let b = 0
+      for (let dy = -r; dy <= r; dy++) {
+        const row = (i + dy + BORDER) * width + j + BORDER
+        for (let dx = -r; dx <= r; dx++) {
+          const c = source[row + dx]
+          a += c * c
+          b += c
+        }
+      }
+      a = shiftA ? (a + (1 << (shiftA - 1))) >> shiftA : a
+      const d = shiftB ? (b + (1 << (shiftB - 1))) >> shiftB : b
+      const p = Math.max(0, a * n - d * d)
+      const z = Math.floor((p * s + (1 << (SGRPROJ_MTABLE_BITS - 1))) / (1 << SGRPROJ_MTABLE_BITS))
+      let a2: number
+      if (z >= 255)
+        a2 = 256
+      else if (z === 0)
+        a2 = 1
+      else
+        a2 = Math.floor(((z << SGRPROJ_SGR_BITS) + (z >> 1)) / (z + 1))
+      const b2 = ((1 << SGRPROJ_SGR_BITS) - a2) * b * oneOverN
+      const k = (i + 1) * abWidth + j + 1
+      boxA[k] = a2
+      boxB[k] = Math.floor((b2 + (1 << (SGRPROJ_RECIP_BITS - 1))) / (1 << SGRPROJ_RECIP_BITS))
+    }
+  }
+
+  const out = flt[pass]
+  for (let i = 0; i < h; i++) {
+    // The radius 2 pass only evaluates A and B on odd rows
+    const shift = pass === 0 && (i & 1) ? 4 : 5
+    for (let j = 0; j < w; j++) {
+      let a = 0
+      let b = 0
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          let weight: number
+          if (pass === 0)
+            weight = ((i + dy) & 1) ? (dx === 0 ? 6 : 5) : 0
+          else
+            weight = dx === 0 || dy === 0 ? 4 : 3
+          const k = (i + 1 + dy) * abWidth + j + 1 + dx
+          a += weight * boxA[k]
+          b += weight * boxB[k]
+        }
+      }
+      const v = a * cdef[(y + i) * stride + x + j] + b
+      const roundShift = SGRPROJ_SGR_BITS + shift - SGRPROJ_RST_BITS
+      out[i * w + j] = (v + (1 << (roundShift - 1))) >> roundShift
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import type {
+  AV1OBU,
+  Av1Metadata,
+  ContentLightLevel,
+  ItuT35Metadata,
+  MasteringDisplayColorVolume,
+  ScalabilityMetadata,
+  TimecodeMetadata,
+} from '../types'
+import { MetadataType, OBUType } from '../types'
+import { BitReader } from './bit-reader'
+import { OBUReader } from './obu'
+
+const SCALABILITY_SS = 14
+
+// HDR10+ is signalled with these ITU-T T.35 codes (SMPTE ST 2094-40 / CTA-861-G)
+const T35_COUNTRY_USA = 0xB5
+const T35_PROVIDER_SAMSUNG = 0x003C
+const T35_PROVIDER_ORIENTED_HDR10_PLUS = 0x0001
+const HDR10_PLUS_APPLICATION_ID = 4
+
+/**
+ * A parsed metadata_obu() payload
+ */
+export type MetadataOBU
+  = | { type: MetadataType.HDR_CLL, value: ContentLightLevel }
+    | { type: MetadataType.HDR_MDCV, value: MasteringDisplayColorVolume }
+    | { type: MetadataType.SCALABILITY, value: ScalabilityMetadata }
+    | { type: MetadataType.ITUT_T35, value: ItuT35Metadata }
+    | { type: MetadataType.TIMECODE, value: TimecodeMetadata }
+
+/**
+ * Collect the metadata of every METADATA OBU in an AV1 bitstream (for
+ * example an AVIF item payload or the configOBUs of an av1C box). METADATA
+ * OBUs that do not parse are skipped, as is a last OBU cut short, as in the
+ * item of a file still arriving.
+ */
+export function getAv1Metadata(data: Uint8Array): Av1Metadata {
+  const metadata: Av1Metadata = { itutT35: [] }
+
+  for (const obu of parseCompleteOBUs(data)) {
+    if (obu.type !== OBUType.METADATA) {
+      continue
+    }
+
+    // A short or malformed payload is skipped rather than failing the stream
+    let parsed: MetadataOBU | null
+    try {
+      parsed = parseMetadataOBU(obu.data)
+    }
+    catch {
+      continue
+    }
+
+    switch (parsed?.type) {
+      case MetadataType.HDR_CLL:
+        metadata.contentLightLevel ??= parsed.value
+        break
+      case MetadataType.HDR_MDCV:
+        metadata.masteringDisplay ??= parsed.value
+        break
+      case MetadataType.SCALABILITY:
+        metadata.scalability ??= parsed.value
+        break
+      case MetadataType.ITUT_T35:
+        metadata.itutT35.push(parsed.value)
+        break
+      case MetadataType.TIMECODE:
+        metadata.timecode ??= parsed.value
+        break
+    }
+  }
+
+  return metadata
+}
+
+/**
+ * Parse the OBUs of `data` up to a last OBU that is cut short
+ */
+function parseCompleteOBUs(data: Uint8Array): AV1OBU[] {
+  const reader = new OBUReader()
+  const obus = reader.push(data)
+  try {
+    obus.push(...reader.end())
+  }
+  catch {
+    // The partial OBU is dropped
+  }
+  return obus
+}
+
+/**
+ * Parse a metadata_obu() payload (AV1 spec section 5.8). Unregistered and
+ * reserved metadata types return null.
+ */
+export function parseMetadataOBU(data: Uint8Array): MetadataOBU | null {
+  return readMetadataOBU(new BitReader(data), data)
+}
+
+/**
+ * Read the metadata_obu() payload `data` from `reader`, leaving it
+ * positioned before the trailing bits. ITU-T T.35 payloads run to the
+ * trailing bits, so the reader is left after the country code for them.
+ */
+export function readMetadataOBU(reader: BitReader, data: Uint8Array): MetadataOBU | null {
+  const type = reader.readLeb128()
+
+  switch (type) {
+    case MetadataType.HDR_CLL:
+      return {
+        type,
+        value: {
+          maxCll: reader.readBits(16),
+          maxFall: reader.readBits(16),
+        },
+      }
+
+    case MetadataType.HDR_MDCV: {
+      // Chromaticities are 0.16 fixed point, luminance_max 24.8 and luminance_min 18.14
+      const readXY = () => ({ x: reader.readBits(16) / 65536, y: reader.readBits(16) / 65536 })
+      const primaries = [readXY(), readXY(), readXY()]
+      const whitePoint = readXY()
+      return {
+        type,
+        value: {
+          primaries,
+          whitePoint,
+          luminanceMax: reader.readBits(32) / 256,
+          luminanceMin: reader.readBits(32) / 16384,
+        },
+      }
+    }
+
+    case MetadataType.SCALABILITY:
+      return { type, value: readScalability(reader) }
+
+    case MetadataType.ITUT_T35:
+      return { type, value: readItuT35(data, reader) }
+
+    case MetadataType.TIMECODE:
+      return { type, value: readTimecode(reader) }
+
+    default:
+      return null
+  }
+}
+
+/**
+ * metadata_scalability() and scalability_structure()
+ */
+function readScalability(reader: BitReader): ScalabilityMetadata {
+  const modeIdc = reader.readBits(8)
+  if (modeIdc !== SCALABILITY_SS) {
+    return { modeIdc }
+  }
+
+  const spatialLayers = reader.readBits(2) + 1
+  const dimensionsPresent = reader.readBit() === 1
+  const descriptionPresent = reader.readBit() === 1
+  const temporalGroupPresent = reader.readBit() === 1
+  reader.readBits(3) // scalability_structure_reserved_3bits
+
+  const structure: NonNullable<ScalabilityMetadata['structure']> = { spatialLayers }
+
+  if (dimensionsPresent) {
+    structure.spatialLayerDimensions = Array.from({ length: spatialLayers }, () => ({
+      width: reader.readBits(16) + 1,
+      height: reader.readBits(16) + 1,
+    }))
+  }
+
+  if (descriptionPresent) {
+    structure.spatialLayerRefIds = Array.from({ length: spatialLayers }, () => reader.readBits(8))
+  }
+
+  if (temporalGroupPresent) {
+    const size = reader.readBits(8)
+    structure.temporalGroup = Array.from({ length: size }, () => {
+      const temporalId = reader.readBits(3)
+      const temporalSwitchingUpPoint = reader.readBit() === 1
+      const spatialSwitchingUpPoint = reader.readBit() === 1
+      const refCount = reader.readBits(3)
+      const refPicDiffs = Array.from({ length: refCount }, () => reader.readBits(8))
+      return { temporalId, temporalSwitchingUpPoint, spatialSwitchingUpPoint, refPicDiffs }
+    })
+  }
+
+  return { modeIdc, structure }
+}
+
+/**
+ * metadata_itut_t35(): the payload runs to the trailing bits of the OBU
+ */
+function readItuT35(data: Uint8Array, reader: BitReader): ItuT35Metadata {
+  const countryCode = reader.readBits(8)
+  const countryCodeExtension = countryCode === 0xFF ? reader.readBits(8) : undefined
+
+  // Drop trailing_bits(): a 0x80 byte followed by zero padding
+  let end = data.length
+  while (end > reader.bytePosition && data[end - 1] === 0) {
+    end--
+  }
+  if (end > reader.bytePosition && data[end - 1] === 0x80) {
+    end--
+  }
+  const payload = data.slice(reader.bytePosition, end)
+
+  const isHdr10Plus = countryCode === T35_COUNTRY_USA
+    && payload.length >= 5
+    && ((payload[0] << 8) | payload[1]) === T35_PROVIDER_SAMSUNG
+    && ((payload[2] << 8) | payload[3]) === T35_PROVIDER_ORIENTED_HDR10_PLUS
+    && payload[4] === HDR10_PLUS_APPLICATION_ID
+
+  return { countryCode, countryCodeExtension, payload, isHdr10Plus }
+}
+
+/**
+ * metadata_timecode()
+ */
+function readTimecode(reader: BitReader): TimecodeMetadata {
+  const timecode: TimecodeMetadata = {
+    countingType: reader.readBits(5),
+    fullTimestamp: reader.readBit() === 1,
+    discontinuity: reader.readBit() === 1,
+    cntDropped: reader.readBit() === 1,
+    nFrames: reader.readBits(9),
+  }
+
+  if (timecode.fullTimestamp) {
+    timecode.seconds = reader.readBits(6)
+    timecode.minutes = reader.readBits(6)
+    timecode.hours = reader.readBits(5)
+  }
+  else if (reader.readBit()) {
+    // Each field is only present when the larger units before it are
+    timecode.seconds = reader.readBits(6)
+    if (reader.readBit()) {
+      timecode.minutes = reader.readBits(6)
+      if (reader.readBit()) {
+        timecode.hours = reader.readBits(5)
+      }
+    }
+  }
+
+  const timeOffsetLength = reader.readBits(5)
+  if (timeOffsetLength > 0) {
+    timecode.timeOffset = reader.readBits(timeOffsetLength)
+  }
+
+  return timecode
+}
@@ -1,27 +1,201 @@
-import type { AV1OBU } from '../types'
+import type { AV1OBU, TemporalUnit } from '../types'
 import { OBUType } from '../types'
+import { BitWriter } from './bit-writer'
+
+/** obu_header() with its extension, plus an 8-byte obu_size */
+const MAX_OBU_HEADER_SIZE = 10
 
 /**
- * Parse AV1 Open Bitstream Units (OBUs) from data
+ * Parse AV1 Open Bitstream Units (OBUs) from data. A truncated final OBU is
+ * an error; an OBU without a size field runs to the end of the data.
  */
 export function parseOBUs(data: Uint8Array): AV1OBU[] {
-  const obus: AV1OBU[] = []
-  let offset = 0
+  const reader = new OBUReader()
+  return [...reader.push(data), ...reader.end()]
+}
+
+/**
+ * Incremental OBU reader for low-overhead (Section 5) bitstreams arriving in
+ * chunks, e.g. from a network stream. `push()` returns the OBUs completed by
+ * each chunk, with `offset` counted from the start of the stream, and keeps
+ * any partial OBU until more data arrives. OBUs framed externally (Annex B,
+ * container samples) go through `pushFramed()`, where the size field is
+ * optional.
+ */
+export class OBUReader {
+  /**
+   * Chunks received but not yet returned as OBUs. They are only joined to
+   * read an OBU header or an OBU that spans them, so reading a stream in
+   * small chunks stays linear in its length.
+   */
+  private chunks: Uint8Array[] = []
+  /** Number of bytes in `chunks` */
+  private pendingLength: number = 0
+  /** Stream offset of the first pending byte */
+  private pendingOffset: number = 0
+
+  /** Total number of bytes received */
+  get position(): number {
+    return this.pendingOffset + this.pendingLength
+  }
+
+  /** Number of bytes held back for an incomplete OBU */
+  get bufferedBytes(): number {
+    return this.pendingLength
+  }
+
+  /**
+   * Append a chunk and return the OBUs it completes
+   */
+  push(chunk: Uint8Array): AV1OBU[] {
+    if (chunk.length > 0) {
+      this.chunks.push(chunk)
+      this.pendingLength += chunk.length
+    }
+
+    const obus: AV1OBU[] = []
+    while (this.pendingLength > 0) {
+      const header = readOBUHeader(this.peek(MAX_OBU_HEADER_SIZE), 0, this.pendingOffset)
+      // Wait for the rest of the header; an OBU without a size field runs
+      // to the end of the stream, so only end() can complete it
+      if (!header || header.payloadSize === undefined) {
+        break
+      }
+
+      const size = header.headerSize + header.payloadSize
+      if (size > this.pendingLength) {
+        break
+      }
+
+      const offset = this.pendingOffset
+      obus.push(createParsedOBU(this.take(size), 0, size, header, offset))
+    }
+
+    // Keep a copy of what is left of the chunk, which the caller may reuse
+    if (chunk.length > 0 && this.pendingLength > 0) {
+      this.chunks[this.chunks.length - 1] = this.chunks[this.chunks.length - 1].slice()
+    }
+
+    return obus
+  }
+
+  /**
+   * The first `length` pending bytes, or all of them when fewer have
+   * arrived, copied only when they span chunks
+   */
+  private peek(length: number): Uint8Array {
+    const [first] = this.chunks
+    if (first.length >= length || this.chunks.length === 1) {
+      return first.subarray(0, length)
+    }
+
+    const bytes = new Uint8Array(Math.min(length, this.pendingLength))
+    let filled = 0
+    for (const chunk of this.chunks) {
+      if (filled === bytes.length) {
+        break
+      }
+      const part = chunk.subarray(0, bytes.length - filled)
+      bytes.set(part, filled)
+      filled += part.length
+    }
+    return bytes
+  }
+
+  /**
+   * Remove the first `length` pending bytes, which must all have arrived
+   */
+  private take(length: number): Uint8Array {
+    const bytes = this.peek(length)
+
+    let remaining = length
+    let consumed = 0
+    while (remaining > 0 && this.chunks[consumed].length <= remaining) {
+      remaining -= this.chunks[consumed].length
+      consumed++
+    }
+    this.chunks.splice(0, consumed)
+    if (remaining > 0) {
+      this.chunks[0] = this.chunks[0].subarray(remaining)
+    }
+    this.pendingLength -= length
+    this.pendingOffset += length
+
+    return bytes
+  }
+
+  /**
+   * Read one OBU whose length is known from external framing (Annex B
+   * obu_length, a container sample). A size field, when present, must
+   * match that length.
+   */
+  pushFramed(data: Uint8Array): AV1OBU {
+    if (this.pendingLength > 0) {
+      throw new Error(`Cannot read a framed OBU at byte ${this.position}: ${this.pendingLength} bytes of a partial OBU are pending`)
+    }
 
-  while (offset < data.length) {
-    const obu = parseOBU(data, offset)
-    if (!obu) {
-      break
+    const offset = this.pendingOffset
+    const header = readOBUHeader(data, 0, offset)
+    if (!header) {
+      throw new Error(`Truncated OBU header at byte ${offset}: the framed OBU is only ${data.length} bytes`)
     }
 
-    obus.push(obu)
-    offset += obu.size
+    if (header.payloadSize !== undefined && header.headerSize + header.payloadSize !== data.length) {
+      throw new Error(
+        `OBU at byte ${offset} has a size field of ${header.payloadSize} bytes but its framing leaves ${data.length - header.headerSize}`,
+      )
+    }
+
+    this.pendingOffset += data.length
+    return createParsedOBU(data, 0, data.length, header, offset)
   }
 
-  return obus
+  /**
+   * Signal the end of the stream: returns an OBU without a size field that
+   * runs to the end, and throws if a partial OBU remains. The pending bytes
+   * are kept when it throws.
+   */
+  end(): AV1OBU[] {
+    const offset = this.pendingOffset
+    const length = this.pendingLength
+    if (length === 0) {
+      return []
+    }
+
+    const header = readOBUHeader(this.peek(MAX_OBU_HEADER_SIZE), 0, offset)
+    if (!header) {
+      throw new Error(`Truncated OBU header at byte ${offset}: only ${length} bytes remain`)
+    }
+    if (header.payloadSize !== undefined) {
+      throw new Error(
+        `Truncated OBU at byte ${offset}: expected ${header.headerSize + header.payloadSize} bytes, only ${length} remain`,
+      )
+    }
+
+    const data = this.take(length)
+    return [createParsedOBU(data, 0, length, header, offset)]
+  }
+}
+
+/**
+ * Fields of an obu_header() and its size
+ */
+interface OBUHeader {
+  type: number
+  hasExtension: boolean
+  temporalId: number
+  spatialId: number
+  /** Bytes of obu_header() plus the obu_size field */
+  headerSize: number
+  /** obu_size, or undefined when obu_has_size_field is 0 */
+  payloadSize?: number
 }
 
-function parseOBU(data: Uint8Array, offset: number): AV1OBU | null {
+/**
+ * Read an obu_header() and obu_size at `offset`, or return null when the
+ * data ends before them. `streamOffset` is only used in error messages.
+ */
+function readOBUHeader(data: Uint8Array, offset: number, streamOffset: number): OBUHeader | null {
   if (offset >= data.length) {
     return null
   }
@@ -30,7 +204,7 @@ function parseOBU(data: Uint8Array, offset: number): AV1OBU | null {
 
   // obu_forbidden_bit must be 0
   if ((header & 0x80) !== 0) {
-    throw new Error('Invalid OBU: forbidden bit is set')
+    throw new Error(`Invalid OBU at byte ${streamOffset}: forbidden bit is set`)
   }
 
   const type = (header >> 3) & 0x0F
@@ -38,79 +212,98 @@ function parseOBU(data: Uint8Array, offset: number): AV1OBU | null {
   const hasSizeField = (header & 0x02) !== 0
 
   let headerSize = 1
+  let temporalId = 0
+  let spatialId = 0
 
   if (hasExtension) {
+    if (offset + 1 >= data.length) {
+      return null
+    }
+    // obu_extension_header(): temporal_id (3), spatial_id (2), reserved (3)
+    temporalId = data[offset + 1] >> 5
+    spatialId = (data[offset + 1] >> 3) & 0x03
     headerSize++
   }
 
-  let payloadSize: number
+  let payloadSize: number | undefined
 
   if (hasSizeField) {
-    const { value, bytes } = readLeb128(data, offset + headerSize)
-    payloadSize = value
-    headerSize += bytes
-  }
-  else {
-    // Size extends to end of data
-    payloadSize = data.length - offset - headerSize
+    const leb128 = readLeb128(data, offset + headerSize, streamOffset)
+    if (!leb128) {
+      return null
+    }
+    payloadSize = leb128.value
+    headerSize += leb128.bytes
   }
 
-  const totalSize = headerSize + payloadSize
+  return { type, hasExtension, temporalId, spatialId, headerSize, payloadSize }
+}
 
+function createParsedOBU(data: Uint8Array, offset: number, size: number, header: OBUHeader, streamOffset: number): AV1OBU {
   return {
-    type,
-    size: totalSize,
-    data: data.slice(offset + headerSize, offset + totalSize),
+    type: header.type,
+    offset: streamOffset,
+    size,
+    data: data.slice(offset + header.headerSize, offset + size),
+    hasExtension: header.hasExtension,
+    temporalId: header.temporalId,
+    spatialId: header.spatialId,
   }
 }
 
 /**
- * Read LEB128 encoded value
+ * Read LEB128 encoded value, or return null when the data ends first
  */
-function readLeb128(data: Uint8Array, offset: number): { value: number, bytes: number } {
+export function readLeb128(data: Uint8Array, offset: number, streamOffset: number = offset): { value: number, bytes: number } | null {
   let value = 0
   let bytes = 0
   let byte: number
 
   do {
     if (offset + bytes >= data.length) {
-      throw new Error('Unexpected end of data while reading LEB128')
+      return null
+    }
+
+    if (bytes === 8) {
+      throw new Error(`LEB128 value too large at byte ${streamOffset}`)
     }
 
     byte = data[offset + bytes]
-    value |= (byte & 0x7F) << (bytes * 7)
+    value += (byte & 0x7F) * 2 ** (bytes * 7)
     bytes++
-
-    if (bytes > 8) {
-      throw new Error('LEB128 value too large')
-    }
   } while (byte & 0x80)
 
   return { value, bytes }
 }
 
 /**
- * Write LEB128 encoded value
+ * Whether an OBU belongs to the layers of an operating point. OBUs without
+ * an extension header, and sequence headers and temporal delimiters, apply
+ * to every layer; `idc` 0 selects all layers (AV1 spec section 7.5, drop_obu).
  */
-export function writeLeb128(value: number): Uint8Array {
-  const bytes: number[] = []
-
-  do {
-    let byte = value & 0x7F
-    value >>= 7
-
-    if (value !== 0) {
-      byte |= 0x80
-    }
+export function inOperatingPoint(obu: AV1OBU, idc: number): boolean {
+  if (idc === 0 || !obu.hasExtension
+    || obu.type === OBUType.SEQUENCE_HEADER || obu.type === OBUType.TEMPORAL_DELIMITER) {
+    return true
+  }
 
-    bytes.push(byte)
-  } while (value !== 0)
+  const inTemporalLayer = (idc >> obu.temporalId) & 1
+  const inSpatialLayer = (idc >> (obu.spatialId + 8)) & 1
+  return inTemporalLayer === 1 && inSpatialLayer === 1
+}
 
-  return new Uint8Array(bytes)
+/**
+ * Write LEB128 encoded value
+ */
+export function writeLeb128(value: number): Uint8Array {
+  const writer = new BitWriter()
+  writer.writeLeb128(value)
+  return writer.toUint8Array()
 }
 
 /**
- * Create OBU with header
+ * Create OBU with header. `hasSizeField: false` leaves out obu_size, for
+ * OBUs whose length is given by external framing such as Annex B.
  */
 export function createOBU(
   type: OBUType,
@@ -119,42 +312,107 @@ export function createOBU(
     hasExtension?: boolean
     temporalId?: number
     spatialId?: number
+    hasSizeField?: boolean
   } = {},
 ): Uint8Array {
-  const { hasExtension = false, temporalId = 0, spatialId = 0 } = options
+  const { hasExtension = false, temporalId = 0, spatialId = 0, hasSizeField = true } = options
 
-  // Calculate header
-  let header = (type << 3) | 0x02 // has_size_field = 1
+  // obu_header()
+  const writer = new BitWriter()
+  writer.writeBit(0) // obu_forbidden_bit
+  writer.writeBits(type, 4)
+  writer.writeBit(hasExtension)
+  writer.writeBit(hasSizeField)
+  writer.writeBit(0) // obu_reserved_1bit
 
   if (hasExtension) {
-    header |= 0x04
+    // obu_extension_header()
+    writer.writeBits(temporalId, 3)
+    writer.writeBits(spatialId, 2)
+    writer.writeBits(0, 3) // extension_header_reserved_3bits
   }
 
-  // Encode size
-  const sizeBytes = writeLeb128(payload.length)
+  if (hasSizeField) {
+    writer.writeLeb128(payload.length)
+  }
 
-  // Calculate total size
-  const headerSize = 1 + (hasExtension ? 1 : 0) + sizeBytes.length
-  const buffer = new Uint8Array(headerSize + payload.length)
+  const header = writer.toUint8Array()
+  const buffer = new Uint8Array(header.length + payload.length)
+  buffer.set(header)
+  buffer.set(payload, header.length)
 
-  // Write header
-  buffer[0] = header
+  return buffer
+}
 
-  let offset = 1
+/**
+ * Serialize a parsed OBU, keeping its extension header
+ */
+export function writeOBU(obu: AV1OBU, hasSizeField: boolean = true): Uint8Array {
+  return createOBU(obu.type, obu.data, {
+    hasExtension: obu.hasExtension,
+    temporalId: obu.temporalId,
+    spatialId: obu.spatialId,
+    hasSizeField,
+  })
+}
 
-  if (hasExtension) {
-    buffer[offset] = ((temporalId & 0x07) << 5) | ((spatialId & 0x03) << 3)
-    offset++
+/**
+ * Split a low-overhead (Section 5) bitstream into temporal units, each
+ * starting at a temporal delimiter. OBUs before the first delimiter form a
+ * unit of their own.
+ */
+export function readSection5(data: Uint8Array): TemporalUnit[] {
+  const units: TemporalUnit[] = []
+
+  for (const obu of parseOBUs(data)) {
+    if (obu.type === OBUType.TEMPORAL_DELIMITER || units.length === 0) {
+      units.push({ obus: [] })
+    }
+    units[units.length - 1].obus.push(obu)
   }
 
-  // Write size
-  buffer.set(sizeBytes, offset)
-  offset += sizeBytes.length
+  return units
+}
 
-  // Write payload
-  buffer.set(payload, offset)
+/**
+ * Write temporal units as a low-overhead (Section 5) bitstream, adding the
+ * temporal delimiter of any unit that lacks one
+ */
+export function writeSection5(units: TemporalUnit[]): Uint8Array {
+  return concatBytes(units.flatMap(unit => withTemporalDelimiter(unit.obus).map(obu => writeOBU(obu))))
+}
 
-  return buffer
+/**
+ * The OBUs of a temporal unit, starting with a temporal delimiter
+ */
+export function withTemporalDelimiter(obus: AV1OBU[]): AV1OBU[] {
+  if (obus[0]?.type === OBUType.TEMPORAL_DELIMITER) {
+    return obus
+  }
+
+  const delimiter: AV1OBU = {
+    type: OBUType.TEMPORAL_DELIMITER,
+    offset: 0,
+    size: 2,
+    data: new Uint8Array(0),
+    hasExtension: false,
+    temporalId: 0,
+    spatialId: 0,
+  }
+  return [delimiter, ...obus]
+}
+
+/**
+ * Concatenate byte arrays
+ */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
 }
 
 /**
@@ -0,0 +1,87 @@
+import type { FrameHeader } from '../types'
+import { AC_QLOOKUP, DC_QLOOKUP, QM_OFFSET, QUANTIZER_MATRIX } from './quantizer-tables'
+import { TX_HEIGHT, TX_WIDTH } from './tables'
+
+/** Quantizer matrix level meaning "no matrix" (flat weights) */
+export const QM_LEVEL_FLAT = 15
+
+const AOM_QM_BITS = 5
+
+/**
+ * dc_q(): quantizer step size for the DC coefficient
+ */
+export function dcQ(qindex: number, bitDepth: number): number {
+  return DC_QLOOKUP[(bitDepth - 8) >> 1][Math.max(0, Math.min(255, qindex))]
+}
+
+/**
+ * ac_q(): quantizer step size for the AC coefficients
+ */
+export function acQ(qindex: number, bitDepth: number): number {
+  return AC_QLOOKUP[(bitDepth - 8) >> 1][Math.max(0, Math.min(255, qindex))]
+}
+
+/**
+ * get_dc_quant(): DC step size of a plane for a block qindex, including the
+ * frame's delta_q for that plane
+ */
+export function getDcQuant(header: FrameHeader, plane: number, qindex: number, bitDepth: number): number {
+  const q = header.quantization
+  const delta = plane === 0 ? q.deltaQYDc : plane === 1 ? q.deltaQUDc : q.deltaQVDc
+  return dcQ(qindex + delta, bitDepth)
+}
+
+/**
+ * get_ac_quant(): AC step size of a plane for a block qindex, including the
+ * frame's delta_q for that plane
+ */
+export function getAcQuant(header: FrameHeader, plane: number, qindex: number, bitDepth: number): number {
+  const q = header.quantization
+  const delta = plane === 0 ? 0 : plane === 1 ? q.deltaQUAc : q.deltaQVAc
+  return acQ(qindex + delta, bitDepth)
+}
+
+/**
+ * Dequantize the coefficients of one transform block.
+ *
+ * `quant` holds the quantized levels and `dequant` receives the
+ * coefficients, both with a row stride of min(32, width). `qmLevel` selects
+ * the quantizer matrix, with `QM_LEVEL_FLAT` for none; the caller passes
+ * `QM_LEVEL_FLAT` for lossless blocks and 1D transform types.
+ */
+export function dequantize(
+  quant: Int32Array,
+  dequant: Int32Array,
+  txSz: number,
+  dcQuant: number,
+  acQuant: number,
+  qmLevel: number,
+  plane: number,
+  bitDepth: number,
+): void {
+  const count = Math.min(32, TX_WIDTH[txSz]) * Math.min(32, TX_HEIGHT[txSz])
+  const area = TX_WIDTH[txSz] * TX_HEIGHT[txSz]
+  const dqShift = (area > 256 ? 1 : 0) + (area > 1024 ? 1 : 0)
+  const max = (1 << (7 + bitDepth)) - 1
+  const min = -(1 << (7 + bitDepth))
+  const qm = qmLevel < QM_LEVEL_FLAT ? QUANTIZER_MATRIX[qmLevel][plane > 0 ? 1 : 0] : null
+  const qmOffset = QM_OFFSET[txSz]
+
+  for (let pos = 0; pos < count; pos++) {
+    const level = quant[pos]
+    if (level === 0) {
+      dequant[pos] = 0
+      continue
+    }
+
+    let q = pos === 0 ? dcQuant : acQuant
+    if (qm)
+      q = (q * qm[qmOffset + pos] + (1 << (AOM_QM_BITS - 1))) >> AOM_QM_BITS
+
+    // The product is masked to 24 bits before the size-dependent shift
+    let dq = ((Math.abs(level) * q) & 0xFFFFFF) >> dqShift
+    if (level < 0)
+      dq = -dq
+    dequant[pos] = Math.max(min, Math.min(max, dq))
+  }
+}
@@ -0,0 +1,362 @@
+import type { ColorConfig, ColorDescription, SequenceHeader } from '../types'
+import { BitWriter } from './bit-writer'
+
+const SELECT_SCREEN_CONTENT_TOOLS = 2
+const SELECT_INTEGER_MV = 2
+
+// CICP values referenced by color_config()
+const CP_BT_709 = 1
+const CP_UNSPECIFIED = 2
+const TC_UNSPECIFIED = 2
+const TC_SRGB = 13
+const MC_IDENTITY = 0
+const MC_UNSPECIFIED = 2
+const CSP_UNKNOWN = 0
+
+/** seq_level_idx 31: no level limits apply */
+export const SEQ_LEVEL_MAX = 31
+
+/**
+ * MaxPicSize, MaxHSize and MaxVSize of each defined seq_level_idx (AV1 spec
+ * Annex A.3); the missing indices are reserved
+ */
+export const LEVEL_LIMITS: Readonly<Record<number, readonly [number, number, number]>> = {
+  0: [147456, 2048, 1152],
+  1: [278784, 2816, 1584],
+  4: [665856, 4352, 2448],
+  5: [1065024, 5504, 3096],
+  8: [2359296, 6144, 3456],
+  9: [2359296, 6144, 3456],
+  12: [8912896, 8192, 4352],
+  13: [8912896, 8192, 4352],
+  14: [8912896, 8192, 4352],
+  15: [8912896, 8192, 4352],
+  16: [35651584, 16384, 8704],
+  17: [35651584, 16384, 8704],
+  18: [35651584, 16384, 8704],
+  19: [35651584, 16384, 8704],
+  20: [142606336, 32768, 17408],
+  21: [142606336, 32768, 17408],
+  22: [142606336, 32768, 17408],
+  23: [142606336, 32768, 17408],
+}
+
+/**
+ * Options for building a still-picture sequence header
+ */
+export interface SequenceHeaderOptions {
+  width: number
+  height: number
+  /** Bits per sample (default: 8) */
+  bitDepth?: 8 | 10 | 12
+  /** Luma only (default: false) */
+  monochrome?: boolean
+  /** Chroma subsampling of color images (default: '4:2:0') */
+  chromaSubsampling?: '4:2:0' | '4:2:2' | '4:4:4'
+  /**
+   * CICP values and range; without them color_config signals unspecified,
+   * limited range. All-unspecified values are left out, signalling only the
+   * range
+   */
+  color?: ColorDescription
+  /** Use the reduced still-picture header syntax (default: true) */
+  reducedStillPictureHeader?: boolean
+}
+
+/**
+ * The display name of a seq_level_idx, e.g. '5.1'
+ */
+export function levelName(seqLevelIdx: number): string {
+  return `${2 + (seqLevelIdx >> 2)}.${seqLevelIdx & 3}`
+}
+
+/**
+ * The lowest level whose picture size limits fit a frame, or 31 (no
+ * limits) when none does
+ */
+export function selectSeqLevelIdx(width: number, height: number): number {
+  for (const [seqLevelIdx, [maxPicSize, maxHSize, maxVSize]] of Object.entries(LEVEL_LIMITS)) {
+    if (width * height <= maxPicSize && width <= maxHSize && height <= maxVSize) {
+      return Number(seqLevelIdx)
+    }
+  }
+  return SEQ_LEVEL_MAX
+}
+
+/**
+ * Build the sequence header of a still picture: the lowest profile that
+ * supports the bit depth and subsampling, the level from the picture size
+ * and the minimal frame_width_bits / frame_height_bits
+ */
+export function createSequenceHeader(options: SequenceHeaderOptions): SequenceHeader {
+  const { width, height, bitDepth = 8, monochrome = false, chromaSubsampling = '4:2:0', color, reducedStillPictureHeader = true } = options
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1 || width > 65536 || height > 65536) {
+    throw new Error(`Invalid frame size ${width}x${height}`)
+  }
+
+  const isSrgbIdentity = color?.colorPrimaries === CP_BT_709
+    && color.transferCharacteristics === TC_SRGB
+    && color.matrixCoefficients === MC_IDENTITY
+  const subsampling = monochrome ? '4:2:0' : chromaSubsampling
+  if (isSrgbIdentity && (subsampling !== '4:4:4' || !color.fullRange)) {
+    throw new Error('Identity (GBR) sRGB requires full range 4:4:4')
+  }
+
+  // Profile 0: 4:2:0 and monochrome, 1: 4:4:4, 2: 4:2:2 and everything at 12 bits
+  let seqProfile = 0
+  if (bitDepth === 12 || subsampling === '4:2:2') {
+    seqProfile = 2
+  }
+  else if (subsampling === '4:4:4') {
+    seqProfile = 1
+  }
+
+  const colorConfig: ColorConfig = {
+    bitDepth,
+    monochrome,
+    numPlanes: monochrome ? 1 : 3,
+    colorDescriptionPresent: color !== undefined
+      && (color.colorPrimaries !== CP_UNSPECIFIED || color.transferCharacteristics !== TC_UNSPECIFIED
+        || color.matrixCoefficients !== MC_UNSPECIFIED),
+    colorPrimaries: color?.colorPrimaries ?? CP_UNSPECIFIED,
+    transferCharacteristics: color?.transferCharacteristics ?? TC_UNSPECIFIED,
+    matrixCoefficients: color?.matrixCoefficients ?? MC_UNSPECIFIED,
+    colorRange: color?.fullRange ?? false,
+    subsamplingX: subsampling === '4:4:4' ? 0 : 1,
+    subsamplingY: subsampling === '4:2:0' ? 1 : 0,
+    chromaSamplePosition: CSP_UNKNOWN,
+    separateUvDeltaQ: false,
+  }
+
+  const bitsFor = (size: number): number => Math.max(1, Math.ceil(Math.log2(size)))
+
+  return {
+    seqProfile,
+    stillPicture: true,
+    reducedStillPictureHeader,
+    initialDisplayDelayPresent: false,
+    operatingPoints: [{ idc: 0, seqLevelIdx: selectSeqLevelIdx(width, height), seqTier: 0 }],
+    frameWidthBits: bitsFor(width),
+    frameHeightBits: bitsFor(height),
+    maxFrameWidth: width,
+    maxFrameHeight: height,
+    frameIdNumbersPresent: false,
+    deltaFrameIdLength: 0,
+    additionalFrameIdLength: 0,
+    use128x128Superblock: false,
+    enableFilterIntra: false,
+    enableIntraEdgeFilter: true,
+    enableInterintraCompound: false,
+    enableMaskedCompound: false,
+    enableWarpedMotion: false,
+    enableDualFilter: false,
+    enableOrderHint: false,
+    enableJntComp: false,
+    enableRefFrameMvs: false,
+    seqForceScreenContentTools: SELECT_SCREEN_CONTENT_TOOLS,
+    seqForceIntegerMv: SELECT_INTEGER_MV,
+    orderHintBits: 0,
+    enableSuperres: false,
+    enableCdef: true,
+    enableRestoration: false,
+    colorConfig,
+    filmGrainParamsPresent: false,
+  }
+}
+
+/**
+ * Write a sequence_header_obu payload (AV1 spec section 5.5), trailing bits
+ * included. Fields the syntax cannot express throw.
+ */
+export function writeSequenceHeader(seqHeader: SequenceHeader): Uint8Array {
+  const writer = new BitWriter()
+  const { decoderModelInfo, operatingPoints, timingInfo } = seqHeader
+
+  writer.writeBits(seqHeader.seqProfile, 3)
+  writer.writeBit(seqHeader.stillPicture)
+  writer.writeBit(seqHeader.reducedStillPictureHeader)
+
+  if (seqHeader.reducedStillPictureHeader) {
+    if (!seqHeader.stillPicture) {
+      throw new Error('reduced_still_picture_header requires still_picture')
+    }
+    if (timingInfo || decoderModelInfo || operatingPoints.length !== 1 || operatingPoints[0].idc !== 0) {
+      throw new Error('A reduced still-picture header has a single operating point and no timing info')
+    }
+    writer.writeBits(operatingPoints[0].seqLevelIdx, 5)
+  }
+  else {
+    writer.writeBit(timingInfo !== undefined)
+    if (timingInfo) {
+      writer.writeBits(timingInfo.numUnitsInDisplayTick, 32)
+      writer.writeBits(timingInfo.timeScale, 32)
+      writer.writeBit(timingInfo.equalPictureInterval)
+      if (timingInfo.equalPictureInterval) {
+        writer.writeUvlc((timingInfo.numTicksPerPicture ?? 1) - 1)
+      }
+
+      writer.writeBit(decoderModelInfo !== undefined)
+      if (decoderModelInfo) {
+        writer.writeBits(decoderModelInfo.bufferDelayLength - 1, 5)
+        writer.writeBits(decoderModelInfo.numUnitsInDecodingTick, 32)
+        writer.writeBits(decoderModelInfo.bufferRemovalTimeLength - 1, 5)
+        writer.writeBits(decoderModelInfo.framePresentationTimeLength - 1, 5)
+      }
+    }
+    else if (decoderModelInfo) {
+      throw new Error('decoder_model_info requires timing_info')
+    }
+
+    writer.writeBit(seqHeader.initialDisplayDelayPresent)
+    writer.writeBits(operatingPoints.length - 1, 5)
+
+    for (const op of operatingPoints) {
+      writer.writeBits(op.idc, 12)
+      writer.writeBits(op.seqLevelIdx, 5)
+      if (op.seqLevelIdx > 7) {
+        writer.writeBit(op.seqTier)
+      }
+
+      if (decoderModelInfo) {
+        writer.writeBit(op.decoderModel !== undefined)
+        if (op.decoderModel) {
+          writer.writeBits(op.decoderModel.decoderBufferDelay, decoderModelInfo.bufferDelayLength)
+          writer.writeBits(op.decoderModel.encoderBufferDelay, decoderModelInfo.bufferDelayLength)
+          writer.writeBit(op.decoderModel.lowDelayMode)
+        }
+      }
+
+      if (seqHeader.initialDisplayDelayPresent) {
+        writer.writeBit(op.initialDisplayDelay !== undefined)
+        if (op.initialDisplayDelay !== undefined) {
+          writer.writeBits(op.initialDisplayDelay - 1, 4)
+        }
+      }
+    }
+  }
+
+  writer.writeBits(seqHeader.frameWidthBits - 1, 4)
+  writer.writeBits(seqHeader.frameHeightBits - 1, 4)
+  writer.writeBits(seqHeader.maxFrameWidth - 1, seqHeader.frameWidthBits)
+  writer.writeBits(seqHeader.maxFrameHeight - 1, seqHeader.frameHeightBits)
+
+  if (!seqHeader.reducedStillPictureHeader) {
+    writer.writeBit(seqHeader.frameIdNumbersPresent)
+    if (seqHeader.frameIdNumbersPresent) {
+      writer.writeBits(seqHeader.deltaFrameIdLength - 2, 4)
+      writer.writeBits(seqHeader.additionalFrameIdLength - 1, 3)
+    }
+  }
+
+  writer.writeBit(seqHeader.use128x128Superblock)
+  writer.writeBit(seqHeader.enableFilterIntra)
+  writer.writeBit(seqHeader.enableIntraEdgeFilter)
+
+  if (!seqHeader.reducedStillPictureHeader) {
+    writer.writeBit(seqHeader.enableInterintraCompound)
+    writer.writeBit(seqHeader.enableMaskedCompound)
+    writer.writeBit(seqHeader.enableWarpedMotion)
+    writer.writeBit(seqHeader.enableDualFilter)
+    writer.writeBit(seqHeader.enableOrderHint)
+    if (seqHeader.enableOrderHint) {
+      writer.writeBit(seqHeader.enableJntComp)
+      writer.writeBit(seqHeader.enableRefFrameMvs)
+    }
+
+    const seqChooseScreenContentTools = seqHeader.seqForceScreenContentTools === SELECT_SCREEN_CONTENT_TOOLS
+    writer.writeBit(seqChooseScreenContentTools)
+    if (!seqChooseScreenContentTools) {
+      writer.writeBit(seqHeader.seqForceScreenContentTools)
+    }
+
+    if (seqHeader.seqForceScreenContentTools > 0) {
+      const seqChooseIntegerMv = seqHeader.seqForceIntegerMv === SELECT_INTEGER_MV
+      writer.writeBit(seqChooseIntegerMv)
+      if (!seqChooseIntegerMv) {
+        writer.writeBit(seqHeader.seqForceIntegerMv)
+      }
+    }
+
+    if (seqHeader.enableOrderHint) {
+      writer.writeBits(seqHeader.orderHintBits - 1, 3)
+    }
+  }
+
+  writer.writeBit(seqHeader.enableSuperres)
+  writer.writeBit(seqHeader.enableCdef)
+  writer.writeBit(seqHeader.enableRestoration)
+  writeColorConfig(writer, seqHeader.colorConfig, seqHeader.seqProfile)
+  writer.writeBit(seqHeader.filmGrainParamsPresent)
+  writer.writeTrailingBits()
+
+  return writer.toUint8Array()
+}
+
+/**
+ * Write color_config() (AV1 spec section 5.5.2)
+ */
+function writeColorConfig(writer: BitWriter, config: ColorConfig, seqProfile: number): void {
+  const { bitDepth, monochrome, subsamplingX, subsamplingY } = config
+
+  writer.writeBit(bitDepth > 8)
+  if (seqProfile === 2 && bitDepth > 8) {
+    writer.writeBit(bitDepth === 12)
+  }
+  else if (bitDepth === 12) {
+    throw new Error('12-bit color requires seq_profile 2')
+  }
+
+  if (seqProfile === 1) {
+    if (monochrome) {
+      throw new Error('seq_profile 1 does not support monochrome')
+    }
+  }
+  else {
+    writer.writeBit(monochrome)
+  }
+
+  writer.writeBit(config.colorDescriptionPresent)
+  if (config.colorDescriptionPresent) {
+    writer.writeBits(config.colorPrimaries, 8)
+    writer.writeBits(config.transferCharacteristics, 8)
+    writer.writeBits(config.matrixCoefficients, 8)
+  }
+
+  if (monochrome) {
+    writer.writeBit(config.colorRange)
+    return
+  }
+
+  const isSrgbIdentity = config.colorPrimaries === CP_BT_709
+    && config.transferCharacteristics === TC_SRGB
+    && config.matrixCoefficients === MC_IDENTITY
+  if (isSrgbIdentity) {
+    if (subsamplingX || subsamplingY || !config.colorRange) {
+      throw new Error('Identity (GBR) sRGB requires full range 4:4:4')
+    }
+  }
+  else {
+    writer.writeBit(config.colorRange)
+
+    // Each profile only allows some subsamplings; 12-bit profile 2 signals its own
+    const fixedSubsampling = [[1, 1], [0, 0], [1, 0]][seqProfile]
+    if (seqProfile === 2 && bitDepth === 12) {
+      writer.writeBit(subsamplingX)
+      if (subsamplingX) {
+        writer.writeBit(subsamplingY)
+      }
+      else if (subsamplingY) {
+        throw new Error('Invalid chroma subsampling: vertical without horizontal')
+      }
+    }
+    else if (subsamplingX !== fixedSubsampling[0] || subsamplingY !== fixedSubsampling[1]) {
+      throw new Error(`seq_profile ${seqProfile} does not support subsampling ${subsamplingX},${subsamplingY} at ${bitDepth} bits`)
+    }
+
+    if (subsamplingX && subsamplingY) {
+      writer.writeBits(config.chromaSamplePosition, 2)
+    }
+  }
+
+  writer.writeBit(config.separateUvDeltaQ)
+}
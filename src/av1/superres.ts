@@ -0,0 +1,103 @@
+import type { FrameState } from './frame-state'
+
+const SUPERRES_SCALE_BITS = 14
+const SUPERRES_SCALE_MASK = (1 << SUPERRES_SCALE_BITS) - 1
+const SUPERRES_EXTRA_BITS = 8
+const SUPERRES_FILTER_TAPS = 8
+const SUPERRES_FILTER_OFFSET = 3
+const FILTER_BITS = 7
+
+/** Upscale_Filter[subpel]: 8-tap filters for the 64 horizontal phases */
+const UPSCALE_FILTER = [
+  [0, 0, 0, 128, 0, 0, 0, 0], [0, 0, -1, 128, 2, -1, 0, 0],
+  [0, 1, -3, 127, 4, -2, 1, 0], [0, 1, -4, 127, 6, -3, 1, 0],
+  [0, 2, -6, 126, 8, -3, 1, 0], [0, 2, -7, 125, 11, -4, 1, 0],
+  [-1, 2, -8, 125, 13, -5, 2, 0], [-1, 3, -9, 124, 15, -6, 2, 0],
+  [-1, 3, -10, 123, 18, -6, 2, -1], [-1, 3, -11, 122, 20, -7, 3, -1],
+  [-1, 4, -12, 121, 22, -8, 3, -1], [-1, 4, -13, 120, 25, -9, 3, -1],
+  [-1, 4, -14, 118, 28, -9, 3, -1], [-1, 4, -15, 117, 30, -10, 4, -1],
+  [-1, 5, -16, 116, 32, -11, 4, -1], [-1, 5, -16, 114, 35, -12, 4, -1],
+  [-1, 5, -17, 112, 38, -12, 4, -1], [-1, 5, -18, 111, 40, -13, 5, -1],
+  [-1, 5, -18, 109, 43, -14, 5, -1], [-1, 6, -19, 107, 45, -14, 5, -1],
+  [-1, 6, -19, 105, 48, -15, 5, -1], [-1, 6, -19, 103, 51, -16, 5, -1],
+  [-1, 6, -20, 101, 53, -16, 6, -1], [-1, 6, -20, 99, 56, -17, 6, -1],
+  [-1, 6, -20, 97, 58, -17, 6, -1], [-1, 6, -20, 95, 61, -18, 6, -1],
+  [-2, 7, -20, 93, 64, -18, 6, -2], [-2, 7, -20, 91, 66, -19, 6, -1],
+  [-2, 7, -20, 88, 69, -19, 6, -1], [-2, 7, -20, 86, 71, -19, 6, -1],
+  [-2, 7, -20, 84, 74, -20, 7, -2], [-2, 7, -20, 81, 76, -20, 7, -1],
+  [-2, 7, -20, 79, 79, -20, 7, -2], [-1, 7, -20, 76, 81, -20, 7, -2],
+  [-2, 7, -20, 74, 84, -20, 7, -2], [-1, 6, -19, 71, 86, -20, 7, -2],
+  [-1, 6, -19, 69, 88, -20, 7, -2], [-1, 6, -19, 66, 91, -20, 7, -2],
+  [-2, 6, -18, 64, 93, -20, 7, -2], [-1, 6, -18, 61, 95, -20, 6, -1],
+  [-1, 6, -17, 58, 97, -20, 6, -1], [-1, 6, -17, 56, 99, -20, 6, -1],
+  [-1, 6, -16, 53, 101, -20, 6, -1], [-1, 5, -16, 51, 103, -19, 6, -1],
+  [-1, 5, -15, 48, 105, -19, 6, -1], [-1, 5, -14, 45, 107, -19, 6, -1],
+  [-1, 5, -14, 43, 109, -18, 5, -1], [-1, 5, -13, 40, 111, -18, 5, -1],
+  [-1, 4, -12, 38, 112, -17, 5, -1], [-1, 4, -12, 35, 114, -16, 5, -1],
+  [-1, 4, -11, 32, 116, -16, 5, -1], [-1, 4, -10, 30, 117, -15, 4, -1],
+  [-1, 3, -9, 28, 118, -14, 4, -1], [-1, 3, -9, 25, 120, -13, 4, -1],
+  [-1, 3, -8, 22, 121, -12, 4, -1], [-1, 3, -7, 20, 122, -11, 3, -1],
+  [-1, 2, -6, 18, 123, -10, 3, -1], [0, 2, -6, 15, 124, -9, 3, -1],
+  [0, 2, -5, 13, 125, -8, 2, -1], [0, 1, -4, 11, 125, -7, 2, 0],
+  [0, 1, -3, 8, 126, -6, 2, 0], [0, 1, -3, 6, 127, -4, 1, 0],
+  [0, 1, -2, 4, 127, -3, 1, 0], [0, 0, -1, 2, 128, -1, 0, 0],
+]
+
+/**
+ * Row stride of each plane once upscaled to the frame's upscaled width,
+ * padded to a superblock multiple like the decoded planes
+ */
+export function upscaledStrides(frame: FrameState): number[] {
+  const { numPlanes, subsamplingX } = frame.seqHeader.colorConfig
+  const sbSize = frame.seqHeader.use128x128Superblock ? 128 : 64
+  const lumaWidth = Math.ceil(frame.frameHeader.upscaledWidth / sbSize) * sbSize
+  return Array.from({ length: numPlanes }, (_, plane) => lumaWidth >> (plane > 0 ? subsamplingX : 0))
+}
+
+/**
+ * Super-resolution upscaling process (AV1 spec section 7.16). Upscales
+ * `planes` (laid out with `frame.strides`) horizontally from the coded
+ * frame width to the upscaled width, writing new planes laid out with
+ * `strides`.
+ */
+export function upscalePlanes(frame: FrameState, planes: Uint16Array[], strides: number[]): Uint16Array[] {
+  const { frameWidth, upscaledWidth, frameHeight } = frame.frameHeader
+  const { bitDepth, subsamplingX, subsamplingY } = frame.seqHeader.colorConfig
+  const pixelMax = (1 << bitDepth) - 1
+
+  return planes.map((input, plane) => {
+    const subX = plane > 0 ? subsamplingX : 0
+    const subY = plane > 0 ? subsamplingY : 0
+    const inStride = frame.strides[plane]
+    const outStride = strides[plane]
+    const output = new Uint16Array(outStride * frame.planeHeights[plane])
+
+    const downscaledPlaneW = (frameWidth + subX) >> subX
+    const upscaledPlaneW = (upscaledWidth + subX) >> subX
+    const planeH = (frameHeight + subY) >> subY
+    const stepX = Math.floor(((downscaledPlaneW << SUPERRES_SCALE_BITS) + (upscaledPlaneW >> 1)) / upscaledPlaneW)
+    const err = upscaledPlaneW * stepX - (downscaledPlaneW << SUPERRES_SCALE_BITS)
+    let initialSubpelX = Math.trunc((-((upscaledPlaneW - downscaledPlaneW) << (SUPERRES_SCALE_BITS - 1))
+      + (upscaledPlaneW >> 1)) / upscaledPlaneW)
+      + (1 << (SUPERRES_EXTRA_BITS - 1)) - Math.trunc(err / 2)
+    initialSubpelX &= SUPERRES_SCALE_MASK
+    const maxX = ((frame.miCols * 4) >> subX) - 1
+
+    for (let y = 0; y < planeH; y++) {
+      const row = y * inStride
+      for (let x = 0; x < upscaledPlaneW; x++) {
+        const srcX = -(1 << SUPERRES_SCALE_BITS) + initialSubpelX + x * stepX
+        const srcXPx = srcX >> SUPERRES_SCALE_BITS
+        const filter = UPSCALE_FILTER[(srcX & SUPERRES_SCALE_MASK) >> SUPERRES_EXTRA_BITS]
+        let sum = 0
+        for (let k = 0; k < SUPERRES_FILTER_TAPS; k++) {
+          const sampleX = Math.max(0, Math.min(maxX, srcXPx + k - SUPERRES_FILTER_OFFSET))
+          sum += input[row + sampleX] * filter[k]
+        }
+        const v = (sum + (1 << (FILTER_BITS - 1))) >> FILTER_BITS
+        output[y * outStride + x] = v < 0 ? 0 : v > pixelMax ? pixelMax : v
+      }
+    }
+    return output
+  })
+}
@@ -0,0 +1,134 @@
+import type { Cdf } from './cdf'
+import { adaptCdf } from './cdf'
+
+const EC_PROB_SHIFT = 6
+const EC_MIN_PROB = 4
+
+/**
+ * AV1 arithmetic symbol decoder for tile data (spec section 8.2)
+ */
+export class SymbolDecoder {
+  private data: Uint8Array
+  private bitPos: number
+  private endBitPos: number
+  private symbolValue: number = 0
+  private symbolRange: number = 0
+  private symbolMaxBits: number = 0
+  private disableCdfUpdate: boolean
+  private boolCdf = new Uint16Array([1 << 14, 1 << 15, 0])
+
+  /**
+   * Start decoding `size` bytes of tile data at `offset` (init_symbol)
+   */
+  constructor(data: Uint8Array, offset: number, size: number, disableCdfUpdate: boolean = false) {
+    if (size < 1 || offset + size > data.length) {
+      throw new Error('Invalid tile data size')
+    }
+
+    this.data = data
+    this.bitPos = offset * 8
+    this.endBitPos = (offset + size) * 8
+    this.disableCdfUpdate = disableCdfUpdate
+
+    const numBits = Math.min(size * 8, 15)
+    const buf = this.readBits(numBits)
+    const paddedBuf = buf << (15 - numBits)
+    this.symbolValue = ((1 << 15) - 1) ^ paddedBuf
+    this.symbolRange = 1 << 15
+    this.symbolMaxBits = 8 * size - 15
+  }
+
+  private readBits(count: number): number {
+    let value = 0
+    for (let i = 0; i < count; i++) {
+      const pos = this.bitPos++
+      value = (value << 1) | ((this.data[pos >> 3] >> (7 - (pos & 7))) & 1)
+    }
+    return value
+  }
+
+  /**
+   * Decode one symbol using `cdf` and adapt it (read_symbol)
+   */
+  readSymbol(cdf: Cdf): number {
+    const n = cdf.length - 1
+    let cur = this.symbolRange
+    let prev: number
+    let symbol = -1
+
+    do {
+      symbol++
+      prev = cur
+      const f = (1 << 15) - cdf[symbol]
+      cur = ((this.symbolRange >> 8) * (f >> EC_PROB_SHIFT) >> (7 - EC_PROB_SHIFT))
+        + EC_MIN_PROB * (n - symbol - 1)
+    } while (this.symbolValue < cur)
+
+    this.symbolRange = prev - cur
+    this.symbolValue -= cur
+    this.renormalize()
+
+    if (!this.disableCdfUpdate)
+      adaptCdf(cdf, symbol)
+
+    return symbol
+  }
+
+  private renormalize(): void {
+    const bits = 15 - (31 - Math.clz32(this.symbolRange))
+    this.symbolRange <<= bits
+    const numBits = Math.min(bits, Math.max(0, this.symbolMaxBits))
+    const newData = this.readBits(numBits)
+    const paddedData = newData << (bits - numBits)
+    this.symbolValue = paddedData ^ (((this.symbolValue + 1) << bits) - 1)
+    this.symbolMaxBits -= bits
+  }
+
+  /**
+   * Decode an equiprobable bit (read_bool)
+   */
+  readBool(): number {
+    const cdf = this.boolCdf
+    cdf[0] = 1 << 14
+    cdf[1] = 1 << 15
+    cdf[2] = 0
+    return this.readSymbol(cdf)
+  }
+
+  /**
+   * Decode an n-bit unsigned value, most significant bit first (read_literal)
+   */
+  readLiteral(n: number): number {
+    let x = 0
+    for (let i = 0; i < n; i++) {
+      x = 2 * x + this.readBool()
+    }
+    return x
+  }
+
+  /**
+   * Finish decoding the tile and check the trailing bit and zero padding
+   * (exit_symbol). Returns the byte offset just past the tile data.
+   */
+  exit(): number {
+    if (this.symbolMaxBits < -14) {
+      throw new Error('Tile data overrun')
+    }
+
+    const trailingBitPosition = this.bitPos - Math.min(15, this.symbolMaxBits + 15)
+    this.bitPos += Math.max(0, this.symbolMaxBits)
+    const paddingEndPosition = this.bitPos
+
+    this.bitPos = trailingBitPosition
+    if (this.readBits(1) !== 1) {
+      throw new Error('Invalid tile padding: missing trailing bit')
+    }
+    while (this.bitPos < paddingEndPosition) {
+      if (this.readBits(1) !== 0) {
+        throw new Error('Invalid tile padding: non-zero padding bit')
+      }
+    }
+
+    return this.endBitPos >> 3
+  }
+}
@@ -0,0 +1,166 @@
+import type { Cdf } from './cdf'
+import { adaptCdf } from './cdf'
+
+const EC_PROB_SHIFT = 6
+const EC_MIN_PROB = 4
+
+/**
+ * The writing side of the symbol coder, implemented by `SymbolEncoder` and
+ * by `SymbolCounter` for trial encodes
+ */
+export interface SymbolWriter {
+  writeSymbol: (symbol: number, cdf: Cdf) => void
+  writeBool: (bit: number | boolean) => void
+  writeLiteral: (value: number, n: number) => void
+}
+
+/**
+ * The cost in bits of coding `symbol` with `cdf`
+ */
+export function getSymbolCost(symbol: number, cdf: Cdf): number {
+  const probability = cdf[symbol] - (symbol > 0 ? cdf[symbol - 1] : 0)
+  return 15 - Math.log2(Math.max(probability, EC_MIN_PROB))
+}
+
+/**
+ * AV1 arithmetic symbol encoder for tile data, the counterpart of
+ * `SymbolDecoder`: symbols written with the same CDFs read back as the same
+ * values, and the CDFs adapt identically on both sides.
+ */
+export class SymbolEncoder implements SymbolWriter {
+  /** Output bytes before carry propagation. Each may hold a carry bit */
+  private precarry: number[] = []
+  /** Low end of the coding interval, not yet output */
+  private low: number = 0
+  private range: number = 0x8000
+  /** Number of buffered bits of `low` beyond the 16 kept, minus 8 */
+  private count: number = -9
+  private disableCdfUpdate: boolean
+  private boolCdf = new Uint16Array([1 << 14, 1 << 15, 0])
+
+  constructor(disableCdfUpdate: boolean = false) {
+    this.disableCdfUpdate = disableCdfUpdate
+  }
+
+  /**
+   * Encode `symbol` using `cdf` and adapt it
+   */
+  writeSymbol(symbol: number, cdf: Cdf): void {
+    const n = cdf.length - 1
+    if (!Number.isInteger(symbol) || symbol < 0 || symbol >= n) {
+      throw new Error(`Symbol ${symbol} is out of range for a ${n}-symbol CDF`)
+    }
+
+    this.encode(symbol, cdf, n)
+    if (!this.disableCdfUpdate)
+      adaptCdf(cdf, symbol)
+  }
+
+  /**
+   * Encode an equiprobable bit (the counterpart of read_bool)
+   */
+  writeBool(bit: number | boolean): void {
+    this.encode(bit ? 1 : 0, this.boolCdf, 2)
+  }
+
+  /**
+   * Encode an n-bit unsigned value, most significant bit first (the
+   * counterpart of read_literal)
+   */
+  writeLiteral(value: number, n: number): void {
+    if (!Number.isInteger(value) || value < 0 || value >= 2 ** n) {
+      throw new Error(`Value ${value} does not fit in a ${n}-bit literal`)
+    }
+    for (let i = n - 1; i >= 0; i--)
+      this.writeBool(Math.floor(value / 2 ** i) & 1)
+  }
+
+  /**
+   * Finish the tile: flush the interval with the fewest bits that decode
+   * correctly, which also places the trailing one bit that exit_symbol
+   * expects, and return the tile data
+   */
+  finish(): Uint8Array {
+    let c = this.count
+    let s = c + 10
+    // Round low up to a multiple of 2^14 with bit 14 set
+    let e = (Math.floor((this.low + 0x3FFF) / 0x4000) | 1) * 0x4000
+    while (s > 0) {
+      const scale = 2 ** (c + 16)
+      this.precarry.push(Math.floor(e / scale))
+      e %= scale
+      s -= 8
+      c -= 8
+    }
+
+    const out = new Uint8Array(this.precarry.length)
+    let carry = 0
+    for (let i = this.precarry.length - 1; i >= 0; i--) {
+      const value = this.precarry[i] + carry
+      out[i] = value & 0xFF
+      carry = value >> 8
+    }
+    return out
+  }
+
+  private encode(symbol: number, cdf: Cdf, n: number): void {
+    const r = this.range
+    const fh = (1 << 15) - cdf[symbol]
+    const v = ((r >> 8) * (fh >> EC_PROB_SHIFT) >> (7 - EC_PROB_SHIFT)) + EC_MIN_PROB * (n - symbol - 1)
+
+    if (symbol > 0) {
+      const fl = (1 << 15) - cdf[symbol - 1]
+      const u = ((r >> 8) * (fl >> EC_PROB_SHIFT) >> (7 - EC_PROB_SHIFT)) + EC_MIN_PROB * (n - symbol)
+      this.normalize(this.low + r - u, u - v)
+    }
+    else {
+      this.normalize(this.low, r - v)
+    }
+  }
+
+  /**
+   * Scale the interval back up to 16 bits, moving whole bytes of `low` to
+   * the output as they become final (up to a carry)
+   */
+  private normalize(low: number, range: number): void {
+    const d = 16 - (32 - Math.clz32(range))
+    let c = this.count
+    let s = c + d
+
+    if (s >= 0) {
+      c += 16
+      if (s >= 8) {
+        this.precarry.push(Math.floor(low / 2 ** c))
+        low %= 2 ** c
+        c -= 8
+      }
+      this.precarry.push(Math.floor(low / 2 ** c))
+      low %= 2 ** c
+      s = c + d - 24
+    }
+
+    this.low = low * 2 ** d
+    this.range = range << d
+    this.count = s
+  }
+}
+
+/**
+ * Adds up the cost in bits of the symbols written instead of coding them.
+ * The CDFs do not adapt, so a trial encode leaves them as they were.
+ */
+export class SymbolCounter implements SymbolWriter {
+  bits: number = 0
+
+  writeSymbol(symbol: number, cdf: Cdf): void {
+    this.bits += getSymbolCost(symbol, cdf)
+  }
+
+  writeBool(_bit: number | boolean): void {
+    this.bits++
+  }
+
+  writeLiteral(_value: number, n: number): void {
+    this.bits += n
+  }
+}
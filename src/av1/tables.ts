@@ -0,0 +1,268 @@
+/**
+ * Block size, transform size and scan order tables shared by the AV1 tile
+ * decoder and the reconstruction stages (AV1 spec section 9.3)
+ */
+
+// Block sizes (subSize / MiSize)
+export const BLOCK_4X4 = 0
+export const BLOCK_4X8 = 1
+export const BLOCK_8X4 = 2
+export const BLOCK_8X8 = 3
+export const BLOCK_16X16 = 6
+export const BLOCK_32X32 = 9
+export const BLOCK_64X64 = 12
+export const BLOCK_128X128 = 15
+export const BLOCK_INVALID = 22
+
+// Partition types
+export const PARTITION_NONE = 0
+export const PARTITION_HORZ = 1
+export const PARTITION_VERT = 2
+export const PARTITION_SPLIT = 3
+export const PARTITION_HORZ_A = 4
+export const PARTITION_HORZ_B = 5
+export const PARTITION_VERT_A = 6
+export const PARTITION_VERT_B = 7
+export const PARTITION_HORZ_4 = 8
+export const PARTITION_VERT_4 = 9
+
+// Transform sizes
+export const TX_4X4 = 0
+export const TX_8X8 = 1
+export const TX_16X16 = 2
+export const TX_32X32 = 3
+export const TX_64X64 = 4
+export const TX_16X32 = 9
+export const TX_32X16 = 10
+export const TX_16X64 = 17
+export const TX_64X16 = 18
+
+// Transform types
+export const DCT_DCT = 0
+export const ADST_DCT = 1
+export const DCT_ADST = 2
+export const ADST_ADST = 3
+export const FLIPADST_DCT = 4
+export const DCT_FLIPADST = 5
+export const FLIPADST_FLIPADST = 6
+export const ADST_FLIPADST = 7
+export const FLIPADST_ADST = 8
+export const IDTX = 9
+export const V_DCT = 10
+export const H_DCT = 11
+export const V_ADST = 12
+export const H_ADST = 13
+export const V_FLIPADST = 14
+export const H_FLIPADST = 15
+
+// Transform classes
+export const TX_CLASS_2D = 0
+export const TX_CLASS_HORIZ = 1
+export const TX_CLASS_VERT = 2
+
+// Intra prediction modes (y_mode / uv_mode)
+export const DC_PRED = 0
+export const V_PRED = 1
+export const H_PRED = 2
+export const D45_PRED = 3
+export const D135_PRED = 4
+export const D113_PRED = 5
+export const D157_PRED = 6
+export const D203_PRED = 7
+export const D67_PRED = 8
+export const SMOOTH_PRED = 9
+export const SMOOTH_V_PRED = 10
+export const SMOOTH_H_PRED = 11
+export const PAETH_PRED = 12
+export const UV_CFL_PRED = 13
+
+export const NUM_4X4_BLOCKS_WIDE = [1, 1, 2, 2, 2, 4, 4, 4, 8, 8, 8, 16, 16, 16, 32, 32, 1, 4, 2, 8, 4, 16]
+export const NUM_4X4_BLOCKS_HIGH = [1, 2, 1, 2, 4, 2, 4, 8, 4, 8, 16, 8, 16, 32, 16, 32, 4, 1, 8, 2, 16, 4]
+export const MI_WIDTH_LOG2 = [0, 0, 1, 1, 1, 2, 2, 2, 3, 3, 3, 4, 4, 4, 5, 5, 0, 2, 1, 3, 2, 4]
+export const MI_HEIGHT_LOG2 = [0, 1, 0, 1, 2, 1, 2, 3, 2, 3, 4, 3, 4, 5, 4, 5, 2, 0, 3, 1, 4, 2]
+export const BLOCK_WIDTH = NUM_4X4_BLOCKS_WIDE.map(n => n * 4)
+export const BLOCK_HEIGHT = NUM_4X4_BLOCKS_HIGH.map(n => n * 4)
+
+export const TX_WIDTH_LOG2 = [2, 3, 4, 5, 6, 2, 3, 3, 4, 4, 5, 5, 6, 2, 4, 3, 5, 4, 6]
+export const TX_HEIGHT_LOG2 = [2, 3, 4, 5, 6, 3, 2, 4, 3, 5, 4, 6, 5, 4, 2, 5, 3, 6, 4]
+export const TX_WIDTH = TX_WIDTH_LOG2.map(n => 1 << n)
+export const TX_HEIGHT = TX_HEIGHT_LOG2.map(n => 1 << n)
+
+/** Largest square transform that fits inside each transform size */
+export const TX_SIZE_SQR = [0, 1, 2, 3, 4, 0, 0, 1, 1, 2, 2, 3, 3, 0, 0, 1, 1, 2, 2]
+/** Smallest square transform that covers each transform size */
+export const TX_SIZE_SQR_UP = [0, 1, 2, 3, 4, 1, 1, 2, 2, 3, 3, 4, 4, 2, 2, 3, 3, 4, 4]
+/** Transform size after one split step */
+export const SPLIT_TX_SIZE = [0, 0, 1, 2, 3, 0, 0, 1, 1, 2, 2, 3, 3, 5, 6, 7, 8, 9, 10]
+/** Transform size used for coefficient contexts (64-point dimensions become 32) */
+export const ADJUSTED_TX_SIZE = [0, 1, 2, 3, 3, 5, 6, 7, 8, 9, 10, 3, 3, 13, 14, 15, 16, 9, 10]
+
+export const MAX_TX_DEPTH = [0, 1, 1, 1, 2, 2, 2, 3, 3, 3, 4, 4, 4, 4, 4, 4, 2, 2, 3, 3, 4, 4]
+
+/** BLOCK_* for [widthLog2 - 2][heightLog2 - 2] in samples */
+const BLOCK_SIZE_LOOKUP = [
+  [BLOCK_4X4, BLOCK_4X8, 16, BLOCK_INVALID, BLOCK_INVALID, BLOCK_INVALID],
+  [BLOCK_8X4, BLOCK_8X8, 4, 18, BLOCK_INVALID, BLOCK_INVALID],
+  [17, 5, BLOCK_16X16, 7, 20, BLOCK_INVALID],
+  [BLOCK_INVALID, 19, 8, BLOCK_32X32, 10, BLOCK_INVALID],
+  [BLOCK_INVALID, BLOCK_INVALID, 21, 11, BLOCK_64X64, 13],
+  [BLOCK_INVALID, BLOCK_INVALID, BLOCK_INVALID, BLOCK_INVALID, 14, BLOCK_128X128],
+]
+
+/** TX_* for [widthLog2 - 2][heightLog2 - 2] in samples */
+const TX_SIZE_LOOKUP = [
+  [TX_4X4, 5, 13, -1, -1],
+  [6, TX_8X8, 7, 15, -1],
+  [14, 8, TX_16X16, TX_16X32, TX_16X64],
+  [-1, 16, TX_32X16, TX_32X32, 11],
+  [-1, -1, TX_64X16, 12, TX_64X64],
+]
+
+/**
+ * The block size with the given dimensions in samples, or BLOCK_INVALID
+ */
+export function getBlockSize(width: number, height: number): number {
+  const row = BLOCK_SIZE_LOOKUP[31 - Math.clz32(width) - 2]
+  return row?.[31 - Math.clz32(height) - 2] ?? BLOCK_INVALID
+}
+
+/**
+ * find_tx_size(): the transform size with the given dimensions in samples
+ */
+export function findTxSize(width: number, height: number): number {
+  return TX_SIZE_LOOKUP[31 - Math.clz32(width) - 2][31 - Math.clz32(height) - 2]
+}
+
+/** Partition_Subsize[partition][bSize] */
+export const PARTITION_SUBSIZE: number[][] = Array.from({ length: 10 }, (_, partition) =>
+  NUM_4X4_BLOCKS_WIDE.map((_, bSize) => {
+    const w = BLOCK_WIDTH[bSize]
+    const h = BLOCK_HEIGHT[bSize]
+    if (w !== h || w < 8)
+      return bSize === BLOCK_4X4 && partition === PARTITION_NONE ? BLOCK_4X4 : BLOCK_INVALID
+    switch (partition) {
+      case PARTITION_NONE:
+        return bSize
+      case PARTITION_HORZ:
+      case PARTITION_HORZ_A:
+      case PARTITION_HORZ_B:
+        return getBlockSize(w, h >> 1)
+      case PARTITION_VERT:
+      case PARTITION_VERT_A:
+      case PARTITION_VERT_B:
+        return getBlockSize(w >> 1, h)
+      case PARTITION_SPLIT:
+        return getBlockSize(w >> 1, h >> 1)
+      case PARTITION_HORZ_4:
+        return w === 8 ? BLOCK_INVALID : getBlockSize(w, h >> 2)
+      default:
+        return w === 8 ? BLOCK_INVALID : getBlockSize(w >> 2, h)
+    }
+  }))
+
+/** Max_Tx_Size_Rect[bSize]: the largest transform that fits inside a block */
+export const MAX_TX_SIZE_RECT = NUM_4X4_BLOCKS_WIDE.map((_, bSize) =>
+  findTxSize(Math.min(BLOCK_WIDTH[bSize], 64), Math.min(BLOCK_HEIGHT[bSize], 64)))
+
+/**
+ * get_plane_residual_size(): Subsampled_Size[bSize][subX][subY]. Returns
+ * BLOCK_INVALID when subsampling would stretch a tall block horizontally or
+ * a wide block vertically.
+ */
+export function getPlaneResidualSize(bSize: number, subX: number, subY: number): number {
+  const w = BLOCK_WIDTH[bSize]
+  const h = BLOCK_HEIGHT[bSize]
+  if ((subX && !subY && h > w) || (subY && !subX && w > h))
+    return BLOCK_INVALID
+  return getBlockSize(Math.max(4, w >> subX), Math.max(4, h >> subY))
+}
+
+/**
+ * get_tx_class(): whether a transform type is 2D, horizontal-only or
+ * vertical-only
+ */
+export function getTxClass(txType: number): number {
+  if (txType === V_DCT || txType === V_ADST || txType === V_FLIPADST)
+    return TX_CLASS_VERT
+  if (txType === H_DCT || txType === H_ADST || txType === H_FLIPADST)
+    return TX_CLASS_HORIZ
+  return TX_CLASS_2D
+}
+
+function createDefaultScan(w: number, h: number): Uint16Array {
+  const scan = new Uint16Array(w * h)
+  let i = 0
+  for (let d = 0; d < w + h - 1; d++) {
+    // Square blocks zig-zag; tall blocks always run down-left and wide
+    // blocks always run up-right along each anti-diagonal
+    const downLeft = w === h ? (d & 1) === 1 : h > w
+    const rMin = Math.max(0, d - w + 1)
+    const rMax = Math.min(h - 1, d)
+    for (let k = 0; k <= rMax - rMin; k++) {
+      const r = downLeft ? rMin + k : rMax - k
+      scan[i++] = r * w + d - r
+    }
+  }
+  return scan
+}
+
+function createRowScan(w: number, h: number): Uint16Array {
+  return Uint16Array.from({ length: w * h }, (_, i) => i)
+}
+
+function createColScan(w: number, h: number): Uint16Array {
+  return Uint16Array.from({ length: w * h }, (_, i) => (i % h) * w + Math.floor(i / h))
+}
+
+const scanCache = new Map<string, Uint16Array>()
+
+function cachedScan(kind: string, w: number, h: number, create: (w: number, h: number) => Uint16Array): Uint16Array {
+  const key = `${kind}${w}x${h}`
+  let scan = scanCache.get(key)
+  if (!scan) {
+    scan = create(w, h)
+    scanCache.set(key, scan)
+  }
+  return scan
+}
+
+/**
+ * get_scan(): coefficient scan order for a transform size and type. Positions
+ * are row-major within the (adjusted) transform block.
+ */
+export function getScan(txSz: number, txType: number): Uint16Array {
+  const adjusted = ADJUSTED_TX_SIZE[txSz]
+  const w = TX_WIDTH[adjusted]
+  const h = TX_HEIGHT[adjusted]
+
+  if (TX_SIZE_SQR_UP[txSz] === TX_64X64 || txType === IDTX)
+    return cachedScan('default', w, h, createDefaultScan)
+
+  const txClass = getTxClass(txType)
+  if (txClass === TX_CLASS_VERT)
+    return cachedScan('row', w, h, createRowScan)
+  if (txClass === TX_CLASS_HORIZ)
+    return cachedScan('col', w, h, createColScan)
+  return cachedScan('default', w, h, createDefaultScan)
+}
+
+/**
+ * Coeff_Base_Ctx_Offset[txSz][Min(row, 4)][Min(col, 4)]
+ */
+export function getCoeffBaseCtxOffset(txSz: number, row: number, col: number): number {
+  const w = TX_WIDTH[txSz]
+  const h = TX_HEIGHT[txSz]
+  if (row === 0 && col === 0)
+    return 0
+  if (h > w && row < 2)
+    return 11
+  if (w > h && col < 2)
+    return 16
+  const sum = row + col
+  if (sum === 1)
+    return 1
+  return sum <= 3 ? 6 : 21
+}
+
+/** Coeff_Base_Pos_Ctx_Offset[Min(idx, 2)] for 1D transform classes */
+export const COEFF_BASE_POS_CTX_OFFSET = [26, 31, 36]
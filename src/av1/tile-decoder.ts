@@ -0,0 +1,2305 @@
+import type { FrameHeader, SequenceHeader } from '../types'
+import type { Cdf, CdfContext } from './cdf'
+import type { FrameState } from './frame-state'
+import type { SymbolDecoder } from './symbol-decoder'
+import { getQIndex } from './frame-header'
+import { countUnitsInFrame } from './frame-state'
+import {
+  predictChromaFromLuma,
+  predictIntra,
+  predictIntraBlockCopy,
+  predictPalette,
+} from './intra-prediction'
+import { dequantize, getAcQuant, getDcQuant, QM_LEVEL_FLAT } from './quantizer'
+import {
+  ADJUSTED_TX_SIZE,
+  ADST_ADST,
+  ADST_DCT,
+  ADST_FLIPADST,
+  BLOCK_128X128,
+  BLOCK_4X4,
+  BLOCK_64X64,
+  BLOCK_8X8,
+  BLOCK_HEIGHT,
+  BLOCK_INVALID,
+  BLOCK_WIDTH,
+  COEFF_BASE_POS_CTX_OFFSET,
+  D157_PRED,
+  D67_PRED,
+  DC_PRED,
+  DCT_ADST,
+  DCT_DCT,
+  DCT_FLIPADST,
+  findTxSize,
+  FLIPADST_ADST,
+  FLIPADST_DCT,
+  FLIPADST_FLIPADST,
+  getCoeffBaseCtxOffset,
+  getPlaneResidualSize,
+  getScan,
+  getTxClass,
+  H_ADST,
+  H_DCT,
+  H_FLIPADST,
+  H_PRED,
+  IDTX,
+  MAX_TX_DEPTH,
+  MAX_TX_SIZE_RECT,
+  MI_HEIGHT_LOG2,
+  MI_WIDTH_LOG2,
+  NUM_4X4_BLOCKS_HIGH,
+  NUM_4X4_BLOCKS_WIDE,
+  PARTITION_HORZ,
+  PARTITION_HORZ_4,
+  PARTITION_HORZ_A,
+  PARTITION_HORZ_B,
+  PARTITION_NONE,
+  PARTITION_SPLIT,
+  PARTITION_SUBSIZE,
+  PARTITION_VERT,
+  PARTITION_VERT_4,
+  PARTITION_VERT_A,
+  PARTITION_VERT_B,
+  SMOOTH_H_PRED,
+  SMOOTH_PRED,
+  SMOOTH_V_PRED,
+  SPLIT_TX_SIZE,
+  TX_16X16,
+  TX_16X32,
+  TX_16X64,
+  TX_32X16,
+  TX_32X32,
+  TX_4X4,
+  TX_64X16,
+  TX_CLASS_2D,
+  TX_CLASS_HORIZ,
+  TX_CLASS_VERT,
+  TX_HEIGHT,
+  TX_HEIGHT_LOG2,
+  TX_SIZE_SQR,
+  TX_SIZE_SQR_UP,
+  TX_WIDTH,
+  TX_WIDTH_LOG2,
+  UV_CFL_PRED,
+  V_ADST,
+  V_DCT,
+  V_FLIPADST,
+  V_PRED,
+} from './tables'
+import { inverseTransform2D } from './transform'
+
+const MI_SIZE = 4
+const FRAME_LF_COUNT = 4
+const MAX_LOOP_FILTER = 63
+const DELTA_Q_SMALL = 3
+const DELTA_LF_SMALL = 3
+const SEG_LVL_SKIP = 6
+const MAX_ANGLE_DELTA = 3
+const MAX_VARTX_DEPTH = 2
+const TX_SIZES = 5
+const PALETTE_COLORS = 8
+const PALETTE_NUM_NEIGHBORS = 3
+const NUM_BASE_LEVELS = 2
+const COEFF_BASE_RANGE = 12
+const BR_CDF_SIZE = 4
+const MV_BORDER = 128
+const INTRABC_DELAY_PIXELS = 256
+const REF_CAT_LEVEL = 640
+const MAX_REF_MV_STACK_SIZE = 8
+const CLASS0_SIZE = 2
+const SGRPROJ_PARAMS_BITS = 4
+const SGRPROJ_PRJ_SUBEXP_K = 4
+const SGRPROJ_PRJ_BITS = 7
+const RESTORE_NONE = 0
+const RESTORE_WIENER = 1
+const RESTORE_SGRPROJ = 2
+
+// Tx set numbers (get_tx_set)
+export const TX_SET_DCTONLY = 0
+export const TX_SET_INTRA_1 = 1
+export const TX_SET_INTRA_2 = 2
+const TX_SET_INTER_1 = 1
+const TX_SET_INTER_2 = 2
+const TX_SET_INTER_3 = 3
+
+/** Stride of the BlockDecoded flags, which cover a superblock plus a 1 unit border */
+export const BLOCK_DECODED_STRIDE = 34
+
+export const INTRA_MODE_CONTEXT = [0, 1, 2, 3, 4, 4, 4, 4, 3, 0, 1, 2, 0]
+const FILTER_INTRA_MODE_TO_INTRA_DIR = [DC_PRED, V_PRED, H_PRED, D157_PRED, DC_PRED]
+const PALETTE_COLOR_HASH_MULTIPLIERS = [1, 2, 2]
+const PALETTE_COLOR_CONTEXT = [-1, -1, 0, -1, -1, 4, 3, 2, 1]
+
+/** Mode_To_Txfm: the implicit chroma transform type for each uv_mode */
+export const MODE_TO_TXFM = [
+  DCT_DCT,
+  ADST_DCT,
+  DCT_ADST,
+  DCT_DCT,
+  ADST_ADST,
+  ADST_DCT,
+  DCT_ADST,
+  DCT_ADST,
+  ADST_DCT,
+  ADST_ADST,
+  ADST_DCT,
+  DCT_ADST,
+  ADST_ADST,
+  DCT_DCT,
+]
+
+export const TX_TYPE_INTRA_INV_SET1 = [IDTX, DCT_DCT, V_DCT, H_DCT, ADST_ADST, ADST_DCT, DCT_ADST]
+export const TX_TYPE_INTRA_INV_SET2 = [IDTX, DCT_DCT, ADST_ADST, ADST_DCT, DCT_ADST]
+const TX_TYPE_INTER_INV_SET1 = [
+  IDTX,
+  V_DCT,
+  H_DCT,
+  V_ADST,
+  H_ADST,
+  V_FLIPADST,
+  H_FLIPADST,
+  DCT_DCT,
+  ADST_DCT,
+  DCT_ADST,
+  FLIPADST_DCT,
+  DCT_FLIPADST,
+  ADST_ADST,
+  FLIPADST_FLIPADST,
+  ADST_FLIPADST,
+  FLIPADST_ADST,
+]
+const TX_TYPE_INTER_INV_SET2 = [
+  IDTX,
+  V_DCT,
+  H_DCT,
+  DCT_DCT,
+  ADST_DCT,
+  DCT_ADST,
+  FLIPADST_DCT,
+  DCT_FLIPADST,
+  ADST_ADST,
+  FLIPADST_FLIPADST,
+  ADST_FLIPADST,
+  FLIPADST_ADST,
+]
+const TX_TYPE_INTER_INV_SET3 = [IDTX, DCT_DCT]
+
+/** Number of transform types in each intra tx set (DCT only, set 1, set 2) */
+export const TX_TYPE_IN_SET_INTRA = [
+  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  [1, 1, 1, 1, 0, 0, 0, 0, 0, 1, 1, 1, 0, 0, 0, 0],
+  [1, 1, 1, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0],
+]
+const TX_TYPE_IN_SET_INTER = [
+  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
+  [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0],
+  [1, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0],
+]
+
+/** Sig_Ref_Diff_Offset[txClass]: neighbours used for coeff_base contexts */
+const SIG_REF_DIFF_OFFSET = [
+  [[0, 1], [1, 0], [1, 1], [0, 2], [2, 0]],
+  [[0, 1], [1, 0], [0, 2], [0, 3], [0, 4]],
+  [[0, 1], [1, 0], [2, 0], [3, 0], [4, 0]],
+]
+
+/** Mag_Ref_Offset_With_Tx_Class[txClass]: neighbours used for coeff_br contexts */
+const MAG_REF_OFFSET_WITH_TX_CLASS = [
+  [[0, 1], [1, 0], [1, 1]],
+  [[0, 1], [1, 0], [0, 2]],
+  [[0, 1], [1, 0], [2, 0]],
+]
+
+const WIENER_TAPS_MIN = [-5, -23, -17]
+const WIENER_TAPS_MAX = [10, 8, 46]
+const WIENER_TAPS_K = [1, 2, 3]
+const WIENER_TAPS_MID = [3, -7, 15]
+const SGRPROJ_XQD_MIN = [-96, -32]
+const SGRPROJ_XQD_MAX = [31, 95]
+const SGRPROJ_XQD_MID = [-32, 31]
+
+/** Sgr_Params[set]: r0, e0, r1, e1 */
+export const SGR_PARAMS = [
+  [2, 140, 1, 3236],
+  [2, 112, 1, 2158],
+  [2, 93, 1, 1618],
+  [2, 80, 1, 1438],
+  [2, 70, 1, 1295],
+  [2, 58, 1, 1177],
+  [2, 47, 1, 1079],
+  [2, 37, 1, 996],
+  [2, 30, 1, 925],
+  [2, 25, 1, 863],
+  [0, -1, 2, 2589],
+  [0, -1, 2, 1618],
+  [0, -1, 2, 1177],
+  [0, -1, 2, 925],
+  [2, 56, 0, -1],
+  [2, 22, 0, -1],
+]
+
+/**
+ * Tile boundaries in 4x4 (MI) units
+ */
+export interface TileBounds {
+  miRowStart: number
+  miRowEnd: number
+  miColStart: number
+  miColEnd: number
+}
+
+function ceilLog2(x: number): number {
+  if (x < 2)
+    return 0
+  let i = 1
+  let p = 2
+  while (p < x) {
+    i++
+    p <<= 1
+  }
+  return i
+}
+
+function inverseRecenter(r: number, v: number): number {
+  if (v > 2 * r)
+    return v
+  if (v & 1)
+    return r - ((v + 1) >> 1)
+  return r + (v >> 1)
+}
+
+function negDeinterleave(diff: number, ref: number, max: number): number {
+  if (!ref)
+    return diff
+  if (ref >= max - 1)
+    return max - diff - 1
+  if (2 * ref < max) {
+    if (diff <= 2 * ref) {
+      if (diff & 1)
+        return ref + ((diff + 1) >> 1)
+      return ref - (diff >> 1)
+    }
+    return diff
+  }
+  if (diff <= 2 * (max - ref - 1)) {
+    if (diff & 1)
+      return ref + ((diff + 1) >> 1)
+    return ref - (diff >> 1)
+  }
+  return max - (diff + 1)
+}
+
+/**
+ * get_tx_set(): the set of transform types available to a transform block
+ */
+export function getTxSet(txSz: number, isInter: number, reducedTxSet: boolean): number {
+  const txSzSqr = TX_SIZE_SQR[txSz]
+  const txSzSqrUp = TX_SIZE_SQR_UP[txSz]
+  if (txSzSqrUp > TX_32X32)
+    return TX_SET_DCTONLY
+  if (isInter) {
+    if (reducedTxSet || txSzSqrUp === TX_32X32)
+      return TX_SET_INTER_3
+    if (txSzSqr === TX_16X16)
+      return TX_SET_INTER_2
+    return TX_SET_INTER_1
+  }
+  if (txSzSqrUp === TX_32X32)
+    return TX_SET_DCTONLY
+  if (reducedTxSet || txSzSqr === TX_16X16)
+    return TX_SET_INTRA_2
+  return TX_SET_INTRA_1
+}
+
+/**
+ * get_coeff_base_ctx(): the coeff_base context of `pos` from the levels
+ * already in `quant`
+ */
+export function getCoeffBaseCtx(quant: Int32Array, txSz: number, txClass: number, bwl: number, txh: number, pos: number): number {
+  const row = pos >> bwl
+  const col = pos - (row << bwl)
+  const offsets = SIG_REF_DIFF_OFFSET[txClass]
+  let mag = 0
+
+  for (let idx = 0; idx < 5; idx++) {
+    const refRow = row + offsets[idx][0]
+    const refCol = col + offsets[idx][1]
+    if (refRow >= 0 && refCol >= 0 && refRow < txh && refCol < (1 << bwl))
+      mag += Math.min(Math.abs(quant[(refRow << bwl) + refCol]), 3)
+  }
+
+  const ctx = Math.min((mag + 1) >> 1, 4)
+  if (txClass === TX_CLASS_2D) {
+    if (row === 0 && col === 0)
+      return 0
+    return ctx + getCoeffBaseCtxOffset(txSz, Math.min(row, 4), Math.min(col, 4))
+  }
+  const idx = txClass === TX_CLASS_VERT ? row : col
+  return ctx + COEFF_BASE_POS_CTX_OFFSET[Math.min(idx, 2)]
+}
+
+/**
+ * The coeff_br context of `pos` from the levels already in `quant`
+ */
+export function getCoeffBrCtx(quant: Int32Array, txClass: number, bwl: number, txh: number, pos: number): number {
+  const row = pos >> bwl
+  const col = pos - (row << bwl)
+  const offsets = MAG_REF_OFFSET_WITH_TX_CLASS[txClass]
+  let mag = 0
+
+  for (let idx = 0; idx < 3; idx++) {
+    const refRow = row + offsets[idx][0]
+    const refCol = col + offsets[idx][1]
+    if (refRow >= 0 && refCol >= 0 && refRow < txh && refCol < (1 << bwl))
+      mag += Math.min(quant[(refRow << bwl) + refCol], COEFF_BASE_RANGE + NUM_BASE_LEVELS + 1)
+  }
+
+  mag = Math.min((mag + 1) >> 1, 6)
+  if (pos === 0)
+    return mag
+  if (txClass === TX_CLASS_2D)
+    return row < 2 && col < 2 ? mag + 7 : mag + 14
+  if (txClass === TX_CLASS_HORIZ)
+    return col === 0 ? mag + 7 : mag + 14
+  return row === 0 ? mag + 7 : mag + 14
+}
+
+/**
+ * Decodes the symbol-coded data of one tile of an intra frame (decode_tile,
+ * AV1 spec section 5.11) into the shared frame state.
+ */
+export class TileDecoder {
+  private frame: FrameState
+  private seq: SequenceHeader
+  private header: FrameHeader
+  private cdf: CdfContext
+  private sd: SymbolDecoder
+  private miRowStart: number
+  private miRowEnd: number
+  private miColStart: number
+  private miColEnd: number
+  private subX: number
+  private subY: number
+  private numPlanes: number
+  private bitDepth: number
+  private sbSize: number
+
+  // Entropy contexts, indexed by absolute 4x4 position within each plane
+  private aboveLevelContext: Uint8Array[] = []
+  private aboveDcContext: Uint8Array[] = []
+  private leftLevelContext: Uint8Array[] = []
+  private leftDcContext: Uint8Array[] = []
+
+  private deltaLF = [0, 0, 0, 0]
+  private currentQIndex: number
+  private readDeltas = false
+  private refLrWiener: number[][][] = []
+  private refSgrXqd: number[][] = []
+  private blockDecoded: Uint8Array[] = []
+
+  // Current block (decode_block)
+  private miRow = 0
+  private miCol = 0
+  private miSize = 0
+  private hasChroma = false
+  private availU = false
+  private availL = false
+  private availUChroma = false
+  private availLChroma = false
+  private segmentId = 0
+  private lossless = false
+  private skip = 0
+  private isInter = 0
+  private useIntrabc = 0
+  private yMode = 0
+  private uvMode = 0
+  private angleDeltaY = 0
+  private angleDeltaUV = 0
+  private useFilterIntra = 0
+  private filterIntraMode = 0
+  private cflAlphaU = 0
+  private cflAlphaV = 0
+  private paletteSizeY = 0
+  private paletteSizeUV = 0
+  private paletteColorsY = new Uint16Array(PALETTE_COLORS)
+  private paletteColorsU = new Uint16Array(PALETTE_COLORS)
+  private paletteColorsV = new Uint16Array(PALETTE_COLORS)
+  private colorMapY = new Uint8Array(64 * 64)
+  private colorMapUV = new Uint8Array(64 * 64)
+  private txSize = 0
+  private mv = [0, 0]
+
+  // Motion vector candidate list (find_mv_stack) for intra block copy
+  private numMvFound = 0
+  private refStackMv: number[][] = Array.from({ length: MAX_REF_MV_STACK_SIZE }, () => [0, 0])
+  private weightStack = new Int32Array(MAX_REF_MV_STACK_SIZE)
+
+  // Extent of the luma samples predicted so far in the block, for CFL
+  private maxLumaW = 0
+  private maxLumaH = 0
+
+  // Current transform block
+  private planeTxType = 0
+  private quant = new Int32Array(1024)
+  private dequant = new Int32Array(1024)
+  private residualBuffer = new Int32Array(64 * 64)
+
+  constructor(frame: FrameState, cdf: CdfContext, sd: SymbolDecoder, bounds: TileBounds) {
+    this.frame = frame
+    this.seq = frame.seqHeader
+    this.header = frame.frameHeader
+    this.cdf = cdf
+    this.sd = sd
+    this.miRowStart = bounds.miRowStart
+    this.miRowEnd = bounds.miRowEnd
+    this.miColStart = bounds.miColStart
+    this.miColEnd = bounds.miColEnd
+
+    const { colorConfig } = this.seq
+    this.subX = colorConfig.subsamplingX
+    this.subY = colorConfig.subsamplingY
+    this.numPlanes = colorConfig.numPlanes
+    this.bitDepth = colorConfig.bitDepth
+    this.sbSize = this.seq.use128x128Superblock ? BLOCK_128X128 : BLOCK_64X64
+    this.currentQIndex = this.header.quantization.baseQIdx
+
+    // Transform blocks may extend past the frame edge by up to 64 samples
+    for (let plane = 0; plane < this.numPlanes; plane++) {
+      this.aboveLevelContext.push(new Uint8Array(frame.miCols + 16))
+      this.aboveDcContext.push(new Uint8Array(frame.miCols + 16))
+      this.leftLevelContext.push(new Uint8Array(frame.miRows + 16))
+      this.leftDcContext.push(new Uint8Array(frame.miRows + 16))
+      this.blockDecoded.push(new Uint8Array(BLOCK_DECODED_STRIDE * BLOCK_DECODED_STRIDE))
+      this.refLrWiener.push([[...WIENER_TAPS_MID], [...WIENER_TAPS_MID]])
+      this.refSgrXqd.push([...SGRPROJ_XQD_MID])
+    }
+  }
+
+  /**
+   * decode_tile(): decode every superblock of the tile
+   */
+  decode(): void {
+    const sbSize4 = NUM_4X4_BLOCKS_WIDE[this.sbSize]
+
+    for (let miRow = this.miRowStart; miRow < this.miRowEnd; miRow += sbSize4) {
+      this.clearLeftContext()
+      for (let miCol = this.miColStart; miCol < this.miColEnd; miCol += sbSize4) {
+        this.readDeltas = this.header.delta.deltaQPresent
+        this.clearCdef(miRow, miCol)
+        this.clearBlockDecodedFlags(miRow, miCol, sbSize4)
+        this.readLr(miRow, miCol, this.sbSize)
+        this.decodePartition(miRow, miCol, this.sbSize)
+      }
+    }
+  }
+
+  private clearLeftContext(): void {
+    for (let plane = 0; plane < this.numPlanes; plane++) {
+      this.leftLevelContext[plane].fill(0)
+      this.leftDcContext[plane].fill(0)
+    }
+  }
+
+  private clearCdef(r: number, c: number): void {
+    const { cdefIdx, cdefStride } = this.frame
+    const row = r >> 4
+    const col = c >> 4
+    cdefIdx[row * cdefStride + col] = -1
+    if (this.seq.use128x128Superblock) {
+      const rows = cdefIdx.length / cdefStride
+      if (col + 1 < cdefStride)
+        cdefIdx[row * cdefStride + col + 1] = -1
+      if (row + 1 < rows) {
+        cdefIdx[(row + 1) * cdefStride + col] = -1
+        if (col + 1 < cdefStride)
+          cdefIdx[(row + 1) * cdefStride + col + 1] = -1
+      }
+    }
+  }
+
+  private clearBlockDecodedFlags(r: number, c: number, sbSize4: number): void {
+    for (let plane = 0; plane < this.numPlanes; plane++) {
+      const subX = plane > 0 ? this.subX : 0
+      const subY = plane > 0 ? this.subY : 0
+      const sbWidth4 = (this.miColEnd - c) >> subX
+      const sbHeight4 = (this.miRowEnd - r) >> subY
+      const flags = this.blockDecoded[plane]
+      for (let y = -1; y <= (sbSize4 >> subY); y++) {
+        for (let x = -1; x <= (sbSize4 >> subX); x++) {
+          let decoded = 0
+          if (y < 0 && x < sbWidth4)
+            decoded = 1
+          else if (x < 0 && y < sbHeight4)
+            decoded = 1
+          flags[(y + 1) * BLOCK_DECODED_STRIDE + x + 1] = decoded
+        }
+      }
+      flags[((sbSize4 >> subY) + 1) * BLOCK_DECODED_STRIDE] = 0
+    }
+  }
+
+  private isInside(candR: number, candC: number): boolean {
+    return candC >= this.miColStart && candC < this.miColEnd && candR >= this.miRowStart && candR < this.miRowEnd
+  }
+
+  // ---------------------------------------------------------------------------
+  // Loop restoration syntax
+  // ---------------------------------------------------------------------------
+
+  private readLr(r: number, c: number, bSize: number): void {
+    if (this.header.allowIntrabc)
+      return
+
+    const w = NUM_4X4_BLOCKS_WIDE[bSize]
+    const h = NUM_4X4_BLOCKS_HIGH[bSize]
+    const { loopRestoration, useSuperres, superresDenom } = this.header
+
+    for (let plane = 0; plane < this.numPlanes; plane++) {
+      if (loopRestoration.type[plane] === RESTORE_NONE)
+        continue
+
+      const subX = plane > 0 ? this.subX : 0
+      const subY = plane > 0 ? this.subY : 0
+      const unitSize = loopRestoration.unitSize[plane]
+      const units = this.frame.restoration[plane]
+      const unitRows = countUnitsInFrame(unitSize, (this.header.frameHeight + subY) >> subY)
+      const unitCols = countUnitsInFrame(unitSize, (this.header.upscaledWidth + subX) >> subX)
+      const unitRowStart = Math.floor((r * (MI_SIZE >> subY) + unitSize - 1) / unitSize)
+      const unitRowEnd = Math.min(unitRows, Math.floor(((r + h) * (MI_SIZE >> subY) + unitSize - 1) / unitSize))
+
+      let numerator = MI_SIZE >> subX
+      let denominator = unitSize
+      if (useSuperres) {
+        numerator = (MI_SIZE >> subX) * superresDenom
+        denominator = unitSize * 8
+      }
+      const unitColStart = Math.floor((c * numerator + denominator - 1) / denominator)
+      const unitColEnd = Math.min(unitCols, Math.floor(((c + w) * numerator + denominator - 1) / denominator))
+
+      for (let unitRow = unitRowStart; unitRow < unitRowEnd; unitRow++) {
+        for (let unitCol = unitColStart; unitCol < unitColEnd; unitCol++) {
+          this.readLrUnit(plane, unitRow * units.cols + unitCol)
+        }
+      }
+    }
+  }
+
+  private readLrUnit(plane: number, unit: number): void {
+    const frameType = this.header.loopRestoration.type[plane]
+    const units = this.frame.restoration[plane]
+    let restorationType: number
+
+    if (frameType === RESTORE_WIENER)
+      restorationType = this.sd.readSymbol(this.cdf.useWiener) ? RESTORE_WIENER : RESTORE_NONE
+    else if (frameType === RESTORE_SGRPROJ)
+      restorationType = this.sd.readSymbol(this.cdf.useSgrproj) ? RESTORE_SGRPROJ : RESTORE_NONE
+    else
+      restorationType = this.sd.readSymbol(this.cdf.restorationType)
+
+    units.type[unit] = restorationType
+
+    if (restorationType === RESTORE_WIENER) {
+      for (let pass = 0; pass < 2; pass++) {
+        let firstCoeff = 0
+        if (plane) {
+          firstCoeff = 1
+          units.wiener[unit * 6 + pass * 3] = 0
+        }
+        for (let j = firstCoeff; j < 3; j++) {
+          const v = this.decodeSignedSubexpWithRefBool(
+            WIENER_TAPS_MIN[j],
+            WIENER_TAPS_MAX[j] + 1,
+            WIENER_TAPS_K[j],
+            this.refLrWiener[plane][pass][j],
+          )
+          units.wiener[unit * 6 + pass * 3 + j] = v
+          this.refLrWiener[plane][pass][j] = v
+        }
+      }
+    }
+    else if (restorationType === RESTORE_SGRPROJ) {
+      const set = this.sd.readLiteral(SGRPROJ_PARAMS_BITS)
+      units.sgrSet[unit] = set
+      for (let i = 0; i < 2; i++) {
+        const radius = SGR_PARAMS[set][i * 2]
+        const min = SGRPROJ_XQD_MIN[i]
+        const max = SGRPROJ_XQD_MAX[i]
+        let v = 0
+        if (radius) {
+          v = this.decodeSignedSubexpWithRefBool(min, max + 1, SGRPROJ_PRJ_SUBEXP_K, this.refSgrXqd[plane][i])
+        }
+        else if (i === 1) {
+          v = Math.min(max, Math.max(min, (1 << SGRPROJ_PRJ_BITS) - this.refSgrXqd[plane][0]))
+        }
+        units.sgrXqd[unit * 2 + i] = v
+        this.refSgrXqd[plane][i] = v
+      }
+    }
+  }
+
+  private decodeSignedSubexpWithRefBool(low: number, high: number, k: number, r: number): number {
+    const x = this.decodeUnsignedSubexpWithRefBool(high - low, k, r - low)
+    return x + low
+  }
+
+  private decodeUnsignedSubexpWithRefBool(mx: number, k: number, r: number): number {
+    const v = this.decodeSubexpBool(mx, k)
+    if ((r << 1) <= mx)
+      return inverseRecenter(r, v)
+    return mx - 1 - inverseRecenter(mx - 1 - r, v)
+  }
+
+  private decodeSubexpBool(numSyms: number, k: number): number {
+    let i = 0
+    let mk = 0
+    while (true) {
+      const b2 = i ? k + i - 1 : k
+      const a = 1 << b2
+      if (numSyms <= mk + 3 * a)
+        return this.readNs(numSyms - mk) + mk
+      if (!this.sd.readLiteral(1))
+        return this.sd.readLiteral(b2) + mk
+      i++
+      mk += a
+    }
+  }
+
+  /**
+   * NS(n) coded with equiprobable bools
+   */
+  private readNs(n: number): number {
+    const w = 32 - Math.clz32(n)
+    const m = (1 << w) - n
+    const v = this.sd.readLiteral(w - 1)
+    if (v < m)
+      return v
+    return (v << 1) - m + this.sd.readLiteral(1)
+  }
+
+  // ---------------------------------------------------------------------------
+  // Partition and block syntax
+  // ---------------------------------------------------------------------------
+
+  private decodePartition(r: number, c: number, bSize: number): void {
+    const { miRows, miCols, miSizes } = this.frame
+    if (r >= miRows || c >= miCols)
+      return
+
+    const availU = this.isInside(r - 1, c)
+    const availL = this.isInside(r, c - 1)
+    const num4x4 = NUM_4X4_BLOCKS_WIDE[bSize]
+    const halfBlock4x4 = num4x4 >> 1
+    const quarterBlock4x4 = halfBlock4x4 >> 1
+    const hasRows = r + halfBlock4x4 < miRows
+    const hasCols = c + halfBlock4x4 < miCols
+
+    let partition: number
+    if (bSize < BLOCK_8X8) {
+      partition = PARTITION_NONE
+    }
+    else {
+      const bsl = MI_WIDTH_LOG2[bSize]
+      const above = availU && MI_WIDTH_LOG2[miSizes[(r - 1) * miCols + c]] < bsl ? 1 : 0
+      const left = availL && MI_HEIGHT_LOG2[miSizes[r * miCols + c - 1]] < bsl ? 1 : 0
+      const partitionCdf = this.getPartitionCdf(bsl)[left * 2 + above]
+
+      if (hasRows && hasCols) {
+        partition = this.sd.readSymbol(partitionCdf)
+      }
+      else if (hasCols) {
+        // split_or_horz: the top half is split vertically in any of these
+        const psum = this.partitionProbability(partitionCdf, [
+          PARTITION_VERT,
+          PARTITION_SPLIT,
+          PARTITION_HORZ_A,
+          PARTITION_VERT_A,
+          PARTITION_VERT_B,
+          ...(bSize !== BLOCK_128X128 ? [PARTITION_VERT_4] : []),
+        ])
+        partition = this.readBoolWithProbability(psum) ? PARTITION_SPLIT : PARTITION_HORZ
+      }
+      else if (hasRows) {
+        // split_or_vert: the left half is split horizontally in any of these
+        const psum = this.partitionProbability(partitionCdf, [
+          PARTITION_HORZ,
+          PARTITION_SPLIT,
+          PARTITION_HORZ_A,
+          PARTITION_HORZ_B,
+          PARTITION_VERT_A,
+          ...(bSize !== BLOCK_128X128 ? [PARTITION_HORZ_4] : []),
+        ])
+        partition = this.readBoolWithProbability(psum) ? PARTITION_SPLIT : PARTITION_VERT
+      }
+      else {
+        partition = PARTITION_SPLIT
+      }
+    }
+
+    const subSize = PARTITION_SUBSIZE[partition][bSize]
+    const splitSize = PARTITION_SUBSIZE[PARTITION_SPLIT][bSize]
+
+    switch (partition) {
+      case PARTITION_NONE:
+        this.decodeBlock(r, c, subSize)
+        break
+      case PARTITION_HORZ:
+        this.decodeBlock(r, c, subSize)
+        if (hasRows)
+          this.decodeBlock(r + halfBlock4x4, c, subSize)
+        break
+      case PARTITION_VERT:
+        this.decodeBlock(r, c, subSize)
+        if (hasCols)
+          this.decodeBlock(r, c + halfBlock4x4, subSize)
+        break
+      case PARTITION_SPLIT:
+        this.decodePartition(r, c, subSize)
+        this.decodePartition(r, c + halfBlock4x4, subSize)
+        this.decodePartition(r + halfBlock4x4, c, subSize)
+        this.decodePartition(r + halfBlock4x4, c + halfBlock4x4, subSize)
+        break
+      case PARTITION_HORZ_A:
+        this.decodeBlock(r, c, splitSize)
+        this.decodeBlock(r, c + halfBlock4x4, splitSize)
+        this.decodeBlock(r + halfBlock4x4, c, subSize)
+        break
+      case PARTITION_HORZ_B:
+        this.decodeBlock(r, c, subSize)
+        this.decodeBlock(r + halfBlock4x4, c, splitSize)
+        this.decodeBlock(r + halfBlock4x4, c + halfBlock4x4, splitSize)
+        break
+      case PARTITION_VERT_A:
+        this.decodeBlock(r, c, splitSize)
+        this.decodeBlock(r + halfBlock4x4, c, splitSize)
+        this.decodeBlock(r, c + halfBlock4x4, subSize)
+        break
+      case PARTITION_VERT_B:
+        this.decodeBlock(r, c, subSize)
+        this.decodeBlock(r, c + halfBlock4x4, splitSize)
+        this.decodeBlock(r + halfBlock4x4, c + halfBlock4x4, splitSize)
+        break
+      case PARTITION_HORZ_4:
+        for (let i = 0; i < 4; i++) {
+          if (i < 3 || r + quarterBlock4x4 * 3 < miRows)
+            this.decodeBlock(r + quarterBlock4x4 * i, c, subSize)
+        }
+        break
+      case PARTITION_VERT_4:
+        for (let i = 0; i < 4; i++) {
+          if (i < 3 || c + quarterBlock4x4 * 3 < miCols)
+            this.decodeBlock(r, c + quarterBlock4x4 * i, subSize)
+        }
+        break
+    }
+  }
+
+  private getPartitionCdf(bsl: number): Cdf[] {
+    switch (bsl) {
+      case 1:
+        return this.cdf.partitionW8
+      case 2:
+        return this.cdf.partitionW16
+      case 3:
+        return this.cdf.partitionW32
+      case 4:
+        return this.cdf.partitionW64
+      default:
+        return this.cdf.partitionW128
+    }
+  }
+
+  private partitionProbability(cdf: Cdf, partitions: number[]): number {
+    let psum = 0
+    for (const p of partitions)
+      psum += cdf[p] - (p > 0 ? cdf[p - 1] : 0)
+    return psum
+  }
+
+  /**
+   * Read a bool that is 1 with probability psum / 32768, using a temporary
+   * CDF that is discarded afterwards
+   */
+  private readBoolWithProbability(psum: number): number {
+    return this.sd.readSymbol(new Uint16Array([(1 << 15) - psum, 1 << 15, 0]))
+  }
+
+  private decodeBlock(r: number, c: number, subSize: number): void {
+    const frame = this.frame
+    const { miRows, miCols } = frame
+    this.miRow = r
+    this.miCol = c
+    this.miSize = subSize
+
+    const bw4 = NUM_4X4_BLOCKS_WIDE[subSize]
+    const bh4 = NUM_4X4_BLOCKS_HIGH[subSize]
+
+    if (bh4 === 1 && this.subY && (r & 1) === 0)
+      this.hasChroma = false
+    else if (bw4 === 1 && this.subX && (c & 1) === 0)
+      this.hasChroma = false
+    else
+      this.hasChroma = this.numPlanes > 1
+
+    this.availU = this.isInside(r - 1, c)
+    this.availL = this.isInside(r, c - 1)
+    this.availUChroma = this.availU
+    this.availLChroma = this.availL
+    if (this.hasChroma) {
+      if (this.subY && bh4 === 1)
+        this.availUChroma = this.isInside(r - 2, c)
+      if (this.subX && bw4 === 1)
+        this.availLChroma = this.isInside(r, c - 2)
+    }
+    else {
+      this.availUChroma = false
+      this.availLChroma = false
+    }
+
+    this.intraFrameModeInfo()
+    this.paletteTokens()
+    this.readBlockTxSize()
+    if (this.skip)
+      this.resetBlockContext(bw4, bh4)
+
+    for (let y = 0; y < bh4 && r + y < miRows; y++) {
+      for (let x = 0; x < bw4 && c + x < miCols; x++) {
+        const i = (r + y) * miCols + c + x
+        frame.yModes[i] = this.yMode
+        if (this.hasChroma)
+          frame.uvModes[i] = this.uvMode
+        frame.isInters[i] = this.isInter
+        frame.skips[i] = this.skip
+        frame.txSizes[i] = this.txSize
+        frame.miSizes[i] = subSize
+        frame.segmentIds[i] = this.segmentId
+        frame.paletteSizes[0][i] = this.paletteSizeY
+        frame.paletteSizes[1][i] = this.paletteSizeUV
+        frame.paletteColors[0].set(this.paletteColorsY.subarray(0, this.paletteSizeY), i * PALETTE_COLORS)
+        frame.paletteColors[1].set(this.paletteColorsU.subarray(0, this.paletteSizeUV), i * PALETTE_COLORS)
+        for (let k = 0; k < FRAME_LF_COUNT; k++)
+          frame.deltaLFs[i * FRAME_LF_COUNT + k] = this.deltaLF[k]
+        frame.mvs[i * 2] = this.mv[0]
+        frame.mvs[i * 2 + 1] = this.mv[1]
+      }
+    }
+
+    if (this.isInter)
+      this.predictBlockCopy()
+    this.residual()
+  }
+
+  private intraFrameModeInfo(): void {
+    const { segmentation } = this.header
+
+    this.skip = 0
+    if (segmentation.segIdPreSkip)
+      this.intraSegmentId()
+    this.readSkip()
+    if (!segmentation.segIdPreSkip)
+      this.intraSegmentId()
+    this.readCdef()
+    this.readDeltaQIndex()
+    this.readDeltaLf()
+    this.readDeltas = false
+
+    this.useIntrabc = this.header.allowIntrabc ? this.sd.readSymbol(this.cdf.intrabc) : 0
+    this.useFilterIntra = 0
+    this.paletteSizeY = 0
+    this.paletteSizeUV = 0
+    this.angleDeltaY = 0
+    this.angleDeltaUV = 0
+    this.mv[0] = 0
+    this.mv[1] = 0
+
+    if (this.useIntrabc) {
+      this.isInter = 1
+      this.yMode = DC_PRED
+      this.uvMode = DC_PRED
+      this.findMvStack()
+      this.assignIntrabcMv()
+      return
+    }
+
+    this.isInter = 0
+    const { miRow, miCol } = this
+    const { miCols, yModes } = this.frame
+    const aboveMode = this.availU ? INTRA_MODE_CONTEXT[yModes[(miRow - 1) * miCols + miCol]] : 0
+    const leftMode = this.availL ? INTRA_MODE_CONTEXT[yModes[miRow * miCols + miCol - 1]] : 0
+    this.yMode = this.sd.readSymbol(this.cdf.intraFrameYMode[aboveMode][leftMode])
+    this.angleDeltaY = this.readAngleDelta(this.yMode)
+
+    if (this.hasChroma) {
+      const uvCdfs = this.isCflAllowed() ? this.cdf.uvModeCflAllowed : this.cdf.uvModeCflNotAllowed
+      this.uvMode = this.sd.readSymbol(uvCdfs[this.yMode])
+      if (this.uvMode === UV_CFL_PRED)
+        this.readCflAlphas()
+      this.angleDeltaUV = this.readAngleDelta(this.uvMode)
+    }
+    else {
+      this.uvMode = DC_PRED
+    }
+
+    if (this.miSize >= BLOCK_8X8 && BLOCK_WIDTH[this.miSize] <= 64 && BLOCK_HEIGHT[this.miSize] <= 64
+      && this.header.allowScreenContentTools) {
+      this.paletteModeInfo()
+    }
+    this.filterIntraModeInfo()
+  }
+
+  private intraSegmentId(): void {
+    if (this.header.segmentation.enabled)
+      this.readSegmentId()
+    else
+      this.segmentId = 0
+    this.lossless = this.header.losslessArray[this.segmentId]
+  }
+
+  private readSegmentId(): void {
+    const { miRow, miCol } = this
+    const { miCols, segmentIds } = this.frame
+    const prevUL = this.availU && this.availL ? segmentIds[(miRow - 1) * miCols + miCol - 1] : -1
+    const prevU = this.availU ? segmentIds[(miRow - 1) * miCols + miCol] : -1
+    const prevL = this.availL ? segmentIds[miRow * miCols + miCol - 1] : -1
+
+    let pred: number
+    if (prevU === -1)
+      pred = prevL === -1 ? 0 : prevL
+    else if (prevL === -1)
+      pred = prevU
+    else
+      pred = prevUL === prevU ? prevU : prevL
+
+    if (this.skip) {
+      this.segmentId = pred
+      return
+    }
+
+    let ctx: number
+    if (prevUL < 0 || prevU < 0 || prevL < 0)
+      ctx = 0
+    else if (prevUL === prevU && prevUL === prevL)
+      ctx = 2
+    else if (prevUL === prevU || prevUL === prevL || prevU === prevL)
+      ctx = 1
+    else
+      ctx = 0
+
+    const lastActiveSegId = this.header.segmentation.lastActiveSegId
+    const segmentId = negDeinterleave(this.sd.readSymbol(this.cdf.segmentId[ctx]), pred, lastActiveSegId + 1)
+    this.segmentId = Math.max(0, Math.min(lastActiveSegId, segmentId))
+  }
+
+  private readSkip(): void {
+    const { segmentation } = this.header
+    if (segmentation.segIdPreSkip && segmentation.enabled && segmentation.featureEnabled[this.segmentId][SEG_LVL_SKIP]) {
+      this.skip = 1
+      return
+    }
+
+    const { miRow, miCol } = this
+    const { miCols, skips } = this.frame
+    let ctx = 0
+    if (this.availU)
+      ctx += skips[(miRow - 1) * miCols + miCol]
+    if (this.availL)
+      ctx += skips[miRow * miCols + miCol - 1]
+    this.skip = this.sd.readSymbol(this.cdf.skip[ctx])
+  }
+
+  private readCdef(): void {
+    if (this.skip || this.header.codedLossless || !this.seq.enableCdef || this.header.allowIntrabc)
+      return
+
+    const { cdefIdx, cdefStride } = this.frame
+    const r = this.miRow >> 4
+    const c = this.miCol >> 4
+    if (cdefIdx[r * cdefStride + c] !== -1)
+      return
+
+    const idx = this.sd.readLiteral(this.header.cdef.bits)
+    const w64 = Math.max(1, NUM_4X4_BLOCKS_WIDE[this.miSize] >> 4)
+    const h64 = Math.max(1, NUM_4X4_BLOCKS_HIGH[this.miSize] >> 4)
+    const rows = cdefIdx.length / cdefStride
+    for (let y = r; y < r + h64 && y < rows; y++) {
+      for (let x = c; x < c + w64 && x < cdefStride; x++)
+        cdefIdx[y * cdefStride + x] = idx
+    }
+  }
+
+  private readDeltaQIndex(): void {
+    if (this.miSize === this.sbSize && this.skip)
+      return
+    if (!this.readDeltas)
+      return
+
+    let deltaQAbs = this.sd.readSymbol(this.cdf.deltaQ)
+    if (deltaQAbs === DELTA_Q_SMALL) {
+      const deltaQRemBits = this.sd.readLiteral(3) + 1
+      const deltaQAbsBits = this.sd.readLiteral(deltaQRemBits)
+      deltaQAbs = deltaQAbsBits + (1 << deltaQRemBits) + 1
+    }
+    if (deltaQAbs) {
+      const reduced = this.sd.readLiteral(1) ? -deltaQAbs : deltaQAbs
+      this.currentQIndex = Math.max(1, Math.min(255, this.currentQIndex + (reduced << this.header.delta.deltaQRes)))
+    }
+  }
+
+  private readDeltaLf(): void {
+    const { delta } = this.header
+    if (this.miSize === this.sbSize && this.skip)
+      return
+    if (!this.readDeltas || !delta.deltaLfPresent)
+      return
+
+    let frameLfCount = 1
+    if (delta.deltaLfMulti)
+      frameLfCount = this.seq.colorConfig.monochrome ? FRAME_LF_COUNT - 2 : FRAME_LF_COUNT
+
+    for (let i = 0; i < frameLfCount; i++) {
+      let deltaLfAbs = this.sd.readSymbol(delta.deltaLfMulti ? this.cdf.deltaLfMulti[i] : this.cdf.deltaLf)
+      if (deltaLfAbs === DELTA_LF_SMALL) {
+        const n = this.sd.readLiteral(3) + 1
+        const deltaLfAbsBits = this.sd.readLiteral(n)
+        deltaLfAbs = deltaLfAbsBits + (1 << n) + 1
+      }
+      if (deltaLfAbs) {
+        const reduced = this.sd.readLiteral(1) ? -deltaLfAbs : deltaLfAbs
+        this.deltaLF[i] = Math.max(-MAX_LOOP_FILTER, Math.min(MAX_LOOP_FILTER, this.deltaLF[i] + (reduced << delta.deltaLfRes)))
+      }
+    }
+  }
+
+  private readAngleDelta(mode: number): number {
+    if (this.miSize >= BLOCK_8X8 && mode >= V_PRED && mode <= D67_PRED)
+      return this.sd.readSymbol(this.cdf.angleDelta[mode - V_PRED]) - MAX_ANGLE_DELTA
+    return 0
+  }
+
+  private isCflAllowed(): boolean {
+    if (this.lossless)
+      return getPlaneResidualSize(this.miSize, this.subX, this.subY) === BLOCK_4X4
+    return Math.max(BLOCK_WIDTH[this.miSize], BLOCK_HEIGHT[this.miSize]) <= 32
+  }
+
+  private readCflAlphas(): void {
+    const signs = this.sd.readSymbol(this.cdf.cflSign)
+    const signU = Math.floor((signs + 1) / 3)
+    const signV = (signs + 1) % 3
+
+    this.cflAlphaU = 0
+    if (signU) {
+      const alpha = 1 + this.sd.readSymbol(this.cdf.cflAlpha[(signU - 1) * 3 + signV])
+      this.cflAlphaU = signU === 1 ? -alpha : alpha
+    }
+    this.cflAlphaV = 0
+    if (signV) {
+      const alpha = 1 + this.sd.readSymbol(this.cdf.cflAlpha[(signV - 1) * 3 + signU])
+      this.cflAlphaV = signV === 1 ? -alpha : alpha
+    }
+  }
+
+  private filterIntraModeInfo(): void {
+    if (this.seq.enableFilterIntra && this.yMode === DC_PRED && this.paletteSizeY === 0
+      && Math.max(BLOCK_WIDTH[this.miSize], BLOCK_HEIGHT[this.miSize]) <= 32) {
+      this.useFilterIntra = this.sd.readSymbol(this.cdf.filterIntra[this.miSize])
+      if (this.useFilterIntra)
+        this.filterIntraMode = this.sd.readSymbol(this.cdf.filterIntraMode)
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Palette syntax
+  // ---------------------------------------------------------------------------
+
+  private paletteModeInfo(): void {
+    const { miRow, miCol, bitDepth } = this
+    const { miCols, paletteSizes } = this.frame
+    const bsizeCtx = MI_WIDTH_LOG2[this.miSize] + MI_HEIGHT_LOG2[this.miSize] - 2
+
+    if (this.yMode === DC_PRED) {
+      let ctx = 0
+      if (this.availU && paletteSizes[0][(miRow - 1) * miCols + miCol] > 0)
+        ctx++
+      if (this.availL && paletteSizes[0][miRow * miCols + miCol - 1] > 0)
+        ctx++
+      if (this.sd.readSymbol(this.cdf.paletteYMode[bsizeCtx][ctx])) {
+        this.paletteSizeY = this.sd.readSymbol(this.cdf.paletteYSize[bsizeCtx]) + 2
+        this.readPaletteColors(0, this.paletteSizeY, this.paletteColorsY)
+      }
+    }
+
+    if (this.hasChroma && this.uvMode === DC_PRED) {
+      if (this.sd.readSymbol(this.cdf.paletteUVMode[this.paletteSizeY > 0 ? 1 : 0])) {
+        this.paletteSizeUV = this.sd.readSymbol(this.cdf.paletteUVSize[bsizeCtx]) + 2
+        this.readPaletteColors(1, this.paletteSizeUV, this.paletteColorsU)
+
+        const colorsV = this.paletteColorsV
+        if (this.sd.readLiteral(1)) {
+          // delta_encode_palette_colors_v
+          const maxVal = 1 << bitDepth
+          const paletteBits = bitDepth - 4 + this.sd.readLiteral(2)
+          colorsV[0] = this.sd.readLiteral(bitDepth)
+          for (let idx = 1; idx < this.paletteSizeUV; idx++) {
+            let delta = this.sd.readLiteral(paletteBits)
+            if (delta && this.sd.readLiteral(1))
+              delta = -delta
+            let val = colorsV[idx - 1] + delta
+            if (val < 0)
+              val += maxVal
+            if (val >= maxVal)
+              val -= maxVal
+            colorsV[idx] = Math.min(maxVal - 1, val)
+          }
+        }
+        else {
+          for (let idx = 0; idx < this.paletteSizeUV; idx++)
+            colorsV[idx] = this.sd.readLiteral(bitDepth)
+        }
+      }
+    }
+  }
+
+  /**
+   * Read the Y (plane 0) or U (plane 1) palette: colors reused from the
+   * neighbour cache followed by delta coded ascending colors
+   */
+  private readPaletteColors(plane: number, size: number, colors: Uint16Array): void {
+    const { bitDepth } = this
+    const cache = this.getPaletteCache(plane)
+    let idx = 0
+
+    for (let i = 0; i < cache.length && idx < size; i++) {
+      if (this.sd.readLiteral(1))
+        colors[idx++] = cache[i]
+    }
+
+    if (idx < size)
+      colors[idx++] = this.sd.readLiteral(bitDepth)
+
+    let paletteBits = 0
+    if (idx < size)
+      paletteBits = bitDepth - 3 + this.sd.readLiteral(2)
+
+    // Luma deltas are coded minus one since luma colors are distinct
+    const deltaOffset = plane === 0 ? 1 : 0
+    while (idx < size) {
+      const delta = this.sd.readLiteral(paletteBits) + deltaOffset
+      colors[idx] = Math.min((1 << bitDepth) - 1, colors[idx - 1] + delta)
+      const range = (1 << bitDepth) - colors[idx] - deltaOffset
+      paletteBits = Math.min(paletteBits, ceilLog2(range))
+      idx++
+    }
+
+    colors.subarray(0, size).sort()
+  }
+
+  /**
+   * get_palette_cache(): sorted, de-duplicated colors of the above and left
+   * palettes
+   */
+  private getPaletteCache(plane: number): number[] {
+    const { miRow, miCol } = this
+    const { miCols, paletteSizes, paletteColors } = this.frame
+    const aboveBase = ((miRow - 1) * miCols + miCol) * PALETTE_COLORS
+    const leftBase = (miRow * miCols + miCol - 1) * PALETTE_COLORS
+    const aboveN = (miRow * MI_SIZE) % 64 && this.availU ? paletteSizes[plane][(miRow - 1) * miCols + miCol] : 0
+    const leftN = this.availL ? paletteSizes[plane][miRow * miCols + miCol - 1] : 0
+    const colors = paletteColors[plane]
+    const cache: number[] = []
+    let aboveIdx = 0
+    let leftIdx = 0
+
+    const add = (value: number): void => {
+      if (cache.length === 0 || value !== cache[cache.length - 1])
+        cache.push(value)
+    }
+
+    while (aboveIdx < aboveN && leftIdx < leftN) {
+      const aboveC = colors[aboveBase + aboveIdx]
+      const leftC = colors[leftBase + leftIdx]
+      if (leftC < aboveC) {
+        add(leftC)
+        leftIdx++
+      }
+      else {
+        add(aboveC)
+        aboveIdx++
+        if (leftC === aboveC)
+          leftIdx++
+      }
+    }
+    while (aboveIdx < aboveN)
+      add(colors[aboveBase + aboveIdx++])
+    while (leftIdx < leftN)
+      add(colors[leftBase + leftIdx++])
+
+    return cache
+  }
+
+  private paletteTokens(): void {
+    let blockHeight = BLOCK_HEIGHT[this.miSize]
+    let blockWidth = BLOCK_WIDTH[this.miSize]
+    let onscreenHeight = Math.min(blockHeight, (this.frame.miRows - this.miRow) * MI_SIZE)
+    let onscreenWidth = Math.min(blockWidth, (this.frame.miCols - this.miCol) * MI_SIZE)
+
+    if (this.paletteSizeY) {
+      this.readColorMap(this.colorMapY, this.paletteSizeY, this.cdf.paletteYColor, blockWidth, blockHeight, onscreenWidth, onscreenHeight)
+    }
+
+    if (this.paletteSizeUV) {
+      blockHeight >>= this.subY
+      blockWidth >>= this.subX
+      onscreenHeight >>= this.subY
+      onscreenWidth >>= this.subX
+      if (blockWidth < 4) {
+        blockWidth += 2
+        onscreenWidth += 2
+      }
+      if (blockHeight < 4) {
+        blockHeight += 2
+        onscreenHeight += 2
+      }
+      this.readColorMap(this.colorMapUV, this.paletteSizeUV, this.cdf.paletteUVColor, blockWidth, blockHeight, onscreenWidth, onscreenHeight)
+    }
+  }
+
+  /**
+   * Read a palette color index map in anti-diagonal (wavefront) order and
+   * replicate it past the frame edge. Maps use a stride of 64.
+   */
+  private readColorMap(
+    map: Uint8Array,
+    n: number,
+    cdfs: Cdf[][],
+    blockWidth: number,
+    blockHeight: number,
+    onscreenWidth: number,
+    onscreenHeight: number,
+  ): void {
+    const scores = [0, 0, 0, 0, 0, 0, 0, 0]
+    const order = [0, 1, 2, 3, 4, 5, 6, 7]
+
+    map[0] = this.readNs(n)
+    for (let i = 1; i < onscreenHeight + onscreenWidth - 1; i++) {
+      for (let j = Math.min(i, onscreenWidth - 1); j >= Math.max(0, i - onscreenHeight + 1); j--) {
+        const r = i - j
+        const c = j
+
+        // get_palette_color_context()
+        for (let k = 0; k < PALETTE_COLORS; k++) {
+          scores[k] = 0
+          order[k] = k
+        }
+        if (c > 0)
+          scores[map[r * 64 + c - 1]] += 2
+        if (r > 0 && c > 0)
+          scores[map[(r - 1) * 64 + c - 1]] += 1
+        if (r > 0)
+          scores[map[(r - 1) * 64 + c]] += 2
+
+        for (let k = 0; k < PALETTE_NUM_NEIGHBORS; k++) {
+          let maxScore = scores[k]
+          let maxIdx = k
+          for (let l = k + 1; l < n; l++) {
+            if (scores[l] > maxScore) {
+              maxScore = scores[l]
+              maxIdx = l
+            }
+          }
+          if (maxIdx !== k) {
+            const maxColorOrder = order[maxIdx]
+            for (let l = maxIdx; l > k; l--) {
+              scores[l] = scores[l - 1]
+              order[l] = order[l - 1]
+            }
+            scores[k] = maxScore
+            order[k] = maxColorOrder
+          }
+        }
+
+        let hash = 0
+        for (let k = 0; k < PALETTE_NUM_NEIGHBORS; k++)
+          hash += scores[k] * PALETTE_COLOR_HASH_MULTIPLIERS[k]
+        const ctx = PALETTE_COLOR_CONTEXT[hash]
+
+        map[r * 64 + c] = order[this.sd.readSymbol(cdfs[n - 2][ctx])]
+      }
+    }
+
+    for (let i = 0; i < onscreenHeight; i++) {
+      for (let j = onscreenWidth; j < blockWidth; j++)
+        map[i * 64 + j] = map[i * 64 + onscreenWidth - 1]
+    }
+    for (let i = onscreenHeight; i < blockHeight; i++)
+      map.copyWithin(i * 64, (onscreenHeight - 1) * 64, (onscreenHeight - 1) * 64 + blockWidth)
+  }
+
+  // ---------------------------------------------------------------------------
+  // Intra block copy motion vectors
+  // ---------------------------------------------------------------------------
+
+  /**
+   * find_mv_stack() restricted to intra frames: the only candidates are
+   * spatial neighbours that also use intra block copy, and there are no
+   * temporal or global motion candidates
+   */
+  private findMvStack(): void {
+    const bw4 = NUM_4X4_BLOCKS_WIDE[this.miSize]
+    const bh4 = NUM_4X4_BLOCKS_HIGH[this.miSize]
+
+    this.numMvFound = 0
+    this.weightStack.fill(0)
+
+    this.scanRow(-1)
+    this.scanCol(-1)
+    if (Math.max(bw4, bh4) <= 16)
+      this.scanPoint(-1, bw4)
+
+    const numNearest = this.numMvFound
+    for (let idx = 0; idx < numNearest; idx++)
+      this.weightStack[idx] += REF_CAT_LEVEL
+
+    this.scanPoint(-1, -1)
+    this.scanRow(-3)
+    this.scanCol(-3)
+    if (bh4 > 1)
+      this.scanRow(-5)
+    if (bw4 > 1)
+      this.scanCol(-5)
+
+    this.sortMvStack(0, numNearest)
+    this.sortMvStack(numNearest, this.numMvFound)
+
+    // extra_search() finds nothing in an intra frame, so missing entries use
+    // the zero global motion vector
+    for (let idx = this.numMvFound; idx < 2; idx++) {
+      this.refStackMv[idx][0] = 0
+      this.refStackMv[idx][1] = 0
+    }
+
+    // context_and_clamping()
+    for (let idx = 0; idx < this.numMvFound; idx++) {
+      const mv = this.refStackMv[idx]
+      mv[0] = this.clampMvRow(mv[0], MV_BORDER + bh4 * 4 * 8)
+      mv[1] = this.clampMvCol(mv[1], MV_BORDER + bw4 * 4 * 8)
+    }
+  }
+
+  private scanRow(deltaRow: number): void {
+    const bw4 = NUM_4X4_BLOCKS_WIDE[this.miSize]
+    const end4 = Math.min(Math.min(bw4, this.frame.miCols - this.miCol), 16)
+    const useStep16 = bw4 >= 16
+    let deltaCol = 0
+    if (Math.abs(deltaRow) > 1) {
+      deltaRow += this.miRow & 1
+      deltaCol = 1 - (this.miCol & 1)
+    }
+
+    for (let i = 0; i < end4;) {
+      const mvRow = this.miRow + deltaRow
+      const mvCol = this.miCol + deltaCol + i
+      if (!this.isInside(mvRow, mvCol))
+        break
+      let len = Math.min(bw4, NUM_4X4_BLOCKS_WIDE[this.frame.miSizes[mvRow * this.frame.miCols + mvCol]])
+      if (Math.abs(deltaRow) > 1)
+        len = Math.max(2, len)
+      if (useStep16)
+        len = Math.max(4, len)
+      this.addRefMvCandidate(mvRow, mvCol, len * 2)
+      i += len
+    }
+  }
+
+  private scanCol(deltaCol: number): void {
+    const bh4 = NUM_4X4_BLOCKS_HIGH[this.miSize]
+    const end4 = Math.min(Math.min(bh4, this.frame.miRows - this.miRow), 16)
+    const useStep16 = bh4 >= 16
+    let deltaRow = 0
+    if (Math.abs(deltaCol) > 1) {
+      deltaRow = 1 - (this.miRow & 1)
+      deltaCol += this.miCol & 1
+    }
+
+    for (let i = 0; i < end4;) {
+      const mvRow = this.miRow + deltaRow + i
+      const mvCol = this.miCol + deltaCol
+      if (!this.isInside(mvRow, mvCol))
+        break
+      let len = Math.min(bh4, NUM_4X4_BLOCKS_HIGH[this.frame.miSizes[mvRow * this.frame.miCols + mvCol]])
+      if (Math.abs(deltaCol) > 1)
+        len = Math.max(2, len)
+      if (useStep16)
+        len = Math.max(4, len)
+      this.addRefMvCandidate(mvRow, mvCol, len * 2)
+      i += len
+    }
+  }
+
+  private scanPoint(deltaRow: number, deltaCol: number): void {
+    const mvRow = this.miRow + deltaRow
+    const mvCol = this.miCol + deltaCol
+    // Only positions that have already been decoded are candidates
+    if (this.isInside(mvRow, mvCol) && this.frame.miSizes[mvRow * this.frame.miCols + mvCol] !== BLOCK_INVALID)
+      this.addRefMvCandidate(mvRow, mvCol, 4)
+  }
+
+  /**
+   * add_ref_mv_candidate() + search_stack() for intra block copy neighbours
+   */
+  private addRefMvCandidate(mvRow: number, mvCol: number, weight: number): void {
+    const i = mvRow * this.frame.miCols + mvCol
+    if (!this.frame.isInters[i])
+      return
+
+    // lower_mv_precision() with force_integer_mv
+    const candMv = [this.frame.mvs[i * 2], this.frame.mvs[i * 2 + 1]].map((v) => {
+      const aInt = (Math.abs(v) + 3) >> 3
+      return v > 0 ? aInt << 3 : -(aInt << 3)
+    })
+
+    let idx = 0
+    while (idx < this.numMvFound) {
+      const mv = this.refStackMv[idx]
+      if (mv[0] === candMv[0] && mv[1] === candMv[1])
+        break
+      idx++
+    }
+    if (idx < this.numMvFound) {
+      this.weightStack[idx] += weight
+    }
+    else if (this.numMvFound < MAX_REF_MV_STACK_SIZE) {
+      this.refStackMv[this.numMvFound][0] = candMv[0]
+      this.refStackMv[this.numMvFound][1] = candMv[1]
+      this.weightStack[this.numMvFound] = weight
+      this.numMvFound++
+    }
+  }
+
+  private sortMvStack(start: number, end: number): void {
+    while (end > start) {
+      let newEnd = start
+      for (let idx = start + 1; idx < end; idx++) {
+        if (this.weightStack[idx - 1] < this.weightStack[idx]) {
+          const weight = this.weightStack[idx - 1]
+          this.weightStack[idx - 1] = this.weightStack[idx]
+          this.weightStack[idx] = weight
+          const mv = this.refStackMv[idx - 1]
+          this.refStackMv[idx - 1] = this.refStackMv[idx]
+          this.refStackMv[idx] = mv
+          newEnd = idx
+        }
+      }
+      end = newEnd
+    }
+  }
+
+  private clampMvRow(mvec: number, border: number): number {
+    const bh4 = NUM_4X4_BLOCKS_HIGH[this.miSize]
+    const mbToTopEdge = -((this.miRow * MI_SIZE) * 8)
+    const mbToBottomEdge = ((this.frame.miRows - bh4 - this.miRow) * MI_SIZE) * 8
+    return Math.max(mbToTopEdge - border, Math.min(mbToBottomEdge + border, mvec))
+  }
+
+  private clampMvCol(mvec: number, border: number): number {
+    const bw4 = NUM_4X4_BLOCKS_WIDE[this.miSize]
+    const mbToLeftEdge = -((this.miCol * MI_SIZE) * 8)
+    const mbToRightEdge = ((this.frame.miCols - bw4 - this.miCol) * MI_SIZE) * 8
+    return Math.max(mbToLeftEdge - border, Math.min(mbToRightEdge + border, mvec))
+  }
+
+  /**
+   * assign_mv() for intra block copy: pick the reference vector and add the
+   * coded difference
+   */
+  private assignIntrabcMv(): void {
+    let predMv = this.refStackMv[0]
+    if (predMv[0] === 0 && predMv[1] === 0)
+      predMv = this.refStackMv[1]
+
+    let predRow = predMv[0]
+    let predCol = predMv[1]
+    if (predRow === 0 && predCol === 0) {
+      const sbSize4 = NUM_4X4_BLOCKS_HIGH[this.sbSize]
+      if (this.miRow - sbSize4 < this.miRowStart) {
+        predRow = 0
+        predCol = -(sbSize4 * MI_SIZE + INTRABC_DELAY_PIXELS) * 8
+      }
+      else {
+        predRow = -(sbSize4 * MI_SIZE * 8)
+        predCol = 0
+      }
+    }
+
+    // read_mv(): intra frames only code vectors in the intra block copy
+    // context, so a single set of motion vector CDFs is kept
+    const mvJoint = this.sd.readSymbol(this.cdf.mvJoint)
+    let diffRow = 0
+    let diffCol = 0
+    if (mvJoint === 2 || mvJoint === 3)
+      diffRow = this.readMvComponent(0)
+    if (mvJoint === 1 || mvJoint === 3)
+      diffCol = this.readMvComponent(1)
+
+    this.mv[0] = predRow + diffRow
+    this.mv[1] = predCol + diffCol
+  }
+
+  /**
+   * read_mv_component() with force_integer_mv (intra frames)
+   */
+  private readMvComponent(comp: number): number {
+    const cdfs = this.cdf.mvComponents[comp]
+    const sign = this.sd.readSymbol(cdfs.sign)
+    const mvClass = this.sd.readSymbol(cdfs.classes)
+    let mag: number
+
+    if (mvClass === 0) {
+      const class0Bit = this.sd.readSymbol(cdfs.class0Bit)
+      mag = ((class0Bit << 3) | (3 << 1) | 1) + 1
+    }
+    else {
+      let d = 0
+      for (let i = 0; i < mvClass; i++)
+        d |= this.sd.readSymbol(cdfs.bits[i]) << i
+      mag = CLASS0_SIZE << (mvClass + 2)
+      mag += ((d << 3) | (3 << 1) | 1) + 1
+    }
+
+    return sign ? -mag : mag
+  }
+
+  // ---------------------------------------------------------------------------
+  // Transform size syntax
+  // ---------------------------------------------------------------------------
+
+  private readBlockTxSize(): void {
+    const bw4 = NUM_4X4_BLOCKS_WIDE[this.miSize]
+    const bh4 = NUM_4X4_BLOCKS_HIGH[this.miSize]
+    const { miRows, miCols, interTxSizes } = this.frame
+
+    if (this.header.txMode === 2 && this.miSize > BLOCK_4X4 && this.isInter && !this.skip && !this.lossless) {
+      const maxTxSz = MAX_TX_SIZE_RECT[this.miSize]
+      const txW4 = TX_WIDTH[maxTxSz] / MI_SIZE
+      const txH4 = TX_HEIGHT[maxTxSz] / MI_SIZE
+      for (let row = this.miRow; row < this.miRow + bh4; row += txH4) {
+        for (let col = this.miCol; col < this.miCol + bw4; col += txW4)
+          this.readVarTxSize(row, col, maxTxSz, 0)
+      }
+      return
+    }
+
+    this.readTxSize(!this.skip || !this.isInter)
+    for (let row = this.miRow; row < this.miRow + bh4 && row < miRows; row++) {
+      for (let col = this.miCol; col < this.miCol + bw4 && col < miCols; col++)
+        interTxSizes[row * miCols + col] = this.txSize
+    }
+  }
+
+  private readVarTxSize(row: number, col: number, txSz: number, depth: number): void {
+    const { miRows, miCols, interTxSizes } = this.frame
+    if (row >= miRows || col >= miCols)
+      return
+
+    let txfmSplit = 0
+    if (txSz !== TX_4X4 && depth !== MAX_VARTX_DEPTH) {
+      const above = this.getAboveTxWidth(row, col) < TX_WIDTH[txSz] ? 1 : 0
+      const left = this.getLeftTxHeight(row, col) < TX_HEIGHT[txSz] ? 1 : 0
+      const size = Math.min(64, Math.max(BLOCK_WIDTH[this.miSize], BLOCK_HEIGHT[this.miSize]))
+      const maxTxSz = findTxSize(size, size)
+      const txSzSqrUp = TX_SIZE_SQR_UP[txSz]
+      const ctx = (txSzSqrUp !== maxTxSz ? 1 : 0) * 3 + (TX_SIZES - 1 - maxTxSz) * 6 + above + left
+      txfmSplit = this.sd.readSymbol(this.cdf.txfmSplit[ctx])
+    }
+
+    const w4 = TX_WIDTH[txSz] / MI_SIZE
+    const h4 = TX_HEIGHT[txSz] / MI_SIZE
+    if (txfmSplit) {
+      const subTxSz = SPLIT_TX_SIZE[txSz]
+      const stepW = TX_WIDTH[subTxSz] / MI_SIZE
+      const stepH = TX_HEIGHT[subTxSz] / MI_SIZE
+      for (let i = 0; i < h4; i += stepH) {
+        for (let j = 0; j < w4; j += stepW)
+          this.readVarTxSize(row + i, col + j, subTxSz, depth + 1)
+      }
+    }
+    else {
+      for (let i = 0; i < h4 && row + i < miRows; i++) {
+        for (let j = 0; j < w4 && col + j < miCols; j++)
+          interTxSizes[(row + i) * miCols + col + j] = txSz
+      }
+      this.txSize = txSz
+    }
+  }
+
+  private readTxSize(allowSelect: boolean): void {
+    if (this.lossless) {
+      this.txSize = TX_4X4
+      return
+    }
+
+    const maxRectTxSize = MAX_TX_SIZE_RECT[this.miSize]
+    const maxTxDepth = MAX_TX_DEPTH[this.miSize]
+    this.txSize = maxRectTxSize
+
+    if (this.miSize > BLOCK_4X4 && allowSelect && this.header.txMode === 2) {
+      const { miRow, miCol } = this
+      const { miCols, isInters, miSizes } = this.frame
+
+      let aboveW = 0
+      if (this.availU && isInters[(miRow - 1) * miCols + miCol])
+        aboveW = BLOCK_WIDTH[miSizes[(miRow - 1) * miCols + miCol]]
+      else if (this.availU)
+        aboveW = this.getAboveTxWidth(miRow, miCol)
+
+      let leftH = 0
+      if (this.availL && isInters[miRow * miCols + miCol - 1])
+        leftH = BLOCK_HEIGHT[miSizes[miRow * miCols + miCol - 1]]
+      else if (this.availL)
+        leftH = this.getLeftTxHeight(miRow, miCol)
+
+      const ctx = (aboveW >= TX_WIDTH[maxRectTxSize] ? 1 : 0) + (leftH >= TX_HEIGHT[maxRectTxSize] ? 1 : 0)
+
+      let cdfs: Cdf[]
+      if (maxTxDepth === 4)
+        cdfs = this.cdf.tx64x64
+      else if (maxTxDepth === 3)
+        cdfs = this.cdf.tx32x32
+      else if (maxTxDepth === 2)
+        cdfs = this.cdf.tx16x16
+      else
+        cdfs = this.cdf.tx8x8
+
+      const txDepth = this.sd.readSymbol(cdfs[ctx])
+      for (let i = 0; i < txDepth; i++)
+        this.txSize = SPLIT_TX_SIZE[this.txSize]
+    }
+  }
+
+  private getAboveTxWidth(row: number, col: number): number {
+    const { miCols, skips, isInters, miSizes, interTxSizes } = this.frame
+    const i = (row - 1) * miCols + col
+    if (row === this.miRow) {
+      if (!this.availU)
+        return 64
+      if (skips[i] && isInters[i])
+        return BLOCK_WIDTH[miSizes[i]]
+    }
+    return TX_WIDTH[interTxSizes[i]]
+  }
+
+  private getLeftTxHeight(row: number, col: number): number {
+    const { miCols, skips, isInters, miSizes, interTxSizes } = this.frame
+    const i = row * miCols + col - 1
+    if (col === this.miCol) {
+      if (!this.availL)
+        return 64
+      if (skips[i] && isInters[i])
+        return BLOCK_HEIGHT[miSizes[i]]
+    }
+    return TX_HEIGHT[interTxSizes[i]]
+  }
+
+  private resetBlockContext(bw4: number, bh4: number): void {
+    for (let plane = 0; plane < 1 + 2 * (this.hasChroma ? 1 : 0); plane++) {
+      const subX = plane > 0 ? this.subX : 0
+      const subY = plane > 0 ? this.subY : 0
+      const colEnd = ((this.miCol + bw4 - 1) >> subX) + 1
+      const rowEnd = ((this.miRow + bh4 - 1) >> subY) + 1
+      this.aboveLevelContext[plane].fill(0, this.miCol >> subX, colEnd)
+      this.aboveDcContext[plane].fill(0, this.miCol >> subX, colEnd)
+      this.leftLevelContext[plane].fill(0, this.miRow >> subY, rowEnd)
+      this.leftDcContext[plane].fill(0, this.miRow >> subY, rowEnd)
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Residual syntax
+  // ---------------------------------------------------------------------------
+
+  private residual(): void {
+    const widthChunks = Math.max(1, BLOCK_WIDTH[this.miSize] >> 6)
+    const heightChunks = Math.max(1, BLOCK_HEIGHT[this.miSize] >> 6)
+
+    for (let chunkY = 0; chunkY < heightChunks; chunkY++) {
+      for (let chunkX = 0; chunkX < widthChunks; chunkX++) {
+        const miRowChunk = this.miRow + (chunkY << 4)
+        const miColChunk = this.miCol + (chunkX << 4)
+
+        for (let plane = 0; plane < 1 + (this.hasChroma ? 2 : 0); plane++) {
+          const txSz = this.lossless ? TX_4X4 : this.getTxSize(plane, this.txSize)
+          const stepX = TX_WIDTH[txSz] >> 2
+          const stepY = TX_HEIGHT[txSz] >> 2
+          const subX = plane > 0 ? this.subX : 0
+          const subY = plane > 0 ? this.subY : 0
+          const planeSz = getPlaneResidualSize(this.miSize, subX, subY)
+          const num4x4W = NUM_4X4_BLOCKS_WIDE[planeSz]
+          const num4x4H = NUM_4X4_BLOCKS_HIGH[planeSz]
+          const baseX = (miColChunk >> subX) * MI_SIZE
+          const baseY = (miRowChunk >> subY) * MI_SIZE
+
+          if (this.isInter && !this.lossless && !plane) {
+            this.transformTree(baseX, baseY, Math.min(num4x4W * 4, 64), Math.min(num4x4H * 4, 64))
+            continue
+          }
+
+          const baseXBlock = (this.miCol >> subX) * MI_SIZE
+          const baseYBlock = (this.miRow >> subY) * MI_SIZE
+          for (let y = 0; y < Math.min(num4x4H, 16 >> subY); y += stepY) {
+            for (let x = 0; x < Math.min(num4x4W, 16 >> subX); x += stepX) {
+              this.transformBlock(
+                plane,
+                baseXBlock,
+                baseYBlock,
+                txSz,
+                x + ((chunkX << 4) >> subX),
+                y + ((chunkY << 4) >> subY),
+              )
+            }
+          }
+        }
+      }
+    }
+  }
+
+  private transformTree(startX: number, startY: number, w: number, h: number): void {
+    const { miRows, miCols, interTxSizes } = this.frame
+    if (startX >= miCols * MI_SIZE || startY >= miRows * MI_SIZE)
+      return
+
+    const row = startY >> 2
+    const col = startX >> 2
+    const txSz = interTxSizes[row * miCols + col]
+
+    if (w <= TX_WIDTH[txSz] && h <= TX_HEIGHT[txSz]) {
+      this.transformBlock(0, startX, startY, findTxSize(w, h), 0, 0)
+    }
+    else if (w > h) {
+      this.transformTree(startX, startY, w / 2, h)
+      this.transformTree(startX + w / 2, startY, w / 2, h)
+    }
+    else if (w < h) {
+      this.transformTree(startX, startY, w, h / 2)
+      this.transformTree(startX, startY + h / 2, w, h / 2)
+    }
+    else {
+      this.transformTree(startX, startY, w / 2, h / 2)
+      this.transformTree(startX + w / 2, startY, w / 2, h / 2)
+      this.transformTree(startX, startY + h / 2, w / 2, h / 2)
+      this.transformTree(startX + w / 2, startY + h / 2, w / 2, h / 2)
+    }
+  }
+
+  private getTxSize(plane: number, txSz: number): number {
+    if (plane === 0)
+      return txSz
+    const uvTx = MAX_TX_SIZE_RECT[getPlaneResidualSize(this.miSize, this.subX, this.subY)]
+    if (TX_WIDTH[uvTx] === 64 || TX_HEIGHT[uvTx] === 64) {
+      if (TX_WIDTH[uvTx] === 16)
+        return TX_16X32
+      if (TX_HEIGHT[uvTx] === 16)
+        return TX_32X16
+      return TX_32X32
+    }
+    return uvTx
+  }
+
+  /**
+   * transform_block(): `x` and `y` are in 4x4 units of the plane, relative to
+   * (`baseX`, `baseY`) in samples
+   */
+  private transformBlock(plane: number, baseX: number, baseY: number, txSz: number, x: number, y: number): void {
+    const startX = baseX + 4 * x
+    const startY = baseY + 4 * y
+    const subX = plane > 0 ? this.subX : 0
+    const subY = plane > 0 ? this.subY : 0
+    const { miRows, miCols } = this.frame
+    const maxX = (miCols * MI_SIZE) >> subX
+    const maxY = (miRows * MI_SIZE) >> subY
+    if (startX >= maxX || startY >= maxY)
+      return
+
+    const row = (startY << subY) >> 2
+    const col = (startX << subX) >> 2
+    const sbMask = this.seq.use128x128Superblock ? 31 : 15
+    const subBlockMiRow = row & sbMask
+    const subBlockMiCol = col & sbMask
+    const stepX = TX_WIDTH[txSz] >> 2
+    const stepY = TX_HEIGHT[txSz] >> 2
+
+    if (!this.isInter) {
+      const paletteSize = plane === 0 ? this.paletteSizeY : this.paletteSizeUV
+      const { planes, strides } = this.frame
+      if (paletteSize) {
+        const colors = plane === 0 ? this.paletteColorsY : plane === 1 ? this.paletteColorsU : this.paletteColorsV
+        predictPalette(
+          planes[plane],
+          startY * strides[plane] + startX,
+          strides[plane],
+          colors,
+          plane === 0 ? this.colorMapY : this.colorMapUV,
+          y * 4 * 64 + x * 4,
+          64,
+          TX_WIDTH[txSz],
+          TX_HEIGHT[txSz],
+        )
+      }
+      else {
+        const isCfl = plane > 0 && this.uvMode === UV_CFL_PRED
+        const mode = plane === 0 ? this.yMode : isCfl ? DC_PRED : this.uvMode
+        const flags = this.blockDecoded[plane]
+        const decodedRow = (subBlockMiRow >> subY) + 1
+        const decodedCol = (subBlockMiCol >> subX) + 1
+        predictIntra({
+          plane: planes[plane],
+          stride: strides[plane],
+          x: startX,
+          y: startY,
+          log2W: TX_WIDTH_LOG2[txSz],
+          log2H: TX_HEIGHT_LOG2[txSz],
+          maxX: maxX - 1,
+          maxY: maxY - 1,
+          haveLeft: (plane === 0 ? this.availL : this.availLChroma) || x > 0,
+          haveAbove: (plane === 0 ? this.availU : this.availUChroma) || y > 0,
+          haveAboveRight: flags[(decodedRow - 1) * BLOCK_DECODED_STRIDE + decodedCol + stepX] === 1,
+          haveBelowLeft: flags[(decodedRow + stepY) * BLOCK_DECODED_STRIDE + decodedCol - 1] === 1,
+          mode,
+          angleDelta: plane === 0 ? this.angleDeltaY : this.angleDeltaUV,
+          filterIntraMode: plane === 0 && this.useFilterIntra ? this.filterIntraMode : -1,
+          bitDepth: this.bitDepth,
+          enableIntraEdgeFilter: this.seq.enableIntraEdgeFilter,
+          smoothNeighbor: this.getFilterType(plane),
+        })
+        if (isCfl) {
+          predictChromaFromLuma(
+            planes[plane],
+            strides[plane],
+            planes[0],
+            strides[0],
+            startX,
+            startY,
+            TX_WIDTH_LOG2[txSz],
+            TX_HEIGHT_LOG2[txSz],
+            subX,
+            subY,
+            this.maxLumaW,
+            this.maxLumaH,
+            plane === 1 ? this.cflAlphaU : this.cflAlphaV,
+            this.bitDepth,
+          )
+        }
+      }
+
+      if (plane === 0) {
+        this.maxLumaW = startX + stepX * 4
+        this.maxLumaH = startY + stepY * 4
+      }
+    }
+
+    if (!this.skip) {
+      const eob = this.coeffs(startX, startY, plane, txSz)
+      if (eob > 0)
+        this.reconstruct(plane, startX, startY, txSz)
+    }
+
+    const lfTxSizes = this.frame.loopfilterTxSizes[plane]
+    const flags = this.blockDecoded[plane]
+    for (let i = 0; i < stepY; i++) {
+      for (let j = 0; j < stepX; j++) {
+        const r = (row >> subY) + i
+        const c = (col >> subX) + j
+        if (r < miRows && c < miCols)
+          lfTxSizes[r * miCols + c] = txSz
+        flags[((subBlockMiRow >> subY) + i + 1) * BLOCK_DECODED_STRIDE + (subBlockMiCol >> subX) + j + 1] = 1
+      }
+    }
+  }
+
+  /**
+   * reconstruct(): dequantize the coefficients of a transform block, invert
+   * the transform and add the residual to the prediction
+   */
+  private reconstruct(plane: number, x: number, y: number, txSz: number): void {
+    const header = this.header
+    const bitDepth = this.bitDepth
+    const qindex = getQIndex(header, false, this.segmentId, this.currentQIndex)
+    const qmLevel = this.lossless || !header.quantization.usingQmatrix || this.planeTxType >= IDTX
+      ? QM_LEVEL_FLAT
+      : header.segQMLevel[plane][this.segmentId]
+    dequantize(
+      this.quant,
+      this.dequant,
+      txSz,
+      getDcQuant(header, plane, qindex, bitDepth),
+      getAcQuant(header, plane, qindex, bitDepth),
+      qmLevel,
+      plane,
+      bitDepth,
+    )
+    inverseTransform2D(this.dequant, this.residualBuffer, txSz, this.planeTxType, this.lossless, bitDepth)
+
+    const w = TX_WIDTH[txSz]
+    const h = TX_HEIGHT[txSz]
+    const dst = this.frame.planes[plane]
+    const stride = this.frame.strides[plane]
+    const residual = this.residualBuffer
+    const maxValue = (1 << bitDepth) - 1
+    for (let i = 0; i < h; i++) {
+      const row = (y + i) * stride + x
+      for (let j = 0; j < w; j++) {
+        const value = dst[row + j] + residual[i * w + j]
+        dst[row + j] = value < 0 ? 0 : value > maxValue ? maxValue : value
+      }
+    }
+  }
+
+  /**
+   * get_filter_type(): whether the block above or to the left uses one of
+   * the smooth predictors
+   */
+  private getFilterType(plane: number): boolean {
+    const { miCols } = this.frame
+    let aboveSmooth = false
+    let leftSmooth = false
+
+    if (plane === 0 ? this.availU : this.availUChroma) {
+      let r = this.miRow - 1
+      let c = this.miCol
+      if (plane > 0) {
+        if (this.subX && !(this.miCol & 1))
+          c++
+        if (this.subY && (this.miRow & 1))
+          r--
+      }
+      aboveSmooth = this.isSmooth(r * miCols + c, plane)
+    }
+
+    if (plane === 0 ? this.availL : this.availLChroma) {
+      let r = this.miRow
+      let c = this.miCol - 1
+      if (plane > 0) {
+        if (this.subX && (this.miCol & 1))
+          c--
+        if (this.subY && !(this.miRow & 1))
+          r++
+      }
+      leftSmooth = this.isSmooth(r * miCols + c, plane)
+    }
+
+    return aboveSmooth || leftSmooth
+  }
+
+  private isSmooth(i: number, plane: number): boolean {
+    let mode: number
+    if (plane === 0) {
+      mode = this.frame.yModes[i]
+    }
+    else {
+      // Intra block copy blocks count as intra with a DC_PRED chroma mode
+      mode = this.frame.uvModes[i]
+    }
+    return mode === SMOOTH_PRED || mode === SMOOTH_V_PRED || mode === SMOOTH_H_PRED
+  }
+
+  /**
+   * Prediction for intra block copy (the inter branch of compute_prediction):
+   * every plane of the block is copied using the block's own vector
+   */
+  private predictBlockCopy(): void {
+    const { planes, strides } = this.frame
+    const { upscaledWidth, frameHeight } = this.header
+
+    for (let plane = 0; plane < 1 + (this.hasChroma ? 2 : 0); plane++) {
+      const subX = plane > 0 ? this.subX : 0
+      const subY = plane > 0 ? this.subY : 0
+      const planeSz = getPlaneResidualSize(this.miSize, subX, subY)
+      predictIntraBlockCopy(
+        planes[plane],
+        strides[plane],
+        (this.miCol >> subX) * MI_SIZE,
+        (this.miRow >> subY) * MI_SIZE,
+        BLOCK_WIDTH[planeSz],
+        BLOCK_HEIGHT[planeSz],
+        this.mv[0],
+        this.mv[1],
+        subX,
+        subY,
+        ((upscaledWidth + subX) >> subX) - 1,
+        ((frameHeight + subY) >> subY) - 1,
+        this.bitDepth,
+      )
+    }
+  }
+
+  /**
+   * transform_type(): read the luma transform type and record it for every
+   * 4x4 unit the transform covers
+   */
+  private readTransformType(x4: number, y4: number, txSz: number): void {
+    const set = getTxSet(txSz, this.isInter, this.header.reducedTxSet)
+    const qindex = this.header.segmentation.enabled
+      ? getQIndex(this.header, true, this.segmentId, this.currentQIndex)
+      : this.header.quantization.baseQIdx
+
+    let txType = DCT_DCT
+    if (set > 0 && qindex > 0) {
+      const txSzSqr = TX_SIZE_SQR[txSz]
+      if (this.isInter) {
+        if (set === TX_SET_INTER_1)
+          txType = TX_TYPE_INTER_INV_SET1[this.sd.readSymbol(this.cdf.interTxTypeSet1[txSzSqr])]
+        else if (set === TX_SET_INTER_2)
+          txType = TX_TYPE_INTER_INV_SET2[this.sd.readSymbol(this.cdf.interTxTypeSet2[txSzSqr])]
+        else
+          txType = TX_TYPE_INTER_INV_SET3[this.sd.readSymbol(this.cdf.interTxTypeSet3[txSzSqr])]
+      }
+      else {
+        const intraDir = this.useFilterIntra ? FILTER_INTRA_MODE_TO_INTRA_DIR[this.filterIntraMode] : this.yMode
+        if (set === TX_SET_INTRA_1)
+          txType = TX_TYPE_INTRA_INV_SET1[this.sd.readSymbol(this.cdf.intraTxTypeSet1[txSzSqr][intraDir])]
+        else
+          txType = TX_TYPE_INTRA_INV_SET2[this.sd.readSymbol(this.cdf.intraTxTypeSet2[txSzSqr][intraDir])]
+      }
+    }
+
+    this.setTxTypes(x4, y4, txSz, txType)
+  }
+
+  private setTxTypes(x4: number, y4: number, txSz: number, txType: number): void {
+    const { miRows, miCols, txTypes } = this.frame
+    for (let j = 0; j < TX_HEIGHT[txSz] >> 2 && y4 + j < miRows; j++) {
+      for (let i = 0; i < TX_WIDTH[txSz] >> 2 && x4 + i < miCols; i++)
+        txTypes[(y4 + j) * miCols + x4 + i] = txType
+    }
+  }
+
+  /**
+   * compute_tx_type(): the transform type used by a transform block
+   */
+  private computeTxType(plane: number, txSz: number, blockX: number, blockY: number): number {
+    if (this.lossless || TX_SIZE_SQR_UP[txSz] > TX_32X32)
+      return DCT_DCT
+
+    const { miCols, txTypes } = this.frame
+    const txSet = getTxSet(txSz, this.isInter, this.header.reducedTxSet)
+    if (plane === 0)
+      return txTypes[blockY * miCols + blockX]
+
+    let txType: number
+    if (this.isInter) {
+      const x4 = Math.max(this.miCol, blockX << this.subX)
+      const y4 = Math.max(this.miRow, blockY << this.subY)
+      txType = txTypes[y4 * miCols + x4]
+      return TX_TYPE_IN_SET_INTER[txSet][txType] ? txType : DCT_DCT
+    }
+
+    txType = MODE_TO_TXFM[this.uvMode]
+    return TX_TYPE_IN_SET_INTRA[txSet][txType] ? txType : DCT_DCT
+  }
+
+  /**
+   * coeffs(): read the quantized coefficients of one transform block into
+   * `quant` and update the entropy contexts. Returns the end of block.
+   */
+  private coeffs(startX: number, startY: number, plane: number, txSz: number): number {
+    const sd = this.sd
+    const cdf = this.cdf
+    const quant = this.quant
+    const x4 = startX >> 2
+    const y4 = startY >> 2
+    const w4 = TX_WIDTH[txSz] >> 2
+    const h4 = TX_HEIGHT[txSz] >> 2
+    const txSzCtx = (TX_SIZE_SQR[txSz] + TX_SIZE_SQR_UP[txSz] + 1) >> 1
+    const ptype = plane > 0 ? 1 : 0
+    const segEob = txSz === TX_16X64 || txSz === TX_64X16 ? 512 : Math.min(1024, TX_WIDTH[txSz] * TX_HEIGHT[txSz])
+
+    quant.fill(0, 0, segEob)
+
+    let eob = 0
+    let culLevel = 0
+    let dcCategory = 0
+
+    const allZero = sd.readSymbol(cdf.txbSkip[txSzCtx][this.getAllZeroContext(plane, txSz, x4, y4, w4, h4)])
+    if (allZero) {
+      if (plane === 0)
+        this.setTxTypes(x4, y4, txSz, DCT_DCT)
+    }
+    else {
+      if (plane === 0)
+        this.readTransformType(x4, y4, txSz)
+      this.planeTxType = this.computeTxType(plane, txSz, x4, y4)
+      const txClass = getTxClass(this.planeTxType)
+      const scan = getScan(txSz, this.planeTxType)
+
+      const eobMultisize = Math.min(TX_WIDTH_LOG2[txSz], 5) + Math.min(TX_HEIGHT_LOG2[txSz], 5) - 4
+      const eobCtx = txClass === TX_CLASS_2D ? 0 : 1
+      const eobPtCdfs = [cdf.eobPt16, cdf.eobPt32, cdf.eobPt64, cdf.eobPt128, cdf.eobPt256, cdf.eobPt512, cdf.eobPt1024]
+      const eobPt = sd.readSymbol(eobPtCdfs[eobMultisize][ptype][eobCtx]) + 1
+
+      eob = eobPt < 2 ? eobPt : (1 << (eobPt - 2)) + 1
+      let eobShift = eobPt - 3
+      if (eobShift >= 0) {
+        if (sd.readSymbol(cdf.eobExtra[txSzCtx][ptype][eobPt - 3]))
+          eob += 1 << eobShift
+        for (let i = 1; i < Math.max(0, eobPt - 2); i++) {
+          eobShift = Math.max(0, eobPt - 2) - 1 - i
+          if (sd.readLiteral(1))
+            eob += 1 << eobShift
+        }
+      }
+
+      const adjTxSz = ADJUSTED_TX_SIZE[txSz]
+      const bwl = TX_WIDTH_LOG2[adjTxSz]
+      const txw = TX_WIDTH[adjTxSz]
+      const txh = TX_HEIGHT[adjTxSz]
+
+      for (let c = eob - 1; c >= 0; c--) {
+        const pos = scan[c]
+        let level: number
+        if (c === eob - 1) {
+          let ctx = 3
+          if (c === 0)
+            ctx = 0
+          else if (c <= (txw * txh) / 8)
+            ctx = 1
+          else if (c <= (txw * txh) / 4)
+            ctx = 2
+          level = sd.readSymbol(cdf.coeffBaseEob[txSzCtx][ptype][ctx]) + 1
+        }
+        else {
+          level = sd.readSymbol(cdf.coeffBase[txSzCtx][ptype][getCoeffBaseCtx(quant, txSz, txClass, bwl, txh, pos)])
+        }
+
+        if (level > NUM_BASE_LEVELS) {
+          const brCdfs = cdf.coeffBr[Math.min(txSzCtx, TX_32X32)][ptype]
+          const brCtx = getCoeffBrCtx(quant, txClass, bwl, txh, pos)
+          for (let idx = 0; idx < COEFF_BASE_RANGE / (BR_CDF_SIZE - 1); idx++) {
+            const coeffBr = sd.readSymbol(brCdfs[brCtx])
+            level += coeffBr
+            if (coeffBr < BR_CDF_SIZE - 1)
+              break
+          }
+        }
+        quant[pos] = level
+      }
+
+      for (let c = 0; c < eob; c++) {
+        const pos = scan[c]
+        let sign = 0
+        if (quant[pos] !== 0) {
+          if (c === 0)
+            sign = sd.readSymbol(cdf.dcSign[ptype][this.getDcSignContext(plane, x4, y4, w4, h4)])
+          else
+            sign = sd.readLiteral(1)
+        }
+
+        if (quant[pos] > NUM_BASE_LEVELS + COEFF_BASE_RANGE) {
+          let length = 0
+          let golombLengthBit: number
+          do {
+            length++
+            golombLengthBit = sd.readLiteral(1)
+            if (length > 32)
+              throw new Error('Invalid coefficient Golomb code')
+          } while (!golombLengthBit)
+          let x = 1
+          for (let i = length - 2; i >= 0; i--)
+            x = ((x << 1) | sd.readLiteral(1)) >>> 0
+          quant[pos] = x + COEFF_BASE_RANGE + NUM_BASE_LEVELS
+        }
+
+        if (pos === 0 && quant[pos] > 0)
+          dcCategory = sign ? 1 : 2
+        quant[pos] &= 0xFFFFF
+        culLevel += quant[pos]
+        if (sign)
+          quant[pos] = -quant[pos]
+      }
+      culLevel = Math.min(63, culLevel)
+    }
+
+    this.aboveLevelContext[plane].fill(culLevel, x4, x4 + w4)
+    this.aboveDcContext[plane].fill(dcCategory, x4, x4 + w4)
+    this.leftLevelContext[plane].fill(culLevel, y4, y4 + h4)
+    this.leftDcContext[plane].fill(dcCategory, y4, y4 + h4)
+
+    return eob
+  }
+
+  private getAllZeroContext(plane: number, txSz: number, x4: number, y4: number, w4: number, h4: number): number {
+    const subX = plane > 0 ? this.subX : 0
+    const subY = plane > 0 ? this.subY : 0
+    const maxX4 = this.frame.miCols >> subX
+    const maxY4 = this.frame.miRows >> subY
+    const w = TX_WIDTH[txSz]
+    const h = TX_HEIGHT[txSz]
+    const bsize = getPlaneResidualSize(this.miSize, subX, subY)
+    const bw = BLOCK_WIDTH[bsize]
+    const bh = BLOCK_HEIGHT[bsize]
+    const aboveLevel = this.aboveLevelContext[plane]
+    const leftLevel = this.leftLevelContext[plane]
+
+    if (plane === 0) {
+      let top = 0
+      let left = 0
+      for (let k = 0; k < w4 && x4 + k < maxX4; k++)
+        top = Math.max(top, aboveLevel[x4 + k])
+      for (let k = 0; k < h4 && y4 + k < maxY4; k++)
+        left = Math.max(left, leftLevel[y4 + k])
+      top = Math.min(top, 255)
+      left = Math.min(left, 255)
+
+      if (bw === w && bh === h)
+        return 0
+      if (top === 0 && left === 0)
+        return 1
+      if (top === 0 || left === 0)
+        return 2 + (Math.max(top, left) > 3 ? 1 : 0)
+      if (Math.max(top, left) <= 3)
+        return 4
+      if (Math.min(top, left) <= 3)
+        return 5
+      return 6
+    }
+
+    const aboveDc = this.aboveDcContext[plane]
+    const leftDc = this.leftDcContext[plane]
+    let above = 0
+    let left = 0
+    for (let i = 0; i < w4 && x4 + i < maxX4; i++)
+      above |= aboveLevel[x4 + i] | aboveDc[x4 + i]
+    for (let i = 0; i < h4 && y4 + i < maxY4; i++)
+      left |= leftLevel[y4 + i] | leftDc[y4 + i]
+
+    let ctx = (above !== 0 ? 1 : 0) + (left !== 0 ? 1 : 0) + 7
+    if (bw * bh > w * h)
+      ctx += 3
+    return ctx
+  }
+
+  private getDcSignContext(plane: number, x4: number, y4: number, w4: number, h4: number): number {
+    const subX = plane > 0 ? this.subX : 0
+    const subY = plane > 0 ? this.subY : 0
+    const maxX4 = this.frame.miCols >> subX
+    const maxY4 = this.frame.miRows >> subY
+    const aboveDc = this.aboveDcContext[plane]
+    const leftDc = this.leftDcContext[plane]
+    let dcSign = 0
+
+    for (let k = 0; k < w4 && x4 + k < maxX4; k++) {
+      if (aboveDc[x4 + k] === 1)
+        dcSign--
+      else if (aboveDc[x4 + k] === 2)
+        dcSign++
+    }
+    for (let k = 0; k < h4 && y4 + k < maxY4; k++) {
+      if (leftDc[y4 + k] === 1)
+        dcSign--
+      else if (leftDc[y4 + k] === 2)
+        dcSign++
+    }
+
+    if (dcSign < 0)
+      return 1
+    return dcSign > 0 ? 2 : 0
+  }
+}
@@ -0,0 +1,1838 @@
+import type { FrameHeader, SequenceHeader } from '../types'
+import type { Cdf, CdfContext } from './cdf'
+import type { FrameState } from './frame-state'
+import type { SymbolWriter } from './symbol-encoder'
+import type { TileBounds } from './tile-decoder'
+import { forwardTransform2D, forwardWht4x4 } from './forward-transform'
+import { getQIndex } from './frame-header'
+import { predictIntra } from './intra-prediction'
+import { dequantize, getAcQuant, getDcQuant, QM_LEVEL_FLAT } from './quantizer'
+import { getSymbolCost, SymbolCounter } from './symbol-encoder'
+import {
+  ADJUSTED_TX_SIZE,
+  BLOCK_128X128,
+  BLOCK_16X16,
+  BLOCK_4X4,
+  BLOCK_64X64,
+  BLOCK_8X8,
+  BLOCK_HEIGHT,
+  BLOCK_WIDTH,
+  D113_PRED,
+  D135_PRED,
+  D157_PRED,
+  D203_PRED,
+  D45_PRED,
+  D67_PRED,
+  DC_PRED,
+  DCT_DCT,
+  findTxSize,
+  getPlaneResidualSize,
+  getScan,
+  getTxClass,
+  H_PRED,
+  MAX_TX_DEPTH,
+  MAX_TX_SIZE_RECT,
+  MI_HEIGHT_LOG2,
+  MI_WIDTH_LOG2,
+  NUM_4X4_BLOCKS_HIGH,
+  NUM_4X4_BLOCKS_WIDE,
+  PAETH_PRED,
+  PARTITION_HORZ,
+  PARTITION_HORZ_4,
+  PARTITION_HORZ_A,
+  PARTITION_HORZ_B,
+  PARTITION_NONE,
+  PARTITION_SPLIT,
+  PARTITION_SUBSIZE,
+  PARTITION_VERT,
+  PARTITION_VERT_4,
+  PARTITION_VERT_A,
+  PARTITION_VERT_B,
+  SMOOTH_H_PRED,
+  SMOOTH_PRED,
+  SMOOTH_V_PRED,
+  SPLIT_TX_SIZE,
+  TX_16X32,
+  TX_16X64,
+  TX_32X16,
+  TX_32X32,
+  TX_4X4,
+  TX_64X16,
+  TX_CLASS_2D,
+  TX_HEIGHT,
+  TX_HEIGHT_LOG2,
+  TX_SIZE_SQR,
+  TX_SIZE_SQR_UP,
+  TX_WIDTH,
+  TX_WIDTH_LOG2,
+  V_PRED,
+} from './tables'
+import {
+  BLOCK_DECODED_STRIDE,
+  getCoeffBaseCtx,
+  getCoeffBrCtx,
+  getTxSet,
+  INTRA_MODE_CONTEXT,
+  MODE_TO_TXFM,
+  TX_SET_DCTONLY,
+  TX_SET_INTRA_1,
+  TX_TYPE_IN_SET_INTRA,
+  TX_TYPE_INTRA_INV_SET1,
+  TX_TYPE_INTRA_INV_SET2,
+} from './tile-decoder'
+import { inverseTransform2D } from './transform'
+
+const MI_SIZE = 4
+const MAX_ANGLE_DELTA = 3
+const NUM_BASE_LEVELS = 2
+const COEFF_BASE_RANGE = 12
+const BR_CDF_SIZE = 4
+
+/**
+ * Rough cost of signalling one more block, in the units of `txCost()`,
+ * weighed against the residual when choosing between partitions without
+ * rate-distortion optimization
+ */
+const BLOCK_COST = 24
+
+/**
+ * Rounding offset of the quantizer, in quantizer steps: values are rounded
+ * towards zero more often than not, as small levels cost more bits than
+ * the distortion they save
+ */
+const QUANT_ROUNDING = 0.375
+
+/**
+ * Lagrange multiplier of rate-distortion decisions, in squared error per
+ * bit, relative to the squared quantizer step in samples. A step of q in
+ * the coefficients is a step of q / 8 in the samples at every transform
+ * size.
+ */
+const LAMBDA_SCALE = 0.07
+
+/** Candidate intra modes at low effort, and at the lowest */
+const FAST_MODES = [DC_PRED, V_PRED, H_PRED, SMOOTH_PRED, PAETH_PRED]
+const FASTEST_MODES = [DC_PRED, SMOOTH_PRED, PAETH_PRED]
+const ALL_MODES = [
+  DC_PRED,
+  V_PRED,
+  H_PRED,
+  D45_PRED,
+  D135_PRED,
+  D113_PRED,
+  D157_PRED,
+  D203_PRED,
+  D67_PRED,
+  SMOOTH_PRED,
+  SMOOTH_V_PRED,
+  SMOOTH_H_PRED,
+  PAETH_PRED,
+]
+
+/**
+ * What the encoder searches at an effort level
+ */
+export interface SearchSettings {
+  /** Candidate intra modes, for luma and chroma alike */
+  modes: number[]
+  /** Blocks of this size and smaller are not split further */
+  minBlockSize: number
+  /**
+   * Whether partitions, modes and transforms are chosen by their
+   * rate-distortion cost rather than by the SATD of their residual
+   */
+  rdo: boolean
+  /** Modes of each plane with the lowest SATD that are coded in full */
+  rdModes: number
+  /**
+   * Luma transform types with the lowest SATD that are coded in full, or
+   * 0 to use the type implied by the mode
+   */
+  rdTxTypes: number
+  /** Whether luma transform sizes are searched, which needs TX_MODE_SELECT */
+  searchTxSize: boolean
+  /** Whether horizontal and vertical partitions are tried besides splits */
+  rectPartitions: boolean
+  /** Whether levels are chosen by trellis quantization */
+  trellis: boolean
+}
+
+/**
+ * The search of an effort level from 0 (fastest) to 10 (smallest output).
+ * Below 3 decisions only look at the SATD of the residual, over fewer modes
+ * and larger blocks at 0 and 1.
+ */
+export function getSearchSettings(effort: number): SearchSettings {
+  return {
+    modes: effort < 1 ? FASTEST_MODES : effort < 3 ? FAST_MODES : ALL_MODES,
+    minBlockSize: effort < 2 ? BLOCK_16X16 : effort < 3 ? BLOCK_8X8 : BLOCK_4X4,
+    rdo: effort >= 3,
+    rdModes: effort >= 10 ? 5 : effort >= 8 ? 4 : effort >= 5 ? 3 : 2,
+    rdTxTypes: effort >= 10 ? 4 : effort >= 8 ? 3 : effort >= 6 ? 2 : 0,
+    searchTxSize: effort >= 8,
+    rectPartitions: effort >= 9,
+    trellis: effort >= 8,
+  }
+}
+
+/**
+ * A transform block of the current block, in the order residual() codes
+ * them
+ */
+interface TxBlock {
+  plane: number
+  /** Position in samples of the plane */
+  startX: number
+  startY: number
+  txSz: number
+  /** Transform type, settled when the block is coded */
+  txType: number
+  /** Position in 4x4 units of the plane relative to the block */
+  x: number
+  y: number
+}
+
+/**
+ * The prediction modes chosen for a block and their estimated cost: the
+ * SATD of the residual, or the distortion plus lambda times the bits under
+ * rate-distortion optimization
+ */
+interface ModeChoice {
+  yMode: number
+  uvMode: number
+  cost: number
+  /** Luma transform size, the largest of the block when not given */
+  txSize?: number
+  /**
+   * Transform types and levels of the transform blocks, recorded when the
+   * block is first coded so that coding it again reproduces it; blocks
+   * with undefined levels are yet to be settled
+   */
+  txTypes?: number[]
+  levels?: (Int32Array | null | undefined)[]
+}
+
+/**
+ * The partition of a block chosen by the rate-distortion search
+ */
+interface PartitionChoice {
+  partition: number
+  /** Blocks of a NONE, HORZ or VERT partition */
+  blocks: ModeChoice[]
+  /** Quadrants of a SPLIT partition, null outside the frame */
+  children: (PartitionChoice | null)[]
+  cost: number
+}
+
+/**
+ * A copy of part of a context array, to put back after a trial encode
+ */
+interface SavedRange {
+  array: Uint8Array
+  offset: number
+  copy: Uint8Array
+}
+
+/**
+ * The coeff_base_eob context of the last level, at scan position `c`
+ */
+function getCoeffBaseEobCtx(c: number, adjTxSz: number): number {
+  const area = TX_WIDTH[adjTxSz] * TX_HEIGHT[adjTxSz]
+  if (c === 0)
+    return 0
+  if (c <= area / 8)
+    return 1
+  return c <= area / 4 ? 2 : 3
+}
+
+/**
+ * The bits of a level and its sign, given the CDF of its coeff_base (or
+ * coeff_base_eob, for the last level) and coeff_br symbols
+ */
+function getLevelCost(level: number, isLast: boolean, baseCdf: Cdf, brCdf: Cdf): number {
+  if (level === 0)
+    return getSymbolCost(0, baseCdf)
+
+  let bits = 1 + getSymbolCost(Math.min(level, NUM_BASE_LEVELS + 1) - (isLast ? 1 : 0), baseCdf)
+  let remaining = level - NUM_BASE_LEVELS - 1
+  for (let idx = 0; idx < COEFF_BASE_RANGE / (BR_CDF_SIZE - 1) && remaining >= 0; idx++) {
+    const coeffBr = Math.min(remaining, BR_CDF_SIZE - 1)
+    bits += getSymbolCost(coeffBr, brCdf)
+    remaining -= coeffBr
+    if (coeffBr < BR_CDF_SIZE - 1)
+      break
+  }
+  if (level > NUM_BASE_LEVELS + COEFF_BASE_RANGE)
+    bits += 2 * (32 - Math.clz32(level - COEFF_BASE_RANGE - NUM_BASE_LEVELS)) - 1
+  return bits
+}
+
+/**
+ * Encodes one tile of a key frame, the counterpart of `TileDecoder`.
+ * Blocks are predicted and coded against `source`, planes laid out like
+ * those of the frame state, while the frame state receives the
+ * reconstruction exactly as the decoder rebuilds it. The frame planes must
+ * start out as a copy of `source`: mode decisions predict from them before
+ * the neighbouring blocks are coded.
+ *
+ * Lossless frames use 4x4 Walsh-Hadamard transforms; other frames use the
+ * quantizer of the base qindex, and the largest transform of each block
+ * unless the frame selects transform sizes (TX_MODE_SELECT). `effort`
+ * (0-10) sets how widely partitions, modes and transforms are searched;
+ * from 3 up, superblocks are first coded into a `SymbolCounter` to weigh
+ * the distortion of each choice against its bits, then written.
+ */
+export class TileEncoder {
+  private frame: FrameState
+  private source: Uint16Array[]
+  private seq: SequenceHeader
+  private header: FrameHeader
+  private cdf: CdfContext
+  /** The output, or a `SymbolCounter` during trial encodes */
+  private se: SymbolWriter
+  private miRowStart: number
+  private miRowEnd: number
+  private miColStart: number
+  private miColEnd: number
+  private subX: number
+  private subY: number
+  private numPlanes: number
+  private bitDepth: number
+  private sbSize: number
+  private lossless: boolean
+  private search: SearchSettings
+  /** Quantizer step sizes of each plane */
+  private dcQuant: number[] = []
+  private acQuant: number[] = []
+  private lambda: number
+  /** Size of each plane inside the frame, over which distortion counts */
+  private planeWidths: number[] = []
+  private planeHeights: number[] = []
+
+  // Entropy contexts, indexed by absolute 4x4 position within each plane
+  private aboveLevelContext: Uint8Array[] = []
+  private aboveDcContext: Uint8Array[] = []
+  private leftLevelContext: Uint8Array[] = []
+  private leftDcContext: Uint8Array[] = []
+  private blockDecoded: Uint8Array[] = []
+
+  // Current block
+  private miRow = 0
+  private miCol = 0
+  private miSize = 0
+  private hasChroma = false
+  private availU = false
+  private availL = false
+  private availUChroma = false
+  private availLChroma = false
+  private skip = 0
+  private yMode = 0
+  private uvMode = 0
+  private txSize = 0
+
+  // Current transform block
+  private quant = new Int32Array(1024)
+  private dequant = new Int32Array(1024)
+  private residualBuffer = new Int32Array(64 * 64)
+  private subResidualBuffer = new Int32Array(32 * 32)
+  private coeffBuffer = new Float64Array(1024)
+  private predictionBuffer = new Uint16Array(64 * 64)
+  private contextLevels = new Int32Array(1024)
+
+  constructor(frame: FrameState, source: Uint16Array[], cdf: CdfContext, se: SymbolWriter, bounds: TileBounds, effort: number = 6) {
+    this.frame = frame
+    this.source = source
+    this.seq = frame.seqHeader
+    this.header = frame.frameHeader
+    this.cdf = cdf
+    this.se = se
+    this.miRowStart = bounds.miRowStart
+    this.miRowEnd = bounds.miRowEnd
+    this.miColStart = bounds.miColStart
+    this.miColEnd = bounds.miColEnd
+    this.lossless = this.header.codedLossless
+    this.search = getSearchSettings(effort)
+
+    const { colorConfig } = this.seq
+    this.subX = colorConfig.subsamplingX
+    this.subY = colorConfig.subsamplingY
+    this.numPlanes = colorConfig.numPlanes
+    this.bitDepth = colorConfig.bitDepth
+    this.sbSize = this.seq.use128x128Superblock ? BLOCK_128X128 : BLOCK_64X64
+
+    const qindex = getQIndex(this.header, false, 0, this.header.quantization.baseQIdx)
+    for (let plane = 0; plane < this.numPlanes; plane++) {
+      this.dcQuant.push(getDcQuant(this.header, plane, qindex, this.bitDepth))
+      this.acQuant.push(getAcQuant(this.header, plane, qindex, this.bitDepth))
+      this.aboveLevelContext.push(new Uint8Array(frame.miCols + 16))
+      this.aboveDcContext.push(new Uint8Array(frame.miCols + 16))
+      this.leftLevelContext.push(new Uint8Array(frame.miRows + 16))
+      this.leftDcContext.push(new Uint8Array(frame.miRows + 16))
+      this.blockDecoded.push(new Uint8Array(BLOCK_DECODED_STRIDE * BLOCK_DECODED_STRIDE))
+      this.planeWidths.push((this.header.frameWidth + (plane > 0 ? this.subX : 0)) >> (plane > 0 ? this.subX : 0))
+      this.planeHeights.push((this.header.frameHeight + (plane > 0 ? this.subY : 0)) >> (plane > 0 ? this.subY : 0))
+    }
+    this.lambda = LAMBDA_SCALE * (this.acQuant[0] / 8) ** 2
+  }
+
+  /**
+   * Encode every superblock of the tile, in decode_tile() order
+   */
+  encode(): void {
+    const sbSize4 = NUM_4X4_BLOCKS_WIDE[this.sbSize]
+
+    for (let miRow = this.miRowStart; miRow < this.miRowEnd; miRow += sbSize4) {
+      this.clearLeftContext()
+      for (let miCol = this.miColStart; miCol < this.miColEnd; miCol += sbSize4) {
+        this.clearBlockDecodedFlags(miRow, miCol, sbSize4)
+        if (!this.search.rdo) {
+          this.encodePartition(miRow, miCol, this.sbSize)
+          continue
+        }
+
+        // Search with trial encodes, then write the superblock from the
+        // same starting contexts. The SATD decisions are costed too and
+        // kept when the search does no better.
+        const contexts = this.saveContexts(miRow, miCol, this.sbSize, false)
+        const baselineBits = this.countBits(() => this.encodePartition(miRow, miCol, this.sbSize))
+        const baselineCost = this.getBlockDistortion(miRow, miCol, this.sbSize) + this.lambda * baselineBits
+        this.restoreContexts(contexts)
+        this.clearBlockDecodedFlags(miRow, miCol, sbSize4)
+
+        const se = this.se
+        this.se = new SymbolCounter()
+        const choice = this.searchPartition(miRow, miCol, this.sbSize)
+        this.se = se
+        this.restoreContexts(contexts)
+        this.clearBlockDecodedFlags(miRow, miCol, sbSize4)
+        this.encodePartition(miRow, miCol, this.sbSize, choice && choice.cost < baselineCost ? choice : null)
+      }
+    }
+  }
+
+  private clearLeftContext(): void {
+    for (let plane = 0; plane < this.numPlanes; plane++) {
+      this.leftLevelContext[plane].fill(0)
+      this.leftDcContext[plane].fill(0)
+    }
+  }
+
+  private clearBlockDecodedFlags(r: number, c: number, sbSize4: number): void {
+    for (let plane = 0; plane < this.numPlanes; plane++) {
+      const subX = plane > 0 ? this.subX : 0
+      const subY = plane > 0 ? this.subY : 0
+      const sbWidth4 = (this.miColEnd - c) >> subX
+      const sbHeight4 = (this.miRowEnd - r) >> subY
+      const flags = this.blockDecoded[plane]
+      for (let y = -1; y <= (sbSize4 >> subY); y++) {
+        for (let x = -1; x <= (sbSize4 >> subX); x++) {
+          let decoded = 0
+          if (y < 0 && x < sbWidth4)
+            decoded = 1
+          else if (x < 0 && y < sbHeight4)
+            decoded = 1
+          flags[(y + 1) * BLOCK_DECODED_STRIDE + x + 1] = decoded
+        }
+      }
+      flags[((sbSize4 >> subY) + 1) * BLOCK_DECODED_STRIDE] = 0
+    }
+  }
+
+  private isInside(candR: number, candC: number): boolean {
+    return candC >= this.miColStart && candC < this.miColEnd && candR >= this.miRowStart && candR < this.miRowEnd
+  }
+
+  // ---------------------------------------------------------------------------
+  // Partition and mode decisions
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Write the partition of a block and code it. Without a `choice` from
+   * the search, blocks inside the frame are coded whole when that is
+   * estimated to be cheaper than their four quadrants, or when they are as
+   * small as the search goes, and split otherwise; blocks crossing the
+   * frame edge are always split.
+   */
+  private encodePartition(r: number, c: number, bSize: number, choice?: PartitionChoice | null): void {
+    const { miRows, miCols } = this.frame
+    if (r >= miRows || c >= miCols)
+      return
+
+    if (bSize < BLOCK_8X8) {
+      this.encodeBlock(r, c, bSize, choice?.blocks[0] ?? this.chooseModes(r, c, bSize))
+      return
+    }
+
+    const halfBlock4x4 = NUM_4X4_BLOCKS_WIDE[bSize] >> 1
+    const blocks = choice?.blocks ?? []
+    let partition = PARTITION_SPLIT
+    if (r + halfBlock4x4 < miRows && c + halfBlock4x4 < miCols) {
+      if (choice) {
+        partition = choice.partition
+      }
+      else {
+        const modes = this.chooseModes(r, c, bSize)
+        if (bSize <= this.search.minBlockSize || modes.cost <= this.splitCost(r, c, bSize)) {
+          partition = PARTITION_NONE
+          blocks.push(modes)
+        }
+      }
+    }
+    this.writePartition(r, c, bSize, partition)
+
+    const subSize = PARTITION_SUBSIZE[partition][bSize]
+    if (partition === PARTITION_NONE) {
+      this.encodeBlock(r, c, bSize, blocks[0])
+    }
+    else if (partition === PARTITION_HORZ) {
+      this.encodeBlock(r, c, subSize, blocks[0])
+      this.encodeBlock(r + halfBlock4x4, c, subSize, blocks[1])
+    }
+    else if (partition === PARTITION_VERT) {
+      this.encodeBlock(r, c, subSize, blocks[0])
+      this.encodeBlock(r, c + halfBlock4x4, subSize, blocks[1])
+    }
+    else {
+      this.encodePartition(r, c, subSize, choice?.children[0])
+      this.encodePartition(r, c + halfBlock4x4, subSize, choice?.children[1])
+      this.encodePartition(r + halfBlock4x4, c, subSize, choice?.children[2])
+      this.encodePartition(r + halfBlock4x4, c + halfBlock4x4, subSize, choice?.children[3])
+    }
+  }
+
+  /**
+   * Write the partition symbol of a block of 8x8 or larger; blocks
+   * crossing the frame edge can only be split (or partitioned along the
+   * edge, which the encoder does not use)
+   */
+  private writePartition(r: number, c: number, bSize: number, partition: number): void {
+    const { miRows, miCols, miSizes } = this.frame
+    const availU = this.isInside(r - 1, c)
+    const availL = this.isInside(r, c - 1)
+    const halfBlock4x4 = NUM_4X4_BLOCKS_WIDE[bSize] >> 1
+    const hasRows = r + halfBlock4x4 < miRows
+    const hasCols = c + halfBlock4x4 < miCols
+    const bsl = MI_WIDTH_LOG2[bSize]
+    const above = availU && MI_WIDTH_LOG2[miSizes[(r - 1) * miCols + c]] < bsl ? 1 : 0
+    const left = availL && MI_HEIGHT_LOG2[miSizes[r * miCols + c - 1]] < bsl ? 1 : 0
+    const partitionCdf = this.getPartitionCdf(bsl)[left * 2 + above]
+
+    if (hasRows && hasCols) {
+      this.se.writeSymbol(partition, partitionCdf)
+    }
+    else if (hasCols) {
+      // split_or_horz
+      this.writeBoolWithProbability(1, this.partitionProbability(partitionCdf, [
+        PARTITION_VERT,
+        PARTITION_SPLIT,
+        PARTITION_HORZ_A,
+        PARTITION_VERT_A,
+        PARTITION_VERT_B,
+        ...(bSize !== BLOCK_128X128 ? [PARTITION_VERT_4] : []),
+      ]))
+    }
+    else if (hasRows) {
+      // split_or_vert
+      this.writeBoolWithProbability(1, this.partitionProbability(partitionCdf, [
+        PARTITION_HORZ,
+        PARTITION_SPLIT,
+        PARTITION_HORZ_A,
+        PARTITION_HORZ_B,
+        PARTITION_VERT_A,
+        ...(bSize !== BLOCK_128X128 ? [PARTITION_HORZ_4] : []),
+      ]))
+    }
+  }
+
+  private getPartitionCdf(bsl: number): Cdf[] {
+    switch (bsl) {
+      case 1:
+        return this.cdf.partitionW8
+      case 2:
+        return this.cdf.partitionW16
+      case 3:
+        return this.cdf.partitionW32
+      case 4:
+        return this.cdf.partitionW64
+      default:
+        return this.cdf.partitionW128
+    }
+  }
+
+  private partitionProbability(cdf: Cdf, partitions: number[]): number {
+    let psum = 0
+    for (const p of partitions)
+      psum += cdf[p] - (p > 0 ? cdf[p - 1] : 0)
+    return psum
+  }
+
+  /**
+   * Write a bool that is 1 with probability psum / 32768, using a temporary
+   * CDF that is discarded afterwards
+   */
+  private writeBoolWithProbability(bit: number, psum: number): void {
+    this.se.writeSymbol(bit, new Uint16Array([(1 << 15) - psum, 1 << 15, 0]))
+  }
+
+  /**
+   * Estimated cost of splitting a block: its quadrants coded whole
+   */
+  private splitCost(r: number, c: number, bSize: number): number {
+    const { miRows, miCols } = this.frame
+    const subSize = PARTITION_SUBSIZE[PARTITION_SPLIT][bSize]
+    const half4x4 = NUM_4X4_BLOCKS_WIDE[bSize] >> 1
+    let cost = 0
+    for (let i = 0; i < 4; i++) {
+      const subR = r + (i >> 1) * half4x4
+      const subC = c + (i & 1) * half4x4
+      if (subR < miRows && subC < miCols)
+        cost += this.chooseModes(subR, subC, subSize).cost
+    }
+    return cost
+  }
+
+  /**
+   * Pick the luma and chroma modes with the cheapest residual for a block
+   */
+  private chooseModes(r: number, c: number, bSize: number): ModeChoice {
+    this.setBlock(r, c, bSize)
+    const txBlocks = this.txBlocks()
+    const [yMode, yCost] = this.rankModes(txBlocks.filter(tx => tx.plane === 0), 1)[0]
+    const [uvMode, uvCost] = this.hasChroma ? this.rankModes(txBlocks.filter(tx => tx.plane > 0), 1)[0] : [DC_PRED, 0]
+    return { yMode, uvMode, cost: yCost + uvCost + BLOCK_COST }
+  }
+
+  /**
+   * The `count` candidate modes with the lowest SATD over the transform
+   * blocks of `planes`, cheapest first, with their costs. The trial
+   * predictions leave the frame planes and decoded flags as they were.
+   */
+  private rankModes(planes: TxBlock[], count: number): [number, number][] {
+    const savedFlags = this.blockDecoded.map(flags => flags.slice())
+    const ranking: [number, number][] = []
+
+    for (const mode of this.search.modes) {
+      const bound = ranking.length < count ? Infinity : ranking[count - 1][1]
+      let cost = 0
+      for (const tx of planes) {
+        this.predictTxBlock(tx, mode)
+        cost += this.txCost(tx, this.getDefaultTxType(tx.plane, tx.txSz, mode))
+        this.restoreSource(tx)
+        this.markDecoded(tx)
+        if (cost >= bound)
+          break
+      }
+      savedFlags.forEach((flags, plane) => this.blockDecoded[plane].set(flags))
+      if (cost < bound) {
+        ranking.push([mode, cost])
+        ranking.sort((a, b) => a[1] - b[1])
+        ranking.length = Math.min(ranking.length, count)
+      }
+    }
+
+    return ranking
+  }
+
+  /**
+   * Choose the partition of a block by rate-distortion cost: coded whole,
+   * split into quadrants searched in turn and, when enabled, split in two.
+   * Blocks crossing the frame edge are split. Leaves the block coded with
+   * the partition chosen, into the counter.
+   */
+  private searchPartition(r: number, c: number, bSize: number): PartitionChoice | null {
+    const { miRows, miCols } = this.frame
+    if (r >= miRows || c >= miCols)
+      return null
+
+    if (bSize < BLOCK_8X8) {
+      const block = this.searchBlock(r, c, bSize)
+      return { partition: PARTITION_NONE, blocks: [block], children: [], cost: block.cost }
+    }
+
+    const halfBlock4x4 = NUM_4X4_BLOCKS_WIDE[bSize] >> 1
+    const partitions = [PARTITION_SPLIT]
+    if (r + halfBlock4x4 < miRows && c + halfBlock4x4 < miCols) {
+      partitions[0] = PARTITION_NONE
+      if (bSize > this.search.minBlockSize)
+        partitions.push(PARTITION_SPLIT)
+      if (this.search.rectPartitions)
+        partitions.push(PARTITION_HORZ, PARTITION_VERT)
+    }
+
+    const contexts = this.saveContexts(r, c, bSize, true)
+    let best: PartitionChoice | null = null
+    let last: PartitionChoice | null = null
+    for (const partition of partitions) {
+      this.restoreContexts(contexts)
+      const subSize = PARTITION_SUBSIZE[partition][bSize]
+      last = {
+        partition,
+        blocks: [],
+        children: [],
+        cost: this.lambda * this.countBits(() => this.writePartition(r, c, bSize, partition)),
+      }
+
+      if (partition === PARTITION_SPLIT) {
+        for (let i = 0; i < 4 && last.cost < (best?.cost ?? Infinity); i++) {
+          const child = this.searchPartition(r + (i >> 1) * halfBlock4x4, c + (i & 1) * halfBlock4x4, subSize)
+          last.children.push(child)
+          last.cost += child?.cost ?? 0
+        }
+      }
+      else {
+        for (let i = 0; i < (partition === PARTITION_NONE ? 1 : 2) && last.cost < (best?.cost ?? Infinity); i++) {
+          const block = partition === PARTITION_HORZ
+            ? this.searchBlock(r + i * halfBlock4x4, c, subSize)
+            : this.searchBlock(r, c + i * halfBlock4x4, subSize)
+          last.blocks.push(block)
+          last.cost += block.cost
+        }
+      }
+
+      if (!best || last.cost < best.cost)
+        best = last
+    }
+
+    if (best && best !== last) {
+      this.restoreContexts(contexts)
+      this.encodePartition(r, c, bSize, best)
+    }
+    return best
+  }
+
+  /**
+   * Choose the modes and luma transform size of a block by rate-distortion
+   * cost: the luma modes with the lowest SATD are coded at each transform
+   * size, then the chroma modes with the lowest SATD alongside the best of
+   * them. Leaves the block coded with the choice made, into the counter.
+   */
+  private searchBlock(r: number, c: number, bSize: number): ModeChoice {
+    this.setBlock(r, c, bSize)
+    const txBlocks = this.txBlocks()
+    const count = this.search.rdModes
+    const yModes = this.rankModes(txBlocks.filter(tx => tx.plane === 0), count)
+    const uvModes = this.hasChroma ? this.rankModes(txBlocks.filter(tx => tx.plane > 0), count) : [[DC_PRED, 0]]
+    const contexts = this.saveContexts(r, c, bSize, true)
+
+    // Luma modes at the largest transform size, smaller sizes for the best
+    // half of them, then the chroma modes with the luma blocks kept
+    const [largest, ...smaller] = this.getTxSizeCandidates(bSize)
+    const choices = yModes.map(([yMode]) =>
+      this.evaluateBlock(r, c, bSize, { yMode, uvMode: uvModes[0][0], txSize: largest, cost: 0 }, contexts))
+    let last = choices[choices.length - 1]
+    choices.sort((a, b) => a.cost - b.cost)
+    let best = choices[0]
+    for (const { yMode } of choices.slice(0, Math.ceil(choices.length / 2))) {
+      for (const txSize of smaller) {
+        last = this.evaluateBlock(r, c, bSize, { yMode, uvMode: uvModes[0][0], txSize, cost: 0 }, contexts)
+        if (last.cost < best.cost)
+          best = last
+      }
+    }
+    const lumaBest = best
+    if (lumaBest.txSize !== undefined)
+      this.txSize = lumaBest.txSize
+    const planes = this.txBlocks().map(tx => tx.plane)
+    for (const [uvMode] of uvModes.slice(1)) {
+      last = this.evaluateBlock(r, c, bSize, {
+        yMode: lumaBest.yMode,
+        uvMode,
+        txSize: lumaBest.txSize,
+        cost: 0,
+        txTypes: lumaBest.txTypes,
+        levels: lumaBest.levels?.map((levels, i) => planes[i] === 0 ? levels : undefined),
+      }, contexts)
+      if (last.cost < best.cost)
+        best = last
+    }
+
+    if (best !== last) {
+      this.restoreContexts(contexts)
+      this.encodeBlock(r, c, bSize, best)
+    }
+    return best
+  }
+
+  /**
+   * Code a block with `choice` from the contexts saved before it and set
+   * its rate-distortion cost
+   */
+  private evaluateBlock(r: number, c: number, bSize: number, choice: ModeChoice, contexts: SavedRange[]): ModeChoice {
+    this.restoreContexts(contexts)
+    const bits = this.countBits(() => this.encodeBlock(r, c, bSize, choice))
+    choice.cost = this.getDistortion(this.txBlocks()) + this.lambda * bits
+    return choice
+  }
+
+  /**
+   * The luma transform sizes searched for a block: its largest and, when
+   * the frame selects transform sizes, those tx_depth splits it into
+   */
+  private getTxSizeCandidates(bSize: number): number[] {
+    const sizes = [this.lossless ? TX_4X4 : MAX_TX_SIZE_RECT[bSize]]
+    if (this.header.txMode === 2 && bSize > BLOCK_4X4) {
+      const maxDepth = MAX_TX_DEPTH[bSize] > 1 ? 2 : 1
+      while (sizes.length <= maxDepth)
+        sizes.push(SPLIT_TX_SIZE[sizes[sizes.length - 1]])
+    }
+    return sizes
+  }
+
+  /**
+   * Squared error of coded transform blocks against the source, over the
+   * samples inside the frame
+   */
+  private getDistortion(txBlocks: TxBlock[]): number {
+    let sse = 0
+    for (const { plane, startX, startY, txSz } of txBlocks) {
+      const rec = this.frame.planes[plane]
+      const src = this.source[plane]
+      const stride = this.frame.strides[plane]
+      const w = Math.min(TX_WIDTH[txSz], this.planeWidths[plane] - startX)
+      const h = Math.min(TX_HEIGHT[txSz], this.planeHeights[plane] - startY)
+      for (let i = 0; i < h; i++) {
+        const row = (startY + i) * stride + startX
+        for (let j = 0; j < w; j++)
+          sse += (rec[row + j] - src[row + j]) ** 2
+      }
+    }
+    return sse
+  }
+
+  /**
+   * Squared error of the coded samples of a block against the source, over
+   * the samples inside the frame
+   */
+  private getBlockDistortion(r: number, c: number, bSize: number): number {
+    let sse = 0
+    for (let plane = 0; plane < this.numPlanes; plane++) {
+      const subX = plane > 0 ? this.subX : 0
+      const subY = plane > 0 ? this.subY : 0
+      const rec = this.frame.planes[plane]
+      const src = this.source[plane]
+      const stride = this.frame.strides[plane]
+      const startX = (c * MI_SIZE) >> subX
+      const startY = (r * MI_SIZE) >> subY
+      const w = Math.min((NUM_4X4_BLOCKS_WIDE[bSize] * MI_SIZE) >> subX, this.planeWidths[plane] - startX)
+      const h = Math.min((NUM_4X4_BLOCKS_HIGH[bSize] * MI_SIZE) >> subY, this.planeHeights[plane] - startY)
+      for (let i = 0; i < h; i++) {
+        const row = (startY + i) * stride + startX
+        for (let j = 0; j < w; j++)
+          sse += (rec[row + j] - src[row + j]) ** 2
+      }
+    }
+    return sse
+  }
+
+  /**
+   * The bits `write` codes, counted instead of written
+   */
+  private countBits(write: () => void): number {
+    const se = this.se
+    const counter = new SymbolCounter()
+    this.se = counter
+    write()
+    this.se = se
+    return counter.bits
+  }
+
+  /**
+   * Save the entropy contexts over a block and optionally the decoded
+   * flags, which trial encodes of the block change
+   */
+  private saveContexts(r: number, c: number, bSize: number, withDecodedFlags: boolean): SavedRange[] {
+    const bw4 = NUM_4X4_BLOCKS_WIDE[bSize]
+    const bh4 = NUM_4X4_BLOCKS_HIGH[bSize]
+    const saved: SavedRange[] = []
+    for (let plane = 0; plane < this.numPlanes; plane++) {
+      const subX = plane > 0 ? this.subX : 0
+      const subY = plane > 0 ? this.subY : 0
+      const x4 = c >> subX
+      const y4 = r >> subY
+      saved.push(...this.saveEntropyContexts(plane, x4, y4, ((c + bw4 - 1) >> subX) + 1 - x4, ((r + bh4 - 1) >> subY) + 1 - y4))
+      if (withDecodedFlags)
+        saved.push({ array: this.blockDecoded[plane], offset: 0, copy: this.blockDecoded[plane].slice() })
+    }
+    return saved
+  }
+
+  private saveEntropyContexts(plane: number, x4: number, y4: number, w4: number, h4: number): SavedRange[] {
+    const save = (array: Uint8Array, offset: number, length: number): SavedRange =>
+      ({ array, offset, copy: array.slice(offset, offset + length) })
+    return [
+      save(this.aboveLevelContext[plane], x4, w4),
+      save(this.aboveDcContext[plane], x4, w4),
+      save(this.leftLevelContext[plane], y4, h4),
+      save(this.leftDcContext[plane], y4, h4),
+    ]
+  }
+
+  private restoreContexts(saved: SavedRange[]): void {
+    for (const { array, offset, copy } of saved)
+      array.set(copy, offset)
+  }
+
+  // ---------------------------------------------------------------------------
+  // Block syntax
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Set up the current block as decode_block() does
+   */
+  private setBlock(r: number, c: number, subSize: number): void {
+    this.miRow = r
+    this.miCol = c
+    this.miSize = subSize
+
+    const bw4 = NUM_4X4_BLOCKS_WIDE[subSize]
+    const bh4 = NUM_4X4_BLOCKS_HIGH[subSize]
+
+    if (bh4 === 1 && this.subY && (r & 1) === 0)
+      this.hasChroma = false
+    else if (bw4 === 1 && this.subX && (c & 1) === 0)
+      this.hasChroma = false
+    else
+      this.hasChroma = this.numPlanes > 1
+
+    this.availU = this.isInside(r - 1, c)
+    this.availL = this.isInside(r, c - 1)
+    this.availUChroma = this.availU
+    this.availLChroma = this.availL
+    if (this.hasChroma) {
+      if (this.subY && bh4 === 1)
+        this.availUChroma = this.isInside(r - 2, c)
+      if (this.subX && bw4 === 1)
+        this.availLChroma = this.isInside(r, c - 2)
+    }
+    else {
+      this.availUChroma = false
+      this.availLChroma = false
+    }
+
+    this.txSize = this.lossless ? TX_4X4 : MAX_TX_SIZE_RECT[subSize]
+  }
+
+  /**
+   * Code a block: its coefficients are computed first, as skip is signalled
+   * ahead of them, then the mode info and coefficients are written. The
+   * transform types and levels are recorded in `modes`.
+   */
+  private encodeBlock(r: number, c: number, subSize: number, modes: ModeChoice): void {
+    const frame = this.frame
+    const { miRows, miCols } = frame
+    this.setBlock(r, c, subSize)
+    this.yMode = modes.yMode
+    this.uvMode = this.hasChroma ? modes.uvMode : DC_PRED
+    if (modes.txSize !== undefined)
+      this.txSize = modes.txSize
+
+    // Rate-distortion decisions on the coefficients of a transform block
+    // see the entropy contexts of the ones before it, so those are counted
+    // as they are settled and written again once skip is known
+    const txBlocks = this.txBlocks()
+    const settled = txBlocks.every((_tx, i) => modes.levels?.[i] !== undefined)
+    const contexts = this.search.rdo && !settled ? this.saveContexts(r, c, subSize, false) : null
+    const coeffs = txBlocks.map((tx, i) => {
+      const levels = this.codeTxBlock(tx, modes, i)
+      if (contexts)
+        this.countBits(() => this.writeCoeffs(tx, levels))
+      return levels
+    })
+    if (contexts)
+      this.restoreContexts(contexts)
+    modes.txTypes = txBlocks.map(tx => tx.txType)
+    modes.levels = coeffs
+    this.skip = coeffs.every(block => block === null) ? 1 : 0
+
+    this.intraFrameModeInfo()
+    if (this.header.txMode === 2 && subSize > BLOCK_4X4)
+      this.writeTxSize()
+
+    const bw4 = NUM_4X4_BLOCKS_WIDE[subSize]
+    const bh4 = NUM_4X4_BLOCKS_HIGH[subSize]
+    if (this.skip)
+      this.resetBlockContext(bw4, bh4)
+
+    for (let y = 0; y < bh4 && r + y < miRows; y++) {
+      for (let x = 0; x < bw4 && c + x < miCols; x++) {
+        const i = (r + y) * miCols + c + x
+        frame.yModes[i] = this.yMode
+        if (this.hasChroma)
+          frame.uvModes[i] = this.uvMode
+        frame.skips[i] = this.skip
+        frame.txSizes[i] = this.txSize
+        frame.interTxSizes[i] = this.txSize
+        frame.miSizes[i] = subSize
+      }
+    }
+
+    if (!this.skip) {
+      txBlocks.forEach((tx, i) => this.writeCoeffs(tx, coeffs[i]))
+    }
+  }
+
+  /**
+   * intra_frame_mode_info() of a block without segmentation, delta q/lf,
+   * intra block copy, palettes, CFL or filter intra
+   */
+  private intraFrameModeInfo(): void {
+    const { miRow, miCol } = this
+    const { miCols, skips, yModes } = this.frame
+
+    let skipCtx = 0
+    if (this.availU)
+      skipCtx += skips[(miRow - 1) * miCols + miCol]
+    if (this.availL)
+      skipCtx += skips[miRow * miCols + miCol - 1]
+    this.se.writeSymbol(this.skip, this.cdf.skip[skipCtx])
+
+    const aboveMode = this.availU ? INTRA_MODE_CONTEXT[yModes[(miRow - 1) * miCols + miCol]] : 0
+    const leftMode = this.availL ? INTRA_MODE_CONTEXT[yModes[miRow * miCols + miCol - 1]] : 0
+    this.se.writeSymbol(this.yMode, this.cdf.intraFrameYMode[aboveMode][leftMode])
+    this.writeAngleDelta(this.yMode)
+
+    if (this.hasChroma) {
+      const uvCdfs = this.isCflAllowed() ? this.cdf.uvModeCflAllowed : this.cdf.uvModeCflNotAllowed
+      this.se.writeSymbol(this.uvMode, uvCdfs[this.yMode])
+      this.writeAngleDelta(this.uvMode)
+    }
+
+    if (this.miSize >= BLOCK_8X8 && BLOCK_WIDTH[this.miSize] <= 64 && BLOCK_HEIGHT[this.miSize] <= 64
+      && this.header.allowScreenContentTools) {
+      this.paletteModeInfo()
+    }
+
+    if (this.seq.enableFilterIntra && this.yMode === DC_PRED
+      && Math.max(BLOCK_WIDTH[this.miSize], BLOCK_HEIGHT[this.miSize]) <= 32) {
+      this.se.writeSymbol(0, this.cdf.filterIntra[this.miSize]) // use_filter_intra
+    }
+  }
+
+  /**
+   * angle_delta_y / angle_delta_uv: directional modes are always used with
+   * their nominal angle
+   */
+  private writeAngleDelta(mode: number): void {
+    if (this.miSize >= BLOCK_8X8 && mode >= V_PRED && mode <= D67_PRED)
+      this.se.writeSymbol(MAX_ANGLE_DELTA, this.cdf.angleDelta[mode - V_PRED])
+  }
+
+  private isCflAllowed(): boolean {
+    if (this.lossless)
+      return getPlaneResidualSize(this.miSize, this.subX, this.subY) === BLOCK_4X4
+    return Math.max(BLOCK_WIDTH[this.miSize], BLOCK_HEIGHT[this.miSize]) <= 32
+  }
+
+  /**
+   * tx_depth of read_tx_size(): how many times the largest transform of
+   * the block is split
+   */
+  private writeTxSize(): void {
+    const { miRow, miCol } = this
+    const { miCols, interTxSizes } = this.frame
+    const maxRectTxSize = MAX_TX_SIZE_RECT[this.miSize]
+    const maxTxDepth = MAX_TX_DEPTH[this.miSize]
+    let txDepth = 0
+    for (let txSz = maxRectTxSize; txSz !== this.txSize; txSz = SPLIT_TX_SIZE[txSz])
+      txDepth++
+
+    // The neighbouring blocks are intra, so their transform sizes set the
+    // context
+    const aboveW = this.availU ? TX_WIDTH[interTxSizes[(miRow - 1) * miCols + miCol]] : 0
+    const leftH = this.availL ? TX_HEIGHT[interTxSizes[miRow * miCols + miCol - 1]] : 0
+    const ctx = (aboveW >= TX_WIDTH[maxRectTxSize] ? 1 : 0) + (leftH >= TX_HEIGHT[maxRectTxSize] ? 1 : 0)
+
+    let cdfs: Cdf[]
+    if (maxTxDepth === 4)
+      cdfs = this.cdf.tx64x64
+    else if (maxTxDepth === 3)
+      cdfs = this.cdf.tx32x32
+    else if (maxTxDepth === 2)
+      cdfs = this.cdf.tx16x16
+    else
+      cdfs = this.cdf.tx8x8
+    this.se.writeSymbol(txDepth, cdfs[ctx])
+  }
+
+  /**
+   * palette_mode_info(): signal that no palette is used
+   */
+  private paletteModeInfo(): void {
+    const bsizeCtx = MI_WIDTH_LOG2[this.miSize] + MI_HEIGHT_LOG2[this.miSize] - 2
+    if (this.yMode === DC_PRED) {
+      // Neighbouring blocks have no palettes either
+      this.se.writeSymbol(0, this.cdf.paletteYMode[bsizeCtx][0])
+    }
+    if (this.hasChroma && this.uvMode === DC_PRED) {
+      this.se.writeSymbol(0, this.cdf.paletteUVMode[0])
+    }
+  }
+
+  private resetBlockContext(bw4: number, bh4: number): void {
+    for (let plane = 0; plane < 1 + 2 * (this.hasChroma ? 1 : 0); plane++) {
+      const subX = plane > 0 ? this.subX : 0
+      const subY = plane > 0 ? this.subY : 0
+      const colEnd = ((this.miCol + bw4 - 1) >> subX) + 1
+      const rowEnd = ((this.miRow + bh4 - 1) >> subY) + 1
+      this.aboveLevelContext[plane].fill(0, this.miCol >> subX, colEnd)
+      this.aboveDcContext[plane].fill(0, this.miCol >> subX, colEnd)
+      this.leftLevelContext[plane].fill(0, this.miRow >> subY, rowEnd)
+      this.leftDcContext[plane].fill(0, this.miRow >> subY, rowEnd)
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Residual
+  // ---------------------------------------------------------------------------
+
+  /**
+   * The transform blocks of the current block that residual() codes, in
+   * order
+   */
+  private txBlocks(): TxBlock[] {
+    const { miRows, miCols } = this.frame
+    const widthChunks = Math.max(1, BLOCK_WIDTH[this.miSize] >> 6)
+    const heightChunks = Math.max(1, BLOCK_HEIGHT[this.miSize] >> 6)
+    const blocks: TxBlock[] = []
+
+    for (let chunkY = 0; chunkY < heightChunks; chunkY++) {
+      for (let chunkX = 0; chunkX < widthChunks; chunkX++) {
+        for (let plane = 0; plane < 1 + (this.hasChroma ? 2 : 0); plane++) {
+          const txSz = this.lossless ? TX_4X4 : this.getTxSize(plane, this.txSize)
+          const stepX = TX_WIDTH[txSz] >> 2
+          const stepY = TX_HEIGHT[txSz] >> 2
+          const subX = plane > 0 ? this.subX : 0
+          const subY = plane > 0 ? this.subY : 0
+          const planeSz = getPlaneResidualSize(this.miSize, subX, subY)
+          const num4x4W = NUM_4X4_BLOCKS_WIDE[planeSz]
+          const num4x4H = NUM_4X4_BLOCKS_HIGH[planeSz]
+          const maxX = (miCols * MI_SIZE) >> subX
+          const maxY = (miRows * MI_SIZE) >> subY
+          const baseX = (this.miCol >> subX) * MI_SIZE
+          const baseY = (this.miRow >> subY) * MI_SIZE
+
+          for (let y = 0; y < Math.min(num4x4H, 16 >> subY); y += stepY) {
+            for (let x = 0; x < Math.min(num4x4W, 16 >> subX); x += stepX) {
+              const blockX = x + ((chunkX << 4) >> subX)
+              const blockY = y + ((chunkY << 4) >> subY)
+              const startX = baseX + 4 * blockX
+              const startY = baseY + 4 * blockY
+              if (startX < maxX && startY < maxY)
+                blocks.push({ plane, startX, startY, txSz, txType: DCT_DCT, x: blockX, y: blockY })
+            }
+          }
+        }
+      }
+    }
+
+    return blocks
+  }
+
+  private getTxSize(plane: number, txSz: number): number {
+    if (plane === 0)
+      return txSz
+    const uvTx = MAX_TX_SIZE_RECT[getPlaneResidualSize(this.miSize, this.subX, this.subY)]
+    if (TX_WIDTH[uvTx] === 64 || TX_HEIGHT[uvTx] === 64) {
+      if (TX_WIDTH[uvTx] === 16)
+        return TX_16X32
+      if (TX_HEIGHT[uvTx] === 16)
+        return TX_32X16
+      return TX_32X32
+    }
+    return uvTx
+  }
+
+  /**
+   * Predict a transform block into the frame planes with `mode`, as
+   * transform_block() does
+   */
+  private predictTxBlock(tx: TxBlock, mode: number): void {
+    const { plane, startX, startY, txSz, x, y } = tx
+    const subX = plane > 0 ? this.subX : 0
+    const subY = plane > 0 ? this.subY : 0
+    const { miRows, miCols, planes, strides } = this.frame
+    const sbMask = this.seq.use128x128Superblock ? 31 : 15
+    const decodedRow = ((((startY << subY) >> 2) & sbMask) >> subY) + 1
+    const decodedCol = ((((startX << subX) >> 2) & sbMask) >> subX) + 1
+    const flags = this.blockDecoded[plane]
+
+    predictIntra({
+      plane: planes[plane],
+      stride: strides[plane],
+      x: startX,
+      y: startY,
+      log2W: TX_WIDTH_LOG2[txSz],
+      log2H: TX_HEIGHT_LOG2[txSz],
+      maxX: ((miCols * MI_SIZE) >> subX) - 1,
+      maxY: ((miRows * MI_SIZE) >> subY) - 1,
+      haveLeft: (plane === 0 ? this.availL : this.availLChroma) || x > 0,
+      haveAbove: (plane === 0 ? this.availU : this.availUChroma) || y > 0,
+      haveAboveRight: flags[(decodedRow - 1) * BLOCK_DECODED_STRIDE + decodedCol + (TX_WIDTH[txSz] >> 2)] === 1,
+      haveBelowLeft: flags[(decodedRow + (TX_HEIGHT[txSz] >> 2)) * BLOCK_DECODED_STRIDE + decodedCol - 1] === 1,
+      mode,
+      angleDelta: 0,
+      filterIntraMode: -1,
+      bitDepth: this.bitDepth,
+      enableIntraEdgeFilter: this.seq.enableIntraEdgeFilter,
+      smoothNeighbor: this.getFilterType(plane),
+    })
+  }
+
+  /**
+   * get_filter_type(): whether the block above or to the left uses one of
+   * the smooth predictors
+   */
+  private getFilterType(plane: number): boolean {
+    const { miCols } = this.frame
+    let aboveSmooth = false
+    let leftSmooth = false
+
+    if (plane === 0 ? this.availU : this.availUChroma) {
+      let r = this.miRow - 1
+      let c = this.miCol
+      if (plane > 0) {
+        if (this.subX && !(this.miCol & 1))
+          c++
+        if (this.subY && (this.miRow & 1))
+          r--
+      }
+      aboveSmooth = this.isSmooth(r * miCols + c, plane)
+    }
+
+    if (plane === 0 ? this.availL : this.availLChroma) {
+      let r = this.miRow
+      let c = this.miCol - 1
+      if (plane > 0) {
+        if (this.subX && (this.miCol & 1))
+          c--
+        if (this.subY && !(this.miRow & 1))
+          r++
+      }
+      leftSmooth = this.isSmooth(r * miCols + c, plane)
+    }
+
+    return aboveSmooth || leftSmooth
+  }
+
+  private isSmooth(i: number, plane: number): boolean {
+    const mode = plane === 0 ? this.frame.yModes[i] : this.frame.uvModes[i]
+    return mode === SMOOTH_PRED || mode === SMOOTH_V_PRED || mode === SMOOTH_H_PRED
+  }
+
+  /**
+   * Source minus prediction of a transform block, into `residualBuffer`
+   * with a row stride of the block width
+   */
+  private computeResidual(tx: TxBlock): void {
+    const { plane, startX, startY, txSz } = tx
+    const w = TX_WIDTH[txSz]
+    const h = TX_HEIGHT[txSz]
+    const pred = this.frame.planes[plane]
+    const src = this.source[plane]
+    const stride = this.frame.strides[plane]
+    for (let i = 0; i < h; i++) {
+      const row = (startY + i) * stride + startX
+      for (let j = 0; j < w; j++)
+        this.residualBuffer[i * w + j] = src[row + j] - pred[row + j]
+    }
+  }
+
+  /**
+   * Estimated cost of coding the residual of a predicted transform block:
+   * the sum of its absolute transform coefficients, in quantizer steps,
+   * taken as bits
+   */
+  private txCost(tx: TxBlock, txType: number): number {
+    this.computeResidual(tx)
+    let cost = 0
+    if (this.lossless) {
+      forwardWht4x4(this.residualBuffer, this.quant)
+      for (let i = 0; i < 16; i++)
+        cost += Math.abs(this.quant[i])
+      return cost
+    }
+
+    // 64-sample transforms drop all but their lowest 32 frequencies, which
+    // the cost would not see, so they are costed as the 32-sample
+    // transforms tiling them, plus the distortion of what they drop
+    const { plane, txSz } = tx
+    const w = TX_WIDTH[txSz]
+    const h = TX_HEIGHT[txSz]
+    const subW = Math.min(32, w)
+    const subH = Math.min(32, h)
+    const subTxSz = findTxSize(subW, subH)
+    const coeffs = this.coeffBuffer
+    let dcCost = 0
+    for (let y = 0; y < h; y += subH) {
+      for (let x = 0; x < w; x += subW) {
+        let residual = this.residualBuffer
+        if (subTxSz !== txSz) {
+          residual = this.subResidualBuffer
+          for (let i = 0; i < subH; i++)
+            residual.set(this.residualBuffer.subarray((y + i) * w + x, (y + i) * w + x + subW), i * subW)
+        }
+        forwardTransform2D(residual, coeffs, subTxSz, txType)
+        for (let i = 1; i < subW * subH; i++)
+          cost += Math.abs(coeffs[i])
+        dcCost += Math.abs(coeffs[0])
+      }
+    }
+    const scale = 2 ** this.getDqShift(subTxSz)
+    cost = (cost / this.acQuant[plane] + dcCost / this.dcQuant[plane]) * scale
+    if (subTxSz !== txSz)
+      cost += this.getDroppedEnergy(tx) / this.lambda
+    return cost
+  }
+
+  /**
+   * Squared error of the frequencies a 64-sample transform drops from the
+   * residual: its energy less that of the coefficients kept, which are
+   * orthonormal once scaled by the dequantization shift over 8
+   */
+  private getDroppedEnergy(tx: TxBlock): number {
+    const { txSz, txType } = tx
+    const count = TX_WIDTH[txSz] * TX_HEIGHT[txSz]
+    let energy = 0
+    for (let i = 0; i < count; i++)
+      energy += this.residualBuffer[i] ** 2
+
+    forwardTransform2D(this.residualBuffer, this.coeffBuffer, txSz, txType)
+    const scale = 2 ** this.getDqShift(txSz) / 8
+    const kept = Math.min(32, TX_WIDTH[txSz]) * Math.min(32, TX_HEIGHT[txSz])
+    for (let i = 0; i < kept; i++)
+      energy -= (this.coeffBuffer[i] * scale) ** 2
+    return Math.max(0, energy)
+  }
+
+  /**
+   * The shift dequantize() applies to large transforms
+   */
+  private getDqShift(txSz: number): number {
+    const area = TX_WIDTH[txSz] * TX_HEIGHT[txSz]
+    return (area > 256 ? 1 : 0) + (area > 1024 ? 1 : 0)
+  }
+
+  /**
+   * The transform type implied by a prediction mode: the type chroma
+   * blocks use, and luma blocks unless types are searched
+   */
+  private getDefaultTxType(plane: number, txSz: number, mode: number): number {
+    if (this.lossless)
+      return DCT_DCT
+    const txType = MODE_TO_TXFM[mode]
+    return TX_TYPE_IN_SET_INTRA[this.getTxSet(txSz)][txType] ? txType : DCT_DCT
+  }
+
+  private getTxSet(txSz: number): number {
+    return getTxSet(txSz, 0, this.header.reducedTxSet)
+  }
+
+  /**
+   * Put the source samples of a transform block back after a trial
+   * prediction
+   */
+  private restoreSource(tx: TxBlock): void {
+    const { plane, startX, startY, txSz } = tx
+    const stride = this.frame.strides[plane]
+    for (let i = 0; i < TX_HEIGHT[txSz]; i++) {
+      const row = (startY + i) * stride + startX
+      this.frame.planes[plane].set(this.source[plane].subarray(row, row + TX_WIDTH[txSz]), row)
+    }
+  }
+
+  /**
+   * Record a coded transform block in the decoded flags and loop filter
+   * transform sizes, as the end of transform_block() does
+   */
+  private markDecoded(tx: TxBlock): void {
+    const { plane, startX, startY, txSz } = tx
+    const subX = plane > 0 ? this.subX : 0
+    const subY = plane > 0 ? this.subY : 0
+    const { miRows, miCols } = this.frame
+    const row = (startY << subY) >> 2
+    const col = (startX << subX) >> 2
+    const sbMask = this.seq.use128x128Superblock ? 31 : 15
+    const lfTxSizes = this.frame.loopfilterTxSizes[plane]
+    const flags = this.blockDecoded[plane]
+
+    for (let i = 0; i < TX_HEIGHT[txSz] >> 2; i++) {
+      for (let j = 0; j < TX_WIDTH[txSz] >> 2; j++) {
+        const r = (row >> subY) + i
+        const c = (col >> subX) + j
+        if (r < miRows && c < miCols)
+          lfTxSizes[r * miCols + c] = txSz
+        flags[(((row & sbMask) >> subY) + i + 1) * BLOCK_DECODED_STRIDE + ((col & sbMask) >> subX) + j + 1] = 1
+      }
+    }
+  }
+
+  /**
+   * Predict, transform, quantize and reconstruct a transform block with
+   * the block's mode, settling its transform type unless `modes` records
+   * it. Returns its quantized coefficients, or null when they are all zero.
+   */
+  private codeTxBlock(tx: TxBlock, modes: ModeChoice, index: number): Int32Array | null {
+    const { plane, txSz } = tx
+    const mode = plane === 0 ? this.yMode : this.uvMode
+    this.predictTxBlock(tx, mode)
+
+    let levels = modes.levels?.[index]
+    if (modes.txTypes && levels !== undefined) {
+      tx.txType = modes.txTypes[index]
+    }
+    else if (plane === 0 && this.search.rdTxTypes && !this.lossless && this.getTxSet(txSz) !== TX_SET_DCTONLY) {
+      levels = this.searchTxType(tx)
+    }
+    else {
+      tx.txType = this.getDefaultTxType(plane, txSz, mode)
+      levels = this.quantizeTxBlock(tx)
+    }
+
+    if (levels)
+      this.reconstruct(tx, levels)
+    this.markDecoded(tx)
+    return levels
+  }
+
+  /**
+   * Choose the transform type of a predicted luma transform block by
+   * rate-distortion cost among those with the lowest SATD, returning its
+   * levels with that type
+   */
+  private searchTxType(tx: TxBlock): Int32Array | null {
+    const { plane, startX, startY, txSz } = tx
+    const w = TX_WIDTH[txSz]
+    const h = TX_HEIGHT[txSz]
+    const pred = this.frame.planes[plane]
+    const stride = this.frame.strides[plane]
+    for (let i = 0; i < h; i++)
+      this.predictionBuffer.set(pred.subarray((startY + i) * stride + startX, (startY + i) * stride + startX + w), i * w)
+
+    const candidates = (this.getTxSet(txSz) === TX_SET_INTRA_1 ? TX_TYPE_INTRA_INV_SET1 : TX_TYPE_INTRA_INV_SET2)
+      .map(txType => [txType, this.txCost(tx, txType)])
+      .sort((a, b) => a[1] - b[1])
+      .slice(0, this.search.rdTxTypes)
+      .map(([txType]) => txType)
+    let bestType = DCT_DCT
+    let bestLevels: Int32Array | null = null
+    let bestCost = Infinity
+    for (const txType of candidates) {
+      tx.txType = txType
+      const levels = this.quantizeTxBlock(tx)
+      if (levels)
+        this.reconstruct(tx, levels)
+      const cost = this.getDistortion([tx]) + this.lambda * this.countCoeffBits(tx, levels)
+      if (levels) {
+        for (let i = 0; i < h; i++)
+          pred.set(this.predictionBuffer.subarray(i * w, (i + 1) * w), (startY + i) * stride + startX)
+      }
+      if (cost < bestCost) {
+        bestType = txType
+        bestLevels = levels
+        bestCost = cost
+      }
+    }
+
+    tx.txType = bestType
+    return bestLevels
+  }
+
+  /**
+   * Transform and quantize the residual of a predicted transform block
+   * with its transform type. Returns the levels, or null when they are all
+   * zero.
+   */
+  private quantizeTxBlock(tx: TxBlock): Int32Array | null {
+    this.computeResidual(tx)
+    let levels: Int32Array
+    if (this.lossless) {
+      levels = new Int32Array(16)
+      forwardWht4x4(this.residualBuffer, levels)
+    }
+    else {
+      forwardTransform2D(this.residualBuffer, this.coeffBuffer, tx.txSz, tx.txType)
+      levels = this.search.trellis ? this.trellisQuantize(tx, this.coeffBuffer) : this.quantize(tx, this.coeffBuffer, QUANT_ROUNDING)
+    }
+    return levels.some(level => level !== 0) ? levels : null
+  }
+
+  /**
+   * Quantize transform coefficients to levels, the inverse of dequantize(),
+   * rounding up from `rounding` quantizer steps
+   */
+  private quantize(tx: TxBlock, coeffs: Float64Array, rounding: number): Int32Array {
+    const { plane, txSz } = tx
+    const count = Math.min(32, TX_WIDTH[txSz]) * Math.min(32, TX_HEIGHT[txSz])
+    const scale = 2 ** this.getDqShift(txSz)
+    const levels = new Int32Array(count)
+    for (let pos = 0; pos < count; pos++) {
+      const q = pos === 0 ? this.dcQuant[plane] : this.acQuant[plane]
+      // dequantize() keeps 24 bits of the product of level and step
+      const level = Math.min(Math.floor(Math.abs(coeffs[pos]) * scale / q + rounding), Math.floor(0xFFFFFF / q))
+      levels[pos] = coeffs[pos] < 0 ? -level : level
+    }
+    return levels
+  }
+
+  /**
+   * Trellis quantization: from the nearest levels, lower each by one where
+   * the bits saved outweigh the distortion added, then drop trailing ones
+   * that are not worth coding the end of block so late. Levels are visited
+   * in coding order, so each context sees the levels it will be coded
+   * with.
+   */
+  private trellisQuantize(tx: TxBlock, coeffs: Float64Array): Int32Array {
+    const { plane, startX, startY, txSz, txType } = tx
+    const levels = this.quantize(tx, coeffs, 0.5)
+    const scan = getScan(txSz, txType)
+    let eob = 0
+    for (let c = levels.length - 1; c >= 0 && eob === 0; c--) {
+      if (levels[scan[c]] !== 0)
+        eob = c + 1
+    }
+    if (eob === 0)
+      return levels
+
+    const cdf = this.cdf
+    const txSzCtx = (TX_SIZE_SQR[txSz] + TX_SIZE_SQR_UP[txSz] + 1) >> 1
+    const ptype = plane > 0 ? 1 : 0
+    const txClass = getTxClass(txType)
+    const adjTxSz = ADJUSTED_TX_SIZE[txSz]
+    const bwl = TX_WIDTH_LOG2[adjTxSz]
+    const txh = TX_HEIGHT[adjTxSz]
+    const baseCdfs = cdf.coeffBase[txSzCtx][ptype]
+    const brCdfs = cdf.coeffBr[Math.min(txSzCtx, TX_32X32)][ptype]
+    const scale = 2 ** this.getDqShift(txSz)
+    const context = this.contextLevels
+    context.fill(0)
+
+    // The exact level of a position, and the squared error of a level step
+    const exactLevel = (pos: number): number =>
+      Math.abs(coeffs[pos]) * scale / (pos === 0 ? this.dcQuant[plane] : this.acQuant[plane])
+    const stepError = (pos: number): number =>
+      ((pos === 0 ? this.dcQuant[plane] : this.acQuant[plane]) / 8) ** 2
+
+    for (let c = eob - 1; c >= 0; c--) {
+      const pos = scan[c]
+      const level = Math.abs(levels[pos])
+      if (level === 0)
+        continue
+
+      const isLast = c === eob - 1
+      const baseCdf = isLast
+        ? cdf.coeffBaseEob[txSzCtx][ptype][getCoeffBaseEobCtx(c, adjTxSz)]
+        : baseCdfs[getCoeffBaseCtx(context, txSz, txClass, bwl, txh, pos)]
+      const brCdf = brCdfs[getCoeffBrCtx(context, txClass, bwl, txh, pos)]
+      const exact = exactLevel(pos)
+      let best = level
+      let bestCost = Infinity
+      for (let candidate = level; candidate >= Math.max(isLast ? 1 : 0, level - 1); candidate--) {
+        const cost = (exact - candidate) ** 2 * stepError(pos) + this.lambda * getLevelCost(candidate, isLast, baseCdf, brCdf)
+        if (cost < bestCost) {
+          best = candidate
+          bestCost = cost
+        }
+      }
+      levels[pos] = coeffs[pos] < 0 ? -best : best
+      context[pos] = Math.min(best, NUM_BASE_LEVELS + COEFF_BASE_RANGE + 1)
+    }
+
+    while (eob > 0) {
+      const pos = scan[eob - 1]
+      if (Math.abs(levels[pos]) !== 1)
+        break
+      let newEob = eob - 1
+      while (newEob > 0 && levels[scan[newEob - 1]] === 0)
+        newEob--
+
+      let savedBits = this.getEobCost(eob, txSz, ptype, txClass)
+        + getLevelCost(1, true, cdf.coeffBaseEob[txSzCtx][ptype][getCoeffBaseEobCtx(eob - 1, adjTxSz)], brCdfs[0])
+      for (let c = newEob; c < eob - 1; c++)
+        savedBits += getSymbolCost(0, baseCdfs[getCoeffBaseCtx(context, txSz, txClass, bwl, txh, scan[c])])
+      if (newEob > 0) {
+        savedBits -= this.getEobCost(newEob, txSz, ptype, txClass)
+      }
+      else {
+        const skipCdf = cdf.txbSkip[txSzCtx][this.getAllZeroContext(plane, txSz, startX >> 2, startY >> 2, TX_WIDTH[txSz] >> 2, TX_HEIGHT[txSz] >> 2)]
+        savedBits += getSymbolCost(0, skipCdf) - getSymbolCost(1, skipCdf)
+      }
+
+      const exact = exactLevel(pos)
+      if ((exact ** 2 - (exact - 1) ** 2) * stepError(pos) >= this.lambda * savedBits)
+        break
+      levels[pos] = 0
+      context[pos] = 0
+      eob = newEob
+    }
+
+    return levels
+  }
+
+  /**
+   * The bits of an end of block position: eob_pt and the eob_extra bits
+   */
+  private getEobCost(eob: number, txSz: number, ptype: number, txClass: number): number {
+    const txSzCtx = (TX_SIZE_SQR[txSz] + TX_SIZE_SQR_UP[txSz] + 1) >> 1
+    const eobPt = 33 - Math.clz32(eob - 1)
+    let bits = getSymbolCost(eobPt - 1, this.getEobPtCdf(txSz, ptype, txClass))
+    if (eobPt >= 3) {
+      const eobExtra = eob - (1 << (eobPt - 2)) - 1
+      bits += getSymbolCost((eobExtra >> (eobPt - 3)) & 1, this.cdf.eobExtra[txSzCtx][ptype][eobPt - 3]) + eobPt - 3
+    }
+    return bits
+  }
+
+  private getEobPtCdf(txSz: number, ptype: number, txClass: number): Cdf {
+    const cdf = this.cdf
+    const eobMultisize = Math.min(TX_WIDTH_LOG2[txSz], 5) + Math.min(TX_HEIGHT_LOG2[txSz], 5) - 4
+    const eobPtCdfs = [cdf.eobPt16, cdf.eobPt32, cdf.eobPt64, cdf.eobPt128, cdf.eobPt256, cdf.eobPt512, cdf.eobPt1024]
+    return eobPtCdfs[eobMultisize][ptype][txClass === TX_CLASS_2D ? 0 : 1]
+  }
+
+  /**
+   * The bits of a transform block's coefficients, leaving the entropy
+   * contexts as they were
+   */
+  private countCoeffBits(tx: TxBlock, levels: Int32Array | null): number {
+    const { plane, startX, startY, txSz } = tx
+    const saved = this.saveEntropyContexts(plane, startX >> 2, startY >> 2, TX_WIDTH[txSz] >> 2, TX_HEIGHT[txSz] >> 2)
+    const bits = this.countBits(() => this.writeCoeffs(tx, levels))
+    this.restoreContexts(saved)
+    return bits
+  }
+
+  /**
+   * reconstruct(): add the decoded residual of `coeffs` to the prediction
+   */
+  private reconstruct(tx: TxBlock, coeffs: Int32Array): void {
+    const { plane, startX, startY, txSz } = tx
+    const bitDepth = this.bitDepth
+    dequantize(coeffs, this.dequant, txSz, this.dcQuant[plane], this.acQuant[plane], QM_LEVEL_FLAT, plane, bitDepth)
+    inverseTransform2D(this.dequant, this.residualBuffer, txSz, tx.txType, this.lossless, bitDepth)
+
+    const w = TX_WIDTH[txSz]
+    const h = TX_HEIGHT[txSz]
+    const dst = this.frame.planes[plane]
+    const stride = this.frame.strides[plane]
+    const maxValue = (1 << bitDepth) - 1
+    for (let i = 0; i < h; i++) {
+      const row = (startY + i) * stride + startX
+      for (let j = 0; j < w; j++) {
+        const value = dst[row + j] + this.residualBuffer[i * w + j]
+        dst[row + j] = value < 0 ? 0 : value > maxValue ? maxValue : value
+      }
+    }
+  }
+
+  /**
+   * coeffs(): write the coefficients of one transform block (null when all
+   * zero) and update the entropy contexts
+   */
+  private writeCoeffs(tx: TxBlock, coeffs: Int32Array | null): void {
+    const { plane, startX, startY, txSz } = tx
+    const se = this.se
+    const cdf = this.cdf
+    const quant = this.quant
+    const x4 = startX >> 2
+    const y4 = startY >> 2
+    const w4 = TX_WIDTH[txSz] >> 2
+    const h4 = TX_HEIGHT[txSz] >> 2
+    const txSzCtx = (TX_SIZE_SQR[txSz] + TX_SIZE_SQR_UP[txSz] + 1) >> 1
+    const ptype = plane > 0 ? 1 : 0
+    const segEob = txSz === TX_16X64 || txSz === TX_64X16 ? 512 : Math.min(1024, TX_WIDTH[txSz] * TX_HEIGHT[txSz])
+    // Lossless blocks use the Walsh-Hadamard transform, signalled as DCT_DCT
+    const txType = tx.txType
+    const scan = getScan(txSz, txType)
+
+    let eob = 0
+    if (coeffs) {
+      for (let c = segEob - 1; c >= 0 && eob === 0; c--) {
+        if (coeffs[scan[c]] !== 0)
+          eob = c + 1
+      }
+    }
+
+    let culLevel = 0
+    let dcCategory = 0
+
+    se.writeSymbol(eob === 0 ? 1 : 0, cdf.txbSkip[txSzCtx][this.getAllZeroContext(plane, txSz, x4, y4, w4, h4)])
+    if (coeffs && eob > 0) {
+      if (plane === 0)
+        this.writeTransformType(txSz, txType)
+
+      const txClass = getTxClass(txType)
+
+      // eob lies in [2^(eobPt - 2) + 1, 2^(eobPt - 1)] for eobPt >= 2
+      const eobPt = 33 - Math.clz32(eob - 1)
+      se.writeSymbol(eobPt - 1, this.getEobPtCdf(txSz, ptype, txClass))
+      if (eobPt >= 3) {
+        const eobExtra = eob - (1 << (eobPt - 2)) - 1
+        se.writeSymbol((eobExtra >> (eobPt - 3)) & 1, cdf.eobExtra[txSzCtx][ptype][eobPt - 3])
+        for (let i = 1; i < eobPt - 2; i++)
+          se.writeLiteral((eobExtra >> (eobPt - 3 - i)) & 1, 1)
+      }
+
+      const adjTxSz = ADJUSTED_TX_SIZE[txSz]
+      const bwl = TX_WIDTH_LOG2[adjTxSz]
+      const txh = TX_HEIGHT[adjTxSz]
+
+      // Levels are coded in reverse scan order, each context looking at the
+      // levels coded before it
+      quant.fill(0, 0, segEob)
+      for (let c = eob - 1; c >= 0; c--) {
+        const pos = scan[c]
+        const level = Math.min(Math.abs(coeffs[pos]), NUM_BASE_LEVELS + COEFF_BASE_RANGE + 1)
+        if (c === eob - 1) {
+          se.writeSymbol(Math.min(level, NUM_BASE_LEVELS + 1) - 1, cdf.coeffBaseEob[txSzCtx][ptype][getCoeffBaseEobCtx(c, adjTxSz)])
+        }
+        else {
+          se.writeSymbol(
+            Math.min(level, NUM_BASE_LEVELS + 1),
+            cdf.coeffBase[txSzCtx][ptype][getCoeffBaseCtx(quant, txSz, txClass, bwl, txh, pos)],
+          )
+        }
+
+        if (level > NUM_BASE_LEVELS) {
+          const brCdfs = cdf.coeffBr[Math.min(txSzCtx, TX_32X32)][ptype]
+          const brCtx = getCoeffBrCtx(quant, txClass, bwl, txh, pos)
+          let remaining = level - NUM_BASE_LEVELS - 1
+          for (let idx = 0; idx < COEFF_BASE_RANGE / (BR_CDF_SIZE - 1); idx++) {
+            const coeffBr = Math.min(remaining, BR_CDF_SIZE - 1)
+            se.writeSymbol(coeffBr, brCdfs[brCtx])
+            remaining -= coeffBr
+            if (coeffBr < BR_CDF_SIZE - 1)
+              break
+          }
+        }
+        quant[pos] = level
+      }
+
+      for (let c = 0; c < eob; c++) {
+        const pos = scan[c]
+        const level = Math.abs(coeffs[pos])
+        const sign = coeffs[pos] < 0 ? 1 : 0
+        if (level !== 0) {
+          if (c === 0)
+            se.writeSymbol(sign, cdf.dcSign[ptype][this.getDcSignContext(plane, x4, y4, w4, h4)])
+          else
+            se.writeLiteral(sign, 1)
+        }
+
+        if (level > NUM_BASE_LEVELS + COEFF_BASE_RANGE) {
+          // Exp-Golomb code of the remainder, which starts at 1
+          const x = level - COEFF_BASE_RANGE - NUM_BASE_LEVELS
+          const length = 32 - Math.clz32(x)
+          for (let i = 1; i < length; i++)
+            se.writeLiteral(0, 1)
+          se.writeLiteral(1, 1)
+          for (let i = length - 2; i >= 0; i--)
+            se.writeLiteral((x >> i) & 1, 1)
+        }
+
+        if (pos === 0 && level > 0)
+          dcCategory = sign ? 1 : 2
+        culLevel += level
+      }
+      culLevel = Math.min(63, culLevel)
+    }
+
+    this.aboveLevelContext[plane].fill(culLevel, x4, x4 + w4)
+    this.aboveDcContext[plane].fill(dcCategory, x4, x4 + w4)
+    this.leftLevelContext[plane].fill(culLevel, y4, y4 + h4)
+    this.leftDcContext[plane].fill(dcCategory, y4, y4 + h4)
+  }
+
+  /**
+   * transform_type(): the luma transform type, unless the set allows only
+   * one
+   */
+  private writeTransformType(txSz: number, txType: number): void {
+    const set = this.getTxSet(txSz)
+    if (set === TX_SET_DCTONLY || this.header.quantization.baseQIdx === 0)
+      return
+
+    const txSzSqr = TX_SIZE_SQR[txSz]
+    if (set === TX_SET_INTRA_1)
+      this.se.writeSymbol(TX_TYPE_INTRA_INV_SET1.indexOf(txType), this.cdf.intraTxTypeSet1[txSzSqr][this.yMode])
+    else
+      this.se.writeSymbol(TX_TYPE_INTRA_INV_SET2.indexOf(txType), this.cdf.intraTxTypeSet2[txSzSqr][this.yMode])
+  }
+
+  private getAllZeroContext(plane: number, txSz: number, x4: number, y4: number, w4: number, h4: number): number {
+    const subX = plane > 0 ? this.subX : 0
+    const subY = plane > 0 ? this.subY : 0
+    const maxX4 = this.frame.miCols >> subX
+    const maxY4 = this.frame.miRows >> subY
+    const w = TX_WIDTH[txSz]
+    const h = TX_HEIGHT[txSz]
+    const bsize = getPlaneResidualSize(this.miSize, subX, subY)
+    const bw = BLOCK_WIDTH[bsize]
+    const bh = BLOCK_HEIGHT[bsize]
+    const aboveLevel = this.aboveLevelContext[plane]
+    const leftLevel = this.leftLevelContext[plane]
+
+    if (plane === 0) {
+      let top = 0
+      let left = 0
+      for (let k = 0; k < w4 && x4 + k < maxX4; k++)
+        top = Math.max(top, aboveLevel[x4 + k])
+      for (let k = 0; k < h4 && y4 + k < maxY4; k++)
+        left = Math.max(left, leftLevel[y4 + k])
+      top = Math.min(top, 255)
+      left = Math.min(left, 255)
+
+      if (bw === w && bh === h)
+        return 0
+      if (top === 0 && left === 0)
+        return 1
+      if (top === 0 || left === 0)
+        return 2 + (Math.max(top, left) > 3 ? 1 : 0)
+      if (Math.max(top, left) <= 3)
+        return 4
+      if (Math.min(top, left) <= 3)
+        return 5
+      return 6
+    }
+
+    const aboveDc = this.aboveDcContext[plane]
+    const leftDc = this.leftDcContext[plane]
+    let above = 0
+    let left = 0
+    for (let i = 0; i < w4 && x4 + i < maxX4; i++)
+      above |= aboveLevel[x4 + i] | aboveDc[x4 + i]
+    for (let i = 0; i < h4 && y4 + i < maxY4; i++)
+      left |= leftLevel[y4 + i] | leftDc[y4 + i]
+
+    let ctx = (above !== 0 ? 1 : 0) + (left !== 0 ? 1 : 0) + 7
+    if (bw * bh > w * h)
+      ctx += 3
+    return ctx
+  }
+
+  private getDcSignContext(plane: number, x4: number, y4: number, w4: number, h4: number): number {
+    const subX = plane > 0 ? this.subX : 0
+    const subY = plane > 0 ? this.subY : 0
+    const maxX4 = this.frame.miCols >> subX
+    const maxY4 = this.frame.miRows >> subY
+    const aboveDc = this.aboveDcContext[plane]
+    const leftDc = this.leftDcContext[plane]
+    let dcSign = 0
+
+    for (let k = 0; k < w4 && x4 + k < maxX4; k++) {
+      if (aboveDc[x4 + k] === 1)
+        dcSign--
+      else if (aboveDc[x4 + k] === 2)
+        dcSign++
+    }
+    for (let k = 0; k < h4 && y4 + k < maxY4; k++) {
+      if (leftDc[y4 + k] === 1)
+        dcSign--
+      else if (leftDc[y4 + k] === 2)
+        dcSign++
+    }
+
+    if (dcSign < 0)
+      return 1
+    return dcSign > 0 ? 2 : 0
+  }
+}
@@ -0,0 +1,154 @@
+import type { FrameHeader } from '../types'
+import type { FrameState } from './frame-state'
+import { BitReader } from './bit-reader'
+import { BitWriter } from './bit-writer'
+import { copyCdfContext, createCdfContext } from './cdf'
+import { SymbolDecoder } from './symbol-decoder'
+import { TileDecoder } from './tile-decoder'
+
+/**
+ * The coded data of one tile: `size` bytes of `data` starting at `offset`
+ */
+export interface TileData {
+  /** Tile index in raster order (TileNum) */
+  tileNum: number
+  data: Uint8Array
+  offset: number
+  size: number
+}
+
+/**
+ * tile_group_obu(): locate the tiles of a tile group starting at `offset` in
+ * `data` (the start of a TILE_GROUP OBU payload, or the byte-aligned end of
+ * the frame header in a FRAME OBU). The last tile runs to the end of `data`.
+ */
+export function readTileGroup(data: Uint8Array, offset: number, frameHeader: FrameHeader): TileData[] {
+  const { tileCols, tileRows, tileColsLog2, tileRowsLog2, tileSizeBytes } = frameHeader.tileInfo
+  const numTiles = tileCols * tileRows
+  const reader = new BitReader(data.subarray(offset))
+
+  let tgStart = 0
+  let tgEnd = numTiles - 1
+  if (numTiles > 1 && reader.readBit()) {
+    const tileBits = tileColsLog2 + tileRowsLog2
+    tgStart = reader.readBits(tileBits)
+    tgEnd = reader.readBits(tileBits)
+  }
+  reader.byteAlign()
+
+  if (tgStart > tgEnd || tgEnd >= numTiles) {
+    throw new Error(`Invalid tile group: tiles ${tgStart} to ${tgEnd} of ${numTiles}`)
+  }
+
+  const tiles: TileData[] = []
+  let pos = offset + reader.bytePosition
+  for (let tileNum = tgStart; tileNum <= tgEnd; tileNum++) {
+    let size = data.length - pos
+    if (tileNum < tgEnd) {
+      // tile_size_minus_1: le(TileSizeBytes)
+      if (pos + tileSizeBytes > data.length) {
+        throw new Error('Truncated tile size')
+      }
+      size = 1
+      for (let i = 0; i < tileSizeBytes; i++) {
+        size += data[pos + i] * 2 ** (8 * i)
+      }
+      pos += tileSizeBytes
+    }
+    if (size <= 0 || pos + size > data.length) {
+      throw new Error(`Tile ${tileNum} extends past the end of its tile group`)
+    }
+    tiles.push({ tileNum, data, offset: pos, size })
+    pos += size
+  }
+
+  return tiles
+}
+
+/**
+ * Write a tile group holding every tile of the frame, the counterpart of
+ * `readTileGroup()`. Each tile but the last is preceded by its size in
+ * TileSizeBytes bytes.
+ */
+export function writeTileGroup(tiles: Uint8Array[], frameHeader: FrameHeader): Uint8Array {
+  const { tileCols, tileRows, tileSizeBytes } = frameHeader.tileInfo
+  if (tiles.length !== tileCols * tileRows) {
+    throw new Error(`Expected ${tileCols * tileRows} tiles, got ${tiles.length}`)
+  }
+
+  const writer = new BitWriter()
+  if (tiles.length > 1) {
+    writer.writeBit(0) // tile_start_and_end_present_flag
+  }
+  writer.byteAlign()
+  tiles.forEach((tile, i) => {
+    if (tile.length === 0) {
+      throw new Error(`Tile ${i} is empty`)
+    }
+    if (i < tiles.length - 1) {
+      writer.writeLe(tile.length - 1, tileSizeBytes)
+    }
+    writer.writeBytes(tile)
+  })
+
+  return writer.toUint8Array()
+}
+
+/**
+ * Decode one tile into the frame state. Tiles only read back what they
+ * decoded themselves, so tiles of a frame can be decoded in any order.
+ */
+export function decodeTile(frame: FrameState, tile: TileData): void {
+  const { frameHeader } = frame
+  const { tileCols, miRowStarts, miColStarts } = frameHeader.tileInfo
+  const tileRow = Math.floor(tile.tileNum / tileCols)
+  const tileCol = tile.tileNum % tileCols
+
+  const cdf = copyCdfContext(createCdfContext(frameHeader.quantization.baseQIdx))
+  const symbolDecoder = new SymbolDecoder(tile.data, tile.offset, tile.size, frameHeader.disableCdfUpdate)
+  new TileDecoder(frame, cdf, symbolDecoder, {
+    miRowStart: miRowStarts[tileRow],
+    miRowEnd: miRowStarts[tileRow + 1],
+    miColStart: miColStarts[tileCol],
+    miColEnd: miColStarts[tileCol + 1],
+  }).decode()
+  symbolDecoder.exit()
+}
+
+/**
+ * Decode the tiles of a frame on a pool of `workerCount` workers. The frame
+ * state must have been allocated in shared memory so every worker writes
+ * its tiles into the same arrays.
+ */
+export async function decodeTilesInWorkers(frame: FrameState, tiles: TileData[], workerCount: number): Promise<void> {
+  // Spread the tiles round-robin, each worker getting only its own bytes
+  const batches: TileData[][] = Array.from({ length: Math.min(workerCount, tiles.length) }, () => [])
+  tiles.forEach((tile, i) => {
+    batches[i % batches.length].push({
+      ...tile,
+      data: tile.data.slice(tile.offset, tile.offset + tile.size),
+      offset: 0,
+    })
+  })
+
+  const workers = batches.map(() => new Worker(new URL('./tile-worker', import.meta.url)))
+  try {
+    await Promise.all(batches.map((batch, i) => new Promise<void>((resolve, reject) => {
+      workers[i].onmessage = (event: MessageEvent<{ error?: string }>) => {
+        if (event.data.error) {
+          reject(new Error(event.data.error))
+        }
+        else {
+          resolve()
+        }
+      }
+      workers[i].onerror = event => reject(new Error(event.message))
+      workers[i].postMessage({ frame, tiles: batch })
+    })))
+  }
+  finally {
+    for (const worker of workers) {
+      worker.terminate()
+    }
+  }
+}
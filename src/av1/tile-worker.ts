@@ -0,0 +1,23 @@
+/**
+ * Tile decoding worker used by `decodeTilesInWorkers()`. Each message carries
+ * a frame state whose arrays live in shared memory and the tiles to decode
+ * into it; the worker replies once they are done.
+ */
+import type { FrameState } from './frame-state'
+import type { TileData } from './tile-group'
+import { decodeTile } from './tile-group'
+
+declare const self: Worker
+
+self.onmessage = (event: MessageEvent<{ frame: FrameState, tiles: TileData[] }>) => {
+  const { frame, tiles } = event.data
+  try {
+    for (const tile of tiles) {
+      decodeTile(frame, tile)
+    }
+    self.postMessage({})
+  }
+  catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : String(error) })
+  }
+}
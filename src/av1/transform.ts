@@ -0,0 +1,491 @@
+import { TX_HEIGHT_LOG2, TX_WIDTH_LOG2 } from './tables'
+
+/** One-dimensional inverse transform kinds */
+export const TX_1D_DCT = 0
+export const TX_1D_ADST = 1
+export const TX_1D_FLIPADST = 2
+export const TX_1D_IDENTITY = 3
+
+/** Vertical (column) transform of each transform type */
+export const VERTICAL_TX_1D = [0, 1, 0, 1, 2, 0, 2, 1, 2, 3, 0, 3, 1, 3, 2, 3]
+/** Horizontal (row) transform of each transform type */
+export const HORIZONTAL_TX_1D = [0, 0, 1, 1, 0, 2, 2, 2, 1, 3, 3, 0, 3, 1, 3, 2]
+
+/** Transform_Row_Shift, indexed by transform size */
+export const TRANSFORM_ROW_SHIFT = [0, 1, 2, 2, 2, 0, 0, 1, 1, 1, 1, 1, 1, 1, 1, 2, 2, 2, 2]
+
+/** Cos128_Lookup: round(4096 * cos(i * pi / 128)) */
+const COS128_LOOKUP = [
+  4096, 4095, 4091, 4085, 4076, 4065, 4052, 4036, 4017, 3996, 3973, 3948, 3920, 3889, 3857, 3822,
+  3784, 3745, 3703, 3659, 3612, 3564, 3513, 3461, 3406, 3349, 3290, 3229, 3166, 3102, 3035, 2967,
+  2896, 2824, 2751, 2675, 2598, 2520, 2440, 2359, 2276, 2191, 2106, 2019, 1931, 1842, 1751, 1660,
+  1567, 1474, 1380, 1285, 1189, 1092, 995, 897, 799, 700, 601, 501, 401, 301, 201, 101,
+  0,
+]
+
+const SINPI_1_9 = 1321
+const SINPI_2_9 = 2482
+const SINPI_3_9 = 3344
+const SINPI_4_9 = 3803
+
+/** Output order of the inverse ADST8 and ADST16 butterflies. Odd outputs are negated */
+const ADST8_OUTPUT = [0, 4, 6, 2, 3, 7, 5, 1]
+const ADST16_OUTPUT = [0, 8, 12, 4, 6, 14, 10, 2, 3, 11, 15, 7, 5, 13, 9, 1]
+
+// Scratch buffers shared by the 1D and 2D transforms
+const copyT = new Int32Array(64)
+const rowT = new Int32Array(64)
+const intermediate = new Int32Array(64 * 64)
+
+function cos128(angle: number): number {
+  const angle2 = angle & 255
+  if (angle2 <= 64)
+    return COS128_LOOKUP[angle2]
+  if (angle2 <= 128)
+    return -COS128_LOOKUP[128 - angle2]
+  if (angle2 <= 192)
+    return -COS128_LOOKUP[angle2 - 128]
+  return COS128_LOOKUP[256 - angle2]
+}
+
+function sin128(angle: number): number {
+  return cos128(angle - 64)
+}
+
+/** Round2(x, 12) without 32-bit overflow for large products */
+function round12(x: number): number {
+  return Math.floor((x + 2048) / 4096)
+}
+
+function clampBits(x: number, bits: number): number {
+  const max = 2 ** (bits - 1) - 1
+  return x > max ? max : x < -max - 1 ? -max - 1 : x
+}
+
+/** brev(numBits, x): reverse the low `numBits` bits of x */
+function brev(numBits: number, x: number): number {
+  let result = 0
+  for (let i = 0; i < numBits; i++) {
+    result = (result << 1) | ((x >> i) & 1)
+  }
+  return result
+}
+
+/**
+ * B( a, b, angle, flip ): butterfly rotation, optionally swapping the two
+ * outputs
+ */
+function butterfly(t: Int32Array, a: number, b: number, angle: number, flip: number): void {
+  const cos = cos128(angle)
+  const sin = sin128(angle)
+  const x = round12(t[a] * cos - t[b] * sin)
+  const y = round12(t[a] * sin + t[b] * cos)
+  t[a] = flip ? y : x
+  t[b] = flip ? x : y
+}
+
+/**
+ * H( a, b, flip ): Hadamard rotation with the result clamped to `r` bits
+ */
+function hadamard(t: Int32Array, a: number, b: number, flip: number, r: number): void {
+  if (flip) {
+    const swap = a
+    a = b
+    b = swap
+  }
+  const x = t[a]
+  const y = t[b]
+  t[a] = clampBits(x + y, r)
+  t[b] = clampBits(x - y, r)
+}
+
+/**
+ * Inverse DCT of length 1 << n (n = 2..6), in place. `r` is the intermediate
+ * clamping range in bits.
+ */
+export function inverseDct(t: Int32Array, n: number, r: number): void {
+  const n0 = 1 << n
+  copyT.set(t.subarray(0, n0))
+  for (let i = 0; i < n0; i++)
+    t[i] = copyT[brev(n, i)]
+
+  if (n === 6) {
+    for (let i = 0; i < 16; i++)
+      butterfly(t, 32 + i, 63 - i, 63 - 4 * brev(4, i), 0)
+  }
+  if (n >= 5) {
+    for (let i = 0; i < 8; i++)
+      butterfly(t, 16 + i, 31 - i, 6 + (brev(3, 7 - i) << 3), 0)
+  }
+  if (n === 6) {
+    for (let i = 0; i < 16; i++)
+      hadamard(t, 32 + i * 2, 33 + i * 2, i & 1, r)
+  }
+  if (n >= 4) {
+    for (let i = 0; i < 4; i++)
+      butterfly(t, 8 + i, 15 - i, 12 + (brev(2, 3 - i) << 4), 0)
+  }
+  if (n >= 5) {
+    for (let i = 0; i < 8; i++)
+      hadamard(t, 16 + 2 * i, 17 + 2 * i, i & 1, r)
+  }
+  if (n === 6) {
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 2; j++)
+        butterfly(t, 62 - i * 4 - j, 33 + i * 4 + j, 60 - 16 * brev(2, i) + 64 * j, 1)
+    }
+  }
+  if (n >= 3) {
+    for (let i = 0; i < 2; i++)
+      butterfly(t, 4 + i, 7 - i, 56 - 32 * i, 0)
+  }
+  if (n >= 4) {
+    for (let i = 0; i < 4; i++)
+      hadamard(t, 8 + 2 * i, 9 + 2 * i, i & 1, r)
+  }
+  if (n >= 5) {
+    for (let i = 0; i < 2; i++) {
+      for (let j = 0; j < 2; j++)
+        butterfly(t, 30 - 4 * i - j, 17 + 4 * i + j, 24 + (j << 6) + ((1 - i) << 5), 1)
+    }
+  }
+  if (n === 6) {
+    for (let i = 0; i < 8; i++) {
+      for (let j = 0; j < 2; j++)
+        hadamard(t, 32 + i * 4 + j, 35 + i * 4 - j, i & 1, r)
+    }
+  }
+
+  butterfly(t, 0, 1, 32, 1)
+  butterfly(t, 2, 3, 48, 0)
+  if (n >= 3) {
+    hadamard(t, 4, 5, 0, r)
+    hadamard(t, 7, 6, 0, r)
+  }
+  if (n >= 4) {
+    butterfly(t, 14, 9, 48, 1)
+    butterfly(t, 13, 10, 112, 1)
+  }
+  if (n >= 5) {
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 2; j++)
+        hadamard(t, 16 + i * 4 + j, 19 + i * 4 - j, i & 1, r)
+    }
+  }
+  if (n === 6) {
+    for (let i = 0; i < 2; i++) {
+      for (let j = 0; j < 4; j++)
+        butterfly(t, 61 - i * 8 - j, 34 + i * 8 + j, 56 - i * 32 + (j >> 1) * 64, 1)
+    }
+  }
+
+  hadamard(t, 0, 3, 0, r)
+  hadamard(t, 1, 2, 0, r)
+  if (n >= 3)
+    butterfly(t, 6, 5, 32, 1)
+  if (n >= 4) {
+    for (let i = 0; i < 2; i++) {
+      for (let j = 0; j < 2; j++)
+        hadamard(t, 8 + i * 4 + j, 11 + i * 4 - j, i, r)
+    }
+  }
+  if (n >= 5) {
+    for (let j = 0; j < 4; j++)
+      butterfly(t, 29 - j, 18 + j, 48 + (j >> 1) * 64, 1)
+  }
+  if (n === 6) {
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 4; j++)
+        hadamard(t, 32 + i * 8 + j, 39 + i * 8 - j, i & 1, r)
+    }
+  }
+
+  if (n >= 3) {
+    for (let i = 0; i < 4; i++)
+      hadamard(t, i, 7 - i, 0, r)
+  }
+  if (n >= 4) {
+    for (let i = 0; i < 2; i++)
+      butterfly(t, 13 - i, 10 + i, 32, 1)
+  }
+  if (n >= 5) {
+    for (let i = 0; i < 2; i++) {
+      for (let j = 0; j < 4; j++)
+        hadamard(t, 16 + i * 8 + j, 23 + i * 8 - j, i, r)
+    }
+  }
+  if (n === 6) {
+    for (let j = 0; j < 8; j++)
+      butterfly(t, 59 - j, 36 + j, 48 + (j >> 2) * 64, 1)
+  }
+
+  if (n >= 4) {
+    for (let i = 0; i < 8; i++)
+      hadamard(t, i, 15 - i, 0, r)
+  }
+  if (n >= 5) {
+    for (let i = 0; i < 4; i++)
+      butterfly(t, 27 - i, 20 + i, 32, 1)
+  }
+  if (n === 6) {
+    for (let i = 0; i < 2; i++) {
+      for (let j = 0; j < 8; j++)
+        hadamard(t, 32 + i * 16 + j, 47 + i * 16 - j, i, r)
+    }
+  }
+
+  if (n >= 5) {
+    for (let i = 0; i < 16; i++)
+      hadamard(t, i, 31 - i, 0, r)
+  }
+  if (n === 6) {
+    for (let i = 0; i < 8; i++)
+      butterfly(t, 55 - i, 40 + i, 32, 1)
+  }
+  if (n === 6) {
+    for (let i = 0; i < 32; i++)
+      hadamard(t, i, 63 - i, 0, r)
+  }
+}
+
+/**
+ * Inverse ADST of length 4, in place
+ */
+function inverseAdst4(t: Int32Array): void {
+  const x0 = t[0]
+  const x1 = t[1]
+  const x2 = t[2]
+  const x3 = t[3]
+
+  let s0 = SINPI_1_9 * x0
+  let s1 = SINPI_2_9 * x0
+  let s2 = SINPI_3_9 * x1
+  let s3 = SINPI_4_9 * x2
+  const s4 = SINPI_1_9 * x2
+  const s5 = SINPI_2_9 * x3
+  const s6 = SINPI_4_9 * x3
+  const s7 = x0 - x2 + x3
+
+  s0 = s0 + s3
+  s1 = s1 - s4
+  s3 = s2
+  s2 = SINPI_3_9 * s7
+  s0 = s0 + s5
+  s1 = s1 - s6
+
+  t[0] = round12(s0 + s3)
+  t[1] = round12(s1 + s3)
+  t[2] = round12(s2)
+  t[3] = round12(s0 + s1 - s3)
+}
+
+/**
+ * ADST input and output array permutations, shared by the 8 and 16 point
+ * inverse ADSTs
+ */
+function adstInputPermutation(t: Int32Array, n0: number): void {
+  copyT.set(t.subarray(0, n0))
+  for (let i = 0; i < n0; i++)
+    t[i] = copyT[i & 1 ? i - 1 : n0 - i - 1]
+}
+
+function adstOutputPermutation(t: Int32Array, order: number[]): void {
+  const n0 = order.length
+  copyT.set(t.subarray(0, n0))
+  for (let i = 0; i < n0; i++)
+    t[i] = i & 1 ? -copyT[order[i]] : copyT[order[i]]
+}
+
+function inverseAdst8(t: Int32Array, r: number): void {
+  adstInputPermutation(t, 8)
+  for (let i = 0; i < 4; i++)
+    butterfly(t, 2 * i, 2 * i + 1, 60 - 16 * i, 1)
+  for (let i = 0; i < 4; i++)
+    hadamard(t, i, 4 + i, 0, r)
+  for (let i = 0; i < 2; i++)
+    butterfly(t, 4 + 3 * i, 5 + i, 48 - 32 * i, 1)
+  for (let i = 0; i < 2; i++) {
+    hadamard(t, i, 2 + i, 0, r)
+    hadamard(t, 4 + i, 6 + i, 0, r)
+  }
+  for (let i = 0; i < 2; i++)
+    butterfly(t, 2 + 4 * i, 3 + 4 * i, 32, 1)
+  adstOutputPermutation(t, ADST8_OUTPUT)
+}
+
+function inverseAdst16(t: Int32Array, r: number): void {
+  adstInputPermutation(t, 16)
+  for (let i = 0; i < 8; i++)
+    butterfly(t, 2 * i, 2 * i + 1, 62 - 8 * i, 1)
+  for (let i = 0; i < 8; i++)
+    hadamard(t, i, 8 + i, 0, r)
+  for (let i = 0; i < 2; i++) {
+    butterfly(t, 8 + 2 * i, 9 + 2 * i, 56 - 32 * i, 1)
+    butterfly(t, 13 + 2 * i, 12 + 2 * i, 8 + 32 * i, 1)
+  }
+  for (let i = 0; i < 4; i++) {
+    hadamard(t, i, 4 + i, 0, r)
+    hadamard(t, 8 + i, 12 + i, 0, r)
+  }
+  for (let i = 0; i < 2; i++) {
+    butterfly(t, 4 + 8 * i, 5 + 8 * i, 48, 1)
+    butterfly(t, 7 + 8 * i, 6 + 8 * i, 16, 1)
+  }
+  for (let i = 0; i < 4; i++) {
+    for (let j = 0; j < 2; j++)
+      hadamard(t, 4 * i + j, 4 * i + 2 + j, 0, r)
+  }
+  for (let i = 0; i < 4; i++)
+    butterfly(t, 2 + 4 * i, 3 + 4 * i, 32, 1)
+  adstOutputPermutation(t, ADST16_OUTPUT)
+}
+
+/**
+ * Inverse ADST of length 1 << n (n = 2..4), in place
+ */
+export function inverseAdst(t: Int32Array, n: number, r: number): void {
+  if (n === 2)
+    inverseAdst4(t)
+  else if (n === 3)
+    inverseAdst8(t, r)
+  else
+    inverseAdst16(t, r)
+}
+
+/**
+ * Inverse identity transform of length 1 << n (n = 2..5), in place
+ */
+export function inverseIdentity(t: Int32Array, n: number): void {
+  const n0 = 1 << n
+  for (let i = 0; i < n0; i++) {
+    if (n === 2)
+      t[i] = round12(t[i] * 5793)
+    else if (n === 3)
+      t[i] = t[i] * 2
+    else if (n === 4)
+      t[i] = round12(t[i] * 11586)
+    else
+      t[i] = t[i] * 4
+  }
+}
+
+/**
+ * Inverse Walsh-Hadamard transform of length 4 used by lossless blocks, in
+ * place. The inputs are first shifted down by `shift`.
+ */
+export function inverseWht(t: Int32Array, shift: number): void {
+  let a = t[0] >> shift
+  let c = t[1] >> shift
+  let d = t[2] >> shift
+  let b = t[3] >> shift
+  a += c
+  d -= b
+  const e = (a - d) >> 1
+  b = e - b
+  c = e - c
+  a -= b
+  d += c
+  t[0] = a
+  t[1] = b
+  t[2] = c
+  t[3] = d
+}
+
+function inverseTransform1D(t: Int32Array, n: number, kind: number, r: number): void {
+  if (kind === TX_1D_DCT)
+    inverseDct(t, n, r)
+  else if (kind === TX_1D_IDENTITY)
+    inverseIdentity(t, n)
+  else
+    inverseAdst(t, n, r)
+}
+
+/**
+ * 2D inverse transform process.
+ *
+ * `coeffs` holds the dequantized coefficients with a row stride of
+ * min(32, width); only the top-left 32x32 coefficients of 64-sample
+ * transforms can be non-zero. The residual is written to `residual` with a
+ * row stride of the transform width, with any flips already applied.
+ */
+export function inverseTransform2D(
+  coeffs: Int32Array,
+  residual: Int32Array,
+  txSz: number,
+  txType: number,
+  lossless: boolean,
+  bitDepth: number,
+): void {
+  const log2W = TX_WIDTH_LOG2[txSz]
+  const log2H = TX_HEIGHT_LOG2[txSz]
+  const w = 1 << log2W
+  const h = 1 << log2H
+  const t = rowT
+
+  if (lossless) {
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 4; j++)
+        t[j] = coeffs[i * 4 + j]
+      inverseWht(t, 2)
+      for (let j = 0; j < 4; j++)
+        intermediate[i * 4 + j] = t[j]
+    }
+    for (let j = 0; j < 4; j++) {
+      for (let i = 0; i < 4; i++)
+        t[i] = intermediate[i * 4 + j]
+      inverseWht(t, 0)
+      for (let i = 0; i < 4; i++)
+        residual[i * 4 + j] = t[i]
+    }
+    return
+  }
+
+  const rowKind = HORIZONTAL_TX_1D[txType]
+  const colKind = VERTICAL_TX_1D[txType]
+  const flipLR = rowKind === TX_1D_FLIPADST
+  const flipUD = colKind === TX_1D_FLIPADST
+  const rowShift = TRANSFORM_ROW_SHIFT[txSz]
+  const rowClampRange = bitDepth + 8
+  const colClampRange = Math.max(bitDepth + 6, 16)
+  const tw = Math.min(32, w)
+  const th = Math.min(32, h)
+  const rectScale = Math.abs(log2W - log2H) === 1
+
+  for (let i = 0; i < h; i++) {
+    let nonZero = false
+    if (i < th) {
+      for (let j = 0; j < tw; j++) {
+        if (coeffs[i * tw + j] !== 0) {
+          nonZero = true
+          break
+        }
+      }
+    }
+    // Every 1D transform maps an all-zero input to an all-zero output
+    if (!nonZero) {
+      intermediate.fill(0, i * w, (i + 1) * w)
+      continue
+    }
+
+    for (let j = 0; j < w; j++) {
+      let value = j < tw ? coeffs[i * tw + j] : 0
+      if (rectScale)
+        value = round12(value * 2896)
+      t[j] = clampBits(value, rowClampRange)
+    }
+    inverseTransform1D(t, log2W, rowKind, rowClampRange)
+    for (let j = 0; j < w; j++)
+      intermediate[i * w + j] = rowShift ? (t[j] + (1 << (rowShift - 1))) >> rowShift : t[j]
+  }
+
+  for (let j = 0; j < w; j++) {
+    for (let i = 0; i < h; i++)
+      t[i] = clampBits(intermediate[i * w + j], colClampRange)
+    inverseTransform1D(t, log2H, colKind, colClampRange)
+    const x = flipLR ? w - 1 - j : j
+    for (let i = 0; i < h; i++) {
+      const y = flipUD ? h - 1 - i : i
+      residual[y * w + x] = (t[i] + 8) >> 4
+    }
+  }
+}
@@ -0,0 +1,568 @@
+import type { AV1OBU, AV1Violation, FrameHeader, SequenceHeader } from '../types'
+import { FrameType, MetadataType, OBUType } from '../types'
+import { findBox, getPrimaryItemId, parseAv1C, parseIloc, parseISOBMFF, validateFtyp } from '../container/heif'
+import { BitReader } from './bit-reader'
+import { peekFrameType, readSequenceHeader } from './decoder'
+import { readFrameHeader } from './frame-header'
+import { readMetadataOBU } from './metadata'
+import { getOBUTypeName, inOperatingPoint, OBUReader, parseOBUs, readLeb128 } from './obu'
+import { LEVEL_LIMITS, levelName, SEQ_LEVEL_MAX } from './sequence-header'
+import { readTileGroup } from './tile-group'
+
+/**
+ * Where violations go, and how offsets in the OBU data map to the offsets
+ * reported (file offsets when the data is an AVIF item)
+ */
+interface ValidationContext {
+  violations: AV1Violation[]
+  fileOffset: (offset: number) => number
+}
+
+/**
+ * A frame whose tiles are still expected in later tile groups
+ */
+interface PendingFrame {
+  offset: number
+  /** Undefined when the header could not be parsed: its tiles go unchecked */
+  header?: FrameHeader
+  headerData: Uint8Array
+  headerBits: number
+  nextTile: number
+}
+
+/**
+ * Check an AV1 bitstream against the requirements of the AV1 spec and
+ * return every violation found, with the byte offset of the OBU at fault.
+ * `data` is either a low-overhead (Section 5) OBU stream or an AVIF file,
+ * whose primary item is checked along with its av1C property.
+ *
+ * Frames the parser does not support (inter frames) only get OBU-level
+ * checks.
+ */
+export function validateAV1(data: Uint8Array): AV1Violation[] {
+  if (data.length >= 12 && validateFtyp(data)) {
+    return validateAvifItem(data)
+  }
+
+  const context: ValidationContext = { violations: [], fileOffset: offset => offset }
+  validateOBUs(data, context, true)
+  return context.violations
+}
+
+/**
+ * Check the primary item of an AVIF file and its consistency with the
+ * av1C property
+ */
+function validateAvifItem(data: Uint8Array): AV1Violation[] {
+  const violations: AV1Violation[] = []
+  const boxes = parseISOBMFF(data)
+  const metaBox = findBox(boxes, 'meta')
+  const ilocBox = metaBox?.children ? findBox(metaBox.children, 'iloc') : undefined
+  const itemId = getPrimaryItemId(boxes)
+  const location = ilocBox && itemId !== null
+    ? parseIloc(ilocBox.data).find(loc => loc.itemId === itemId)
+    : undefined
+
+  if (!location || location.extents.length === 0) {
+    violations.push({ offset: 0, severity: 'error', message: 'AVIF file has no primary item data' })
+    return violations
+  }
+
+  // Gather the item extents, remembering where each starts in the file
+  const extents = location.extents.map(extent => ({
+    fileOffset: location.baseOffset + extent.extentOffset,
+    length: extent.extentLength,
+  }))
+  const itemData = new Uint8Array(extents.reduce((sum, extent) => sum + extent.length, 0))
+  let itemOffset = 0
+  for (const extent of extents) {
+    itemData.set(data.subarray(extent.fileOffset, extent.fileOffset + extent.length), itemOffset)
+    itemOffset += extent.length
+  }
+
+  const context: ValidationContext = {
+    violations,
+    fileOffset: (offset) => {
+      for (const extent of extents) {
+        if (offset < extent.length) {
+          return extent.fileOffset + offset
+        }
+        offset -= extent.length
+      }
+      return extents[extents.length - 1].fileOffset + extents[extents.length - 1].length + offset
+    },
+  }
+  const { seqHeader, seqHeaderData, frameCount } = validateOBUs(itemData, context, false)
+  const itemStart = extents[0].fileOffset
+
+  if (seqHeader && frameCount === 1 && !seqHeader.stillPicture) {
+    violations.push({
+      offset: itemStart,
+      obuType: OBUType.SEQUENCE_HEADER,
+      severity: 'warning',
+      message: 'SEQUENCE_HEADER: an AVIF image item with a single frame should set still_picture',
+    })
+  }
+
+  const ipcoBox = metaBox?.children
+    ? findBox(findBox(metaBox.children, 'iprp')?.children ?? [], 'ipco')
+    : undefined
+  const av1cBox = ipcoBox?.children ? findBox(ipcoBox.children, 'av1C') : undefined
+  if (!av1cBox) {
+    violations.push({ offset: metaBox?.offset ?? 0, severity: 'error', message: 'AVIF file has no av1C property' })
+    return violations
+  }
+  if (!seqHeader) {
+    return violations
+  }
+
+  const addConfigViolation = (message: string): void => {
+    violations.push({ offset: av1cBox.offset, severity: 'error', message: `av1C: ${message}` })
+  }
+
+  let config
+  try {
+    config = parseAv1C(av1cBox.data)
+  }
+  catch (error) {
+    addConfigViolation((error as Error).message)
+    return violations
+  }
+
+  // Every av1C field must repeat the sequence header
+  const { colorConfig } = seqHeader
+  const expected: Record<string, [number, number]> = {
+    seq_profile: [config.seqProfile, seqHeader.seqProfile],
+    seq_level_idx_0: [config.seqLevelIdx0, seqHeader.operatingPoints[0].seqLevelIdx],
+    seq_tier_0: [config.seqTier0, seqHeader.operatingPoints[0].seqTier],
+    high_bitdepth: [config.highBitdepth, colorConfig.bitDepth > 8 ? 1 : 0],
+    twelve_bit: [config.twelveBit, colorConfig.bitDepth === 12 ? 1 : 0],
+    monochrome: [config.monochrome, colorConfig.monochrome ? 1 : 0],
+    chroma_subsampling_x: [config.chromaSubsamplingX, colorConfig.subsamplingX],
+    chroma_subsampling_y: [config.chromaSubsamplingY, colorConfig.subsamplingY],
+    chroma_sample_position: [config.chromaSamplePosition, colorConfig.chromaSamplePosition],
+  }
+  for (const [field, [value, seqValue]] of Object.entries(expected)) {
+    if (value !== seqValue) {
+      addConfigViolation(`${field} is ${value} but the sequence header has ${seqValue}`)
+    }
+  }
+
+  // A sequence header in configOBUs must match the one in the item
+  if (av1cBox.data.length > 4) {
+    try {
+      const configSeqHeader = parseOBUs(av1cBox.data.subarray(4)).find(obu => obu.type === OBUType.SEQUENCE_HEADER)
+      if (configSeqHeader && seqHeaderData && !bytesEqual(configSeqHeader.data, seqHeaderData)) {
+        addConfigViolation('the sequence header in configOBUs differs from the one in the item')
+      }
+    }
+    catch (error) {
+      addConfigViolation(`invalid configOBUs: ${(error as Error).message}`)
+    }
+  }
+
+  return violations
+}
+
+/**
+ * Check the OBUs of `data` in order. `isStream` is set for low-overhead
+ * streams, which must start with a temporal delimiter; AVIF items should
+ * not contain any.
+ */
+function validateOBUs(data: Uint8Array, context: ValidationContext, isStream: boolean): {
+  seqHeader?: SequenceHeader
+  seqHeaderData?: Uint8Array
+  frameCount: number
+} {
+  let seqHeader: SequenceHeader | undefined
+  let seqHeaderData: Uint8Array | undefined
+  let temporalUnitSeqHeader: Uint8Array | undefined
+  let frame: PendingFrame | undefined
+  let frameCount = 0
+  let frameHeaderCount = 0
+
+  const closeFrame = (): void => {
+    if (frame?.header) {
+      const numTiles = frame.header.tileInfo.tileCols * frame.header.tileInfo.tileRows
+      addViolation(context, frame.offset, OBUType.FRAME_HEADER, `frame is missing tiles ${frame.nextTile} to ${numTiles - 1}`)
+    }
+    frame = undefined
+  }
+
+  const addTiles = (obu: AV1OBU, pending: PendingFrame, header: FrameHeader, offset: number): void => {
+    let tiles
+    try {
+      tiles = readTileGroup(obu.data, offset, header)
+    }
+    catch (error) {
+      addViolation(context, obu.offset, obu.type, (error as Error).message)
+      frame = undefined
+      return
+    }
+
+    if (tiles[0].tileNum !== pending.nextTile) {
+      addViolation(context, obu.offset, obu.type, `tile group starts at tile ${tiles[0].tileNum}, expected ${pending.nextTile}`)
+    }
+    pending.nextTile = tiles[tiles.length - 1].tileNum + 1
+    if (pending.nextTile === header.tileInfo.tileCols * header.tileInfo.tileRows) {
+      frame = undefined
+    }
+  }
+
+  const obus = splitOBUs(data, context)
+  obus.forEach((obu, index) => {
+    const fail = (message: string, severity: AV1Violation['severity'] = 'error'): void => {
+      addViolation(context, obu.offset, obu.type, message, severity)
+    }
+
+    if (index === 0 && isStream && obu.type !== OBUType.TEMPORAL_DELIMITER) {
+      fail('the bitstream must start with a temporal delimiter')
+    }
+
+    switch (obu.type) {
+      case OBUType.TEMPORAL_DELIMITER:
+        if (obu.data.length > 0) {
+          fail(`obu_size must be 0, got ${obu.data.length}`)
+        }
+        closeFrame()
+        temporalUnitSeqHeader = undefined
+        break
+
+      case OBUType.SEQUENCE_HEADER: {
+        const parsed = validateSequenceHeader(obu, fail)
+        if (temporalUnitSeqHeader && !bytesEqual(temporalUnitSeqHeader, obu.data)) {
+          fail('differs from the sequence header earlier in the temporal unit')
+        }
+        temporalUnitSeqHeader ??= obu.data
+        if (parsed) {
+          seqHeader = parsed
+          seqHeaderData ??= obu.data
+        }
+        break
+      }
+
+      case OBUType.FRAME_HEADER:
+      case OBUType.REDUNDANT_FRAME_HEADER:
+      case OBUType.FRAME: {
+        // Until its last tile, a frame header may be repeated bit for bit
+        if (frame && obu.type !== OBUType.FRAME) {
+          if (frame.header) {
+            validateFrameHeaderCopy(obu, frame, fail)
+          }
+          break
+        }
+        if (obu.type === OBUType.REDUNDANT_FRAME_HEADER) {
+          fail('there is no frame header to repeat')
+          break
+        }
+
+        closeFrame()
+        if (!seqHeader) {
+          fail('comes before any sequence header')
+          break
+        }
+
+        // Inter frames are not parsed
+        const frameType = peekFrameType(obu, seqHeader)
+        const reader = new BitReader(obu.data)
+        let header: FrameHeader | undefined
+        if (frameType === FrameType.INTER_FRAME || frameType === FrameType.SWITCH_FRAME) {
+          if (frameHeaderCount === 0) {
+            fail('the first frame must be a shown key frame')
+          }
+        }
+        else {
+          try {
+            header = readFrameHeader(reader, seqHeader, { temporalId: obu.temporalId, spatialId: obu.spatialId })
+          }
+          catch (error) {
+            fail(`invalid frame header: ${(error as Error).message}`)
+          }
+        }
+        if (!header) {
+          // Accept the tile groups of frames that cannot be parsed unchecked
+          frame = { offset: obu.offset, headerData: obu.data, headerBits: 0, nextTile: 0 }
+          frameHeaderCount++
+          frameCount++
+          break
+        }
+
+        if (frameHeaderCount === 0 && (header.showExistingFrame || header.frameType !== FrameType.KEY_FRAME || !header.showFrame)) {
+          fail('the first frame must be a shown key frame')
+        }
+        frameHeaderCount++
+
+        if (header.showExistingFrame) {
+          if (obu.type === OBUType.FRAME) {
+            fail('show_existing_frame is not allowed in a FRAME OBU')
+          }
+          else {
+            checkTrailingBits(reader, obu.data, fail)
+          }
+          break
+        }
+
+        frameCount++
+        validateFrameSize(obu, header, seqHeader, fail)
+
+        const pending: PendingFrame = { offset: obu.offset, header, headerData: obu.data, headerBits: reader.position, nextTile: 0 }
+        frame = pending
+        if (obu.type === OBUType.FRAME_HEADER) {
+          checkTrailingBits(reader, obu.data, fail)
+          break
+        }
+
+        // byte_alignment() between the frame header and the tile group
+        while (!reader.isByteAligned) {
+          if (reader.readBit() !== 0) {
+            fail('byte_alignment() after the frame header has a nonzero bit')
+            break
+          }
+        }
+        reader.byteAlign()
+        addTiles(obu, pending, header, reader.bytePosition)
+        break
+      }
+
+      case OBUType.TILE_GROUP:
+        if (!frame) {
+          fail('there is no frame header for this tile group')
+        }
+        else if (frame.header) {
+          addTiles(obu, frame, frame.header, 0)
+        }
+        break
+
+      case OBUType.METADATA:
+        validateMetadata(obu, fail)
+        break
+    }
+  })
+
+  closeFrame()
+
+  if (!seqHeader) {
+    addViolation(context, 0, undefined, 'no valid sequence header found')
+  }
+  else if (seqHeader.stillPicture && frameCount > 1) {
+    addViolation(context, 0, undefined, `still_picture is set but the bitstream has ${frameCount} frames`)
+  }
+  if (seqHeader && frameCount === 0) {
+    addViolation(context, 0, undefined, 'no frame found')
+  }
+
+  return { seqHeader, seqHeaderData, frameCount }
+}
+
+/**
+ * Split data into OBUs like parseOBUs(), but report malformed headers and
+ * carry on with the next OBU whenever its position is still known
+ */
+function splitOBUs(data: Uint8Array, context: ValidationContext): AV1OBU[] {
+  const obus: AV1OBU[] = []
+  let offset = 0
+
+  while (offset < data.length) {
+    const header = data[offset]
+    const type = (header >> 3) & 0x0F
+    const hasExtension = (header & 0x04) !== 0
+    const hasSizeField = (header & 0x02) !== 0
+    const fail = (message: string, severity: AV1Violation['severity'] = 'error'): void => {
+      addViolation(context, offset, type, message, severity)
+    }
+
+    if (header & 0x80) {
+      fail('obu_forbidden_bit is set')
+    }
+    if (header & 0x01) {
+      fail('obu_reserved_1bit is set')
+    }
+    if (type === 0 || (type >= 9 && type <= 14)) {
+      fail(`OBU type ${type} is reserved and ignored by decoders`, 'warning')
+    }
+
+    let headerSize = hasExtension ? 2 : 1
+    if (offset + headerSize > data.length) {
+      fail('truncated OBU header')
+      break
+    }
+    if (hasExtension && (data[offset + 1] & 0x07) !== 0) {
+      fail('extension_header_reserved_3bits is not 0')
+    }
+
+    let end = data.length
+    if (hasSizeField) {
+      let size
+      try {
+        size = readLeb128(data, offset + headerSize, context.fileOffset(offset))
+      }
+      catch (error) {
+        fail((error as Error).message)
+        break
+      }
+      if (!size) {
+        fail('truncated obu_size')
+        break
+      }
+
+      headerSize += size.bytes
+      end = offset + headerSize + size.value
+      if (size.value > 0xFFFFFFFF) {
+        fail(`obu_size ${size.value} exceeds 2^32 - 1`)
+      }
+      if (end > data.length) {
+        fail(`obu_size is ${size.value} bytes but only ${data.length - offset - headerSize} remain`)
+        break
+      }
+    }
+
+    // OBUs with the forbidden bit set are skipped, as decoders would reject them
+    if (!(header & 0x80)) {
+      obus.push({ ...new OBUReader().pushFramed(data.subarray(offset, end)), offset })
+    }
+    offset = end
+  }
+
+  return obus
+}
+
+/**
+ * Parse a sequence header and check its trailing bits and levels
+ */
+function validateSequenceHeader(obu: AV1OBU, fail: (message: string) => void): SequenceHeader | undefined {
+  const reader = new BitReader(obu.data)
+  let seqHeader: SequenceHeader
+  try {
+    seqHeader = readSequenceHeader(reader)
+  }
+  catch (error) {
+    fail(`invalid sequence header: ${(error as Error).message}`)
+    return undefined
+  }
+
+  checkTrailingBits(reader, obu.data, fail)
+
+  if (seqHeader.reducedStillPictureHeader && !seqHeader.stillPicture) {
+    fail('reduced_still_picture_header is set without still_picture')
+  }
+  for (const op of seqHeader.operatingPoints) {
+    if (op.seqLevelIdx !== SEQ_LEVEL_MAX && !LEVEL_LIMITS[op.seqLevelIdx]) {
+      fail(`seq_level_idx ${op.seqLevelIdx} is reserved`)
+    }
+  }
+
+  return seqHeader
+}
+
+/**
+ * Check a frame size against the sequence header maximum and the level of
+ * every operating point the frame belongs to
+ */
+function validateFrameSize(obu: AV1OBU, header: FrameHeader, seqHeader: SequenceHeader, fail: (message: string) => void): void {
+  const width = header.upscaledWidth
+  const height = header.frameHeight
+
+  if (width > seqHeader.maxFrameWidth || height > seqHeader.maxFrameHeight) {
+    fail(`${width}x${height} frame exceeds the sequence header maximum of ${seqHeader.maxFrameWidth}x${seqHeader.maxFrameHeight}`)
+  }
+
+  for (const op of seqHeader.operatingPoints) {
+    const limits = LEVEL_LIMITS[op.seqLevelIdx]
+    if (!limits || !inOperatingPoint(obu, op.idc)) {
+      continue
+    }
+
+    const [maxPicSize, maxHSize, maxVSize] = limits
+    if (width * height > maxPicSize || width > maxHSize || height > maxVSize) {
+      fail(`${width}x${height} frame exceeds level ${levelName(op.seqLevelIdx)} (at most ${maxHSize}x${maxVSize} and ${maxPicSize} samples)`)
+    }
+  }
+}
+
+/**
+ * A frame header repeated before the last tile of its frame must hold the
+ * same bits as the original
+ */
+function validateFrameHeaderCopy(obu: AV1OBU, frame: PendingFrame, fail: (message: string) => void): void {
+  const original = new BitReader(frame.headerData)
+  const copy = new BitReader(obu.data)
+  if (copy.remaining < frame.headerBits) {
+    fail('is shorter than the frame header it repeats')
+    return
+  }
+
+  for (let i = 0; i < frame.headerBits; i++) {
+    if (original.readBit() !== copy.readBit()) {
+      fail('differs from the frame header it repeats')
+      return
+    }
+  }
+  checkTrailingBits(copy, obu.data, fail)
+}
+
+/**
+ * Parse a metadata OBU and check its trailing bits
+ */
+function validateMetadata(obu: AV1OBU, fail: (message: string) => void): void {
+  const reader = new BitReader(obu.data)
+  let metadata
+  try {
+    metadata = readMetadataOBU(reader, obu.data)
+  }
+  catch (error) {
+    fail(`invalid metadata: ${(error as Error).message}`)
+    return
+  }
+
+  // T.35 payloads run up to the trailing bits, which only need a one bit
+  if (metadata?.type === MetadataType.ITUT_T35) {
+    if (!obu.data.subarray(reader.bytePosition).some(byte => byte !== 0)) {
+      fail('the payload has no trailing bits')
+    }
+  }
+  else if (metadata) {
+    checkTrailingBits(reader, obu.data, fail)
+  }
+}
+
+/**
+ * trailing_bits() must follow the payload and run to the end of the OBU:
+ * a one bit, then nothing but zero bits
+ */
+function checkTrailingBits(reader: BitReader, data: Uint8Array, fail: (message: string) => void): void {
+  if (reader.remaining === 0) {
+    fail('the payload ends before its trailing bits')
+    return
+  }
+
+  try {
+    reader.readTrailingBits()
+  }
+  catch (error) {
+    fail((error as Error).message)
+    return
+  }
+
+  if (data.subarray(reader.bytePosition).some(byte => byte !== 0)) {
+    fail(`obu_size is larger than the payload: ${data.length - reader.bytePosition} bytes follow its trailing bits`)
+  }
+}
+
+function addViolation(
+  context: ValidationContext,
+  offset: number,
+  obuType: OBUType | undefined,
+  message: string,
+  severity: AV1Violation['severity'] = 'error',
+): void {
+  context.violations.push({
+    offset: context.fileOffset(offset),
+    obuType,
+    severity,
+    message: obuType === undefined ? message : `${getOBUTypeName(obuType)}: ${message}`,
+  })
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i])
+}
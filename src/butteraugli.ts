@@ -0,0 +1,545 @@
+/**
+ * Butteraugli psychovisual distance, following Google's butteraugli
+ * (Copyright 2016 Google Inc., Apache License 2.0), whose model and
+ * tuned constants this reproduces. Distances below 1 are meant to be
+ * invisible and grow with how noticeable the worst difference is.
+ */
+
+/** Frequency bands of an XYB image, each as X, Y and B planes */
+interface PsychoImage {
+  lf: Float64Array[]
+  mf: Float64Array[]
+  hf: Float64Array[]
+  uhf: Float64Array[]
+}
+
+/** Smallest side the model works on, smaller images are edge-extended to it */
+const MIN_SIZE = 8
+
+/** Normalizes an 'ok' degradation to a distance of 1 */
+const GLOBAL_SCALE = 1 / 13.647516951250337
+
+/**
+ * Line segments through the center of a 9x9 window as [dx, dy] pairs,
+ * along which Malta sums the differences. The first two also score the
+ * edge against the parallel line one step down or right.
+ */
+const MALTA_LINES: [number, number][][] = [
+  [[-4, 0], [-3, 0], [-2, 0], [-1, 0], [0, 0], [1, 0], [2, 0], [3, 0], [4, 0]],
+  [[0, -4], [0, -3], [0, -2], [0, -1], [0, 0], [0, 1], [0, 2], [0, 3], [0, 4]],
+  [[-3, -3], [-2, -2], [-1, -1], [0, 0], [1, 1], [2, 2], [3, 3]],
+  [[3, -3], [2, -2], [1, -1], [0, 0], [-1, 1], [-2, 2], [-3, 3]],
+  [[1, -4], [1, -3], [1, -2], [0, -1], [0, 0], [0, 1], [-1, 1], [-1, 3], [-1, 4]],
+  [[-1, -4], [-1, -3], [-1, -2], [0, -1], [0, 0], [0, 1], [1, 1], [1, 3], [1, 4]],
+  [[-4, -1], [-3, -1], [-2, -1], [-1, 0], [0, 0], [1, 0], [2, 1], [3, 1], [4, 1]],
+  [[-4, 1], [-3, 1], [-2, 1], [-1, 0], [0, 0], [1, 0], [2, -1], [3, -1], [4, -1]],
+  [[-2, -3], [-1, -2], [-1, -1], [0, 0], [1, 1], [1, 2], [2, 3]],
+  [[2, -3], [1, -2], [1, -1], [0, 0], [-1, 1], [-1, 2], [-2, 3]],
+  [[-3, -2], [-2, -1], [-1, -1], [0, 0], [1, 1], [2, 1], [3, 2]],
+  [[3, -2], [2, -1], [1, -1], [0, 0], [-1, 1], [-2, 1], [-3, 2]],
+  [[-4, 2], [-3, 2], [-2, 1], [-1, 1], [0, 0], [1, 0], [2, -1], [3, -1]],
+  [[-4, -2], [-3, -2], [-2, -1], [-1, -1], [0, 0], [1, 0], [2, 1], [3, 1]],
+  [[-2, -4], [-2, -3], [-1, -2], [-1, -1], [0, 0], [0, 1], [1, 2], [1, 3]],
+  [[2, -4], [2, -3], [1, -2], [1, -1], [0, 0], [0, 1], [-1, 2], [-1, 3]],
+]
+
+const MALTA_EDGE_WEIGHT = 0.0736824429946
+
+/** Lookup tables of the masking functions, built on first use */
+let maskTables: { x: Float64Array, y: Float64Array, dcX: Float64Array, dcY: Float64Array } | undefined
+
+/**
+ * Butteraugli distance between the RGB samples of two RGBA images (alpha
+ * is ignored): the largest value of the difference map, 0 for identical
+ * images
+ */
+export function computeButteraugli(
+  a: Uint8Array | Uint16Array,
+  b: Uint8Array | Uint16Array,
+  width: number,
+  height: number,
+  peak: number = 255,
+): number {
+  if (width < 1 || height < 1) {
+    throw new Error('Butteraugli needs a non-empty image')
+  }
+
+  // The model is not defined below 8x8, so small images are centered in
+  // an 8x8 area by repeating their edges and only their own pixels scored
+  const paddedWidth = Math.max(MIN_SIZE, width)
+  const paddedHeight = Math.max(MIN_SIZE, height)
+  const left = (paddedWidth - width) >> 1
+  const top = (paddedHeight - height) >> 1
+  const linearA = toLinearPlanes(a, width, height, paddedWidth, paddedHeight, left, top, peak)
+  const linearB = toLinearPlanes(b, width, height, paddedWidth, paddedHeight, left, top, peak)
+
+  const diffmap = computeDiffmap(linearA, linearB, paddedWidth, paddedHeight)
+  let distance = 0
+  for (let y = top; y < top + height; y++) {
+    for (let x = left; x < left + width; x++) {
+      distance = Math.max(distance, diffmap[y * paddedWidth + x])
+    }
+  }
+  return distance
+}
+
+/**
+ * Linear-light R, G and B planes on a 0-255 scale from sRGB samples,
+ * extended to the padded size by repeating the edges
+ */
+function toLinearPlanes(
+  data: Uint8Array | Uint16Array,
+  width: number,
+  height: number,
+  paddedWidth: number,
+  paddedHeight: number,
+  left: number,
+  top: number,
+  peak: number,
+): Float64Array[] {
+  const planes = [0, 1, 2].map(() => new Float64Array(paddedWidth * paddedHeight))
+  for (let y = 0; y < paddedHeight; y++) {
+    const sourceY = Math.min(height - 1, Math.max(0, y - top))
+    for (let x = 0; x < paddedWidth; x++) {
+      const sourceX = Math.min(width - 1, Math.max(0, x - left))
+      for (let c = 0; c < 3; c++) {
+        const v = data[(sourceY * width + sourceX) * 4 + c] / peak
+        planes[c][y * paddedWidth + x] = 255 * (v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4)
+      }
+    }
+  }
+  return planes
+}
+
+function computeDiffmap(rgbA: Float64Array[], rgbB: Float64Array[], width: number, height: number): Float64Array {
+  const pi0 = separateFrequencies(opsinDynamics(rgbA, width, height), width, height)
+  const pi1 = separateFrequencies(opsinDynamics(rgbB, width, height), width, height)
+  const size = width * height
+  const ac = [0, 1, 2].map(() => new Float64Array(size))
+  const dc = [0, 1, 2].map(() => new Float64Array(size))
+
+  addMaltaDiff(pi0.uhf[1], pi1.uhf[1], 1.37246434724, ac[1], width, height)
+  addMaltaDiff(pi0.uhf[0], pi1.uhf[0], 2.22301383652, ac[0], width, height)
+  addMaltaDiff(pi0.hf[1], pi1.hf[1], 10.7925139357, ac[1], width, height)
+  addMaltaDiff(pi0.hf[0], pi1.hf[0], 164.899610068, ac[0], width, height)
+  addMaltaDiff(pi0.mf[0], pi1.mf[0], 46.2757637244, ac[0], width, height)
+
+  const noiseClamp = 30.0946403403
+  addNoiseLevelDiff(pi0.hf[1], pi1.hf[1], 0, 0, 9.67477693518, 79.5154856641, noiseClamp, ac[1], width, height)
+  for (const [dx, dy] of [[1, 0], [0, 1], [1, 1], [-1, 1]]) {
+    addNoiseLevelDiff(pi0.hf[1], pi1.hf[1], dx, dy, 8.47017380014, 74.1571576582, noiseClamp, ac[1], width, height)
+  }
+
+  addNormDiff(pi0.hf[1], pi1.hf[1], 6.41600396696, 2, ac[1])
+  addNormDiff(pi0.mf[1], pi1.mf[1], 7.04885534151, 1, ac[1])
+  addNormDiff(pi0.mf[2], pi1.mf[2], 14.8131395219, 2, ac[2])
+  addNormDiff(pi0.lf[0], pi1.lf[0], 0.908141790141, 2, dc[0])
+  addNormDiff(pi0.lf[1], pi1.lf[1], 5.58430520339, 2, dc[1])
+  addNormDiff(pi0.lf[2], pi1.lf[2], 1.77583623158, 2, dc[2])
+
+  const { ac: acMask, dc: dcMask } = computeMasks(pi0, pi1, width, height)
+  const combined = new Float64Array(size)
+  for (let i = 0; i < size; i++) {
+    for (let c = 0; c < 3; c++) {
+      combined[i] += dc[c][i] * dcMask[c][i] + ac[c][i] * acMask[c][i]
+    }
+  }
+
+  // Take the square root, then spread each error over its neighbours so
+  // that clusters of errors weigh more than lone ones
+  const diffmap = combined.map(v => v < 1e-4 ? 100 * v : Math.sqrt(v))
+  const spreadWeight = 0.537065242152
+  const spread = blur(diffmap, width, height, 1.63788154557, 1)
+  for (let i = 0; i < size; i++) {
+    diffmap[i] = (diffmap[i] + spreadWeight * spread[i]) / (1 + spreadWeight)
+  }
+  return diffmap
+}
+
+/**
+ * XYB planes modelling the retina's response to linear RGB: the photopsin
+ * absorbances are gamma compressed with a sensitivity taken from the
+ * blurred image, then mixed into red-green, yellow and blue
+ */
+function opsinDynamics(rgb: Float64Array[], width: number, height: number): Float64Array[] {
+  const blurred = rgb.map(plane => blur(plane, width, height, 1.2744543709, 0))
+  const xyb = [0, 1, 2].map(() => new Float64Array(width * height))
+  for (let i = 0; i < width * height; i++) {
+    const pre = opsinAbsorbance(blurred[0][i], blurred[1][i], blurred[2][i])
+    const cur = opsinAbsorbance(rgb[0][i], rgb[1][i], rgb[2][i])
+    for (let c = 0; c < 3; c++) {
+      cur[c] *= gamma(pre[c]) / pre[c]
+    }
+    xyb[0][i] = cur[0] - cur[1]
+    xyb[1][i] = cur[0] + cur[1]
+    xyb[2][i] = cur[2]
+  }
+  return xyb
+}
+
+function opsinAbsorbance(r: number, g: number, b: number): [number, number, number] {
+  return [
+    0.262805861774 * r + 0.447726163795 * g + 0.0669350599301 * b + 0.70582780208,
+    0.242970172936 * r + 0.557086443066 * g + 0.0669350599301 * b + 0.70582780208,
+    0.443262270088 * r + 1.22484933589 * g + 0.610100334382 * b + 5.95035078154,
+  ]
+}
+
+/** Compresses a photopsin absorbance, flattening further past each knee */
+function gamma(v: number): number {
+  const knees: [number, number][] = [
+    [37.614164142, 0.0658865383731],
+    [72.8505938033, 0.01],
+    [82.8505938033, 0.047444663566],
+    [92.8505938033, 0.208844763252],
+    [102.8505938033, 0.0414717987115],
+    [112.8505938033, 0.0214717987115],
+  ]
+  for (const [limit, slope] of knees) {
+    if (v >= limit) {
+      v -= (v - limit) * slope
+    }
+  }
+  return 10.5938485402 * (0.0286580002175 + v ** 0.376530479761)
+}
+
+/**
+ * Split XYB planes into low, medium, high and ultra high frequency bands
+ * with differences of Gaussians, and bring each band to the scale its
+ * differences are compared at
+ */
+function separateFrequencies(xyb: Float64Array[], width: number, height: number): PsychoImage {
+  const sigmaLf = 7.549782202
+  const size = width * height
+  const ps: PsychoImage = { lf: [], mf: [], hf: [], uhf: [] }
+  for (let c = 0; c < 3; c++) {
+    const lf = dogBlur(xyb[c], width, height, sigmaLf)
+    const rest = xyb[c].map((v, i) => v - lf[i])
+    const mf = dogBlur(rest, width, height, sigmaLf / 2)
+    const hfAndUhf = rest.map((v, i) => v - mf[i])
+    const hf = dogBlur(hfAndUhf, width, height, sigmaLf / 4)
+    ps.lf.push(lf)
+    ps.mf.push(mf)
+    ps.hf.push(hf)
+    ps.uhf.push(hfAndUhf.map((v, i) => v - hf[i]))
+  }
+
+  // Around zero, X and Y are removed from the bands with a positive width
+  // and amplified in those with a negative one
+  modifyRangeAroundZero(ps.uhf, [-0.112117785772, -4.858045964])
+  modifyRangeAroundZero(ps.hf, [0.0323432253707, -0.0533891565408])
+  modifyRangeAroundZero(ps.mf, [0.0181347124804, -0.126105706599])
+
+  for (let i = 0; i < size; i++) {
+    const y = ps.lf[1][i]
+    ps.lf[0][i] *= 5.63685258788
+    ps.lf[1][i] = y * 4.56968499978
+    ps.lf[2][i] = (ps.lf[2][i] - 0.634288116438 * y) * 11.3187123616
+  }
+
+  // Red-green differences are less visible next to intensity changes, and
+  // the strongest of them and of the intensity changes saturate
+  for (let i = 0; i < size; i++) {
+    ps.uhf[0][i] = clampMaximum(suppressByIntensity(ps.uhf[0][i], 0.0123070791057 * ps.uhf[1][i]), 0.764101528619)
+    ps.hf[0][i] = clampMaximum(suppressByIntensity(ps.hf[0][i], 28.0842005311 * ps.hf[1][i]), 2.63290517726)
+    ps.uhf[1][i] = clampMaximum(ps.uhf[1][i], 54.4858042922)
+    ps.hf[1][i] = clampMaximum(ps.hf[1][i], 41.3578204305)
+
+    // High frequencies matter less in bright areas
+    const brightness = 1.10176291616 * 6112.7191868 / (6112.7191868 + ps.lf[1][i])
+    ps.hf[1][i] *= brightness
+    ps.uhf[1][i] *= brightness
+    ps.mf[1][i] *= brightness
+  }
+  return ps
+}
+
+function modifyRangeAroundZero(planes: Float64Array[], widths: [number, number]): void {
+  for (let c = 0; c < 2; c++) {
+    const w = Math.abs(widths[c])
+    const plane = planes[c]
+    for (let i = 0; i < plane.length; i++) {
+      const v = plane[i]
+      plane[i] = widths[c] >= 0
+        ? (v > w ? v - w : v < -w ? v + w : 0)
+        : (v > w ? v + w : v < -w ? v - w : 2 * v)
+    }
+  }
+}
+
+function suppressByIntensity(x: number, y: number): number {
+  const yw = 14.7257226847
+  const s = 0.536690340523
+  return x * (s + yw * (1 - s) / (yw + y * y))
+}
+
+/** Compresses the part of `v` beyond +-`limit` to 70% */
+function clampMaximum(v: number, limit: number): number {
+  if (v >= limit) {
+    return (v - limit) * 0.7 + limit
+  }
+  if (v < -limit) {
+    return (v + limit) * 0.7 - limit
+  }
+  return v
+}
+
+/**
+ * Add the Malta difference of two planes to `diff`: the squared sums of
+ * the scaled differences along short lines in every direction, so that
+ * errors lining up into edges weigh more than scattered ones
+ */
+function addMaltaDiff(
+  plane0: Float64Array,
+  plane1: Float64Array,
+  weight: number,
+  diff: Float64Array,
+  width: number,
+  height: number,
+): void {
+  const norm1 = 500
+  const norm2 = 0.414348163394 * Math.sqrt(weight) / 8.5 * norm1
+
+  // The differences sit in a 4 pixel zero border so every line stays inside
+  const stride = width + 8
+  const diffs = new Float64Array(stride * (height + 8))
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const absval = 0.5 * (Math.abs(plane0[i]) + Math.abs(plane1[i]))
+      diffs[(y + 4) * stride + x + 4] = norm2 / (norm1 + absval) * (plane0[i] - plane1[i])
+    }
+  }
+
+  const lines = MALTA_LINES.map(line => line.map(([dx, dy]) => dy * stride + dx))
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const center = (y + 4) * stride + x + 4
+      let total = 0
+      for (let l = 0; l < lines.length; l++) {
+        let sum = 0
+        for (const offset of lines[l]) {
+          sum += diffs[center + offset]
+        }
+        total += sum * sum
+        if (l < 2) {
+          const shift = l === 0 ? stride : 1
+          let parallel = 0
+          for (const offset of lines[l]) {
+            parallel += diffs[center + offset + shift]
+          }
+          total += MALTA_EDGE_WEIGHT * (sum - parallel) ** 2
+        }
+      }
+      diff[y * width + x] += total
+    }
+  }
+}
+
+/**
+ * Add the weighted squared difference of the blurred noise levels of two
+ * planes to `diff`. The noise is the clamped magnitude of the samples, or
+ * with `dx`/`dy` set of their difference to the neighbour that far back,
+ * the first row or column borrowing a quarter of the next one's.
+ */
+function addNoiseLevelDiff(
+  plane0: Float64Array,
+  plane1: Float64Array,
+  dx: number,
+  dy: number,
+  sigma: number,
+  weight: number,
+  maxClamp: number,
+  diff: Float64Array,
+  width: number,
+  height: number,
+): void {
+  const noise = (plane: Float64Array) => {
+    const out = new Float64Array(plane.length)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const nx = x - dx
+        const ny = y - dy
+        if (nx >= 0 && nx < width && ny >= 0) {
+          const v = plane[y * width + x] - (dx || dy ? plane[ny * width + nx] : 0)
+          out[y * width + x] = Math.min(Math.abs(v), maxClamp)
+        }
+      }
+      if (dx === 1) {
+        out[y * width] = 0.25 * out[y * width + 1]
+      }
+      else if (dx === -1) {
+        out[y * width + width - 1] = 0.25 * out[y * width + width - 2]
+      }
+    }
+    if (dy === 1) {
+      for (let x = 0; x < width; x++) {
+        out[x] = 0.25 * out[width + x]
+      }
+    }
+    return blur(out, width, height, sigma, 0)
+  }
+
+  const noise0 = noise(plane0)
+  const noise1 = noise(plane1)
+  for (let i = 0; i < diff.length; i++) {
+    diff[i] += weight * (noise0[i] - noise1[i]) ** 2
+  }
+}
+
+/** Add the weighted L1 (`norm` 1) or squared difference of two planes to `diff` */
+function addNormDiff(plane0: Float64Array, plane1: Float64Array, weight: number, norm: 1 | 2, diff: Float64Array): void {
+  for (let i = 0; i < diff.length; i++) {
+    const d = Math.abs(plane0[i] - plane1[i])
+    diff[i] += weight * (norm === 1 ? d : d * d)
+  }
+}
+
+/**
+ * Visual masking of the AC and DC differences: the weights each channel's
+ * differences are scaled by, falling where either image is busy
+ */
+function computeMasks(
+  pi0: PsychoImage,
+  pi1: PsychoImage,
+  width: number,
+  height: number,
+): { ac: Float64Array[], dc: Float64Array[] } {
+  const tables = getMaskTables()
+  const size = width * height
+  const bandWeights = [[-2.60009303e-06, 1.37122152964], [0.925101999009, 2.47562554208]]
+  const blurWeights = [[0.05, 0.125412266532], [0.231880902493, 0.881236099962]]
+
+  const activity = [0, 1].map((c) => {
+    const [uhfWeight, hfWeight] = bandWeights[c]
+    const image0 = pi0.hf[c].map((v, i) => uhfWeight * pi0.uhf[c][i] + hfWeight * v)
+    const image1 = pi1.hf[c].map((v, i) => uhfWeight * pi1.uhf[c][i] + hfWeight * v)
+    const contrast = localContrast(image0, image1, width, height)
+    const near = blur(contrast, width, height, 2.393872, 0)
+    const far = blur(contrast, width, height, 7.224576, 0)
+    const [nearWeight, farWeight] = blurWeights[c]
+    return near.map((v, i) => (nearWeight * v + farWeight * far[i]) / (nearWeight + farWeight))
+  })
+
+  const ac = [0, 1, 2].map(() => new Float64Array(size))
+  const dc = [0, 1, 2].map(() => new Float64Array(size))
+  for (let i = 0; i < size; i++) {
+    const p1 = 2.31907764902 * 2.66005251922 * activity[1][i]
+    const p0 = 12.5378252408 * 7.32559473935 * activity[0][i] + 0.0164295294749 * p1
+    ac[0][i] = interpolate(tables.x, p0)
+    ac[1][i] = interpolate(tables.y, p1)
+    ac[2][i] = 0.55139276475 * ac[1][i]
+    dc[0][i] = interpolate(tables.dcX, p0)
+    dc[1][i] = interpolate(tables.dcY, p1)
+    dc[2][i] = 8.95249364992 * dc[1][i]
+  }
+  return { ac, dc }
+}
+
+/**
+ * Scaled and capped gradient magnitude of whichever of two planes is
+ * smoother at each pixel
+ */
+function localContrast(plane0: Float64Array, plane1: Float64Array, width: number, height: number): Float64Array {
+  const out = new Float64Array(width * height)
+  for (let y = 0; y < height; y++) {
+    const y2 = y + 1 < height ? y + 1 : Math.max(0, y - 1)
+    for (let x = 0; x < width; x++) {
+      const x2 = x + 1 < width ? x + 1 : Math.max(0, x - 1)
+      const i = y * width + x
+      const gradient = (plane: Float64Array) =>
+        Math.abs(plane[i] - plane[y * width + x2]) + Math.abs(plane[i] - plane[y2 * width + x])
+      out[i] = Math.min(0.975265057546 * Math.min(gradient(plane0), gradient(plane1)), 122.088759397)
+    }
+  }
+  return out
+}
+
+function getMaskTables(): NonNullable<typeof maskTables> {
+  maskTables ??= {
+    x: createMaskTable(2.34519597358, 1.76706832899, 6.11337930116, 0.36000980903, 14.5339183386),
+    y: createMaskTable(0.973432315281, -0.56621175456, 7.24741735412, 1.40865158018, 1.01481280596),
+    dcX: createMaskTable(13.0432939015, 0.585668980608, 4.72871406401, 0.864712378003, 519.45682322),
+    dcY: createMaskTable(0.00565175099786, 59.04237604, 22.7326511523, 0.0527942789965, 7.2478540673),
+  }
+  return maskTables
+}
+
+/** Squared masking weights, falling with the activity measured at each entry */
+function createMaskTable(extMul: number, extOffset: number, mul: number, offset: number, scaler: number): Float64Array {
+  const table = new Float64Array(512)
+  for (let i = 0; i < table.length; i++) {
+    const c = mul / (0.01 * scaler * i + offset)
+    const v = Math.max(1e-5, GLOBAL_SCALE * (1 + extMul * (c + extOffset)))
+    table[i] = v * v
+  }
+  return table
+}
+
+/** Linear interpolation into `table`, clamped to its ends */
+function interpolate(table: Float64Array, index: number): number {
+  const clamped = Math.max(0, index)
+  const base = Math.floor(clamped)
+  if (base >= table.length - 1) {
+    return table[table.length - 1]
+  }
+  return table[base] + (clamped - base) * (table[base + 1] - table[base])
+}
+
+/** Difference of Gaussians, approximating a Laplacian of Gaussian */
+function dogBlur(plane: Float64Array, width: number, height: number, sigma: number): Float64Array {
+  const narrow = blur(plane, width, height, sigma, 0)
+  const wide = blur(plane, width, height, 2 * sigma, 0)
+  return narrow.map((v, i) => 1.5 * v - 0.5 * wide[i])
+}
+
+/**
+ * Separable Gaussian blur. Near the edges the kernel is renormalized to
+ * the taps inside the image, scaled towards the full kernel's weight by
+ * `borderRatio` (0 keeps edges at full brightness, 1 darkens them).
+ */
+function blur(plane: Float64Array, width: number, height: number, sigma: number, borderRatio: number): Float64Array {
+  const radius = Math.max(1, Math.floor(2.25 * sigma))
+  const kernel = new Float64Array(2 * radius + 1)
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-i * i / (2 * sigma * sigma))
+  }
+  const rows = convolve(plane, width, height, 1, width, kernel, borderRatio)
+  return convolve(rows, height, width, width, 1, kernel, borderRatio)
+}
+
+/**
+ * Convolve each of `lines` lines of `length` samples, `step` apart within
+ * a line and `lineStep` apart between lines
+ */
+function convolve(
+  plane: Float64Array,
+  length: number,
+  lines: number,
+  step: number,
+  lineStep: number,
+  kernel: Float64Array,
+  borderRatio: number,
+): Float64Array {
+  const radius = kernel.length >> 1
+  const kernelSum = kernel.reduce((sum, v) => sum + v, 0)
+  const out = new Float64Array(plane.length)
+  for (let p = 0; p < length; p++) {
+    const first = Math.max(0, p - radius)
+    const last = Math.min(length - 1, p + radius)
+    let weight = 0
+    for (let q = first; q <= last; q++) {
+      weight += kernel[q - p + radius]
+    }
+    const scale = 1 / ((1 - borderRatio) * weight + borderRatio * kernelSum)
+    for (let line = 0; line < lines; line++) {
+      const base = line * lineStep
+      let sum = 0
+      for (let q = first; q <= last; q++) {
+        sum += plane[base + q * step] * kernel[q - p + radius]
+      }
+      out[base + p * step] = sum * scale
+    }
+  }
+  return out
+}
@@ -0,0 +1,396 @@
+import type { AvifDecodeOptions, AvifImageData, AvifYuvImageData, ColorDescription } from './types'
+
+// CICP matrix coefficients (ISO/IEC 23091-2)
+const MC_IDENTITY = 0
+const MC_BT_709 = 1
+const MC_FCC = 4
+const MC_BT_470_B_G = 5
+const MC_BT_601 = 6
+const MC_SMPTE_240 = 7
+const MC_YCGCO = 8
+const MC_BT_2020_NCL = 9
+const MC_BT_2020_CL = 10
+const MC_CHROMAT_NCL = 12
+const MC_CHROMAT_CL = 13
+
+const CP_BT_709 = 1
+const CSP_VERTICAL = 1
+const CSP_COLOCATED = 2
+
+/** [Kr, Kb] luma weights of the Y'CbCr matrices */
+const LUMA_WEIGHTS: Record<number, [number, number]> = {
+  [MC_BT_709]: [0.2126, 0.0722],
+  [MC_FCC]: [0.30, 0.11],
+  [MC_BT_470_B_G]: [0.299, 0.114],
+  [MC_BT_601]: [0.299, 0.114],
+  [MC_SMPTE_240]: [0.212, 0.087],
+  [MC_BT_2020_NCL]: [0.2627, 0.0593],
+  [MC_BT_2020_CL]: [0.2627, 0.0593],
+}
+
+/** Chromaticities [xr, yr, xg, yg, xb, yb, xw, yw] of the CICP color primaries */
+const PRIMARIES: Record<number, number[]> = {
+  1: [0.64, 0.33, 0.30, 0.60, 0.15, 0.06, 0.3127, 0.3290],
+  4: [0.67, 0.33, 0.21, 0.71, 0.14, 0.08, 0.310, 0.316],
+  5: [0.64, 0.33, 0.29, 0.60, 0.15, 0.06, 0.3127, 0.3290],
+  6: [0.630, 0.340, 0.310, 0.595, 0.155, 0.070, 0.3127, 0.3290],
+  7: [0.630, 0.340, 0.310, 0.595, 0.155, 0.070, 0.3127, 0.3290],
+  8: [0.681, 0.319, 0.243, 0.692, 0.145, 0.049, 0.310, 0.316],
+  9: [0.708, 0.292, 0.170, 0.797, 0.131, 0.046, 0.3127, 0.3290],
+  10: [1, 0, 0, 1, 0, 0, 1 / 3, 1 / 3],
+  11: [0.680, 0.320, 0.265, 0.690, 0.150, 0.060, 0.314, 0.351],
+  12: [0.680, 0.320, 0.265, 0.690, 0.150, 0.060, 0.3127, 0.3290],
+  22: [0.630, 0.340, 0.295, 0.605, 0.155, 0.077, 0.3127, 0.3290],
+}
+
+/** 8x8 Bayer matrix of the ordered dither */
+const BAYER_8X8 = [
+  0, 32, 8, 40, 2, 34, 10, 42,
+  48, 16, 56, 24, 50, 18, 58, 26,
+  12, 44, 4, 36, 14, 46, 6, 38,
+  60, 28, 52, 20, 62, 30, 54, 22,
+  3, 35, 11, 43, 1, 33, 9, 41,
+  51, 19, 59, 27, 49, 17, 57, 25,
+  15, 47, 7, 39, 13, 45, 5, 37,
+  63, 31, 55, 23, 61, 29, 53, 21,
+]
+
+type DitherMode = NonNullable<AvifDecodeOptions['dither']>
+
+/**
+ * Convert decoded planes to RGBA, following the CICP matrix coefficients and
+ * range of `image.color`. Subsampled chroma is upsampled bilinearly from the
+ * sample positions given by `chromaSamplePosition`. Matrices without a
+ * conversion here (unspecified, SMPTE 2085, ICtCp) are treated as BT.601, and
+ * monochrome images come out gray.
+ *
+ * Samples are written as 8-bit values, or as full-range 16-bit values when
+ * `outputDepth` is 16. The reduction to 8 bits rounds, or dithers when asked.
+ */
+export function yuvToRgba(
+  image: AvifYuvImageData,
+  options: Pick<AvifDecodeOptions, 'outputDepth' | 'dither'> = {},
+): Uint8Array | Uint16Array {
+  const { planes, strides, width, height } = image
+  const { outputDepth = 8, dither = 'none' } = options
+  const convert = createConverter(image)
+  const quantizer = new Quantizer(width, outputDepth, dither)
+  const opaque = outputDepth === 16 ? 0xFFFF : 0xFF
+  const rgba = outputDepth === 16 ? new Uint16Array(width * height * 4) : new Uint8Array(width * height * 4)
+  const rgb = new Float64Array(3)
+  const u = new Float64Array(width)
+  const v = new Float64Array(width)
+  const monochrome = planes.length === 1
+  // Chroma of unknown position is taken to be centered between luma samples
+  const csp = image.chromaSamplePosition
+  const cols = monochrome ? null : chromaTaps(width, image.subsamplingX, csp === CSP_VERTICAL || csp === CSP_COLOCATED)
+  const rows = monochrome ? null : chromaTaps(height, image.subsamplingY, csp === CSP_COLOCATED)
+
+  for (let y = 0; y < height; y++) {
+    if (cols && rows) {
+      upsampleRow(planes[1], strides[1], cols, rows, y, u)
+      upsampleRow(planes[2], strides[2], cols, rows, y, v)
+    }
+    const row = y * strides[0]
+    for (let x = 0; x < width; x++) {
+      convert(planes[0][row + x], u[x], v[x], rgb)
+      const o = (y * width + x) * 4
+      rgba[o] = quantizer.quantize(x, 0, rgb[0])
+      rgba[o + 1] = quantizer.quantize(x, 1, rgb[1])
+      rgba[o + 2] = quantizer.quantize(x, 2, rgb[2])
+      rgba[o + 3] = opaque
+    }
+    quantizer.nextRow()
+  }
+
+  return rgba
+}
+
+/**
+ * The depth an image is encoded at: `imageData.bitDepth`, or 12 for 16-bit
+ * (`Uint16Array`) samples and 8 otherwise
+ */
+export function getEncodeBitDepth(imageData: AvifImageData): 8 | 10 | 12 {
+  return imageData.bitDepth ?? (imageData.data instanceof Uint16Array ? 12 : 8)
+}
+
+/**
+ * Convert 8-bit or 16-bit RGBA to planes of `bitDepth` for encoding, the
+ * inverse of `yuvToRgba()` for the identity matrix and the Y'CbCr matrices
+ * with fixed luma weights. Subsampled chroma is the average of the pixels
+ * each sample covers, which centers it as an unknown chroma sample position
+ * implies. The identity matrix (GBR: Y = G, U = B, V = R) needs 4:4:4 and
+ * is lossless at full range when the input has no more bits than the
+ * planes; alpha is dropped.
+ */
+export function rgbaToYuv(
+  data: Uint8Array | Uint16Array,
+  width: number,
+  height: number,
+  color: ColorDescription,
+  chromaSubsampling: '4:2:0' | '4:2:2' | '4:4:4' = '4:4:4',
+  bitDepth: 8 | 10 | 12 = 8,
+): AvifYuvImageData {
+  const mc = color.matrixCoefficients
+  const identity = mc === MC_IDENTITY
+  if (identity ? chromaSubsampling !== '4:4:4' : LUMA_WEIGHTS[mc] === undefined || mc === MC_BT_2020_CL) {
+    throw new Error(`Conversion to matrix coefficients ${mc} with ${chromaSubsampling} is not supported`)
+  }
+
+  const subX = chromaSubsampling === '4:4:4' ? 0 : 1
+  const subY = chromaSubsampling === '4:2:0' ? 1 : 0
+  const chromaWidth = (width + subX) >> subX
+  const chromaHeight = (height + subY) >> subY
+  const inputMax = data instanceof Uint16Array ? 0xFFFF : 0xFF
+  const max = (1 << bitDepth) - 1
+  const shift = bitDepth - 8
+  const lumaOffset = color.fullRange ? 0 : 16 << shift
+  const lumaRange = color.fullRange ? max : 219 << shift
+  const chromaRange = color.fullRange ? max : 224 << shift
+  const chromaCenter = 1 << (bitDepth - 1)
+  const luma = (v: number): number => Math.round(lumaOffset + lumaRange * v)
+  const chroma = (c: number): number => Math.max(0, Math.min(max, Math.round(chromaCenter + chromaRange * c)))
+  const planes = [new Uint16Array(width * height), new Uint16Array(chromaWidth * chromaHeight), new Uint16Array(chromaWidth * chromaHeight)]
+
+  if (identity) {
+    for (let i = 0; i < width * height; i++) {
+      planes[0][i] = luma(data[i * 4 + 1] / inputMax)
+      planes[1][i] = luma(data[i * 4 + 2] / inputMax)
+      planes[2][i] = luma(data[i * 4] / inputMax)
+    }
+  }
+  else {
+    const [kr, kb] = LUMA_WEIGHTS[mc]
+    const kg = 1 - kr - kb
+    const cb = new Float64Array(chromaWidth * chromaHeight)
+    const cr = new Float64Array(chromaWidth * chromaHeight)
+    const counts = new Uint8Array(chromaWidth * chromaHeight)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const o = (y * width + x) * 4
+        const r = data[o] / inputMax
+        const g = data[o + 1] / inputMax
+        const b = data[o + 2] / inputMax
+        const yy = kr * r + kg * g + kb * b
+        planes[0][y * width + x] = luma(yy)
+        const c = (y >> subY) * chromaWidth + (x >> subX)
+        cb[c] += (b - yy) / (2 * (1 - kb))
+        cr[c] += (r - yy) / (2 * (1 - kr))
+        counts[c]++
+      }
+    }
+    for (let i = 0; i < cb.length; i++) {
+      planes[1][i] = chroma(cb[i] / counts[i])
+      planes[2][i] = chroma(cr[i] / counts[i])
+    }
+  }
+
+  return {
+    planes,
+    strides: [width, chromaWidth, chromaWidth],
+    width,
+    height,
+    bitDepth,
+    subsamplingX: subX,
+    subsamplingY: subY,
+    chromaSamplePosition: 0,
+    color,
+  }
+}
+
+/**
+ * Reduces normalized samples to integers of the output depth, row by row.
+ * Error diffusion spreads each rounding error Floyd-Steinberg style over the
+ * following samples of the row and the row below.
+ */
+class Quantizer {
+  private y = 0
+  // Accumulated error per channel, with a spare column on either side
+  private errors: Float64Array
+  private nextErrors: Float64Array
+
+  constructor(width: number, private readonly outputDepth: 8 | 16, private readonly dither: DitherMode) {
+    this.errors = new Float64Array((width + 2) * 3)
+    this.nextErrors = new Float64Array((width + 2) * 3)
+  }
+
+  quantize(x: number, channel: number, v: number): number {
+    const clamped = v <= 0 ? 0 : v >= 1 ? 1 : v
+    if (this.outputDepth === 16)
+      return Math.round(clamped * 0xFFFF)
+
+    const target = clamped * 255
+    if (this.dither === 'ordered')
+      return Math.min(255, Math.floor(target + (BAYER_8X8[(this.y & 7) * 8 + (x & 7)] + 0.5) / 64))
+    if (this.dither !== 'error-diffusion')
+      return Math.round(target)
+
+    const i = (x + 1) * 3 + channel
+    const wanted = Math.max(0, Math.min(255, target + this.errors[i]))
+    const q = Math.round(wanted)
+    const error = wanted - q
+    this.errors[i + 3] += error * 7 / 16
+    this.nextErrors[i - 3] += error * 3 / 16
+    this.nextErrors[i] += error * 5 / 16
+    this.nextErrors[i + 3] += error / 16
+    return q
+  }
+
+  nextRow(): void {
+    this.y++
+    const errors = this.errors
+    this.errors = this.nextErrors
+    this.nextErrors = errors.fill(0)
+  }
+}
+
+/**
+ * Bilinear taps from plane positions to chroma positions: for every output
+ * position, the two chroma samples it lies between and the weight of the
+ * second one. Sited chroma sits on the even luma positions, otherwise it
+ * sits halfway between two luma samples.
+ */
+function chromaTaps(length: number, subsampling: number, sited: boolean): { first: Int32Array, second: Int32Array, weight: Float64Array } {
+  const chromaLength = (length + subsampling) >> subsampling
+  const first = new Int32Array(length)
+  const second = new Int32Array(length)
+  const weight = new Float64Array(length)
+
+  for (let i = 0; i < length; i++) {
+    const pos = subsampling ? (sited ? i : i - 0.5) / 2 : i
+    const base = Math.floor(pos)
+    first[i] = Math.max(0, Math.min(chromaLength - 1, base))
+    second[i] = Math.max(0, Math.min(chromaLength - 1, base + 1))
+    weight[i] = pos - base
+  }
+
+  return { first, second, weight }
+}
+
+function upsampleRow(
+  plane: Uint16Array,
+  stride: number,
+  cols: ReturnType<typeof chromaTaps>,
+  rows: ReturnType<typeof chromaTaps>,
+  y: number,
+  out: Float64Array,
+): void {
+  const top = rows.first[y] * stride
+  const bottom = rows.second[y] * stride
+  const wy = rows.weight[y]
+  for (let x = 0; x < out.length; x++) {
+    const x0 = cols.first[x]
+    const x1 = cols.second[x]
+    const wx = cols.weight[x]
+    const upper = plane[top + x0] + (plane[top + x1] - plane[top + x0]) * wx
+    const lower = plane[bottom + x0] + (plane[bottom + x1] - plane[bottom + x0]) * wx
+    out[x] = upper + (lower - upper) * wy
+  }
+}
+
+/**
+ * Build the per-pixel conversion from (Y, U, V) sample values to nonlinear
+ * RGB in [0, 1]
+ */
+function createConverter(image: AvifYuvImageData): (y: number, u: number, v: number, rgb: Float64Array) => void {
+  const { bitDepth, color } = image
+  const max = (1 << bitDepth) - 1
+  const shift = bitDepth - 8
+  // Luma (and identity matrix) samples map [lumaOffset, lumaOffset + lumaRange]
+  // to [0, 1]; chroma samples map [-chromaRange / 2, chromaRange / 2] around
+  // the center to [-0.5, 0.5]
+  const lumaOffset = color.fullRange ? 0 : 16 << shift
+  const lumaRange = color.fullRange ? max : 219 << shift
+  const chromaRange = color.fullRange ? max : 224 << shift
+  const chromaCenter = 1 << (bitDepth - 1)
+  const luma = (s: number): number => (s - lumaOffset) / lumaRange
+  const chroma = (s: number): number => (s - chromaCenter) / chromaRange
+
+  if (image.planes.length === 1) {
+    return (y, _u, _v, rgb) => {
+      rgb[0] = rgb[1] = rgb[2] = luma(y)
+    }
+  }
+
+  const mc = color.matrixCoefficients
+  if (mc === MC_IDENTITY) {
+    return (y, u, v, rgb) => {
+      rgb[0] = luma(v)
+      rgb[1] = luma(y)
+      rgb[2] = luma(u)
+    }
+  }
+
+  if (mc === MC_YCGCO) {
+    return (y, u, v, rgb) => {
+      const yy = luma(y)
+      const cg = chroma(u)
+      const co = chroma(v)
+      const t = yy - cg
+      rgb[0] = t + co
+      rgb[1] = yy + cg
+      rgb[2] = t - co
+    }
+  }
+
+  const [kr, kb] = mc === MC_CHROMAT_NCL || mc === MC_CHROMAT_CL
+    ? chromaticityLumaWeights(color.colorPrimaries)
+    : LUMA_WEIGHTS[mc] ?? LUMA_WEIGHTS[MC_BT_601]
+  const kg = 1 - kr - kb
+
+  if (mc === MC_BT_2020_CL || mc === MC_CHROMAT_CL) {
+    // Constant luminance: the color differences are scaled separately for
+    // negative and positive values, and green is recovered in linear light
+    const pb = 1 - oetf(kb)
+    const nb = oetf(1 - kb)
+    const pr = 1 - oetf(kr)
+    const nr = oetf(1 - kr)
+    return (y, u, v, rgb) => {
+      const yy = luma(y)
+      const cb = chroma(u)
+      const cr = chroma(v)
+      const b = yy + 2 * cb * (cb <= 0 ? nb : pb)
+      const r = yy + 2 * cr * (cr <= 0 ? nr : pr)
+      const linearG = (inverseOetf(yy) - kr * inverseOetf(r) - kb * inverseOetf(b)) / kg
+      rgb[0] = r
+      rgb[1] = oetf(Math.max(0, Math.min(1, linearG)))
+      rgb[2] = b
+    }
+  }
+
+  return (y, u, v, rgb) => {
+    const yy = luma(y)
+    const cb = chroma(u)
+    const cr = chroma(v)
+    const r = yy + 2 * (1 - kr) * cr
+    const b = yy + 2 * (1 - kb) * cb
+    rgb[0] = r
+    rgb[1] = (yy - kr * r - kb * b) / kg
+    rgb[2] = b
+  }
+}
+
+/**
+ * Kr and Kb derived from the chromaticities of the color primaries, for the
+ * chromaticity-derived matrices (BT.709 primaries when unknown)
+ */
+function chromaticityLumaWeights(colorPrimaries: number): [number, number] {
+  const [xr, yr, xg, yg, xb, yb, xw, yw] = PRIMARIES[colorPrimaries] ?? PRIMARIES[CP_BT_709]
+  const zr = 1 - xr - yr
+  const zg = 1 - xg - yg
+  const zb = 1 - xb - yb
+  const zw = 1 - xw - yw
+  const denominator = yw * (xr * (yg * zb - yb * zg) + xg * (yb * zr - yr * zb) + xb * (yr * zg - yg * zr))
+  const kr = yr * (xw * (yg * zb - yb * zg) + yw * (xb * zg - xg * zb) + zw * (xg * yb - xb * yg)) / denominator
+  const kb = yb * (xw * (yr * zg - yg * zr) + yw * (xg * zr - xr * zg) + zw * (xr * yg - xg * yr)) / denominator
+  return [kr, kb]
+}
+
+/** BT.709 / BT.2020 opto-electronic transfer function */
+function oetf(l: number): number {
+  return l < 0.018 ? 4.5 * l : 1.099 * l ** 0.45 - 0.099
+}
+
+function inverseOetf(v: number): number {
+  return v < 0.081 ? v / 4.5 : ((Math.max(v, 0) + 0.099) / 1.099) ** (1 / 0.45)
+}
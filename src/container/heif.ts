@@ -1,12 +1,30 @@
 import type {
+  Av1Metadata,
   AV1CodecConfig,
   AvifInfo,
+  ColorDescription,
+  ColorInformation,
   ImageSpatialExtent,
   ISOBMFFBox,
   ItemInfo,
   ItemLocation,
+  ItemPropertyAssociation,
+  ItemReference,
   PixelInformation,
 } from '../types'
+import { getAv1Metadata } from '../av1/metadata'
+
+// CICP code points that select a named color space
+const CP_BT_2020 = 9
+const CP_SMPTE_432 = 12
+const TC_SMPTE_2084 = 16
+const TC_HLG = 18
+
+// lsel layer_id that outputs all layers
+const LAYER_ALL = 0xFFFF
+
+/** aux_type of the auxC property of alpha items */
+export const ALPHA_AUX_TYPE = 'urn:mpeg:mpegB:cicp:systems:auxiliary:alpha'
 
 /**
  * Parse ISOBMFF (ISO Base Media File Format) boxes
@@ -357,6 +375,83 @@ function parseInfe(data: Uint8Array): ItemInfo {
   }
 }
 
+/**
+ * Parse item reference box (iref)
+ */
+export function parseIref(data: Uint8Array): ItemReference[] {
+  // version (1) + flags (3) + boxes...
+  const version = data[0]
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const entries: ItemReference[] = []
+  let offset = 4
+  while (offset + 8 <= data.length) {
+    const refSize = view.getUint32(offset)
+    const refType = String.fromCharCode(
+      data[offset + 4],
+      data[offset + 5],
+      data[offset + 6],
+      data[offset + 7],
+    )
+    let p = offset + 8
+    const fromId = version === 0 ? view.getUint16(p) : view.getUint32(p)
+    p += version === 0 ? 2 : 4
+    const refCount = view.getUint16(p)
+    p += 2
+    const toIds: number[] = []
+    for (let i = 0; i < refCount; i++) {
+      toIds.push(version === 0 ? view.getUint16(p) : view.getUint32(p))
+      p += version === 0 ? 2 : 4
+    }
+    entries.push({ type: refType, fromId, toIds })
+    offset += refSize
+  }
+  return entries
+}
+
+/**
+ * Parse item property association box (ipma)
+ */
+export function parseIpma(data: Uint8Array): ItemPropertyAssociation[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const version = data[0]
+  // flags bit 0: 15-bit property indices instead of 7-bit ones
+  const largeIndex = (data[3] & 0x01) === 1
+
+  const entryCount = view.getUint32(4)
+  const entries: ItemPropertyAssociation[] = []
+  let offset = 8
+  for (let i = 0; i < entryCount; i++) {
+    const itemId = version < 1 ? view.getUint16(offset) : view.getUint32(offset)
+    offset += version < 1 ? 2 : 4
+    const associationCount = data[offset++]
+
+    const associations: ItemPropertyAssociation['associations'] = []
+    for (let j = 0; j < associationCount; j++) {
+      if (largeIndex) {
+        const value = view.getUint16(offset)
+        associations.push({ index: value & 0x7FFF, essential: (value & 0x8000) !== 0 })
+        offset += 2
+      }
+      else {
+        associations.push({ index: data[offset] & 0x7F, essential: (data[offset] & 0x80) !== 0 })
+        offset++
+      }
+    }
+    entries.push({ itemId, associations })
+  }
+
+  return entries
+}
+
+/**
+ * Parse auxiliary type property (auxC): the URN of the auxiliary image type
+ */
+export function parseAuxC(data: Uint8Array): string {
+  // Skip version and flags; aux_type is null terminated
+  const end = data.indexOf(0, 4)
+  return new TextDecoder().decode(data.subarray(4, end === -1 ? data.length : end))
+}
+
 /**
  * Parse image spatial extent (ispe)
  */
@@ -410,9 +505,79 @@ export function parseAv1C(data: Uint8Array): AV1CodecConfig {
 }
 
 /**
- * Get AVIF info from parsed boxes
+ * Parse colour information (colr)
  */
-export function getAvifInfo(boxes: ISOBMFFBox[]): AvifInfo {
+export function parseColr(data: Uint8Array): ColorInformation {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const colorType = String.fromCharCode(data[0], data[1], data[2], data[3])
+
+  if (colorType === 'nclx') {
+    return {
+      colorType,
+      nclx: {
+        colorPrimaries: view.getUint16(4),
+        transferCharacteristics: view.getUint16(6),
+        matrixCoefficients: view.getUint16(8),
+        fullRange: (data[10] >> 7) === 1,
+      },
+    }
+  }
+
+  if (colorType === 'rICC' || colorType === 'prof') {
+    return { colorType, iccProfile: data.subarray(4) }
+  }
+
+  return { colorType }
+}
+
+/**
+ * Parse AV1 layered image indexing (a1lx): the byte sizes of layers 0-2.
+ * The last layer of the item takes the remaining bytes.
+ */
+export function parseA1lx(data: Uint8Array): number[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const largeSize = (data[0] & 0x01) === 1
+
+  const layerSizes: number[] = []
+  for (let i = 0; i < 3; i++) {
+    layerSizes.push(largeSize ? view.getUint32(1 + i * 4) : view.getUint16(1 + i * 2))
+  }
+
+  return layerSizes
+}
+
+/**
+ * Parse layer selection (lsel): the spatial layer to output, or 0xFFFF to
+ * output all layers
+ */
+export function parseLsel(data: Uint8Array): number {
+  return (data[0] << 8) | data[1]
+}
+
+/**
+ * Name of the color space described by CICP values (sRGB when unknown)
+ */
+function colorSpaceName(color: ColorDescription | undefined): string {
+  if (color?.transferCharacteristics === TC_SMPTE_2084) {
+    return 'rec2100-pq'
+  }
+  if (color?.transferCharacteristics === TC_HLG) {
+    return 'rec2100-hlg'
+  }
+  if (color?.colorPrimaries === CP_BT_2020) {
+    return 'rec2020'
+  }
+  if (color?.colorPrimaries === CP_SMPTE_432) {
+    return 'display-p3'
+  }
+  return 'srgb'
+}
+
+/**
+ * Get AVIF info from parsed boxes. AV1 metadata OBUs are read from the av1C
+ * configOBUs, and from the primary item when the file `buffer` is given.
+ */
+export function getAvifInfo(boxes: ISOBMFFBox[], buffer?: Uint8Array): AvifInfo {
   // Find meta box
   const metaBox = findBox(boxes, 'meta')
   if (!metaBox || !metaBox.children) {
@@ -454,7 +619,6 @@ export function getAvifInfo(boxes: ISOBMFFBox[]): AvifInfo {
 
   // Get codec config from av1C
   const av1cBox = findBox(ipcoBox.children, 'av1C')
-  const colorSpace = 'srgb'
 
   if (av1cBox) {
     const config = parseAv1C(av1cBox.data)
@@ -463,14 +627,44 @@ export function getAvifInfo(boxes: ISOBMFFBox[]): AvifInfo {
     }
   }
 
-  // Check for alpha
-  const iinfBox = findBox(metaBox.children, 'iinf')
-  let hasAlpha = false
+  // Get color information; a file may carry both an nclx and an ICC colr
+  let color: ColorDescription | undefined
+  let iccProfile: Uint8Array | undefined
+
+  for (const colrBox of findAllBoxes(ipcoBox.children, 'colr')) {
+    const info = parseColr(colrBox.data)
+    color = color ?? info.nclx
+    iccProfile = iccProfile ?? info.iccProfile
+  }
+
+  const colorSpace = iccProfile ? 'icc' : colorSpaceName(color)
+
+  // Layered (progressive) images
+  const a1lxBox = findBox(ipcoBox.children, 'a1lx')
+  const layerSizes = a1lxBox ? parseA1lx(a1lxBox.data) : undefined
+  const lselBox = findBox(ipcoBox.children, 'lsel')
+  const layerId = lselBox ? parseLsel(lselBox.data) : undefined
+  const selectedLayer = layerId === LAYER_ALL ? undefined : layerId
+
+  // Check for alpha; a prem reference from the primary item to its alpha
+  // item marks the color as premultiplied
+  const alphaItemId = getAlphaItemId(boxes)
+  const hasAlpha = alphaItemId !== null
+  const irefBox = findBox(metaBox.children, 'iref')
+  const primaryId = getPrimaryItemId(boxes)
+  const premultipliedAlpha = hasAlpha && irefBox !== undefined
+    && parseIref(irefBox.data).some(ref => ref.type === 'prem' && ref.fromId === primaryId && ref.toIds.includes(alphaItemId))
 
-  if (iinfBox) {
-    const items = parseIinf(iinfBox.data)
-    hasAlpha = items.some(item => item.itemType === 'auxl' || item.itemName.includes('Alpha'))
+  // AV1 metadata (HDR, T.35, ...) from the configOBUs and the item itself
+  const metadataSources: Uint8Array[] = []
+  if (av1cBox && av1cBox.data.length > 4) {
+    metadataSources.push(av1cBox.data.subarray(4))
   }
+  const itemData = buffer && primaryId !== null ? getImageData(buffer, boxes, primaryId) : null
+  if (itemData) {
+    metadataSources.push(itemData)
+  }
+  const metadata = readMetadata(metadataSources)
 
   // Check for sequence
   const isSequence = boxes.some(box => box.type === 'moov')
@@ -481,33 +675,110 @@ export function getAvifInfo(boxes: ISOBMFFBox[]): AvifInfo {
     hasAlpha,
     bitDepth,
     colorSpace,
+    color,
+    iccProfile,
+    layerSizes,
+    selectedLayer,
+    metadata,
+    premultipliedAlpha,
     isSequence,
   }
 }
 
 /**
- * Get image item data
+ * Merge the AV1 metadata of several OBU sequences, or undefined when none
+ * carries any
  */
-export function getImageData(
-  buffer: Uint8Array,
-  boxes: ISOBMFFBox[],
-  itemId: number,
-): Uint8Array | null {
+function readMetadata(sources: Uint8Array[]): Av1Metadata | undefined {
+  const all = sources.map(source => getAv1Metadata(source))
+  const metadata: Av1Metadata = {
+    contentLightLevel: all.find(m => m.contentLightLevel)?.contentLightLevel,
+    masteringDisplay: all.find(m => m.masteringDisplay)?.masteringDisplay,
+    scalability: all.find(m => m.scalability)?.scalability,
+    itutT35: all.flatMap(m => m.itutT35),
+    timecode: all.find(m => m.timecode)?.timecode,
+  }
+
+  const found = metadata.itutT35.length > 0
+    || all.some(m => m.contentLightLevel || m.masteringDisplay || m.scalability || m.timecode)
+  return found ? metadata : undefined
+}
+
+/**
+ * Get the ID of the primary item (pitm), defaulting to item 1
+ */
+export function getPrimaryItemId(boxes: ISOBMFFBox[]): number | null {
   // Find meta box
   const metaBox = findBox(boxes, 'meta')
   if (!metaBox || !metaBox.children) {
     return null
   }
 
-  // Find iloc box
-  const ilocBox = findBox(metaBox.children, 'iloc')
-  if (!ilocBox) {
+  // Find pitm (primary item) box
+  const pitmBox = findBox(metaBox.children, 'pitm')
+  if (!pitmBox) {
+    // Default to item 1 if no pitm box
+    return 1
+  }
+
+  const view = new DataView(
+    pitmBox.data.buffer,
+    pitmBox.data.byteOffset,
+    pitmBox.data.byteLength,
+  )
+
+  const version = pitmBox.data[0]
+
+  if (version === 0) {
+    return view.getUint16(4)
+  }
+  else {
+    return view.getUint32(4)
+  }
+}
+
+/**
+ * Get the ID of the alpha item of the primary item: the item with an auxl
+ * reference to the primary item and an auxC property of type
+ * `ALPHA_AUX_TYPE`
+ */
+export function getAlphaItemId(boxes: ISOBMFFBox[]): number | null {
+  // Find meta box
+  const metaBox = findBox(boxes, 'meta')
+  if (!metaBox || !metaBox.children) {
     return null
   }
 
-  const locations = parseIloc(ilocBox.data)
-  const location = locations.find(loc => loc.itemId === itemId)
+  const irefBox = findBox(metaBox.children, 'iref')
+  const ipcoBox = findBox(metaBox.children, 'ipco')
+  const ipmaBox = findBox(metaBox.children, 'ipma')
+  const primaryId = getPrimaryItemId(boxes)
+  if (!irefBox || !ipcoBox || !ipcoBox.children || !ipmaBox || primaryId === null) {
+    return null
+  }
+
+  // Property indices are 1-based
+  const properties = ipcoBox.children
+  const associations = parseIpma(ipmaBox.data)
+  const isAlpha = (itemId: number): boolean => associations.some(entry => entry.itemId === itemId
+    && entry.associations.some(({ index }) => {
+      const property = properties[index - 1]
+      return property?.type === 'auxC' && parseAuxC(property.data) === ALPHA_AUX_TYPE
+    }))
+
+  const auxl = parseIref(irefBox.data).find(ref => ref.type === 'auxl' && ref.toIds.includes(primaryId) && isAlpha(ref.fromId))
+  return auxl ? auxl.fromId : null
+}
 
+/**
+ * Get image item data
+ */
+export function getImageData(
+  buffer: Uint8Array,
+  boxes: ISOBMFFBox[],
+  itemId: number,
+): Uint8Array | null {
+  const location = findItemLocation(boxes, itemId)
   if (!location) {
     return null
   }
@@ -538,10 +809,40 @@ export function getImageData(
 }
 
 /**
- * Create ftyp box for AVIF
+ * Get the byte size of an item from its iloc extents. The data returned by
+ * `getImageData()` is shorter when the file is truncated.
+ */
+export function getImageDataSize(boxes: ISOBMFFBox[], itemId: number): number | null {
+  const location = findItemLocation(boxes, itemId)
+  return location ? location.extents.reduce((sum, extent) => sum + extent.extentLength, 0) : null
+}
+
+/**
+ * Find the iloc entry of an item
+ */
+function findItemLocation(boxes: ISOBMFFBox[], itemId: number): ItemLocation | null {
+  // Find meta box
+  const metaBox = findBox(boxes, 'meta')
+  if (!metaBox || !metaBox.children) {
+    return null
+  }
+
+  // Find iloc box
+  const ilocBox = findBox(metaBox.children, 'iloc')
+  if (!ilocBox) {
+    return null
+  }
+
+  return parseIloc(ilocBox.data).find(loc => loc.itemId === itemId) ?? null
+}
+
+/**
+ * Create ftyp box for AVIF. The AVIF Advanced profile brand `MA1A` only
+ * covers the AV1 Main and High profiles, so 4:2:2 and 12-bit images
+ * (Professional profile) leave it out.
  */
-export function createFtyp(): Uint8Array {
-  const brands = ['avif', 'mif1', 'miaf', 'MA1A']
+export function createFtyp(seqProfile: number = 0): Uint8Array {
+  const brands = seqProfile <= 1 ? ['avif', 'mif1', 'miaf', 'MA1A'] : ['avif', 'mif1', 'miaf']
   const size = 8 + 4 + 4 + brands.length * 4
 
   const buffer = new Uint8Array(size)
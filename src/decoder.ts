@@ -1,62 +1,97 @@
-import type { AvifDecodeOptions, AvifImageData } from './types'
-import { decodeAV1 } from './av1/decoder'
+import type { AvifDecodeOptions, AvifImageData, AvifInfo, AvifYuvImageData } from './types'
+import { decodeAV1, decodeAV1Async, decodeAV1YUV, listSpatialLayers } from './av1/decoder'
 import {
-  findBox,
+  getAlphaItemId,
   getAvifInfo,
   getImageData,
+  getImageDataSize,
+  getPrimaryItemId,
   parseISOBMFF,
-  parseIinf,
   validateFtyp,
 } from './container/heif'
 
 /**
- * Decode an AVIF image buffer to RGBA pixel data
+ * Decode an AVIF image buffer to RGBA pixel data. Layered images output the
+ * layer selected by `options.layer` or the lsel property, or their highest
+ * layer, falling back to the highest intra-coded layer below it.
  */
 export function decode(
   buffer: Uint8Array | ArrayBuffer,
   options: AvifDecodeOptions = {},
 ): AvifImageData {
-  const data = buffer instanceof ArrayBuffer ? new Uint8Array(buffer) : buffer
+  const { info, primaryData, alphaData } = readItemData(buffer)
 
-  // Validate file type
-  if (!validateFtyp(data)) {
-    throw new Error('Invalid AVIF file: not a valid AVIF or HEIF file')
-  }
+  return decodeItemData(primaryData, alphaData, info, {
+    ...options,
+    layer: options.layer ?? info.selectedLayer,
+  })
+}
 
-  // Parse ISOBMFF boxes
-  const boxes = parseISOBMFF(data)
+/**
+ * Decode each layer of a layered (progressive) AVIF image in turn, from the
+ * lowest quality layer to the full image. Single-layer images yield once.
+ * With an a1lx property each layer decodes from the item bytes up to its
+ * end, so `buffer` may be a file that is still arriving: the layers whose
+ * bytes are all there are yielded. Layers that predict from lower ones
+ * cannot be output and are skipped.
+ */
+export function* decodeProgressive(
+  buffer: Uint8Array | ArrayBuffer,
+  options: Omit<AvifDecodeOptions, 'layer'> = {},
+): Generator<AvifImageData> {
+  const { info, primaryData, primarySize, alphaData } = readItemData(buffer)
 
-  // Get file info
-  const info = getAvifInfo(boxes)
+  if (!info.layerSizes) {
+    for (const layer of listSpatialLayers(primaryData, options.operatingPoint)) {
+      yield decodeItemData(primaryData, alphaData, info, { ...options, layer })
+    }
+    return
+  }
 
-  // Find the primary item
-  const primaryItemId = getPrimaryItemId(boxes)
-  if (primaryItemId === null) {
-    throw new Error('No primary item found')
+  // a1lx gives the sizes of all layers but the last, which takes the rest
+  const layerEnds: number[] = []
+  let end = 0
+  for (const size of info.layerSizes) {
+    if (size === 0) {
+      break
+    }
+    end += size
+    layerEnds.push(end)
   }
+  layerEnds.push(primarySize)
 
-  // Get image data for primary item
-  const av1Data = getImageData(data, boxes, primaryItemId)
-  if (!av1Data) {
-    throw new Error('Could not locate image data')
+  for (const [layer, layerEnd] of layerEnds.entries()) {
+    if (primaryData.length < layerEnd) {
+      return
+    }
+    const layerData = primaryData.subarray(0, layerEnd)
+    if (listSpatialLayers(layerData, options.operatingPoint).includes(layer)) {
+      yield decodeItemData(layerData, alphaData, info, { ...options, layer })
+    }
   }
+}
 
-  // Decode AV1 bitstream
-  const imageData = decodeAV1(av1Data)
+/**
+ * Decode an AVIF image buffer to RGBA pixel data, decoding the tiles of
+ * multi-tile images in parallel on a pool of workers
+ */
+export async function decodeAsync(
+  buffer: Uint8Array | ArrayBuffer,
+  options: AvifDecodeOptions = {},
+): Promise<AvifImageData> {
+  const { info, primaryData, alphaData } = readItemData(buffer)
 
-  // Handle alpha if present and not ignored
-  if (info.hasAlpha && !options.ignoreAlpha) {
-    const alphaItemId = getAlphaItemId(boxes)
-    if (alphaItemId !== null) {
-      const alphaData = getImageData(data, boxes, alphaItemId)
-      if (alphaData) {
-        const alphaImage = decodeAV1(alphaData)
-        applyAlphaChannel(imageData, alphaImage)
-      }
-    }
+  const layerOptions = { ...options, layer: options.layer ?? info.selectedLayer }
+
+  const [imageData, alphaImage] = await Promise.all([
+    decodeAV1Async(primaryData, layerOptions, info.color),
+    alphaData && !options.ignoreAlpha ? decodeAV1Async(alphaData, layerOptions) : null,
+  ])
+
+  if (alphaImage) {
+    applyAlphaChannel(imageData, alphaImage, info.premultipliedAlpha)
   }
 
-  // Convert to RGB if requested
   if (options.format === 'rgb') {
     imageData.data = rgbaToRgb(imageData.data)
   }
@@ -64,62 +99,104 @@ export function decode(
   return imageData
 }
 
-function getPrimaryItemId(boxes: any[]): number | null {
-  // Find meta box
-  const metaBox = findBox(boxes, 'meta')
-  if (!metaBox || !metaBox.children) {
-    return null
-  }
+/**
+ * Decode an AVIF image buffer to its YUV planes, skipping RGB conversion.
+ * The alpha item, when present, is returned as `alpha`, and premultiplied
+ * color is left premultiplied.
+ */
+export function decodeYUV(
+  buffer: Uint8Array | ArrayBuffer,
+  options: Pick<AvifDecodeOptions, 'applyGrain' | 'ignoreAlpha' | 'operatingPoint' | 'layer'> = {},
+): AvifYuvImageData {
+  const { info, primaryData, alphaData } = readItemData(buffer)
+  const layerOptions = { ...options, layer: options.layer ?? info.selectedLayer }
 
-  // Find pitm (primary item) box
-  const pitmBox = findBox(metaBox.children, 'pitm')
-  if (!pitmBox) {
-    // Default to item 1 if no pitm box
-    return 1
+  const image = decodeAV1YUV(primaryData, layerOptions, info.color)
+
+  if (alphaData && !options.ignoreAlpha) {
+    image.alpha = decodeAV1YUV(alphaData, layerOptions)
+    if (image.alpha.width !== image.width || image.alpha.height !== image.height) {
+      throw new Error('Alpha image dimensions do not match')
+    }
+    image.premultipliedAlpha = info.premultipliedAlpha
   }
 
-  const view = new DataView(
-    pitmBox.data.buffer,
-    pitmBox.data.byteOffset,
-    pitmBox.data.byteLength,
-  )
+  return image
+}
 
-  const version = pitmBox.data[0]
+/**
+ * Decode the AV1 data of a primary item and its alpha item to RGBA
+ */
+function decodeItemData(
+  primaryData: Uint8Array,
+  alphaData: Uint8Array | null,
+  info: AvifInfo,
+  options: AvifDecodeOptions,
+): AvifImageData {
+  // Decode AV1 bitstream
+  const imageData = decodeAV1(primaryData, options, info.color)
 
-  if (version === 0) {
-    return view.getUint16(4)
+  // Handle alpha if present and not ignored
+  if (alphaData && !options.ignoreAlpha) {
+    const alphaImage = decodeAV1(alphaData, options)
+    applyAlphaChannel(imageData, alphaImage, info.premultipliedAlpha)
   }
-  else {
-    return view.getUint32(4)
+
+  // Convert to RGB if requested
+  if (options.format === 'rgb') {
+    imageData.data = rgbaToRgb(imageData.data)
   }
+
+  return imageData
 }
 
-function getAlphaItemId(boxes: any[]): number | null {
-  // Find meta box
-  const metaBox = findBox(boxes, 'meta')
-  if (!metaBox || !metaBox.children) {
-    return null
-  }
+/**
+ * Parse the container and extract the AV1 data of the primary item and of
+ * its alpha item, if any
+ */
+function readItemData(buffer: Uint8Array | ArrayBuffer): {
+  info: AvifInfo
+  primaryData: Uint8Array
+  primarySize: number
+  alphaData: Uint8Array | null
+} {
+  const data = buffer instanceof ArrayBuffer ? new Uint8Array(buffer) : buffer
 
-  // Find iinf box
-  const iinfBox = findBox(metaBox.children, 'iinf')
-  if (!iinfBox) {
-    return null
+  // Validate file type
+  if (!validateFtyp(data)) {
+    throw new Error('Invalid AVIF file: not a valid AVIF or HEIF file')
   }
 
-  const items = parseIinf(iinfBox.data)
+  // Parse ISOBMFF boxes
+  const boxes = parseISOBMFF(data)
 
-  // Look for auxiliary image (alpha)
-  for (const item of items) {
-    if (item.itemType === 'auxl' || item.itemName.toLowerCase().includes('alpha')) {
-      return item.itemId
-    }
+  // Get file info
+  const info = getAvifInfo(boxes, data)
+
+  // Find the primary item
+  const primaryItemId = getPrimaryItemId(boxes)
+  if (primaryItemId === null) {
+    throw new Error('No primary item found')
   }
 
-  return null
+  // Get image data for primary item
+  const primaryData = getImageData(data, boxes, primaryItemId)
+  if (!primaryData) {
+    throw new Error('Could not locate image data')
+  }
+  const primarySize = getImageDataSize(boxes, primaryItemId)!
+
+  const alphaItemId = getAlphaItemId(boxes)
+  const alphaData = alphaItemId !== null ? getImageData(data, boxes, alphaItemId) : null
+
+  return { info, primaryData, primarySize, alphaData }
 }
 
-function applyAlphaChannel(imageData: AvifImageData, alphaImage: AvifImageData): void {
+/**
+ * Copy the alpha image into the alpha channel, dividing premultiplied color
+ * by it
+ */
+function applyAlphaChannel(imageData: AvifImageData, alphaImage: AvifImageData, premultiplied: boolean = false): void {
   const { data, width, height } = imageData
 
   if (alphaImage.width !== width || alphaImage.height !== height) {
@@ -127,16 +204,23 @@ function applyAlphaChannel(imageData: AvifImageData, alphaImage: AvifImageData):
   }
 
   // Apply alpha from the gray channel of the alpha image
+  const max = data instanceof Uint16Array ? 0xFFFF : 0xFF
   for (let i = 0; i < width * height; i++) {
-    data[i * 4 + 3] = alphaImage.data[i * 4] // Use R channel as alpha
+    const alpha = alphaImage.data[i * 4] // Use R channel as alpha
+    data[i * 4 + 3] = alpha
+    if (premultiplied && alpha < max) {
+      for (let c = 0; c < 3; c++) {
+        data[i * 4 + c] = alpha === 0 ? 0 : Math.min(max, Math.round(data[i * 4 + c] * max / alpha))
+      }
+    }
   }
 
   imageData.hasAlpha = true
 }
 
-function rgbaToRgb(rgba: Uint8Array): Uint8Array {
+function rgbaToRgb(rgba: Uint8Array | Uint16Array): Uint8Array | Uint16Array {
   const numPixels = rgba.length / 4
-  const rgb = new Uint8Array(numPixels * 3)
+  const rgb = rgba instanceof Uint16Array ? new Uint16Array(numPixels * 3) : new Uint8Array(numPixels * 3)
 
   for (let i = 0; i < numPixels; i++) {
     rgb[i * 3] = rgba[i * 4]
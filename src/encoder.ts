@@ -1,49 +1,124 @@
-import type { AvifEncodeOptions, AvifImageData } from './types'
+import type { AvifEncodeOptions, AvifImageData, AvifTargetResult, AvifYuvImageData, ColorDescription, ItemPropertyAssociation, ItemReference, SequenceHeader } from './types'
 import { OBUType } from './types'
-import { createOBU, writeLeb128 } from './av1/obu'
-import { createFtyp } from './container/heif'
+import { BitWriter } from './av1/bit-writer'
+import { encodeAV1YUV } from './av1/encoder'
+import { concatBytes, createOBU } from './av1/obu'
+import { createSequenceHeader, writeSequenceHeader } from './av1/sequence-header'
+import { getEncodeBitDepth, rgbaToYuv } from './color'
+import { ALPHA_AUX_TYPE, createFtyp } from './container/heif'
 import { encodeViaAvifenc, hasAvifenc } from './encoder-cli'
+import { searchQuality } from './rate-control'
+
+/** sRGB with the identity matrix: GBR samples, which round-trip RGB exactly */
+const SRGB_IDENTITY: ColorDescription = {
+  colorPrimaries: 1,
+  transferCharacteristics: 13,
+  matrixCoefficients: 0,
+  fullRange: true,
+}
+
+/** sRGB with BT.601 full-range YUV, libavif's default for lossy output */
+const SRGB_BT601: ColorDescription = {
+  colorPrimaries: 1,
+  transferCharacteristics: 13,
+  matrixCoefficients: 6,
+  fullRange: true,
+}
+
+/** Alpha planes carry no color description, only full range */
+const ALPHA_COLOR: ColorDescription = {
+  colorPrimaries: 2,
+  transferCharacteristics: 2,
+  matrixCoefficients: 2,
+  fullRange: true,
+}
+
+/** Item IDs of the color image and of its alpha plane */
+const COLOR_ITEM_ID = 1
+const ALPHA_ITEM_ID = 2
+
+/**
+ * An AV1 image item of the container
+ */
+interface ImageItem {
+  av1Data: Uint8Array
+  seqHeader: SequenceHeader
+}
 
 /**
  * Encode RGBA pixel data to AVIF format.
  *
- * Tries `avifenc` (libavif CLI) first when available — that's the
- * only path that produces real AV1 image data. The bundled fallback
- * builds a syntactically valid container around stub frame bytes;
- * fine for testing the container layout, useless for actual delivery.
- *
- * Set `options.backend = 'pure-ts'` to force the bundled path (e.g.
- * for tests that assert container structure without depending on a
- * system binary).
+ * Uses the bundled AV1 intra encoder. 8-bit data is encoded at 8 bits and
+ * 16-bit (`Uint16Array`) data at 12, unless `imageData.bitDepth` asks for
+ * another depth. Lossy output is BT.601 full-range YUV at
+ * `options.chromaSubsampling` (4:2:0 by default), with the quantizer taken
+ * from `quality` the way libavif maps it and the mode search widening with
+ * `effort`. `lossless: true` stores the RGB samples as identity (GBR)
+ * 4:4:4, which decodes bit-exactly at the encoded depth. Alpha is stored as
+ * a monochrome auxiliary item at `alphaQuality`, the color optionally
+ * premultiplied by it. `targetBytes` or `targetScore` bisect `quality`
+ * instead (see `encodeToTarget()`).
  */
 export function encode(
   imageData: AvifImageData,
   options: AvifEncodeOptions = {},
 ): Uint8Array {
+  if (hasTarget(options)) {
+    const search = searchQuality(imageData, options)
+    let step = search.next()
+    while (!step.done) {
+      step = search.next(encode(imageData, { ...options, ...untargeted(step.value) }))
+    }
+    return step.value.bytes
+  }
+
   const { width, height, data } = imageData
-  const { quality = 80, lossless = false } = options
+  const { quality = 80, lossless = false, effort = 6, premultipliedAlpha = false } = options
+  const bitDepth = getEncodeBitDepth(imageData)
+  const withAlpha = options.alpha ?? imageData.hasAlpha ?? hasTransparency(data)
+
+  // The sequence header describes the AV1 bitstream and the av1C box alike;
+  // lossless output keeps RGB as identity 4:4:4 so nothing is lost to YUV
+  const color = lossless ? SRGB_IDENTITY : SRGB_BT601
+  const chromaSubsampling = lossless ? '4:4:4' : options.chromaSubsampling ?? '4:2:0'
+  const seqHeader = createSequenceHeader({ width, height, bitDepth, chromaSubsampling, color })
 
   // Create AV1 bitstream
-  const av1Data = encodeAV1(data, width, height, { quality, lossless })
+  const rgba = withAlpha && premultipliedAlpha ? premultiply(data) : data
+  const yuv = rgbaToYuv(rgba, width, height, color, chromaSubsampling, bitDepth)
+  const av1Data = encodeAV1YUV(yuv, seqHeader, { qindex: lossless ? 0 : qualityToQIndex(quality), effort })
+
+  // The alpha plane is a monochrome image of its own
+  let alpha: ImageItem | undefined
+  if (withAlpha) {
+    const alphaSeqHeader = createSequenceHeader({ width, height, bitDepth, monochrome: true, color: ALPHA_COLOR })
+    const alphaQIndex = lossless ? 0 : qualityToQIndex(options.alphaQuality ?? quality)
+    alpha = {
+      av1Data: encodeAV1YUV(extractAlpha(data, width, height, bitDepth), alphaSeqHeader, { qindex: alphaQIndex, effort }),
+      seqHeader: alphaSeqHeader,
+    }
+  }
 
   // Create AVIF container
-  return createAvifContainer(av1Data, width, height, imageData.hasAlpha)
+  return createAvifContainer({ av1Data, seqHeader }, alpha, premultipliedAlpha)
 }
 
 /**
  * Async-aware encoder that tries `avifenc` (libavif) first when
- * available — that's the only path producing real AV1 image data.
- * Falls back to the bundled stub encoder when the binary is missing
- * (the stub writes a valid AVIF container around placeholder frame
- * bytes; useful for testing layout, not for real delivery).
+ * available and falls back to the bundled encoder when the binary is
+ * missing or fails, so `backend: 'auto'` always produces real image data.
  *
- * New code should prefer this over `encode()` for any production
- * output.
+ * Set `options.backend = 'pure-ts'` to skip the binary, or `'cli'` to
+ * require it.
  */
 export async function encodeAsync(
   imageData: AvifImageData,
   options: AvifEncodeOptions = {},
 ): Promise<Uint8Array> {
+  if (hasTarget(options)) {
+    return (await encodeToTarget(imageData, options)).bytes
+  }
+
   const backend = options.backend ?? 'auto'
 
   if (backend !== 'pure-ts') {
@@ -63,110 +138,111 @@ export async function encodeAsync(
   return encode(imageData, options)
 }
 
-function encodeAV1(
-  data: Uint8Array,
-  width: number,
-  height: number,
-  _options: { quality: number, lossless: boolean },
-): Uint8Array {
-  // Create sequence header OBU
-  const seqHeader = createSequenceHeader(width, height)
-  const seqHeaderOBU = createOBU(OBUType.SEQUENCE_HEADER, seqHeader)
-
-  // Create frame OBU (simplified - just placeholder for now)
-  const frame = createSimpleFrame(data, width, height)
-  const frameOBU = createOBU(OBUType.FRAME, frame)
-
-  // Concatenate OBUs
-  const totalLength = seqHeaderOBU.length + frameOBU.length
-  const result = new Uint8Array(totalLength)
-  result.set(seqHeaderOBU, 0)
-  result.set(frameOBU, seqHeaderOBU.length)
-
-  return result
+/**
+ * Encode at the quality that meets `options.targetBytes` and/or
+ * `options.targetScore`, bisecting it over 0-100 with `encodeAsync()` so
+ * either backend is searched. Returns the chosen encode with its quality,
+ * whether it meets the targets, and every attempt made.
+ */
+export async function encodeToTarget(
+  imageData: AvifImageData,
+  options: AvifEncodeOptions,
+): Promise<AvifTargetResult> {
+  const search = searchQuality(imageData, options)
+  let step = search.next()
+  while (!step.done) {
+    step = search.next(await encodeAsync(imageData, { ...options, ...untargeted(step.value) }))
+  }
+  return step.value
 }
 
-function createSequenceHeader(width: number, height: number): Uint8Array {
-  const buffer: number[] = []
-
-  // For a complete implementation, this would properly encode:
-  // - seq_profile
-  // - still_picture
-  // - reduced_still_picture_header
-  // - timing_info
-  // - decoder_model_info
-  // - operating_points
-  // - frame dimensions
-  // - color_config
-
-  // Simplified sequence header for still picture
-  // seq_profile = 0, still_picture = 1, reduced_still_picture_header = 1
-  buffer.push(0b00011000) // seq_profile (0) + still_picture (1) + reduced (1)
-
-  // seq_level_idx (level 2.0 = 0)
-  buffer.push(0x00)
-
-  // Frame width bits - 1 (calculate how many bits needed)
-  const widthBits = Math.ceil(Math.log2(width + 1))
-  const heightBits = Math.ceil(Math.log2(height + 1))
+function hasTarget(options: AvifEncodeOptions): boolean {
+  return options.targetBytes !== undefined || options.targetScore !== undefined
+}
 
-  buffer.push(((widthBits - 1) << 4) | (heightBits - 1))
+/**
+ * Options overrides for one encode of a quality search
+ */
+function untargeted(quality: number): AvifEncodeOptions {
+  return { quality, targetBytes: undefined, targetScore: undefined }
+}
 
-  // Frame width - 1
-  const widthBytes = writeLeb128(width - 1)
-  for (const b of widthBytes) {
-    buffer.push(b)
+/**
+ * Map a 0-100 quality onto a qindex as libavif does with libaom: quality
+ * picks one of 64 quantizers, which map onto qindex in steps of 4
+ */
+function qualityToQIndex(quality: number): number {
+  const clamped = Math.max(0, Math.min(100, quality))
+  const quantizer = Math.floor(((100 - clamped) * 63 + 50) / 100)
+  if (quantizer === 63) {
+    return 255
   }
+  return quantizer === 62 ? 249 : quantizer * 4
+}
 
-  // Frame height - 1
-  const heightBytes = writeLeb128(height - 1)
-  for (const b of heightBytes) {
-    buffer.push(b)
+function hasTransparency(data: Uint8Array | Uint16Array): boolean {
+  const opaque = data instanceof Uint16Array ? 0xFFFF : 0xFF
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== opaque) {
+      return true
+    }
   }
-
-  return new Uint8Array(buffer)
+  return false
 }
 
-function createSimpleFrame(
-  _data: Uint8Array,
-  width: number,
-  height: number,
-): Uint8Array {
-  // For a complete implementation, this would:
-  // 1. Convert RGB to YUV
-  // 2. Apply prediction
-  // 3. Apply transforms (DCT/ADST)
-  // 4. Quantize coefficients
-  // 5. Entropy encode
-
-  // Placeholder: create minimal valid frame data
-  const buffer: number[] = []
-
-  // Frame header (simplified)
-  buffer.push(0x00) // show_existing_frame = 0, frame_type = KEY_FRAME
-
-  // Minimal frame data
-  for (let i = 0; i < Math.min(100, width * height); i++) {
-    buffer.push(0x00)
+/**
+ * Multiply the color of RGBA pixels by their alpha
+ */
+function premultiply<T extends Uint8Array | Uint16Array>(data: T): T {
+  const max = data instanceof Uint16Array ? 0xFFFF : 0xFF
+  const out = data.slice() as T
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3]
+    out[i] = Math.round(data[i] * alpha / max)
+    out[i + 1] = Math.round(data[i + 1] * alpha / max)
+    out[i + 2] = Math.round(data[i + 2] * alpha / max)
   }
+  return out
+}
 
-  return new Uint8Array(buffer)
+/**
+ * The alpha channel of RGBA pixels as a monochrome full-range image of
+ * `bitDepth`
+ */
+function extractAlpha(data: Uint8Array | Uint16Array, width: number, height: number, bitDepth: 8 | 10 | 12): AvifYuvImageData {
+  const scale = ((1 << bitDepth) - 1) / (data instanceof Uint16Array ? 0xFFFF : 0xFF)
+  const plane = new Uint16Array(width * height)
+  for (let i = 0; i < plane.length; i++) {
+    plane[i] = Math.round(data[i * 4 + 3] * scale)
+  }
+  return {
+    planes: [plane],
+    strides: [width],
+    width,
+    height,
+    bitDepth,
+    subsamplingX: 1,
+    subsamplingY: 1,
+    chromaSamplePosition: 0,
+    color: ALPHA_COLOR,
+  }
 }
 
 function createAvifContainer(
-  av1Data: Uint8Array,
-  width: number,
-  height: number,
-  _hasAlpha?: boolean,
+  color: ImageItem,
+  alpha?: ImageItem,
+  premultipliedAlpha: boolean = false,
 ): Uint8Array {
   // Create ftyp box
-  const ftyp = createFtyp()
+  const ftyp = createFtyp(color.seqHeader.seqProfile)
 
-  // Create meta box
-  const meta = createMetaBox(width, height, av1Data.length)
+  // Create meta box. Its size does not depend on the offset, so a first
+  // pass locates the mdat payload for the iloc extents
+  const dataOffset = ftyp.length + createMetaBox(color, alpha, premultipliedAlpha, 0).length + 8
+  const meta = createMetaBox(color, alpha, premultipliedAlpha, dataOffset)
 
   // Create mdat box
-  const mdat = createMdatBox(av1Data)
+  const mdat = createMdatBox(alpha ? concatBytes([color.av1Data, alpha.av1Data]) : color.av1Data)
 
   // Concatenate all boxes
   const totalSize = ftyp.length + meta.length + mdat.length
@@ -184,24 +260,52 @@ function createAvifContainer(
   return result
 }
 
-function createMetaBox(width: number, height: number, dataSize: number): Uint8Array {
+/**
+ * meta box of the color item and, when given, of its alpha item, whose data
+ * follows the color item's in the mdat payload at `dataOffset`
+ */
+function createMetaBox(
+  color: ImageItem,
+  alpha: ImageItem | undefined,
+  premultipliedAlpha: boolean,
+  dataOffset: number,
+): Uint8Array {
   // Create hdlr box (handler)
   const hdlr = createHdlrBox()
 
   // Create pitm box (primary item)
-  const pitm = createPitmBox(1)
+  const pitm = createPitmBox(COLOR_ITEM_ID)
 
   // Create iloc box (item location)
-  const iloc = createIlocBox(1, dataSize)
+  const locations = [{ itemId: COLOR_ITEM_ID, offset: dataOffset, length: color.av1Data.length }]
+  if (alpha) {
+    locations.push({ itemId: ALPHA_ITEM_ID, offset: dataOffset + color.av1Data.length, length: alpha.av1Data.length })
+  }
+  const iloc = createIlocBox(locations)
 
   // Create iinf box (item info)
-  const iinf = createIinfBox()
+  const items = [{ itemId: COLOR_ITEM_ID, itemType: 'av01', itemName: '' }]
+  if (alpha) {
+    items.push({ itemId: ALPHA_ITEM_ID, itemType: 'av01', itemName: 'Alpha' })
+  }
+  const iinf = createIinfBox(items)
+
+  // Create iref box (item references): the alpha item is auxiliary to the
+  // color item, which references it in turn when premultiplied
+  const references: ItemReference[] = []
+  if (alpha) {
+    references.push({ type: 'auxl', fromId: ALPHA_ITEM_ID, toIds: [COLOR_ITEM_ID] })
+    if (premultipliedAlpha) {
+      references.push({ type: 'prem', fromId: COLOR_ITEM_ID, toIds: [ALPHA_ITEM_ID] })
+    }
+  }
+  const iref = references.length > 0 ? createIrefBox(references) : new Uint8Array(0)
 
   // Create iprp box (item properties)
-  const iprp = createIprpBox(width, height)
+  const iprp = createIprpBox(color.seqHeader, alpha?.seqHeader)
 
   // Calculate meta box size
-  const childrenSize = hdlr.length + pitm.length + iloc.length + iinf.length + iprp.length
+  const childrenSize = hdlr.length + pitm.length + iloc.length + iinf.length + iref.length + iprp.length
   const metaSize = 12 + childrenSize // 8 (box header) + 4 (version/flags)
 
   const meta = new Uint8Array(metaSize)
@@ -231,13 +335,16 @@ function createMetaBox(width: number, height: number, dataSize: number): Uint8Ar
   meta.set(iinf, offset)
   offset += iinf.length
 
+  meta.set(iref, offset)
+  offset += iref.length
+
   meta.set(iprp, offset)
 
   return meta
 }
 
 function createHdlrBox(): Uint8Array {
-  const size = 32
+  const size = 33
   const buffer = new Uint8Array(size)
   const view = new DataView(buffer.buffer)
 
@@ -264,6 +371,9 @@ function createHdlrBox(): Uint8Array {
   view.setUint32(24, 0)
   view.setUint32(28, 0)
 
+  // Name (empty, null terminated)
+  buffer[32] = 0
+
   return buffer
 }
 
@@ -287,8 +397,8 @@ function createPitmBox(primaryItemId: number): Uint8Array {
   return buffer
 }
 
-function createIlocBox(itemId: number, dataSize: number): Uint8Array {
-  const size = 30 // 8 (header) + 4 (version/flags) + 2 (offset/length sizes) + 2 (item count) + 2 (item id) + 2 (data ref) + 2 (extent count) + 4 (offset) + 4 (length)
+function createIlocBox(locations: { itemId: number, offset: number, length: number }[]): Uint8Array {
+  const size = 16 + locations.length * 14 // 8 (header) + 4 (version/flags) + 2 (offset/length sizes) + 2 (item count), then per item 2 (item id) + 2 (data ref) + 2 (extent count) + 4 (offset) + 4 (length)
   const buffer = new Uint8Array(size)
   const view = new DataView(buffer.buffer)
 
@@ -308,31 +418,35 @@ function createIlocBox(itemId: number, dataSize: number): Uint8Array {
   buffer[13] = 0x00
 
   // Item count
-  view.setUint16(14, 1)
+  view.setUint16(14, locations.length)
 
-  // Item ID
-  view.setUint16(16, itemId)
+  locations.forEach(({ itemId, offset, length }, i) => {
+    const entry = 16 + i * 14
+
+    // Item ID
+    view.setUint16(entry, itemId)
 
-  // Data reference index
-  view.setUint16(18, 0)
+    // Data reference index
+    view.setUint16(entry + 2, 0)
 
-  // Extent count
-  view.setUint16(20, 1)
+    // Extent count
+    view.setUint16(entry + 4, 1)
 
-  // Extent offset (will be set to mdat offset)
-  view.setUint32(22, 0)
+    // Extent offset (absolute file offset of the item's data in mdat)
+    view.setUint32(entry + 6, offset)
 
-  // Extent length
-  view.setUint32(26, dataSize)
+    // Extent length
+    view.setUint32(entry + 10, length)
+  })
 
   return buffer
 }
 
-function createIinfBox(): Uint8Array {
-  // Create infe entry for av01 item
-  const infe = createInfeBox(1, 'av01')
+function createIinfBox(items: { itemId: number, itemType: string, itemName: string }[]): Uint8Array {
+  // Create an infe entry per item
+  const entries = items.map(({ itemId, itemType, itemName }) => createInfeBox(itemId, itemType, itemName))
 
-  const size = 14 + infe.length
+  const size = 14 + entries.reduce((sum, box) => sum + box.length, 0)
   const buffer = new Uint8Array(size)
   const view = new DataView(buffer.buffer)
 
@@ -346,16 +460,20 @@ function createIinfBox(): Uint8Array {
   view.setUint32(8, 0)
 
   // Entry count
-  view.setUint16(12, 1)
+  view.setUint16(12, entries.length)
 
-  // infe entry
-  buffer.set(infe, 14)
+  // infe entries
+  let offset = 14
+  for (const infe of entries) {
+    buffer.set(infe, offset)
+    offset += infe.length
+  }
 
   return buffer
 }
 
-function createInfeBox(itemId: number, itemType: string): Uint8Array {
-  const size = 21
+function createInfeBox(itemId: number, itemType: string, itemName: string): Uint8Array {
+  const size = 21 + itemName.length
   const buffer = new Uint8Array(size)
   const view = new DataView(buffer.buffer)
 
@@ -380,17 +498,70 @@ function createInfeBox(itemId: number, itemType: string): Uint8Array {
   }
 
   // Item name (null terminated)
-  buffer[20] = 0
+  for (let i = 0; i < itemName.length; i++) {
+    buffer[20 + i] = itemName.charCodeAt(i)
+  }
+  buffer[20 + itemName.length] = 0
 
   return buffer
 }
 
-function createIprpBox(width: number, height: number): Uint8Array {
+/**
+ * iref box: version 0, so item IDs are 16-bit
+ */
+function createIrefBox(references: ItemReference[]): Uint8Array {
+  const size = 12 + references.reduce((sum, ref) => sum + 12 + ref.toIds.length * 2, 0)
+  const buffer = new Uint8Array(size)
+  const view = new DataView(buffer.buffer)
+
+  view.setUint32(0, size)
+  buffer[4] = 0x69 // i
+  buffer[5] = 0x72 // r
+  buffer[6] = 0x65 // e
+  buffer[7] = 0x66 // f
+
+  // Version 0, flags 0
+  view.setUint32(8, 0)
+
+  // One SingleItemTypeReferenceBox per reference type
+  let offset = 12
+  for (const { type, fromId, toIds } of references) {
+    view.setUint32(offset, 12 + toIds.length * 2)
+    for (let i = 0; i < 4; i++) {
+      buffer[offset + 4 + i] = type.charCodeAt(i)
+    }
+    view.setUint16(offset + 8, fromId)
+    view.setUint16(offset + 10, toIds.length)
+    toIds.forEach((toId, i) => view.setUint16(offset + 12 + i * 2, toId))
+    offset += 12 + toIds.length * 2
+  }
+
+  return buffer
+}
+
+function createIprpBox(seqHeader: SequenceHeader, alphaSeqHeader?: SequenceHeader): Uint8Array {
   // Create ipco (item property container)
-  const ispe = createIspeBox(width, height)
-  const av1c = createAv1CBox()
+  const ispe = createIspeBox(seqHeader.maxFrameWidth, seqHeader.maxFrameHeight)
+  const av1c = createAv1CBox(seqHeader)
+  const pixi = createPixiBox(seqHeader.colorConfig.numPlanes, seqHeader.colorConfig.bitDepth)
+  const colr = seqHeader.colorConfig.colorDescriptionPresent ? [createColrBox(seqHeader)] : []
+  const properties = [ispe, av1c, pixi, ...colr]
+
+  // Create ipma (item property association); only av1C is essential
+  const entries = [{ itemId: COLOR_ITEM_ID, properties: [ispe, av1c, pixi, ...colr] }]
+  const essential = new Set([av1c])
+
+  // The alpha item shares the color item's (identical) ispe
+  if (alphaSeqHeader) {
+    const alphaAv1c = createAv1CBox(alphaSeqHeader)
+    const alphaPixi = createPixiBox(alphaSeqHeader.colorConfig.numPlanes, alphaSeqHeader.colorConfig.bitDepth)
+    const auxc = createAuxCBox(ALPHA_AUX_TYPE)
+    properties.push(alphaAv1c, alphaPixi, auxc)
+    essential.add(alphaAv1c)
+    entries.push({ itemId: ALPHA_ITEM_ID, properties: [ispe, alphaAv1c, alphaPixi, auxc] })
+  }
 
-  const ipcoSize = 8 + ispe.length + av1c.length
+  const ipcoSize = 8 + properties.reduce((sum, box) => sum + box.length, 0)
   const ipco = new Uint8Array(ipcoSize)
   const ipcoView = new DataView(ipco.buffer)
 
@@ -400,11 +571,16 @@ function createIprpBox(width: number, height: number): Uint8Array {
   ipco[6] = 0x63 // c
   ipco[7] = 0x6F // o
 
-  ipco.set(ispe, 8)
-  ipco.set(av1c, 8 + ispe.length)
+  let offset = 8
+  for (const box of properties) {
+    ipco.set(box, offset)
+    offset += box.length
+  }
 
-  // Create ipma (item property association)
-  const ipma = createIpmaBox()
+  const ipma = createIpmaBox(entries.map(({ itemId, properties: itemProperties }) => ({
+    itemId,
+    associations: itemProperties.map(box => ({ index: properties.indexOf(box) + 1, essential: essential.has(box) })),
+  })))
 
   // Create iprp box
   const size = 8 + ipco.length + ipma.length
@@ -446,8 +622,16 @@ function createIspeBox(width: number, height: number): Uint8Array {
   return buffer
 }
 
-function createAv1CBox(): Uint8Array {
-  const size = 12
+/**
+ * av1C box: the codec configuration repeats the sequence header fields, and
+ * configOBUs carries the sequence header itself
+ */
+function createAv1CBox(seqHeader: SequenceHeader): Uint8Array {
+  const seqHeaderOBU = createOBU(OBUType.SEQUENCE_HEADER, writeSequenceHeader(seqHeader))
+  const { bitDepth, monochrome, subsamplingX, subsamplingY, chromaSamplePosition } = seqHeader.colorConfig
+  const { seqLevelIdx, seqTier } = seqHeader.operatingPoints[0]
+
+  const size = 12 + seqHeaderOBU.length
   const buffer = new Uint8Array(size)
   const view = new DataView(buffer.buffer)
 
@@ -458,16 +642,86 @@ function createAv1CBox(): Uint8Array {
   buffer[7] = 0x43 // C
 
   // AV1 codec configuration
-  buffer[8] = 0x81 // marker (1) + version (1)
-  buffer[9] = 0x00 // seq_profile (0) + seq_level_idx_0 (0)
-  buffer[10] = 0x00 // seq_tier_0 (0) + high_bitdepth (0) + twelve_bit (0) + monochrome (0) + chroma_subsampling_x (0) + chroma_subsampling_y (0)
-  buffer[11] = 0x00 // chroma_sample_position (0)
+  const writer = new BitWriter()
+  writer.writeBit(1) // marker
+  writer.writeBits(1, 7) // version
+  writer.writeBits(seqHeader.seqProfile, 3)
+  writer.writeBits(seqLevelIdx, 5) // seq_level_idx_0
+  writer.writeBit(seqTier) // seq_tier_0
+  writer.writeBit(bitDepth > 8) // high_bitdepth
+  writer.writeBit(bitDepth === 12) // twelve_bit
+  writer.writeBit(monochrome)
+  writer.writeBit(subsamplingX) // chroma_subsampling_x
+  writer.writeBit(subsamplingY) // chroma_subsampling_y
+  writer.writeBits(chromaSamplePosition, 2)
+  writer.writeBits(0, 3) // reserved
+  writer.writeBit(0) // initial_presentation_delay_present
+  writer.writeBits(0, 4) // reserved
+  buffer.set(writer.toUint8Array(), 8)
+
+  // configOBUs
+  buffer.set(seqHeaderOBU, 12)
 
   return buffer
 }
 
-function createIpmaBox(): Uint8Array {
-  const size = 18 // 8 (header) + 4 (version/flags) + 4 (entry count) + 2 (item id)
+/**
+ * pixi box: the bit depth of each channel
+ */
+function createPixiBox(numPlanes: number, bitDepth: number): Uint8Array {
+  const size = 13 + numPlanes
+  const buffer = new Uint8Array(size)
+  const view = new DataView(buffer.buffer)
+
+  view.setUint32(0, size)
+  buffer[4] = 0x70 // p
+  buffer[5] = 0x69 // i
+  buffer[6] = 0x78 // x
+  buffer[7] = 0x69 // i
+
+  // Version and flags
+  view.setUint32(8, 0)
+
+  // Number of channels, then bits per channel
+  buffer[12] = numPlanes
+  buffer.fill(bitDepth, 13)
+
+  return buffer
+}
+
+/**
+ * colr box of type 'nclx' repeating the sequence header's CICP values
+ */
+function createColrBox(seqHeader: SequenceHeader): Uint8Array {
+  const { colorPrimaries, transferCharacteristics, matrixCoefficients, colorRange } = seqHeader.colorConfig
+  const size = 19
+  const buffer = new Uint8Array(size)
+  const view = new DataView(buffer.buffer)
+
+  view.setUint32(0, size)
+  buffer[4] = 0x63 // c
+  buffer[5] = 0x6F // o
+  buffer[6] = 0x6C // l
+  buffer[7] = 0x72 // r
+
+  // Colour type 'nclx'
+  buffer[8] = 0x6E // n
+  buffer[9] = 0x63 // c
+  buffer[10] = 0x6C // l
+  buffer[11] = 0x78 // x
+
+  view.setUint16(12, colorPrimaries)
+  view.setUint16(14, transferCharacteristics)
+  view.setUint16(16, matrixCoefficients)
+
+  // full_range_flag, then 7 reserved bits
+  buffer[18] = colorRange ? 0x80 : 0
+
+  return buffer
+}
+
+function createIpmaBox(entries: ItemPropertyAssociation[]): Uint8Array {
+  const size = 16 + entries.reduce((sum, entry) => sum + 3 + entry.associations.length, 0) // 8 (header) + 4 (version/flags) + 4 (entry count), then per item 2 (item id) + 1 (association count)
   const buffer = new Uint8Array(size)
   const view = new DataView(buffer.buffer)
 
@@ -481,10 +735,46 @@ function createIpmaBox(): Uint8Array {
   view.setUint32(8, 0)
 
   // Entry count
-  view.setUint32(12, 1)
+  view.setUint32(12, entries.length)
+
+  let offset = 16
+  for (const { itemId, associations } of entries) {
+    // Item ID
+    view.setUint16(offset, itemId)
+
+    // Associations: essential flag and 7-bit property index
+    buffer[offset + 2] = associations.length
+    associations.forEach(({ index, essential }, i) => {
+      buffer[offset + 3 + i] = (essential ? 0x80 : 0) | index
+    })
+    offset += 3 + associations.length
+  }
 
-  // Item ID
-  view.setUint16(16, 1)
+  return buffer
+}
+
+/**
+ * auxC box: the null-terminated URN of an auxiliary image's type
+ */
+function createAuxCBox(auxType: string): Uint8Array {
+  const size = 13 + auxType.length
+  const buffer = new Uint8Array(size)
+  const view = new DataView(buffer.buffer)
+
+  view.setUint32(0, size)
+  buffer[4] = 0x61 // a
+  buffer[5] = 0x75 // u
+  buffer[6] = 0x78 // x
+  buffer[7] = 0x43 // C
+
+  // Version and flags
+  view.setUint32(8, 0)
+
+  // aux_type (null terminated)
+  for (let i = 0; i < auxType.length; i++) {
+    buffer[12 + i] = auxType.charCodeAt(i)
+  }
+  buffer[12 + auxType.length] = 0
 
   return buffer
 }
@@ -1,7 +1,9 @@
-export { decode } from './decoder'
-export { encode, encodeAsync } from './encoder'
+export { decode, decodeAsync, decodeProgressive, decodeYUV } from './decoder'
+export { encode, encodeAsync, encodeToTarget } from './encoder'
 export { encodeViaAvifenc, hasAvifenc } from './encoder-cli'
 export { optimize, optimizeWithStats, remux } from './optimize'
+export { computeButteraugli } from './butteraugli'
+export { computePsnr, computeSsim } from './rate-control'
 export type { OptimizeResult, OptimizeStats } from './optimize'
 export {
   parseISOBMFF,
@@ -10,28 +12,79 @@ export {
   validateFtyp,
   getAvifInfo,
   getImageData,
+  getImageDataSize,
+  getPrimaryItemId,
+  getAlphaItemId,
   parseIloc,
   parseIinf,
+  parseIref,
+  parseIpma,
   parseIspe,
   parsePixi,
   parseAv1C,
+  parseColr,
+  parseAuxC,
+  parseA1lx,
+  parseLsel,
 } from './container/heif'
-export { parseOBUs, createOBU, getOBUTypeName, writeLeb128 } from './av1/obu'
-export { decodeAV1 } from './av1/decoder'
+export { OBUReader, parseOBUs, createOBU, writeOBU, getOBUTypeName, inOperatingPoint, writeLeb128, readSection5, writeSection5 } from './av1/obu'
+export { readIVF, writeIVF } from './av1/ivf'
+export { readAnnexB, writeAnnexB } from './av1/annexb'
+export { convertBitstream, detectBitstreamFormat, readBitstream, writeBitstream } from './av1/bitstream'
+export { decodeAV1, decodeAV1Async, decodeAV1YUV, decodeAV1YUVAsync, listSpatialLayers, parseSequenceHeader } from './av1/decoder'
+export { BitReader } from './av1/bit-reader'
+export { BitWriter } from './av1/bit-writer'
+export { parseFrameHeader } from './av1/frame-header'
+export type { FrameHeaderOptions } from './av1/frame-header'
+export { getAv1Metadata, parseMetadataOBU } from './av1/metadata'
+export { createSequenceHeader, writeSequenceHeader } from './av1/sequence-header'
+export type { SequenceHeaderOptions } from './av1/sequence-header'
+export { validateAV1 } from './av1/validate'
+export type { MetadataOBU } from './av1/metadata'
 export type {
   AvifImageData,
+  AvifYuvImageData,
   AvifEncodeOptions,
+  AvifMetricFunction,
+  AvifTargetAttempt,
+  AvifTargetResult,
   AvifDecodeOptions,
   AvifInfo,
   ISOBMFFBox,
   ItemLocation,
   ItemInfo,
+  ItemReference,
+  ItemPropertyAssociation,
   ImageSpatialExtent,
   PixelInformation,
+  ColorDescription,
+  ColorInformation,
   AV1CodecConfig,
   AV1OBU,
+  SequenceHeader,
+  OperatingPoint,
+  ColorConfig,
+  FrameHeader,
+  TileInfo,
+  QuantizationParams,
+  SegmentationParams,
+  DeltaParams,
+  LoopFilterParams,
+  CdefParams,
+  LoopRestorationParams,
+  FilmGrainParams,
+  Av1Metadata,
+  ContentLightLevel,
+  MasteringDisplayColorVolume,
+  ScalabilityMetadata,
+  ItuT35Metadata,
+  TimecodeMetadata,
+  BitstreamFormat,
+  TemporalUnit,
+  IvfHeader,
+  AV1Violation,
 } from './types'
-export { OBUType } from './types'
+export { OBUType, FrameType, MetadataType } from './types'
 
 // Default export
 import { decode } from './decoder'
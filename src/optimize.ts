@@ -31,9 +31,10 @@ import {
   findBox,
   parseIinf,
   parseIloc,
+  parseIref,
   parseISOBMFF,
 } from './container/heif'
-import type { ItemInfo } from './types'
+import type { ItemInfo, ItemReference } from './types'
 
 /** Item types that are pure metadata and never carry pixel data. */
 const METADATA_ITEM_TYPES = new Set(['Exif', 'mime', 'uri '])
@@ -126,7 +127,7 @@ function remuxWithStats(input: Uint8Array): OptimizeResult {
   const allItems: ItemInfo[] = iinfBox ? parseIinf(iinfBox.data) : []
 
   const irefBox = findBox(meta.children, 'iref')
-  const refs = irefBox ? parseIrefBox(irefBox.data) : []
+  const refs = irefBox ? parseIref(irefBox.data) : []
 
   const ilocBox = findBox(meta.children, 'iloc')
   if (!ilocBox) throw new Error('no iloc — item locations missing')
@@ -134,14 +135,12 @@ function remuxWithStats(input: Uint8Array): OptimizeResult {
 
   // Build the keep set:
   //   1. Primary item
-  //   2. Anything the primary points at via `auxl` (alpha aux)
+  //   2. Anything that points at the primary via `auxl` (alpha aux)
   //   3. Anything that points at the primary via `cdsc` is metadata — DROP
   //   4. Drop anything with metadata item type
   const keep = new Set<number>([primaryItemId])
   for (const ref of refs) {
-    if (ref.fromId === primaryItemId && ref.type === 'auxl') {
-      for (const t of ref.toIds) keep.add(t)
-    }
+    if (ref.type === 'auxl' && ref.toIds.includes(primaryItemId)) keep.add(ref.fromId)
   }
   for (const item of allItems) {
     if (METADATA_ITEM_TYPES.has(item.itemType)) keep.delete(item.itemId)
@@ -334,37 +333,6 @@ function parsePitm(data: Uint8Array): number {
   return version === 0 ? view.getUint16(4) : view.getUint32(4)
 }
 
-interface IrefEntry { type: string, fromId: number, toIds: number[] }
-
-function parseIrefBox(data: Uint8Array): IrefEntry[] {
-  // version (1) + flags (3) + boxes...
-  const version = data[0]
-  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
-  const entries: IrefEntry[] = []
-  let offset = 4
-  while (offset + 8 <= data.length) {
-    const refSize = view.getUint32(offset)
-    const refType = String.fromCharCode(
-      data[offset + 4],
-      data[offset + 5],
-      data[offset + 6],
-      data[offset + 7],
-    )
-    let p = offset + 8
-    const fromId = version === 0 ? view.getUint16(p) : view.getUint32(p)
-    p += version === 0 ? 2 : 4
-    const refCount = view.getUint16(p); p += 2
-    const toIds: number[] = []
-    for (let i = 0; i < refCount; i++) {
-      toIds.push(version === 0 ? view.getUint16(p) : view.getUint32(p))
-      p += version === 0 ? 2 : 4
-    }
-    entries.push({ type: refType, fromId, toIds })
-    offset += refSize
-  }
-  return entries
-}
-
 interface IpmaAssoc { itemId: number, props: { propIndex: number, essential: boolean }[] }
 
 function parseIpma(data: Uint8Array): IpmaAssoc[] {
@@ -518,7 +486,7 @@ function buildIloc(
   return out
 }
 
-function buildIref(refs: IrefEntry[], versionFlagsByte: number): Uint8Array {
+function buildIref(refs: ItemReference[], versionFlagsByte: number): Uint8Array {
   // version 0 → uint16 ids. We always emit version 0 for compactness.
   const refBoxes: Uint8Array[] = refs.map((ref) => {
     const refSize = 8 + 2 + 2 + ref.toIds.length * 2
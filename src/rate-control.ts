@@ -0,0 +1,192 @@
+import type { AvifEncodeOptions, AvifImageData, AvifTargetAttempt, AvifTargetResult } from './types'
+import { computeButteraugli } from './butteraugli'
+import { decode } from './decoder'
+
+/** Side of the SSIM windows, which overlap by half */
+const SSIM_WINDOW = 8
+
+/**
+ * Bisect the quality of an encode against `options.targetBytes` and
+ * `options.targetScore`. Yields each quality to try and takes the encoded
+ * bytes back, so the same search drives the sync and async encoders;
+ * returns the chosen encode. Size and score are taken to grow with
+ * quality, which needs at most 7 encodes over 0-100.
+ */
+export function* searchQuality(
+  imageData: AvifImageData,
+  options: AvifEncodeOptions,
+): Generator<number, AvifTargetResult, Uint8Array> {
+  const { targetBytes, targetScore, targetMetric = 'ssim' } = options
+  if (targetBytes === undefined && targetScore === undefined) {
+    throw new Error('A quality search needs targetBytes or targetScore')
+  }
+  if (options.lossless) {
+    throw new Error('targetBytes and targetScore do not apply to lossless encoding')
+  }
+
+  const attempts: AvifTargetAttempt[] = []
+  const encodes = new Map<number, Uint8Array>()
+  const meets = (attempt: AvifTargetAttempt) =>
+    (targetBytes === undefined || attempt.size <= targetBytes)
+    && (targetScore === undefined || attempt.score! >= targetScore)
+
+  let low = 0
+  let high = 100
+  while (low <= high) {
+    const quality = (low + high) >> 1
+    const bytes = yield quality
+    const attempt: AvifTargetAttempt = { quality, size: bytes.length }
+    if (targetScore !== undefined) {
+      attempt.score = scoreEncode(imageData, bytes, targetMetric)
+    }
+    attempts.push(attempt)
+    encodes.set(quality, bytes)
+
+    // A score target looks for the lowest quality reaching it, whose size
+    // then decides whether it fits; a size target alone for the highest
+    // quality that fits
+    const raise = targetScore !== undefined ? attempt.score! < targetScore : attempt.size <= targetBytes!
+    if (raise) {
+      low = quality + 1
+    }
+    else {
+      high = quality - 1
+    }
+  }
+
+  const met = attempts.filter(meets)
+  let chosen: AvifTargetAttempt
+  if (met.length > 0) {
+    chosen = targetScore !== undefined
+      ? met.reduce((best, attempt) => attempt.size < best.size ? attempt : best)
+      : met.reduce((best, attempt) => attempt.quality > best.quality ? attempt : best)
+  }
+  else if (targetBytes !== undefined) {
+    chosen = attempts.reduce((best, attempt) => attempt.size < best.size ? attempt : best)
+  }
+  else {
+    chosen = attempts.reduce((best, attempt) => attempt.quality > best.quality ? attempt : best)
+  }
+
+  return {
+    bytes: encodes.get(chosen.quality)!,
+    quality: chosen.quality,
+    score: chosen.score,
+    met: met.length > 0,
+    attempts,
+  }
+}
+
+/**
+ * Decode an encode of `original` and score it with `metric`
+ */
+function scoreEncode(
+  original: AvifImageData,
+  bytes: Uint8Array,
+  metric: NonNullable<AvifEncodeOptions['targetMetric']>,
+): number {
+  const deep = original.data instanceof Uint16Array
+  const decoded = decode(bytes, { outputDepth: deep ? 16 : 8 })
+  if (typeof metric === 'function') {
+    return metric(original, decoded)
+  }
+
+  const peak = deep ? 65535 : 255
+  if (metric === 'psnr') {
+    return computePsnr(original.data, decoded.data, peak)
+  }
+  if (metric === 'butteraugli') {
+    return -computeButteraugli(original.data, decoded.data, original.width, original.height, peak)
+  }
+  return computeSsim(original.data, decoded.data, original.width, original.height, peak)
+}
+
+/**
+ * PSNR in dB of the RGB samples of two RGBA images
+ */
+export function computePsnr(a: Uint8Array | Uint16Array, b: Uint8Array | Uint16Array, peak: number = 255): number {
+  let sse = 0
+  for (let i = 0; i < a.length; i++) {
+    if ((i & 3) !== 3) {
+      sse += (a[i] - b[i]) ** 2
+    }
+  }
+  return sse === 0 ? Infinity : 10 * Math.log10(peak * peak * (a.length / 4 * 3) / sse)
+}
+
+/**
+ * Mean SSIM of the BT.601 luma of two RGBA images, over 8x8 windows
+ * spaced 4 pixels apart plus a row and column of windows flush with the
+ * right and bottom edges, so every pixel is scored (smaller images use a
+ * single window)
+ */
+export function computeSsim(
+  a: Uint8Array | Uint16Array,
+  b: Uint8Array | Uint16Array,
+  width: number,
+  height: number,
+  peak: number = 255,
+): number {
+  const lumaA = toLuma(a, width * height)
+  const lumaB = toLuma(b, width * height)
+  const c1 = (0.01 * peak) ** 2
+  const c2 = (0.03 * peak) ** 2
+  const windowWidth = Math.min(SSIM_WINDOW, width)
+  const windowHeight = Math.min(SSIM_WINDOW, height)
+  const n = windowWidth * windowHeight
+
+  let total = 0
+  let windows = 0
+  for (const y of windowStarts(height, windowHeight)) {
+    for (const x of windowStarts(width, windowWidth)) {
+      let sumA = 0
+      let sumB = 0
+      let sumAA = 0
+      let sumBB = 0
+      let sumAB = 0
+      for (let j = 0; j < windowHeight; j++) {
+        for (let i = 0; i < windowWidth; i++) {
+          const p = (y + j) * width + x + i
+          sumA += lumaA[p]
+          sumB += lumaB[p]
+          sumAA += lumaA[p] * lumaA[p]
+          sumBB += lumaB[p] * lumaB[p]
+          sumAB += lumaA[p] * lumaB[p]
+        }
+      }
+
+      const meanA = sumA / n
+      const meanB = sumB / n
+      const varA = sumAA / n - meanA * meanA
+      const varB = sumBB / n - meanB * meanB
+      const covariance = sumAB / n - meanA * meanB
+      total += (2 * meanA * meanB + c1) * (2 * covariance + c2)
+        / ((meanA * meanA + meanB * meanB + c1) * (varA + varB + c2))
+      windows++
+    }
+  }
+  return total / windows
+}
+
+/**
+ * Start positions of the SSIM windows along one axis: every half window,
+ * then one flush with the far edge when the steps fall short of it
+ */
+function windowStarts(size: number, window: number): number[] {
+  const starts: number[] = []
+  for (let start = 0; start + window <= size; start += SSIM_WINDOW / 2) {
+    starts.push(start)
+  }
+  if (starts[starts.length - 1] !== size - window) {
+    starts.push(size - window)
+  }
+  return starts
+}
+
+function toLuma(data: Uint8Array | Uint16Array, pixels: number): Float64Array {
+  const luma = new Float64Array(pixels)
+  for (let i = 0; i < pixels; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+  return luma
+}
@@ -2,16 +2,51 @@
  * AVIF image data
  */
 export interface AvifImageData {
-  /** Pixel data in RGBA format (4 bytes per pixel) */
-  data: Uint8Array
+  /**
+   * Pixel data in RGBA format (4 samples per pixel), 16 bits per sample when
+   * decoded with `outputDepth: 16` or encoded from 16-bit sources
+   */
+  data: Uint8Array | Uint16Array
   /** Image width in pixels */
   width: number
   /** Image height in pixels */
   height: number
   /** Whether the image has an alpha channel */
   hasAlpha?: boolean
-  /** Color depth (8, 10, or 12 bits) */
+  /**
+   * Color depth (8, 10, or 12 bits). Encoding uses it as the output depth,
+   * by default 8 for `Uint8Array` data and 12 for `Uint16Array` data
+   */
   bitDepth?: 8 | 10 | 12
+  /** Film grain parameters signalled by the frame, when it carries grain */
+  filmGrain?: FilmGrainParams
+}
+
+/**
+ * Decoded YUV planes of an AVIF image, before any RGB conversion
+ */
+export interface AvifYuvImageData {
+  /** Y, U and V planes, or only Y for monochrome images */
+  planes: Uint16Array[]
+  /** Row stride of each plane in samples (rows may be padded past the width) */
+  strides: number[]
+  /** Image width in pixels */
+  width: number
+  /** Image height in pixels */
+  height: number
+  bitDepth: 8 | 10 | 12
+  subsamplingX: number
+  subsamplingY: number
+  /** AV1 chroma_sample_position: 0 = unknown, 1 = vertical, 2 = colocated */
+  chromaSamplePosition: number
+  /** CICP values of the colr box, or of the sequence header when there is none */
+  color: ColorDescription
+  /** Film grain parameters signalled by the frame, when it carries grain */
+  filmGrain?: FilmGrainParams
+  /** The monochrome alpha plane, when the image has an alpha item */
+  alpha?: AvifYuvImageData
+  /** Whether the color planes are premultiplied by `alpha` (a prem reference) */
+  premultipliedAlpha?: boolean
 }
 
 /**
@@ -20,28 +55,103 @@ export interface AvifImageData {
 export interface AvifEncodeOptions {
   /** Quality (0-100, default: 80) */
   quality?: number
-  /** Use lossless encoding */
+  /**
+   * Use lossless encoding: RGB is stored as identity (GBR) 4:4:4 and
+   * decodes bit-exactly, ignoring `quality` and `chromaSubsampling`
+   */
   lossless?: boolean
-  /** Speed/effort trade-off (0-10, default: 6) */
+  /**
+   * Speed/effort trade-off (0-10, default: 6). Below 3 the pure-TS encoder
+   * decides by the SATD of the residual, over 3 intra modes at 0 and 5 at
+   * 1 and 2, splitting blocks down to 16x16 below 2 and to 8x8 at 2; from 3
+   * it weighs distortion against bits over every mode and block size, adding transform type search from 6, transform size
+   * search and trellis quantization from 8 and rectangular partitions
+   * from 9
+   */
   effort?: number
-  /** Enable alpha channel */
+  /**
+   * Store the alpha channel as an auxiliary monochrome AV1 item (default:
+   * `imageData.hasAlpha`, or whether any pixel is not opaque)
+   */
   alpha?: boolean
+  /** Quality of the alpha item (0-100, default: `quality`). Lossless encodes keep alpha lossless */
+  alphaQuality?: number
+  /**
+   * Premultiply the color by alpha before encoding and signal it with a
+   * prem reference (default: false)
+   */
+  premultipliedAlpha?: boolean
   /** Chroma subsampling (default: '4:2:0') */
   chromaSubsampling?: '4:2:0' | '4:2:2' | '4:4:4'
   /**
    * Encoder backend selection.
    *
    *   - `'auto'` (default): try the system `avifenc` binary; fall back
-   *     to the pure-TS encoder when it isn't on PATH or fails. Note:
-   *     the pure-TS path is currently a stub — it produces a valid
-   *     AVIF container with placeholder frame data. Use `'auto'` (or
-   *     install libavif) for real output.
+   *     to the pure-TS encoder when it isn't on PATH or fails.
    *   - `'cli'`: require the `avifenc` binary; throw if it's missing.
-   *   - `'pure-ts'`: always use the bundled stub encoder (legacy).
+   *   - `'pure-ts'`: always use the bundled encoder.
    */
   backend?: 'auto' | 'cli' | 'pure-ts'
   /** Override the path to the `avifenc` binary. */
   avifencPath?: string
+  /**
+   * Largest acceptable file size in bytes. Quality is bisected instead of
+   * taken from `quality`, keeping the highest quality that fits
+   */
+  targetBytes?: number
+  /**
+   * Lowest acceptable `targetMetric` score of the decoded image. Quality is
+   * bisected instead of taken from `quality`, keeping the smallest encode
+   * that reaches the score (and fits `targetBytes`, when both are set)
+   */
+  targetScore?: number
+  /**
+   * Metric `targetScore` is measured with (default: 'ssim'): SSIM of the
+   * luma (0-1), PSNR of the RGB samples in dB, the negated butteraugli
+   * distance (so `targetScore: -1.5` asks for a distance of at most 1.5),
+   * or a function scoring the decoded image against the original that
+   * grows with fidelity.
+   */
+  targetMetric?: 'ssim' | 'psnr' | 'butteraugli' | AvifMetricFunction
+}
+
+/**
+ * Scores a decoded image against the original, higher being more faithful
+ */
+export interface AvifMetricFunction {
+  (original: AvifImageData, decoded: AvifImageData): number
+}
+
+/**
+ * One encode made while searching for `targetBytes` / `targetScore`
+ */
+export interface AvifTargetAttempt {
+  /** Quality the attempt was encoded at */
+  quality: number
+  /** Encoded size in bytes */
+  size: number
+  /** `targetMetric` score, when `targetScore` is set */
+  score?: number
+}
+
+/**
+ * Result of an encode searching quality for `targetBytes` / `targetScore`
+ */
+export interface AvifTargetResult {
+  /** The chosen encode */
+  bytes: Uint8Array
+  /** Quality of the chosen encode */
+  quality: number
+  /** `targetMetric` score of the chosen encode, when `targetScore` is set */
+  score?: number
+  /**
+   * Whether the chosen encode meets every target. When none does, it is
+   * the smallest attempt with `targetBytes`, and the highest quality one
+   * otherwise
+   */
+  met: boolean
+  /** Every encode made, in order */
+  attempts: AvifTargetAttempt[]
 }
 
 /**
@@ -52,6 +162,18 @@ export interface AvifDecodeOptions {
   format?: 'rgba' | 'rgb'
   /** Ignore alpha channel */
   ignoreAlpha?: boolean
+  /** Apply film grain synthesis when the image signals grain (default: true) */
+  applyGrain?: boolean
+  /** Bits per output sample: 16 returns `Uint16Array` data scaled to 0-65535 (default: 8) */
+  outputDepth?: 8 | 16
+  /** Dithering applied when reducing to 8-bit output (default: 'none', which rounds) */
+  dither?: 'none' | 'ordered' | 'error-diffusion'
+  /** Tile workers used by `decodeAsync()` (default: one per CPU core) */
+  workers?: number
+  /** AV1 operating point to decode, selecting its temporal and spatial layers (default: 0) */
+  operatingPoint?: number
+  /** Spatial layer to output for layered images (default: the `lsel` property, or the highest layer). Layers that predict from lower ones fall back to the highest intra-coded one */
+  layer?: number
 }
 
 /**
@@ -73,7 +195,20 @@ export interface AvifInfo {
   height: number
   hasAlpha: boolean
   bitDepth: number
+  /** 'srgb', 'display-p3', 'rec2020', 'rec2100-pq', 'rec2100-hlg' or 'icc' */
   colorSpace: string
+  /** CICP values from the nclx colour information box, when present */
+  color?: ColorDescription
+  /** ICC profile from the colour information box, when present */
+  iccProfile?: Uint8Array
+  /** Byte sizes of the first three layers of a layered image, from the a1lx property */
+  layerSizes?: number[]
+  /** Layer to output from the lsel property, unless it selects all layers */
+  selectedLayer?: number
+  /** AV1 metadata OBUs (HDR light levels, mastering display, T.35, ...), when present */
+  metadata?: Av1Metadata
+  /** Whether the color item is premultiplied by its alpha item (a prem reference) */
+  premultipliedAlpha?: boolean
   isSequence: boolean
 }
 
@@ -103,6 +238,26 @@ export interface ItemInfo {
   contentEncoding?: string
 }
 
+/**
+ * Item reference (one entry of iref): `type` references from one item to
+ * others, e.g. 'auxl' from an alpha item to its color item
+ */
+export interface ItemReference {
+  type: string
+  fromId: number
+  toIds: number[]
+}
+
+/**
+ * Property associations of one item (an ipma entry): 1-based indices into
+ * the ipco box, essential when a reader must understand the property to
+ * use the item
+ */
+export interface ItemPropertyAssociation {
+  itemId: number
+  associations: Array<{ index: number, essential: boolean }>
+}
+
 /**
  * Image spatial extent
  */
@@ -118,6 +273,28 @@ export interface PixelInformation {
   bitsPerChannel: number[]
 }
 
+/**
+ * CICP color description (ISO/IEC 23091-2), as carried by an nclx colour
+ * information box or the AV1 color_config
+ */
+export interface ColorDescription {
+  colorPrimaries: number
+  transferCharacteristics: number
+  matrixCoefficients: number
+  /** true = full range, false = limited (studio) range */
+  fullRange: boolean
+}
+
+/**
+ * Colour information (colr)
+ */
+export interface ColorInformation {
+  /** 'nclx' for CICP values, 'rICC' or 'prof' for an ICC profile */
+  colorType: string
+  nclx?: ColorDescription
+  iccProfile?: Uint8Array
+}
+
 /**
  * AV1 codec configuration
  */
@@ -138,8 +315,309 @@ export interface AV1CodecConfig {
  */
 export interface AV1OBU {
   type: number
+  /** Byte offset of the OBU header in the parsed data or stream */
+  offset: number
+  /** Total size in bytes, header included */
   size: number
   data: Uint8Array
+  /** obu_extension_flag: whether the header carries temporal and spatial IDs */
+  hasExtension: boolean
+  /** temporal_id from the extension header (0 without one) */
+  temporalId: number
+  /** spatial_id from the extension header (0 without one) */
+  spatialId: number
+}
+
+/**
+ * AV1 operating point from the sequence header
+ */
+export interface OperatingPoint {
+  /** operating_point_idc: bitmask of temporal (low 8 bits) and spatial (bits 8-11) layers */
+  idc: number
+  seqLevelIdx: number
+  seqTier: number
+  /** Present when decoder_model_present_for_this_op is set */
+  decoderModel?: {
+    decoderBufferDelay: number
+    encoderBufferDelay: number
+    lowDelayMode: boolean
+  }
+  /** initial_display_delay_minus_1 + 1, when signalled */
+  initialDisplayDelay?: number
+}
+
+/**
+ * AV1 color_config() syntax
+ */
+export interface ColorConfig {
+  bitDepth: 8 | 10 | 12
+  monochrome: boolean
+  numPlanes: 1 | 3
+  colorDescriptionPresent: boolean
+  /** CICP color primaries (2 = unspecified) */
+  colorPrimaries: number
+  /** CICP transfer characteristics (2 = unspecified) */
+  transferCharacteristics: number
+  /** CICP matrix coefficients (2 = unspecified) */
+  matrixCoefficients: number
+  /** true = full range, false = limited (studio) range */
+  colorRange: boolean
+  subsamplingX: number
+  subsamplingY: number
+  /** 0 = unknown, 1 = vertical (co-located with left luma), 2 = colocated */
+  chromaSamplePosition: number
+  separateUvDeltaQ: boolean
+}
+
+/**
+ * AV1 sequence header (sequence_header_obu)
+ */
+export interface SequenceHeader {
+  seqProfile: number
+  stillPicture: boolean
+  reducedStillPictureHeader: boolean
+  /** Present when timing_info_present_flag is set */
+  timingInfo?: {
+    numUnitsInDisplayTick: number
+    timeScale: number
+    equalPictureInterval: boolean
+    /** num_ticks_per_picture_minus_1 + 1, when equal_picture_interval is set */
+    numTicksPerPicture?: number
+  }
+  /** Present when decoder_model_info_present_flag is set */
+  decoderModelInfo?: {
+    bufferDelayLength: number
+    numUnitsInDecodingTick: number
+    bufferRemovalTimeLength: number
+    framePresentationTimeLength: number
+  }
+  initialDisplayDelayPresent: boolean
+  operatingPoints: OperatingPoint[]
+  frameWidthBits: number
+  frameHeightBits: number
+  maxFrameWidth: number
+  maxFrameHeight: number
+  frameIdNumbersPresent: boolean
+  deltaFrameIdLength: number
+  additionalFrameIdLength: number
+  use128x128Superblock: boolean
+  enableFilterIntra: boolean
+  enableIntraEdgeFilter: boolean
+  enableInterintraCompound: boolean
+  enableMaskedCompound: boolean
+  enableWarpedMotion: boolean
+  enableDualFilter: boolean
+  enableOrderHint: boolean
+  enableJntComp: boolean
+  enableRefFrameMvs: boolean
+  /** 0, 1 or 2 (SELECT_SCREEN_CONTENT_TOOLS) */
+  seqForceScreenContentTools: number
+  /** 0, 1 or 2 (SELECT_INTEGER_MV) */
+  seqForceIntegerMv: number
+  orderHintBits: number
+  enableSuperres: boolean
+  enableCdef: boolean
+  enableRestoration: boolean
+  colorConfig: ColorConfig
+  filmGrainParamsPresent: boolean
+}
+
+/**
+ * AV1 frame types
+ */
+export enum FrameType {
+  KEY_FRAME = 0,
+  INTER_FRAME = 1,
+  INTRA_ONLY_FRAME = 2,
+  SWITCH_FRAME = 3,
+}
+
+/**
+ * AV1 tile layout (tile_info)
+ */
+export interface TileInfo {
+  uniformTileSpacing: boolean
+  tileCols: number
+  tileRows: number
+  tileColsLog2: number
+  tileRowsLog2: number
+  /** Mode-info column of each tile's left edge, plus MiCols as the final entry */
+  miColStarts: number[]
+  /** Mode-info row of each tile's top edge, plus MiRows as the final entry */
+  miRowStarts: number[]
+  contextUpdateTileId: number
+  /** Bytes used for each tile_size_minus_1 field in a tile group */
+  tileSizeBytes: number
+}
+
+/**
+ * AV1 quantization_params()
+ */
+export interface QuantizationParams {
+  baseQIdx: number
+  deltaQYDc: number
+  deltaQUDc: number
+  deltaQUAc: number
+  deltaQVDc: number
+  deltaQVAc: number
+  usingQmatrix: boolean
+  qmY: number
+  qmU: number
+  qmV: number
+}
+
+/**
+ * AV1 segmentation_params()
+ */
+export interface SegmentationParams {
+  enabled: boolean
+  updateMap: boolean
+  temporalUpdate: boolean
+  updateData: boolean
+  /** featureEnabled[segmentId][feature] for the 8 SEG_LVL_* features */
+  featureEnabled: boolean[][]
+  /** featureData[segmentId][feature], already clipped to the feature range */
+  featureData: number[][]
+  segIdPreSkip: boolean
+  lastActiveSegId: number
+}
+
+/**
+ * AV1 delta_q_params() and delta_lf_params()
+ */
+export interface DeltaParams {
+  deltaQPresent: boolean
+  /** delta_q_res as a shift (the step is 1 << deltaQRes) */
+  deltaQRes: number
+  deltaLfPresent: boolean
+  /** delta_lf_res as a shift (the step is 1 << deltaLfRes) */
+  deltaLfRes: number
+  deltaLfMulti: boolean
+}
+
+/**
+ * AV1 loop_filter_params()
+ */
+export interface LoopFilterParams {
+  /** [vertical luma, horizontal luma, U, V] filter levels */
+  level: [number, number, number, number]
+  sharpness: number
+  deltaEnabled: boolean
+  deltaUpdate: boolean
+  /** Per reference frame deltas, indexed INTRA_FRAME..ALTREF_FRAME */
+  refDeltas: number[]
+  modeDeltas: number[]
+}
+
+/**
+ * AV1 cdef_params()
+ */
+export interface CdefParams {
+  damping: number
+  bits: number
+  yPriStrength: number[]
+  ySecStrength: number[]
+  uvPriStrength: number[]
+  uvSecStrength: number[]
+}
+
+/**
+ * AV1 lr_params()
+ */
+export interface LoopRestorationParams {
+  /** Per plane: 0 = none, 1 = Wiener, 2 = self-guided, 3 = switchable */
+  type: number[]
+  /** Per plane restoration unit size in samples */
+  unitSize: number[]
+  usesLr: boolean
+  usesChromaLr: boolean
+}
+
+/**
+ * AV1 film_grain_params()
+ */
+export interface FilmGrainParams {
+  applyGrain: boolean
+  grainSeed: number
+  updateGrain: boolean
+  /** Set when the parameters are loaded from a reference frame instead of coded */
+  filmGrainParamsRefIdx?: number
+  /** Piecewise-linear luma scaling function as [value, scaling] pairs */
+  pointY: Array<[number, number]>
+  chromaScalingFromLuma: boolean
+  pointCb: Array<[number, number]>
+  pointCr: Array<[number, number]>
+  grainScalingMinus8: number
+  arCoeffLag: number
+  arCoeffsY: number[]
+  arCoeffsCb: number[]
+  arCoeffsCr: number[]
+  arCoeffShiftMinus6: number
+  grainScaleShift: number
+  cbMult: number
+  cbLumaMult: number
+  cbOffset: number
+  crMult: number
+  crLumaMult: number
+  crOffset: number
+  overlapFlag: boolean
+  clipToRestrictedRange: boolean
+}
+
+/**
+ * AV1 uncompressed frame header (uncompressed_header)
+ */
+export interface FrameHeader {
+  showExistingFrame: boolean
+  /** Slot shown when showExistingFrame is set */
+  frameToShowMapIdx?: number
+  frameType: FrameType
+  frameIsIntra: boolean
+  showFrame: boolean
+  showableFrame: boolean
+  errorResilientMode: boolean
+  disableCdfUpdate: boolean
+  allowScreenContentTools: boolean
+  forceIntegerMv: boolean
+  currentFrameId: number
+  frameSizeOverride: boolean
+  orderHint: number
+  /** 7 (PRIMARY_REF_NONE) for intra frames */
+  primaryRefFrame: number
+  refreshFrameFlags: number
+  /** Coded frame width (after superres downscaling) */
+  frameWidth: number
+  frameHeight: number
+  /** Frame width after superres upscaling */
+  upscaledWidth: number
+  useSuperres: boolean
+  superresDenom: number
+  renderWidth: number
+  renderHeight: number
+  miCols: number
+  miRows: number
+  allowIntrabc: boolean
+  disableFrameEndUpdateCdf: boolean
+  tileInfo: TileInfo
+  quantization: QuantizationParams
+  segmentation: SegmentationParams
+  delta: DeltaParams
+  /** Per segment: qindex is 0 and every delta is 0 */
+  losslessArray: boolean[]
+  codedLossless: boolean
+  allLossless: boolean
+  /** segQMLevel[plane][segmentId] when usingQmatrix is set */
+  segQMLevel: number[][]
+  loopFilter: LoopFilterParams
+  cdef: CdefParams
+  loopRestoration: LoopRestorationParams
+  /** 0 = ONLY_4X4, 1 = TX_MODE_LARGEST, 2 = TX_MODE_SELECT */
+  txMode: number
+  referenceSelect: boolean
+  skipModePresent: boolean
+  allowWarpedMotion: boolean
+  reducedTxSet: boolean
+  filmGrain: FilmGrainParams
 }
 
 /**
@@ -156,3 +634,144 @@ export enum OBUType {
   TILE_LIST = 8,
   PADDING = 15,
 }
+
+/**
+ * AV1 metadata OBU types (metadata_type)
+ */
+export enum MetadataType {
+  HDR_CLL = 1,
+  HDR_MDCV = 2,
+  SCALABILITY = 3,
+  ITUT_T35 = 4,
+  TIMECODE = 5,
+}
+
+/**
+ * Content light level (metadata_hdr_cll)
+ */
+export interface ContentLightLevel {
+  /** Maximum content light level in cd/m² (MaxCLL) */
+  maxCll: number
+  /** Maximum frame-average light level in cd/m² (MaxFALL) */
+  maxFall: number
+}
+
+/**
+ * Mastering display colour volume (metadata_hdr_mdcv). Chromaticities are
+ * CIE 1931 xy coordinates and luminances are in cd/m².
+ */
+export interface MasteringDisplayColorVolume {
+  /** Display primaries in the order coded (usually green, blue, red) */
+  primaries: Array<{ x: number, y: number }>
+  whitePoint: { x: number, y: number }
+  luminanceMax: number
+  luminanceMin: number
+}
+
+/**
+ * Scalability structure (metadata_scalability)
+ */
+export interface ScalabilityMetadata {
+  /** scalability_mode_idc, where 14 (SCALABILITY_SS) carries `structure` */
+  modeIdc: number
+  structure?: {
+    spatialLayers: number
+    /** Frame size of each spatial layer, when signalled */
+    spatialLayerDimensions?: Array<{ width: number, height: number }>
+    /** spatial_layer_ref_id of each spatial layer, when signalled */
+    spatialLayerRefIds?: number[]
+    /** Temporal group description, when signalled */
+    temporalGroup?: Array<{
+      temporalId: number
+      temporalSwitchingUpPoint: boolean
+      spatialSwitchingUpPoint: boolean
+      refPicDiffs: number[]
+    }>
+  }
+}
+
+/**
+ * ITU-T T.35 metadata (metadata_itut_t35)
+ */
+export interface ItuT35Metadata {
+  countryCode: number
+  /** Present when countryCode is 0xFF */
+  countryCodeExtension?: number
+  /** The T.35 payload following the country code, without trailing bits */
+  payload: Uint8Array
+  /** Whether the payload is HDR10+ dynamic metadata (SMPTE ST 2094-40) */
+  isHdr10Plus: boolean
+}
+
+/**
+ * Timecode (metadata_timecode)
+ */
+export interface TimecodeMetadata {
+  countingType: number
+  fullTimestamp: boolean
+  discontinuity: boolean
+  cntDropped: boolean
+  nFrames: number
+  /** Present when coded (always with fullTimestamp) */
+  seconds?: number
+  minutes?: number
+  hours?: number
+  /** time_offset_value, when time_offset_length is not 0 */
+  timeOffset?: number
+}
+
+/**
+ * Metadata carried by the METADATA OBUs of an AV1 bitstream. When a type
+ * occurs more than once, the first occurrence is kept (T.35 payloads are
+ * all kept).
+ */
+export interface Av1Metadata {
+  contentLightLevel?: ContentLightLevel
+  masteringDisplay?: MasteringDisplayColorVolume
+  scalability?: ScalabilityMetadata
+  itutT35: ItuT35Metadata[]
+  timecode?: TimecodeMetadata
+}
+
+/**
+ * Raw AV1 bitstream framings: IVF files, Annex B length-delimited temporal
+ * units and low-overhead (Section 5) OBU streams
+ */
+export type BitstreamFormat = 'ivf' | 'annexb' | 'section5'
+
+/**
+ * The OBUs of one temporal unit (all frames sharing a presentation time)
+ */
+export interface TemporalUnit {
+  obus: AV1OBU[]
+  /** Presentation timestamp in timebase units, when the framing carries one (IVF) */
+  timestamp?: number
+}
+
+/**
+ * IVF file header
+ */
+export interface IvfHeader {
+  /** Codec FourCC, 'AV01' for AV1 */
+  fourcc: string
+  width: number
+  height: number
+  /** Timebase as a fraction of a second: numerator / denominator */
+  timebaseNumerator: number
+  timebaseDenominator: number
+  /** Number of frames declared by the header */
+  frameCount: number
+}
+
+/**
+ * A conformance problem reported by validateAV1()
+ */
+export interface AV1Violation {
+  /** Byte offset of the OBU or box at fault (a file offset for AVIF input) */
+  offset: number
+  /** Type of the OBU at fault, absent for container and whole-stream problems */
+  obuType?: OBUType
+  /** 'error' breaks a spec requirement, 'warning' a recommendation */
+  severity: 'error' | 'warning'
+  message: string
+}
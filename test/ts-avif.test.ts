@@ -1,5 +1,144 @@
 import { describe, expect, it } from 'bun:test'
-import avif, { parseISOBMFF, parseOBUs, createOBU, getOBUTypeName, writeLeb128, OBUType } from '../src'
+import type { AV1OBU, AvifYuvImageData, FilmGrainParams, FrameHeader, ItuT35Metadata, MasteringDisplayColorVolume, SequenceHeader } from '../src'
+import type { FrameState } from '../src/av1/frame-state'
+import avif, {
+  parseISOBMFF,
+  findBox,
+  parseAv1C,
+  parseOBUs,
+  parseSequenceHeader,
+  parseFrameHeader,
+  createOBU,
+  decodeProgressive,
+  decodeYUV,
+  convertBitstream,
+  createSequenceHeader,
+  detectBitstreamFormat,
+  getAlphaItemId,
+  getAv1Metadata,
+  getAvifInfo,
+  getOBUTypeName,
+  inOperatingPoint,
+  findAllBoxes,
+  parseA1lx,
+  parseColr,
+  parseIinf,
+  parseIpma,
+  parseIref,
+  parsePixi,
+  parseLsel,
+  parseMetadataOBU,
+  readAnnexB,
+  readIVF,
+  readSection5,
+  validateAV1,
+  writeAnnexB,
+  writeIVF,
+  writeLeb128,
+  writeOBU,
+  writeSequenceHeader,
+  writeSection5,
+  computeButteraugli,
+  computePsnr,
+  computeSsim,
+  encodeToTarget,
+  BitReader,
+  BitWriter,
+  FrameType,
+  MetadataType,
+  OBUReader,
+  OBUType,
+} from '../src'
+import { DEFAULT_TXB_SKIP_CDF } from '../src/av1/cdf-tables'
+import { applyCdef } from '../src/av1/cdef'
+import { copyCdfContext, createCdfContext, getCoefficientCdfQContext } from '../src/av1/cdf'
+import { concatBytes } from '../src/av1/obu'
+import { decodeAV1, decodeAV1YUV, decodeAV1YUVAsync, listSpatialLayers } from '../src/av1/decoder'
+import { applyFilmGrain } from '../src/av1/film-grain'
+import { readFrameHeader } from '../src/av1/frame-header'
+import { createFrameState } from '../src/av1/frame-state'
+import {
+  EDGE_OFFSET,
+  predictChromaFromLuma,
+  predictDc,
+  predictDirectional,
+  predictFilterIntra,
+  predictIntra,
+  predictPaeth,
+  predictSmooth,
+} from '../src/av1/intra-prediction'
+import { applyLoopFilter } from '../src/av1/loop-filter'
+import { applyLoopRestoration } from '../src/av1/loop-restoration'
+import { acQ, dcQ, dequantize, QM_LEVEL_FLAT } from '../src/av1/quantizer'
+import { upscaledStrides, upscalePlanes } from '../src/av1/superres'
+import { SymbolDecoder } from '../src/av1/symbol-decoder'
+import {
+  ADST_ADST,
+  BLOCK_128X128,
+  BLOCK_16X16,
+  BLOCK_64X64,
+  BLOCK_8X8,
+  BLOCK_INVALID,
+  D45_PRED,
+  DCT_DCT,
+  FLIPADST_ADST,
+  getScan,
+  H_DCT,
+  MAX_TX_SIZE_RECT,
+  PARTITION_HORZ_4,
+  PARTITION_SPLIT,
+  PARTITION_SUBSIZE,
+  PARTITION_VERT,
+  SMOOTH_PRED,
+  TX_32X32,
+  TX_4X4,
+  TX_64X64,
+  TX_8X8,
+  V_DCT,
+} from '../src/av1/tables'
+import { readTileGroup } from '../src/av1/tile-group'
+import { inverseDct, inverseTransform2D } from '../src/av1/transform'
+import { getEncodeBitDepth, yuvToRgba } from '../src/color'
+import { createFtyp } from '../src/container/heif'
+
+// 16x16 still encoded by libaom (temporal delimiter, reduced sequence header, frame)
+const LIBAOM_16X16_OBUS = hexToBytes(
+  '12000a09180cffd8204040d080325718000a28a28400af35e13e2ffbebc78cb245c6cdf8d54454bbcdee42'
+  + '2178059325096ccbdd9afdf2ae71a119178444aa46e4bb5d79197cc62f78a02d305d99ad6812305bacc8'
+  + '95d6f7aaaea83901923ba12bda39fb0e20',
+)
+
+// FRAME OBU of the same 16x16 still encoded by libaom at a lower quality,
+// sharing the sequence header of LIBAOM_16X16_OBUS
+const LIBAOM_16X16_LOW_QUALITY_FRAME = hexToBytes('32151c8029a69a45008bffbbdb6723f0fcf2b1e60eb9cb')
+
+// 128x16 still encoded by libaom as two 64x16 tiles in one FRAME OBU
+const LIBAOM_2_TILE_OBUS = hexToBytes(
+  '12000a091818fffb0408081a10326d18e403fffffc500031c8e4c2c8920597388a82956c1270f4682bf734'
+  + '461332a6290a11b26301cffbbe8f586ebd340a7b8f5329dd24e12cdcd013d0c8e4c2c8920597388a82956c'
+  + '1270f4682bf734461332a6290a11b26301cffbbe8f586ebd340a7b8f5329dd24e12cdcd013d0',
+)
+
+// Two 16x16 frames encoded by libaom: a key frame, then an inter frame
+// predicting from it
+const LIBAOM_KEY_INTER_OBUS = hexToBytes(
+  '12000a0a000000019ff9f7f3008032f70110018f8000030000f7c000f1f513ad4fd13bf491d6836ad8121e'
+  + 'b8fe0c4a99d795d38f54f10f515166fe99a03ea87f8ee1c86227e56cfee9f1e04f4b936b8d40085388d367'
+  + 'a197f55cf417e8350e3c1a5201b82285a0f0f129f2b72d22fc200c78f709cea04e72c9b637253174b0432a'
+  + '6ccb58e361bc93e0d1f65701539b11d4170c17779d4076f5e18fcd8430645821d570b768e9ab277961ac5e'
+  + '07f1433446c56f85dffe372d59417ff9766e0f3ab1a05a46708f38826c34cf1821450a4138afdefb99b587'
+  + '1fbeb1262af9c5893a5b051266fcb3794e69e1b0c09190df5ad62a7e0ae328d739c3facae684d740550b4b'
+  + '58fe9545125c1200323830020100a72e47bc000002437500800017f8cbe339961fb22b47d2f17fd4ed7ec2'
+  + 'a52a00000b9ef9c4ff2335ea78e4d5ed7da7786701bcf4'
+)
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
 
 // Helper to create test image data
 function createTestImageData(width: number, height: number, color: { r: number, g: number, b: number, a: number }): { data: Uint8Array, width: number, height: number } {
@@ -13,6 +152,79 @@ function createTestImageData(width: number, height: number, color: { r: number,
   return { data, width, height }
 }
 
+// Helper to create test image data from the RGBA of each pixel, by default
+// a smooth gradient with some texture in green
+function createGradientImageData(
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => number[] = (x, y) => [x * 6, 128 + Math.round(60 * Math.sin(x / 4 + y / 5)), y * 7, 255],
+  ArrayType: Uint8ArrayConstructor | Uint16ArrayConstructor = Uint8Array,
+): { data: Uint8Array | Uint16Array, width: number, height: number } {
+  const data = new ArrayType(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(pixel(x, y), (y * width + x) * 4)
+    }
+  }
+  return { data, width, height }
+}
+
+// Helper to pack [value, bitCount] fields MSB-first, zero-padded to a byte
+function packBits(fields: Array<[number, number]>): Uint8Array {
+  const bits: number[] = []
+  for (const [value, count] of fields) {
+    for (let i = count - 1; i >= 0; i--) {
+      bits.push(Math.floor(value / 2 ** i) & 1)
+    }
+  }
+  const bytes = new Uint8Array(Math.ceil(bits.length / 8))
+  bits.forEach((bit, i) => {
+    bytes[i >> 3] |= bit << (7 - (i & 7))
+  })
+  return bytes
+}
+
+// Helper to wrap a payload in an ISOBMFF box
+function createBox(type: string, ...payloads: Uint8Array[]): Uint8Array {
+  const payload = concatBytes(payloads)
+  const box = new Uint8Array(8 + payload.length)
+  new DataView(box.buffer).setUint32(0, box.length)
+  box.set(new TextEncoder().encode(type), 4)
+  box.set(payload, 8)
+  return box
+}
+
+// Helper to build an AVIF with `av1Data` as its primary item, layered with
+// an a1lx property when `layerSizes` is given
+function createAvif(av1Data: Uint8Array, width: number, height: number, layerSizes?: number[]): Uint8Array {
+  const fullBox = (type: string, ...payloads: Uint8Array[]) => createBox(type, new Uint8Array(4), ...payloads)
+  const uint = (bytes: number, value: number) => Uint8Array.from({ length: bytes }, (_, i) => value >> ((bytes - 1 - i) * 8))
+  const properties = [fullBox('ispe', uint(4, width), uint(4, height))]
+  if (layerSizes) {
+    properties.push(createBox('a1lx', uint(1, 0), ...layerSizes.map(size => uint(2, size))))
+  }
+
+  const iprp = createBox(
+    'iprp',
+    createBox('ipco', ...properties),
+    // Item 1 has every property
+    fullBox('ipma', uint(4, 1), uint(2, 1), uint(1, properties.length), ...properties.map((_, i) => uint(1, i + 1))),
+  )
+  const meta = (dataOffset: number) => fullBox(
+    'meta',
+    fullBox('hdlr', uint(4, 0), new TextEncoder().encode('pict'), new Uint8Array(13)),
+    fullBox('pitm', uint(2, 1)),
+    // offset_size 4, length_size 4; item 1 has one extent
+    fullBox('iloc', uint(1, 0x44), uint(1, 0), uint(2, 1), uint(2, 1), uint(2, 0), uint(2, 1), uint(4, dataOffset), uint(4, av1Data.length)),
+    fullBox('iinf', uint(2, 1), createBox('infe', uint(4, 0x02000000), uint(2, 1), uint(2, 0), new TextEncoder().encode('av01'), new Uint8Array(1))),
+    iprp,
+  )
+
+  const ftyp = createFtyp()
+  const dataOffset = ftyp.length + meta(0).length + 8
+  return concatBytes([ftyp, meta(dataOffset), createBox('mdat', av1Data)])
+}
+
 describe('ts-avif', () => {
   describe('avif.encode', () => {
     it('encodes a simple image with valid ISOBMFF structure', () => {
@@ -119,6 +331,104 @@ describe('ts-avif', () => {
     })
   })
 
+  describe('bit I/O', () => {
+    it('round-trips every descriptor', () => {
+      const writer = new BitWriter()
+      writer.writeBit(1)
+      writer.writeBits(0x2A, 6)
+      writer.writeBits(0xFFFFFFFF, 32)
+      writer.writeSu(-5, 4)
+      writer.writeSu(7, 4)
+      writer.writeUvlc(0)
+      writer.writeUvlc(1234)
+      writer.byteAlign()
+      writer.writeLe(0x01020304, 4)
+      writer.writeLeb128(300)
+      writer.writeLeb128(5, 3)
+      writer.writeTrailingBits()
+
+      const reader = new BitReader(writer.toUint8Array())
+      expect(reader.readBit()).toBe(1)
+      expect(reader.readBits(6)).toBe(0x2A)
+      expect(reader.readBits(32)).toBe(0xFFFFFFFF)
+      expect(reader.readSu(4)).toBe(-5)
+      expect(reader.readSu(4)).toBe(7)
+      expect(reader.readUvlc()).toBe(0)
+      expect(reader.readUvlc()).toBe(1234)
+      reader.byteAlign()
+      expect(reader.readLe(4)).toBe(0x01020304)
+      expect(reader.readLeb128()).toBe(300)
+      expect(reader.readLeb128()).toBe(5)
+      reader.readTrailingBits()
+      expect(reader.remaining).toBe(0)
+    })
+
+    it('reads a uvlc() with 32 or more leading zeros up to its one bit', () => {
+      // 40 zero bits, the terminating one bit, then a 5-bit field
+      const reader = new BitReader(Uint8Array.of(0, 0, 0, 0, 0, 0b10101100))
+      expect(reader.readUvlc()).toBe(0xFFFFFFFF)
+      expect(reader.readBits(5)).toBe(0b01011)
+      expect(reader.remaining).toBe(2)
+    })
+
+    it('writes whole bytes at any bit position', () => {
+      const payload = Uint8Array.from({ length: 200 }, (_, i) => i)
+      const writer = new BitWriter()
+      writer.writeBytes(payload)
+      writer.writeBit(1)
+      writer.writeBytes(Uint8Array.of(0xFF, 0x01))
+
+      const bytes = writer.toUint8Array()
+      expect(writer.position).toBe(200 * 8 + 17)
+      expect(Array.from(bytes.subarray(0, 200))).toEqual(Array.from(payload))
+      expect(Array.from(bytes.subarray(200))).toEqual([0xFF, 0x80, 0x80])
+    })
+
+    it('round-trips ns() for every value', () => {
+      for (const n of [1, 2, 3, 5, 7, 8, 13]) {
+        const writer = new BitWriter()
+        for (let v = 0; v < n; v++) {
+          writer.writeNs(v, n)
+        }
+        const reader = new BitReader(writer.toUint8Array())
+        for (let v = 0; v < n; v++) {
+          expect(reader.readNs(n)).toBe(v)
+        }
+      }
+    })
+
+    it('writes trailing bits and padded leb128 like the spec', () => {
+      const writer = new BitWriter()
+      writer.writeBits(0b101, 3)
+      writer.writeTrailingBits()
+      writer.writeLeb128(1, 2)
+      expect(Array.from(writer.toUint8Array())).toEqual([0b10110000, 0x81, 0x00])
+      expect(writer.position).toBe(24)
+    })
+
+    it('throws when reading past the end', () => {
+      const reader = new BitReader(new Uint8Array([0xFF]))
+      expect(() => reader.readBits(9)).toThrow('Read past the end')
+      reader.readBits(8)
+      expect(() => reader.readBit()).toThrow('Read past the end')
+      expect(() => new BitReader(new Uint8Array([0x80])).readLeb128()).toThrow('Read past the end')
+    })
+
+    it('rejects invalid trailing bits', () => {
+      expect(() => new BitReader(new Uint8Array([0x00])).readTrailingBits()).toThrow('expected a one bit')
+      expect(() => new BitReader(new Uint8Array([0x81])).readTrailingBits()).toThrow('expected zero padding')
+    })
+
+    it('rejects values that do not fit', () => {
+      const writer = new BitWriter()
+      expect(() => writer.writeBits(8, 3)).toThrow('does not fit')
+      expect(() => writer.writeSu(-9, 4)).toThrow('does not fit')
+      expect(() => writer.writeNs(5, 5)).toThrow('out of range')
+      expect(() => writer.writeLeb128(128, 1)).toThrow('does not fit')
+      expect(() => createOBU(OBUType.FRAME, new Uint8Array(0), { hasExtension: true, spatialId: 4 })).toThrow('does not fit')
+    })
+  })
+
   describe('AV1 OBU utilities', () => {
     it('creates valid OBU', () => {
       const data = new Uint8Array([0x01, 0x02, 0x03, 0x04])
@@ -151,6 +461,102 @@ describe('ts-avif', () => {
       expect(getOBUTypeName(OBUType.METADATA)).toBe('METADATA')
     })
 
+    it('reads temporal and spatial IDs from extension headers', () => {
+      const [plain, layered] = parseOBUs(new Uint8Array([
+        ...createOBU(OBUType.TEMPORAL_DELIMITER, new Uint8Array(0)),
+        ...createOBU(OBUType.FRAME, new Uint8Array([1, 2]), { hasExtension: true, temporalId: 5, spatialId: 2 }),
+      ]))
+
+      expect([plain.hasExtension, plain.temporalId, plain.spatialId]).toEqual([false, 0, 0])
+      expect([layered.hasExtension, layered.temporalId, layered.spatialId]).toEqual([true, 5, 2])
+      expect(Array.from(layered.data)).toEqual([1, 2])
+    })
+
+    it('reads OBUs incrementally from chunks with their stream offsets', () => {
+      const stream = new Uint8Array([
+        ...createOBU(OBUType.TEMPORAL_DELIMITER, new Uint8Array(0)),
+        ...createOBU(OBUType.METADATA, new Uint8Array(200).fill(7)),
+        ...createOBU(OBUType.PADDING, Uint8Array.of(1, 2, 3), { hasExtension: true, spatialId: 1 }),
+      ])
+      const reader = new OBUReader()
+      const obus: AV1OBU[] = []
+      for (let i = 0; i < stream.length; i += 5) {
+        obus.push(...reader.push(stream.subarray(i, i + 5)))
+        expect(reader.bufferedBytes).toBeLessThan(210)
+      }
+      obus.push(...reader.end())
+
+      expect(obus.map(obu => [obu.type, obu.offset, obu.size])).toEqual([[2, 0, 2], [5, 2, 203], [15, 205, 6]])
+      expect(obus).toEqual(parseOBUs(stream))
+      expect(obus[1].data).toEqual(new Uint8Array(200).fill(7))
+      expect(reader.position).toBe(stream.length)
+    })
+
+    it('reads a stream pushed a byte at a time through a reused buffer', () => {
+      const stream = new Uint8Array([
+        ...createOBU(OBUType.METADATA, Uint8Array.from({ length: 300 }, (_, i) => i)),
+        ...createOBU(OBUType.PADDING, Uint8Array.of(1, 2, 3), { hasExtension: true, spatialId: 1 }),
+      ])
+      const reader = new OBUReader()
+      const chunk = new Uint8Array(1)
+      const obus: AV1OBU[] = []
+      for (const byte of stream) {
+        chunk[0] = byte
+        obus.push(...reader.push(chunk))
+      }
+
+      expect(obus).toEqual(parseOBUs(stream))
+      expect(reader.bufferedBytes).toBe(0)
+    })
+
+    it('reports truncated OBUs with their offset', () => {
+      const obu = createOBU(OBUType.FRAME, new Uint8Array(10))
+      expect(() => parseOBUs(new Uint8Array([...createOBU(OBUType.TEMPORAL_DELIMITER, new Uint8Array(0)), ...obu.subarray(0, 8)])))
+        .toThrow('Truncated OBU at byte 2: expected 12 bytes, only 8 remain')
+
+      const reader = new OBUReader()
+      expect(reader.push(Uint8Array.of(0x34))).toEqual([]) // extension flag set, header incomplete
+      expect(() => reader.end()).toThrow('Truncated OBU header at byte 0')
+
+      // The partial OBU is kept, so the stream can still be completed
+      expect(reader.bufferedBytes).toBe(1)
+      expect(() => reader.end()).toThrow('Truncated OBU header at byte 0')
+      expect(reader.push(Uint8Array.of(0, 5))).toEqual([])
+      expect(reader.end().map(obu => Array.from(obu.data))).toEqual([[5]])
+    })
+
+    it('reads OBUs without a size field when framed externally', () => {
+      const reader = new OBUReader()
+      // obu_has_size_field = 0: the payload size comes from the framing
+      const sizeless = reader.pushFramed(Uint8Array.of(OBUType.PADDING << 3, 9, 9, 9))
+      const sized = reader.pushFramed(createOBU(OBUType.PADDING, Uint8Array.of(4)))
+
+      expect([sizeless.offset, Array.from(sizeless.data)]).toEqual([0, [9, 9, 9]])
+      expect([sized.offset, Array.from(sized.data)]).toEqual([4, [4]])
+      expect(() => reader.pushFramed(new Uint8Array([...createOBU(OBUType.PADDING, Uint8Array.of(4)), 0])))
+        .toThrow('size field of 1 bytes but its framing leaves 2')
+
+      // In a low-overhead stream it runs to the end of the stream
+      const stream = new OBUReader()
+      expect(stream.push(Uint8Array.of(OBUType.PADDING << 3, 1))).toEqual([])
+      expect(stream.push(Uint8Array.of(2))).toEqual([])
+      expect(stream.end().map(obu => Array.from(obu.data))).toEqual([[1, 2]])
+    })
+
+    it('keeps only the layers of an operating point', () => {
+      const obu = (type: OBUType, temporalId: number, spatialId: number) =>
+        parseOBUs(createOBU(type, new Uint8Array(1), { hasExtension: true, temporalId, spatialId }))[0]
+      // Temporal layer 0, spatial layers 0 and 1
+      const idc = 0x301
+
+      expect(inOperatingPoint(obu(OBUType.FRAME, 0, 1), idc)).toBe(true)
+      expect(inOperatingPoint(obu(OBUType.FRAME, 1, 0), idc)).toBe(false)
+      expect(inOperatingPoint(obu(OBUType.FRAME, 0, 2), idc)).toBe(false)
+      expect(inOperatingPoint(obu(OBUType.FRAME, 0, 2), 0)).toBe(true)
+      expect(inOperatingPoint(obu(OBUType.SEQUENCE_HEADER, 1, 2), idc)).toBe(true)
+      expect(inOperatingPoint(parseOBUs(createOBU(OBUType.FRAME, new Uint8Array(1)))[0], idc)).toBe(true)
+    })
+
     it('writeLeb128 encodes small values correctly', () => {
       const value0 = writeLeb128(0)
       expect(value0.length).toBe(1)
@@ -177,6 +583,1224 @@ describe('ts-avif', () => {
     })
   })
 
+  describe('bitstream framing', () => {
+    it('writes and reads Annex B temporal and frame units', () => {
+      const obus = parseOBUs(LIBAOM_16X16_OBUS)
+      const annexB = writeAnnexB([{ obus }, { obus: obus.slice(1) }])
+
+      // temporal_unit_size, frame_unit_size, obu_length, then a temporal delimiter without obu_size
+      expect(Array.from(annexB.subarray(2, 4))).toEqual([1, OBUType.TEMPORAL_DELIMITER << 3])
+      const units = readAnnexB(annexB)
+      expect(units).toHaveLength(2)
+      expect(units[1].obus.map(obu => obu.type)).toEqual([OBUType.TEMPORAL_DELIMITER, OBUType.SEQUENCE_HEADER, OBUType.FRAME])
+      expect(units[0].obus.map(obu => obu.data)).toEqual(obus.map(obu => obu.data))
+      expect(() => readAnnexB(annexB.subarray(0, annexB.length - 1))).toThrow('Invalid temporal_unit_size')
+    })
+
+    it('writes and reads IVF files', () => {
+      const ivf = writeIVF([{ obus: parseOBUs(LIBAOM_16X16_OBUS), timestamp: 7 }], { timebaseNumerator: 1, timebaseDenominator: 1000 })
+      const { header, temporalUnits } = readIVF(ivf)
+
+      expect(header).toEqual({ fourcc: 'AV01', width: 16, height: 16, timebaseNumerator: 1, timebaseDenominator: 1000, frameCount: 1 })
+      expect(temporalUnits[0].timestamp).toBe(7)
+      expect(temporalUnits[0].obus[0].offset).toBe(44)
+      expect(writeSection5(temporalUnits)).toEqual(LIBAOM_16X16_OBUS)
+      expect(() => readIVF(ivf.subarray(0, ivf.length - 1))).toThrow('Truncated IVF frame at byte 44')
+    })
+
+    it('detects and converts between framings', () => {
+      const annexB = convertBitstream(LIBAOM_2_TILE_OBUS, 'annexb')
+      const ivf = convertBitstream(annexB, 'ivf')
+
+      expect([LIBAOM_2_TILE_OBUS, annexB, ivf].map(detectBitstreamFormat)).toEqual(['section5', 'annexb', 'ivf'])
+      expect(convertBitstream(ivf, 'section5')).toEqual(LIBAOM_2_TILE_OBUS)
+      expect(readSection5(new Uint8Array([...LIBAOM_16X16_OBUS, ...LIBAOM_16X16_OBUS]))).toHaveLength(2)
+    })
+  })
+
+  describe('validateAV1', () => {
+    const messages = (data: Uint8Array): string[] => validateAV1(data).map(violation => `${violation.offset} ${violation.message}`)
+
+    it('accepts conforming streams', () => {
+      expect(validateAV1(LIBAOM_16X16_OBUS)).toEqual([])
+      expect(validateAV1(LIBAOM_2_TILE_OBUS)).toEqual([])
+      // Inter frames get OBU-level checks only
+      expect(validateAV1(LIBAOM_KEY_INTER_OBUS)).toEqual([])
+    })
+
+    it('requires the first frame to be a key frame', () => {
+      const [temporalDelimiter, seqHeader, , , interFrame] = parseOBUs(LIBAOM_KEY_INTER_OBUS)
+      const data = concatBytes([temporalDelimiter, seqHeader, interFrame].map(obu => writeOBU(obu)))
+      expect(messages(data)).toEqual([`${writeOBU(temporalDelimiter).length + writeOBU(seqHeader).length} FRAME: the first frame must be a shown key frame`])
+    })
+
+    it('reports reserved and forbidden header bits at the OBU offset', () => {
+      const data = LIBAOM_16X16_OBUS.slice()
+      data[2] |= 0x01
+      data[13] |= 0x80
+      expect(messages(data)).toEqual([
+        '2 SEQUENCE_HEADER: obu_reserved_1bit is set',
+        '13 FRAME: obu_forbidden_bit is set',
+        '0 no frame found',
+      ])
+    })
+
+    it('reports misordered OBUs', () => {
+      const [temporalDelimiter, seqHeader, frame] = parseOBUs(LIBAOM_16X16_OBUS).map(obu => writeOBU(obu))
+      expect(messages(new Uint8Array([...seqHeader, ...frame]))).toEqual(['0 SEQUENCE_HEADER: the bitstream must start with a temporal delimiter'])
+      expect(messages(new Uint8Array([...temporalDelimiter, ...frame, ...seqHeader]))).toEqual([
+        '2 FRAME: comes before any sequence header',
+        '0 no frame found',
+      ])
+    })
+
+    it('checks obu_size against the payload and its trailing bits', () => {
+      const obus = parseOBUs(LIBAOM_16X16_OBUS)
+      const seqHeader = createOBU(OBUType.SEQUENCE_HEADER, new Uint8Array([...obus[1].data, 0x01]))
+      const data = new Uint8Array([...writeOBU(obus[0]), ...seqHeader, ...writeOBU(obus[2])])
+      expect(messages(data)).toEqual(['2 SEQUENCE_HEADER: obu_size is larger than the payload: 1 bytes follow its trailing bits'])
+
+      const truncated = LIBAOM_16X16_OBUS.slice()
+      truncated[14] += 1
+      expect(messages(truncated)).toEqual([`13 FRAME: obu_size is ${truncated[14]} bytes but only ${truncated[14] - 1} remain`, '0 no frame found'])
+    })
+
+    it('checks levels and still_picture', () => {
+      const reservedLevel = LIBAOM_16X16_OBUS.slice()
+      reservedLevel[5] |= 0x80 // seq_level_idx 2
+      expect(messages(reservedLevel)).toEqual(['2 SEQUENCE_HEADER: seq_level_idx 2 is reserved'])
+
+      const twoFrames = new Uint8Array([...LIBAOM_16X16_OBUS, ...LIBAOM_16X16_LOW_QUALITY_FRAME])
+      expect(messages(twoFrames)).toEqual(['0 still_picture is set but the bitstream has 2 frames'])
+    })
+  })
+
+  describe('metadata OBUs', () => {
+    it('parses HDR content light level and mastering display metadata', () => {
+      const cll = parseMetadataOBU(Uint8Array.of(MetadataType.HDR_CLL, 0x03, 0xE8, 0x01, 0x90, 0x80))
+      expect(cll).toEqual({ type: MetadataType.HDR_CLL, value: { maxCll: 1000, maxFall: 400 } })
+
+      const mdcv = parseMetadataOBU(new Uint8Array([MetadataType.HDR_MDCV, ...packBits([
+        [0x4000, 16], [0xB000, 16], // G (0.25, 0.6875)
+        [0x2000, 16], [0x1000, 16], // B
+        [0xA000, 16], [0x5000, 16], // R
+        [0x5000, 16], [0x5400, 16], // White point
+        [1000 * 256, 32], // 1000 cd/m²
+        [82, 32], // ~0.005 cd/m²
+        [1, 1],
+      ])]))
+      expect(mdcv?.type).toBe(MetadataType.HDR_MDCV)
+      const display = mdcv?.value as MasteringDisplayColorVolume
+      expect(display.primaries).toEqual([{ x: 0.25, y: 0.6875 }, { x: 0.125, y: 0.0625 }, { x: 0.625, y: 0.3125 }])
+      expect(display.whitePoint).toEqual({ x: 0.3125, y: 0.328125 })
+      expect(display.luminanceMax).toBe(1000)
+      expect(display.luminanceMin).toBeCloseTo(0.005, 3)
+    })
+
+    it('parses ITU-T T.35 payloads and recognizes HDR10+', () => {
+      const hdr10Plus = parseMetadataOBU(Uint8Array.of(MetadataType.ITUT_T35, 0xB5, 0x00, 0x3C, 0x00, 0x01, 0x04, 0x01, 0x40, 0x80, 0x00))
+      expect(hdr10Plus?.value).toEqual({
+        countryCode: 0xB5,
+        countryCodeExtension: undefined,
+        payload: Uint8Array.of(0x00, 0x3C, 0x00, 0x01, 0x04, 0x01, 0x40),
+        isHdr10Plus: true,
+      })
+
+      const other = parseMetadataOBU(Uint8Array.of(MetadataType.ITUT_T35, 0xFF, 0x12, 0x34, 0x80))?.value as ItuT35Metadata
+      expect([other.countryCodeExtension, Array.from(other.payload), other.isHdr10Plus]).toEqual([0x12, [0x34], false])
+    })
+
+    it('parses scalability structures and timecodes', () => {
+      const scalability = parseMetadataOBU(new Uint8Array([MetadataType.SCALABILITY, ...packBits([
+        [14, 8], [1, 2], [1, 1], [0, 1], [1, 1], [0, 3],
+        [319, 16], [179, 16], [639, 16], [359, 16],
+        [1, 8], [0, 3], [1, 1], [0, 1], [1, 3], [1, 8],
+        [1, 1],
+      ])]))
+      expect(scalability?.value).toEqual({
+        modeIdc: 14,
+        structure: {
+          spatialLayers: 2,
+          spatialLayerDimensions: [{ width: 320, height: 180 }, { width: 640, height: 360 }],
+          temporalGroup: [{ temporalId: 0, temporalSwitchingUpPoint: true, spatialSwitchingUpPoint: false, refPicDiffs: [1] }],
+        },
+      })
+
+      // Seconds and minutes without hours, then an 8-bit time offset
+      const timecode = parseMetadataOBU(new Uint8Array([MetadataType.TIMECODE, ...packBits([
+        [1, 5], [0, 1], [1, 1], [0, 1], [24, 9], [1, 1], [30, 6], [1, 1], [15, 6], [0, 1], [8, 5], [200, 8], [1, 1],
+      ])]))
+      expect(timecode?.value).toEqual({
+        countingType: 1,
+        fullTimestamp: false,
+        discontinuity: true,
+        cntDropped: false,
+        nFrames: 24,
+        seconds: 30,
+        minutes: 15,
+        timeOffset: 200,
+      })
+    })
+
+    it('collects the metadata OBUs of a bitstream', () => {
+      const [temporalDelimiter, sequenceHeader, frame] = parseOBUs(LIBAOM_16X16_OBUS)
+      const metadata = (payload: number[]) => createOBU(OBUType.METADATA, Uint8Array.from(payload))
+      const stream = new Uint8Array([
+        ...createOBU(temporalDelimiter.type, temporalDelimiter.data),
+        ...createOBU(sequenceHeader.type, sequenceHeader.data),
+        ...metadata([MetadataType.HDR_CLL, 0x02, 0x00, 0x00, 0xC8, 0x80]),
+        ...metadata([MetadataType.ITUT_T35, 0x26, 0x01, 0x80]),
+        ...metadata([MetadataType.HDR_CLL, 0x00, 0x01, 0x00, 0x01, 0x80]),
+        ...metadata([6, 0x12, 0x80]), // user private
+        ...createOBU(frame.type, frame.data),
+      ])
+
+      const result = getAv1Metadata(stream)
+      expect(result.contentLightLevel).toEqual({ maxCll: 512, maxFall: 200 })
+      expect(result.itutT35).toHaveLength(1)
+      expect(result.masteringDisplay).toBeUndefined()
+      expect(decodeAV1YUV(stream).planes).toEqual(decodeAV1YUV(LIBAOM_16X16_OBUS).planes)
+      expect(getAv1Metadata(LIBAOM_16X16_OBUS)).toEqual({ itutT35: [] })
+    })
+
+    it('skips metadata OBUs that do not parse', () => {
+      const [temporalDelimiter, sequenceHeader, frame] = parseOBUs(LIBAOM_16X16_OBUS)
+      const stream = new Uint8Array([
+        ...createOBU(temporalDelimiter.type, temporalDelimiter.data),
+        ...createOBU(sequenceHeader.type, sequenceHeader.data),
+        // HDR_CLL cut short after one byte of max_cll
+        ...createOBU(OBUType.METADATA, Uint8Array.of(MetadataType.HDR_CLL, 0x01)),
+        ...createOBU(OBUType.METADATA, Uint8Array.of(MetadataType.ITUT_T35, 0x26, 0x01, 0x80)),
+        ...createOBU(frame.type, frame.data),
+      ])
+
+      expect(getAv1Metadata(createOBU(OBUType.METADATA, Uint8Array.of(1, 1)))).toEqual({ itutT35: [] })
+      expect(getAv1Metadata(stream).itutT35).toHaveLength(1)
+      expect(avif.decode(createAvif(stream, 16, 16)).data).toEqual(avif.decode(createAvif(LIBAOM_16X16_OBUS, 16, 16)).data)
+    })
+  })
+
+  describe('parseSequenceHeader', () => {
+    it('parses a reduced still-picture header written by libaom', () => {
+      const header = parseSequenceHeader(new Uint8Array([0x18, 0x0C, 0xFF, 0xD8, 0x20, 0x40, 0x40, 0xD0, 0x80]))
+
+      expect(header.seqProfile).toBe(0)
+      expect(header.stillPicture).toBe(true)
+      expect(header.reducedStillPictureHeader).toBe(true)
+      expect(header.operatingPoints).toEqual([{ idc: 0, seqLevelIdx: 0, seqTier: 0 }])
+      expect(header.maxFrameWidth).toBe(16)
+      expect(header.maxFrameHeight).toBe(16)
+      expect(header.enableFilterIntra).toBe(true)
+      expect(header.colorConfig.bitDepth).toBe(8)
+      expect(header.colorConfig.matrixCoefficients).toBe(6)
+      expect(header.colorConfig.colorRange).toBe(true)
+      expect(header.colorConfig.subsamplingX).toBe(1)
+      expect(header.colorConfig.subsamplingY).toBe(1)
+      expect(header.filmGrainParamsPresent).toBe(false)
+    })
+
+    it('parses a full header with timing, decoder model and 12-bit 4:4:4 color', () => {
+      const header = parseSequenceHeader(packBits([
+        [2, 3], // seq_profile
+        [0, 1], // still_picture
+        [0, 1], // reduced_still_picture_header
+        [1, 1], // timing_info_present_flag
+        [1001, 32], // num_units_in_display_tick
+        [0xEA600000, 32], // time_scale (exercises the top bit)
+        [1, 1], // equal_picture_interval
+        [0b00101, 5], // uvlc(4): two leading zeros, then 01
+        [1, 1], // decoder_model_info_present_flag
+        [9, 5], // buffer_delay_length_minus_1
+        [90000, 32], // num_units_in_decoding_tick
+        [4, 5], // buffer_removal_time_length_minus_1
+        [3, 5], // frame_presentation_time_length_minus_1
+        [1, 1], // initial_display_delay_present_flag
+        [1, 5], // operating_points_cnt_minus_1
+        [0x103, 12], // operating_point_idc[0]
+        [13, 5], // seq_level_idx[0]
+        [1, 1], // seq_tier[0]
+        [1, 1], // decoder_model_present_for_this_op[0]
+        [500, 10], // decoder_buffer_delay[0]
+        [300, 10], // encoder_buffer_delay[0]
+        [1, 1], // low_delay_mode_flag[0]
+        [1, 1], // initial_display_delay_present_for_this_op[0]
+        [9, 4], // initial_display_delay_minus_1[0]
+        [0x101, 12], // operating_point_idc[1]
+        [4, 5], // seq_level_idx[1]
+        [0, 1], // decoder_model_present_for_this_op[1]
+        [0, 1], // initial_display_delay_present_for_this_op[1]
+        [11, 4], // frame_width_bits_minus_1
+        [10, 4], // frame_height_bits_minus_1
+        [3999, 12], // max_frame_width_minus_1
+        [1999, 11], // max_frame_height_minus_1
+        [1, 1], // frame_id_numbers_present_flag
+        [5, 4], // delta_frame_id_length_minus_2
+        [2, 3], // additional_frame_id_length_minus_1
+        [1, 1], // use_128x128_superblock
+        [0, 1], // enable_filter_intra
+        [1, 1], // enable_intra_edge_filter
+        [1, 1], // enable_interintra_compound
+        [0, 1], // enable_masked_compound
+        [1, 1], // enable_warped_motion
+        [0, 1], // enable_dual_filter
+        [1, 1], // enable_order_hint
+        [1, 1], // enable_jnt_comp
+        [0, 1], // enable_ref_frame_mvs
+        [0, 1], // seq_choose_screen_content_tools
+        [1, 1], // seq_force_screen_content_tools
+        [0, 1], // seq_choose_integer_mv
+        [0, 1], // seq_force_integer_mv
+        [6, 3], // order_hint_bits_minus_1
+        [1, 1], // enable_superres
+        [1, 1], // enable_cdef
+        [0, 1], // enable_restoration
+        [1, 1], // high_bitdepth
+        [1, 1], // twelve_bit
+        [0, 1], // mono_chrome
+        [1, 1], // color_description_present_flag
+        [9, 8], // color_primaries (BT.2020)
+        [16, 8], // transfer_characteristics (PQ)
+        [9, 8], // matrix_coefficients (BT.2020 NCL)
+        [0, 1], // color_range
+        [0, 1], // subsampling_x
+        [1, 1], // separate_uv_delta_q
+        [1, 1], // film_grain_params_present
+      ]))
+
+      expect(header.seqProfile).toBe(2)
+      expect(header.timingInfo).toEqual({
+        numUnitsInDisplayTick: 1001,
+        timeScale: 0xEA600000,
+        equalPictureInterval: true,
+        numTicksPerPicture: 5,
+      })
+      expect(header.decoderModelInfo).toEqual({
+        bufferDelayLength: 10,
+        numUnitsInDecodingTick: 90000,
+        bufferRemovalTimeLength: 5,
+        framePresentationTimeLength: 4,
+      })
+      expect(header.operatingPoints).toEqual([
+        {
+          idc: 0x103,
+          seqLevelIdx: 13,
+          seqTier: 1,
+          decoderModel: { decoderBufferDelay: 500, encoderBufferDelay: 300, lowDelayMode: true },
+          initialDisplayDelay: 10,
+        },
+        { idc: 0x101, seqLevelIdx: 4, seqTier: 0 },
+      ])
+      expect(header.maxFrameWidth).toBe(4000)
+      expect(header.maxFrameHeight).toBe(2000)
+      expect(header.deltaFrameIdLength).toBe(7)
+      expect(header.additionalFrameIdLength).toBe(3)
+      expect(header.use128x128Superblock).toBe(true)
+      expect(header.enableWarpedMotion).toBe(true)
+      expect(header.enableJntComp).toBe(true)
+      expect(header.seqForceScreenContentTools).toBe(1)
+      expect(header.seqForceIntegerMv).toBe(0)
+      expect(header.orderHintBits).toBe(7)
+      expect(header.enableSuperres).toBe(true)
+      expect(header.enableRestoration).toBe(false)
+      expect(header.colorConfig).toEqual({
+        bitDepth: 12,
+        monochrome: false,
+        numPlanes: 3,
+        colorDescriptionPresent: true,
+        colorPrimaries: 9,
+        transferCharacteristics: 16,
+        matrixCoefficients: 9,
+        colorRange: false,
+        subsamplingX: 0,
+        subsamplingY: 0,
+        chromaSamplePosition: 0,
+        separateUvDeltaQ: true,
+      })
+      expect(header.filmGrainParamsPresent).toBe(true)
+    })
+
+    it('forces full-range 4:4:4 for sRGB identity-matrix streams', () => {
+      const header = parseSequenceHeader(packBits([
+        [1, 3], [1, 1], [1, 1], // seq_profile 1, still, reduced
+        [8, 5], // seq_level_idx
+        [7, 4], [7, 4], [255, 8], [255, 8], // 256x256
+        [0, 1], [1, 1], [1, 1], // sb128, filter intra, intra edge
+        [0, 1], [0, 1], [0, 1], // superres, cdef, restoration
+        [0, 1], // high_bitdepth
+        [1, 1], [1, 8], [13, 8], [0, 8], // BT.709 / sRGB / identity
+        [0, 1], // separate_uv_delta_q
+        [0, 1], // film_grain_params_present
+      ]))
+
+      expect(header.colorConfig.colorRange).toBe(true)
+      expect(header.colorConfig.subsamplingX).toBe(0)
+      expect(header.colorConfig.subsamplingY).toBe(0)
+      expect(header.colorConfig.monochrome).toBe(false)
+    })
+
+    it('rejects reserved profiles', () => {
+      expect(() => parseSequenceHeader(new Uint8Array([0xE0, 0, 0, 0]))).toThrow()
+    })
+  })
+
+  describe('sequence header writer', () => {
+    it('rewrites libaom sequence headers bit for bit', () => {
+      for (const data of [LIBAOM_16X16_OBUS, LIBAOM_2_TILE_OBUS]) {
+        const seqHeader = parseOBUs(data)[1].data
+        expect(writeSequenceHeader(parseSequenceHeader(seqHeader))).toEqual(seqHeader)
+      }
+    })
+
+    it('round-trips reduced and full headers', () => {
+      const reduced = createSequenceHeader({ width: 300, height: 200 })
+      expect(parseSequenceHeader(writeSequenceHeader(reduced))).toEqual(reduced)
+
+      const full: SequenceHeader = {
+        ...createSequenceHeader({
+          width: 1920,
+          height: 1080,
+          bitDepth: 10,
+          chromaSubsampling: '4:4:4',
+          color: { colorPrimaries: 9, transferCharacteristics: 16, matrixCoefficients: 9, fullRange: false },
+          reducedStillPictureHeader: false,
+        }),
+        timingInfo: { numUnitsInDisplayTick: 1, timeScale: 30, equalPictureInterval: true, numTicksPerPicture: 2 },
+        decoderModelInfo: { bufferDelayLength: 10, numUnitsInDecodingTick: 1, bufferRemovalTimeLength: 8, framePresentationTimeLength: 6 },
+        initialDisplayDelayPresent: true,
+        operatingPoints: [
+          { idc: 0x103, seqLevelIdx: 9, seqTier: 1, decoderModel: { decoderBufferDelay: 5, encoderBufferDelay: 7, lowDelayMode: true }, initialDisplayDelay: 4 },
+          { idc: 0x101, seqLevelIdx: 8, seqTier: 0 },
+        ],
+        enableOrderHint: true,
+        orderHintBits: 7,
+        seqForceScreenContentTools: 1,
+        seqForceIntegerMv: 0,
+      }
+      expect(parseSequenceHeader(writeSequenceHeader(full))).toEqual(full)
+    })
+
+    it('chooses the profile, level and frame size bits', () => {
+      const small = createSequenceHeader({ width: 256, height: 257 })
+      expect([small.seqProfile, small.operatingPoints[0].seqLevelIdx, small.frameWidthBits, small.frameHeightBits]).toEqual([0, 0, 8, 9])
+
+      const large = createSequenceHeader({ width: 4000, height: 3000, bitDepth: 12, chromaSubsampling: '4:4:4' })
+      expect([large.seqProfile, large.operatingPoints[0].seqLevelIdx]).toEqual([2, 16])
+      expect(createSequenceHeader({ width: 640, height: 480, chromaSubsampling: '4:2:2' }).seqProfile).toBe(2)
+      expect(createSequenceHeader({ width: 640, height: 480, chromaSubsampling: '4:4:4' }).seqProfile).toBe(1)
+      expect(createSequenceHeader({ width: 20000, height: 20000 }).operatingPoints[0].seqLevelIdx).toBe(31)
+    })
+
+    it('rejects headers the syntax cannot express', () => {
+      const seqHeader = createSequenceHeader({ width: 16, height: 16 })
+      expect(() => writeSequenceHeader({ ...seqHeader, stillPicture: false })).toThrow('requires still_picture')
+      expect(() => writeSequenceHeader({ ...seqHeader, maxFrameWidth: 1000 })).toThrow('does not fit')
+      expect(() => writeSequenceHeader({ ...seqHeader, colorConfig: { ...seqHeader.colorConfig, subsamplingY: 0 } })).toThrow('seq_profile 0')
+      expect(() => createSequenceHeader({ width: 0, height: 16 })).toThrow('Invalid frame size')
+    })
+
+    it('writes an av1C box that matches the sequence header', () => {
+      const encoded = avif.encode(createTestImageData(64, 48, { r: 10, g: 20, b: 30, a: 255 }), { chromaSubsampling: '4:4:4' })
+      const meta = findBox(parseISOBMFF(encoded), 'meta')!
+      const ipco = findBox(findBox(meta.children!, 'iprp')!.children!, 'ipco')!
+      const av1C = findBox(ipco.children!, 'av1C')!
+      const seqHeader = parseSequenceHeader(parseOBUs(av1C.data.subarray(4))[0].data)
+
+      expect(parseAv1C(av1C.data)).toEqual({
+        seqProfile: 1,
+        seqLevelIdx0: 0,
+        seqTier0: 0,
+        highBitdepth: 0,
+        twelveBit: 0,
+        monochrome: 0,
+        chromaSubsamplingX: 0,
+        chromaSubsamplingY: 0,
+        chromaSamplePosition: 0,
+      })
+      expect([seqHeader.seqProfile, seqHeader.maxFrameWidth, seqHeader.maxFrameHeight]).toEqual([1, 64, 48])
+    })
+  })
+
+  describe('parseFrameHeader', () => {
+    const obus = parseOBUs(LIBAOM_16X16_OBUS)
+    const seqHeader = parseSequenceHeader(obus[1].data)
+
+    it('parses a reduced still-picture key frame header written by libaom', () => {
+      const header = parseFrameHeader(obus[2].data, seqHeader)
+
+      expect(header.showExistingFrame).toBe(false)
+      expect(header.frameType).toBe(FrameType.KEY_FRAME)
+      expect(header.showFrame).toBe(true)
+      expect(header.frameWidth).toBe(16)
+      expect(header.frameHeight).toBe(16)
+      expect(header.miCols).toBe(4)
+      expect(header.miRows).toBe(4)
+      expect(header.tileInfo.tileCols).toBe(1)
+      expect(header.tileInfo.tileRows).toBe(1)
+      expect(header.quantization.baseQIdx).toBe(128)
+      expect(header.codedLossless).toBe(false)
+      expect(header.loopFilter.level).toEqual([10, 10, 10, 10])
+      expect(header.txMode).toBe(1)
+      expect(header.filmGrain.applyGrain).toBe(false)
+    })
+
+    it('parses a full header with superres, tiles, segmentation, filters and film grain', () => {
+      const fullSeqHeader: SequenceHeader = {
+        ...seqHeader,
+        stillPicture: false,
+        reducedStillPictureHeader: false,
+        frameWidthBits: 10,
+        frameHeightBits: 9,
+        maxFrameWidth: 640,
+        maxFrameHeight: 480,
+        enableSuperres: true,
+        enableCdef: true,
+        enableRestoration: true,
+        filmGrainParamsPresent: true,
+        colorConfig: { ...seqHeader.colorConfig, separateUvDeltaQ: true },
+      }
+
+      const segmentationBits: Array<[number, number]> = []
+      for (let segment = 0; segment < 8; segment++) {
+        for (let feature = 0; feature < 8; feature++) {
+          if (segment === 0 && feature === 0) {
+            segmentationBits.push([1, 1], [512 - 20, 9])
+          }
+          else if (segment === 3 && feature === 5) {
+            segmentationBits.push([1, 1], [2, 3])
+          }
+          else {
+            segmentationBits.push([0, 1])
+          }
+        }
+      }
+
+      const header = parseFrameHeader(packBits([
+        [0, 1], // show_existing_frame
+        [0, 2], // frame_type = KEY_FRAME
+        [1, 1], // show_frame
+        [0, 1], // disable_cdf_update
+        [1, 1], // allow_screen_content_tools
+        [0, 1], // force_integer_mv
+        [1, 1], // frame_size_override_flag
+        [599, 10], // frame_width_minus_1
+        [399, 9], // frame_height_minus_1
+        [1, 1], // use_superres
+        [7, 3], // coded_denom
+        [1, 1], // render_and_frame_size_different
+        [1199, 16], // render_width_minus_1
+        [799, 16], // render_height_minus_1
+        [1, 1], // disable_frame_end_update_cdf
+        [0, 1], // uniform_tile_spacing_flag
+        [1, 2], // width_in_sbs_minus_1 = 1 (ns(5))
+        [1, 1], [1, 1], // width_in_sbs_minus_1 = 2 (ns(3))
+        [2, 2], [0, 1], // height_in_sbs_minus_1 = 3 (ns(7))
+        [1, 1], [1, 1], // height_in_sbs_minus_1 = 2 (ns(3))
+        [3, 2], // context_update_tile_id
+        [1, 2], // tile_size_bytes_minus_1
+        [100, 8], // base_q_idx
+        [1, 1], [128 - 5, 7], // DeltaQYDc = -5
+        [1, 1], // diff_uv_delta
+        [0, 1], // DeltaQUDc
+        [1, 1], [3, 7], // DeltaQUAc = 3
+        [1, 1], [64, 7], // DeltaQVDc = -64
+        [0, 1], // DeltaQVAc
+        [1, 1], [5, 4], [6, 4], [7, 4], // using_qmatrix, qm_y, qm_u, qm_v
+        [1, 1], // segmentation_enabled
+        ...segmentationBits,
+        [1, 1], [2, 2], // delta_q_present, delta_q_res
+        [1, 1], [1, 2], [1, 1], // delta_lf_present, delta_lf_res, delta_lf_multi
+        [20, 6], [21, 6], [22, 6], [23, 6], // loop_filter_level[0..3]
+        [2, 3], // loop_filter_sharpness
+        [1, 1], [1, 1], // loop_filter_delta_enabled, loop_filter_delta_update
+        [1, 1], [2, 7], [0, 7], // ref delta 0 = 2, others unchanged
+        [1, 1], [127, 7], [0, 1], // mode delta 0 = -1
+        [2, 2], [1, 2], // cdef_damping_minus_3, cdef_bits
+        [9, 4], [3, 2], [1, 4], [1, 2],
+        [15, 4], [2, 2], [0, 4], [0, 2],
+        [1, 2], [2, 2], [0, 2], // lr_type per plane
+        [1, 1], [1, 1], [1, 1], // lr_unit_shift, lr_unit_extra_shift, lr_uv_shift
+        [1, 1], // tx_mode_select
+        [1, 1], // reduced_tx_set
+        [1, 1], [0xBEEF, 16], // apply_grain, grain_seed
+        [2, 4], [16, 8], [40, 8], [200, 8], [80, 8], // num_y_points and points
+        [0, 1], // chroma_scaling_from_luma
+        [1, 4], [128, 8], [60, 8], // num_cb_points and point
+        [0, 4], // num_cr_points
+        [3, 2], [1, 2], // grain_scaling_minus_8, ar_coeff_lag
+        [130, 8], [120, 8], [128, 8], [255, 8], // ar_coeffs_y_plus_128
+        [128, 8], [129, 8], [127, 8], [0, 8], [255, 8], // ar_coeffs_cb_plus_128
+        [1, 2], [0, 2], // ar_coeff_shift_minus_6, grain_scale_shift
+        [200, 8], [100, 8], [300, 9], // cb_mult, cb_luma_mult, cb_offset
+        [1, 1], [0, 1], // overlap_flag, clip_to_restricted_range
+      ]), fullSeqHeader)
+
+      expect(header.upscaledWidth).toBe(600)
+      expect(header.frameWidth).toBe(300)
+      expect(header.frameHeight).toBe(400)
+      expect(header.superresDenom).toBe(16)
+      expect(header.renderWidth).toBe(1200)
+      expect(header.renderHeight).toBe(800)
+      expect(header.allowIntrabc).toBe(false)
+      expect(header.tileInfo).toEqual({
+        uniformTileSpacing: false,
+        tileCols: 2,
+        tileRows: 2,
+        tileColsLog2: 1,
+        tileRowsLog2: 1,
+        miColStarts: [0, 32, 76],
+        miRowStarts: [0, 64, 100],
+        contextUpdateTileId: 3,
+        tileSizeBytes: 2,
+      })
+      expect(header.quantization).toEqual({
+        baseQIdx: 100,
+        deltaQYDc: -5,
+        deltaQUDc: 0,
+        deltaQUAc: 3,
+        deltaQVDc: -64,
+        deltaQVAc: 0,
+        usingQmatrix: true,
+        qmY: 5,
+        qmU: 6,
+        qmV: 7,
+      })
+      expect(header.segmentation.featureData[0][0]).toBe(-20)
+      expect(header.segmentation.featureData[3][5]).toBe(2)
+      expect(header.segmentation.segIdPreSkip).toBe(true)
+      expect(header.segmentation.lastActiveSegId).toBe(3)
+      expect(header.delta).toEqual({
+        deltaQPresent: true,
+        deltaQRes: 2,
+        deltaLfPresent: true,
+        deltaLfRes: 1,
+        deltaLfMulti: true,
+      })
+      expect(header.segQMLevel[2][0]).toBe(7)
+      expect(header.loopFilter.level).toEqual([20, 21, 22, 23])
+      expect(header.loopFilter.refDeltas).toEqual([2, 0, 0, 0, -1, 0, -1, -1])
+      expect(header.loopFilter.modeDeltas).toEqual([-1, 0])
+      expect(header.cdef).toEqual({
+        damping: 5,
+        bits: 1,
+        yPriStrength: [9, 15],
+        ySecStrength: [4, 2],
+        uvPriStrength: [1, 0],
+        uvSecStrength: [1, 0],
+      })
+      expect(header.loopRestoration).toEqual({
+        type: [3, 1, 0],
+        unitSize: [256, 128, 128],
+        usesLr: true,
+        usesChromaLr: true,
+      })
+      expect(header.txMode).toBe(2)
+      expect(header.reducedTxSet).toBe(true)
+      expect(header.filmGrain.grainSeed).toBe(0xBEEF)
+      expect(header.filmGrain.pointY).toEqual([[16, 40], [200, 80]])
+      expect(header.filmGrain.pointCb).toEqual([[128, 60]])
+      expect(header.filmGrain.pointCr).toEqual([])
+      expect(header.filmGrain.arCoeffsY).toEqual([2, -8, 0, 127])
+      expect(header.filmGrain.arCoeffsCb).toEqual([0, 1, -1, -128, 127])
+      expect(header.filmGrain.cbOffset).toBe(300)
+      expect(header.filmGrain.overlapFlag).toBe(true)
+    })
+
+    it('rejects inter frames', () => {
+      const fullSeqHeader: SequenceHeader = { ...seqHeader, reducedStillPictureHeader: false }
+      expect(() => parseFrameHeader(packBits([[0, 1], [1, 2], [1, 1], [0, 1]]), fullSeqHeader)).toThrow()
+    })
+  })
+
+  describe('symbol decoder', () => {
+    const data = new Uint8Array([0x5A, 0x3C, 0x99, 0x10, 0x80])
+
+    it('selects coefficient CDFs by base_q_idx', () => {
+      expect([0, 20, 21, 60, 61, 120, 121, 255].map(getCoefficientCdfQContext)).toEqual([0, 0, 1, 1, 2, 2, 3, 3])
+
+      const low = createCdfContext(10)
+      const high = createCdfContext(200)
+      expect(Array.from(low.txbSkip[0][0])).toEqual([DEFAULT_TXB_SKIP_CDF[0][0][0][0], 32768, 0])
+      expect(Array.from(high.txbSkip[0][0])).toEqual([DEFAULT_TXB_SKIP_CDF[3][0][0][0], 32768, 0])
+      expect(low.intraFrameYMode[0][0].length).toBe(14)
+      expect(low.partitionW8[0].length).toBe(5)
+      expect(low.partitionW128[0].length).toBe(9)
+    })
+
+    it('reads equiprobable bools and literals', () => {
+      const bools = new SymbolDecoder(data, 0, data.length)
+      const bits: number[] = []
+      for (let i = 0; i < 8; i++) {
+        bits.push(bools.readBool())
+      }
+
+      const literals = new SymbolDecoder(data, 0, data.length)
+      expect(literals.readLiteral(8)).toBe(Number.parseInt(bits.join(''), 2))
+      expect(bits).toEqual([0, 1, 0, 1, 1, 0, 1, 0])
+    })
+
+    it('adapts CDFs towards decoded symbols unless updates are disabled', () => {
+      const adaptive = createCdfContext(0)
+      const yMode = adaptive.intraFrameYMode[0][0]
+      expect(new SymbolDecoder(data, 0, data.length).readSymbol(yMode)).toBe(0)
+      expect(yMode[0]).toBe(16124)
+      expect(yMode[11]).toBe(30537)
+      expect(yMode[13]).toBe(1)
+
+      const fixed = createCdfContext(0)
+      const fixedYMode = fixed.intraFrameYMode[0][0]
+      expect(new SymbolDecoder(data, 0, data.length, true).readSymbol(fixedYMode)).toBe(0)
+      expect(Array.from(fixedYMode)).toEqual(Array.from(createCdfContext(0).intraFrameYMode[0][0]))
+    })
+
+    it('copies CDF contexts with reset counters', () => {
+      const context = createCdfContext(0)
+      const decoder = new SymbolDecoder(data, 0, data.length)
+      decoder.readSymbol(context.skip[0])
+      decoder.readSymbol(context.mvComponents[1].classes)
+
+      const saved = copyCdfContext(context)
+      expect(saved.skip[0]).not.toBe(context.skip[0])
+      expect(saved.skip[0][0]).toBe(context.skip[0][0])
+      expect(saved.skip[0][2]).toBe(0)
+      expect(context.skip[0][2]).toBe(1)
+      expect(saved.mvComponents[1].classes[0]).toBe(context.mvComponents[1].classes[0])
+      expect(saved.mvComponents[1].classes[11]).toBe(0)
+    })
+
+    it('checks the trailing bit and zero padding on exit', () => {
+      expect(new SymbolDecoder(new Uint8Array([0x80]), 0, 1).exit()).toBe(1)
+      expect(new SymbolDecoder(new Uint8Array([0xFF, 0x80]), 1, 1).exit()).toBe(2)
+      expect(() => new SymbolDecoder(new Uint8Array([0x40]), 0, 1).exit()).toThrow('trailing bit')
+      expect(() => new SymbolDecoder(new Uint8Array([0x81]), 0, 1).exit()).toThrow('padding')
+      expect(() => new SymbolDecoder(new Uint8Array([0x80]), 0, 2)).toThrow('Invalid tile data size')
+    })
+  })
+
+  describe('intra prediction', () => {
+    function edge(values: number[]): Int32Array {
+      const buffer = new Int32Array(EDGE_OFFSET + 64)
+      buffer.set(values, EDGE_OFFSET - 1)
+      return buffer
+    }
+
+    it('predicts DC from the available edges', () => {
+      const above = edge([0, 10, 20, 30, 40])
+      const left = edge([0, 1, 2, 3, 4])
+      const dst = new Uint16Array(16)
+
+      predictDc(dst, 0, 4, above, left, 2, 2, true, true, 8)
+      expect(dst[0]).toBe(14)
+      predictDc(dst, 0, 4, above, left, 2, 2, true, false, 8)
+      expect(dst[15]).toBe(25)
+      predictDc(dst, 0, 4, above, left, 2, 2, false, false, 10)
+      expect(dst[5]).toBe(512)
+    })
+
+    it('predicts Paeth and smooth blocks', () => {
+      const above = edge([50, 60, 60, 60, 60])
+      const left = edge([50, 40, 40, 40, 40])
+      const dst = new Uint16Array(16)
+
+      predictPaeth(dst, 0, 4, above, left, 4, 4)
+      expect(Array.from(dst.subarray(0, 4))).toEqual([50, 50, 50, 50])
+
+      predictSmooth(dst, 0, 4, edge([0, 100, 100, 100, 100]), edge([0, 100, 100, 100, 100]), 2, 2, SMOOTH_PRED)
+      expect(Array.from(dst)).toEqual(Array.from({ length: 16 }, () => 100))
+    })
+
+    it('predicts vertical, horizontal and diagonal directions', () => {
+      const above = edge([0, 1, 2, 3, 4, 5, 6, 7, 8])
+      const left = edge([0, 11, 12, 13, 14, 15, 16, 17, 18])
+      const dst = new Uint16Array(16)
+
+      predictDirectional(dst, 0, 4, above, left, 4, 4, 90, 0, 0)
+      expect(Array.from(dst.subarray(12))).toEqual([1, 2, 3, 4])
+      predictDirectional(dst, 0, 4, above, left, 4, 4, 180, 0, 0)
+      expect(Array.from(dst.subarray(4, 8))).toEqual([12, 12, 12, 12])
+      predictDirectional(dst, 0, 4, above, left, 4, 4, 45, 0, 0)
+      expect(Array.from(dst.subarray(0, 8))).toEqual([2, 3, 4, 5, 3, 4, 5, 6])
+    })
+
+    it('keeps flat edges flat with filter intra', () => {
+      const dst = new Uint16Array(32)
+      for (let mode = 0; mode < 5; mode++) {
+        predictFilterIntra(dst, 0, 8, edge(Array.from({ length: 9 }, () => 300)), edge(Array.from({ length: 5 }, () => 300)), 8, 4, mode, 10)
+        expect(Array.from(dst)).toEqual(Array.from({ length: 32 }, () => 300))
+      }
+    })
+
+    it('predicts blocks in place from plane samples', () => {
+      const plane = new Uint16Array(16 * 16).fill(7)
+      for (let i = 0; i < 16; i++)
+        plane[3 * 16 + i] = i
+      predictIntra({
+        plane,
+        stride: 16,
+        x: 4,
+        y: 4,
+        log2W: 2,
+        log2H: 2,
+        maxX: 15,
+        maxY: 15,
+        haveLeft: false,
+        haveAbove: true,
+        haveAboveRight: true,
+        haveBelowLeft: false,
+        mode: D45_PRED,
+        angleDelta: 0,
+        filterIntraMode: -1,
+        bitDepth: 8,
+        enableIntraEdgeFilter: false,
+        smoothNeighbor: false,
+      })
+
+      expect(Array.from(plane.subarray(4 * 16 + 4, 4 * 16 + 8))).toEqual([5, 6, 7, 8])
+      expect(plane[4 * 16 + 3]).toBe(7)
+    })
+
+    it('adds scaled luma AC to chroma DC', () => {
+      const luma = new Uint16Array(8 * 8)
+      for (let i = 0; i < luma.length; i++)
+        luma[i] = (i % 8) < 4 ? 100 : 140
+      const chroma = new Uint16Array(4 * 4).fill(128)
+
+      predictChromaFromLuma(chroma, 4, luma, 8, 0, 0, 2, 2, 1, 1, 8, 8, 16, 8)
+      expect(Array.from(chroma.subarray(0, 4))).toEqual([88, 88, 168, 168])
+    })
+  })
+
+  describe('tile decoding', () => {
+    it('derives block and transform size tables', () => {
+      expect([
+        PARTITION_SUBSIZE[PARTITION_SPLIT][BLOCK_16X16],
+        PARTITION_SUBSIZE[PARTITION_VERT][BLOCK_16X16],
+        PARTITION_SUBSIZE[PARTITION_HORZ_4][BLOCK_64X64],
+        PARTITION_SUBSIZE[PARTITION_HORZ_4][BLOCK_8X8],
+      ]).toEqual([BLOCK_8X8, 4, 21, BLOCK_INVALID])
+      expect(MAX_TX_SIZE_RECT[BLOCK_128X128]).toBe(TX_64X64)
+      expect(MAX_TX_SIZE_RECT.slice(0, 4)).toEqual([TX_4X4, 5, 6, 1])
+    })
+
+    it('builds default, row and column scans', () => {
+      expect(Array.from(getScan(TX_4X4, 0))).toEqual([0, 1, 4, 8, 5, 2, 3, 6, 9, 12, 13, 10, 7, 11, 14, 15])
+      expect(Array.from(getScan(TX_4X4, V_DCT)).slice(0, 6)).toEqual([0, 1, 2, 3, 4, 5])
+      expect(Array.from(getScan(TX_4X4, H_DCT)).slice(0, 6)).toEqual([0, 4, 8, 12, 1, 5])
+    })
+
+    it('decodes all tile data of a libaom key frame', () => {
+      const image = decodeAV1(LIBAOM_16X16_OBUS)
+
+      expect(image.width).toBe(16)
+      expect(image.height).toBe(16)
+      expect(image.data.length).toBe(16 * 16 * 4)
+
+      // Reference samples from dav1d
+      const { planes, strides } = decodeAV1YUV(LIBAOM_16X16_OBUS)
+      const sample = (plane: number, x: number, y: number) => planes[plane][y * strides[plane] + x]
+      expect([sample(0, 0, 0), sample(0, 1, 1), sample(0, 8, 8), sample(0, 15, 15)]).toEqual([24, 88, 166, 243])
+      expect([sample(1, 0, 0), sample(1, 3, 3), sample(2, 0, 0), sample(2, 7, 7)]).toEqual([214, 181, 131, 120])
+    })
+
+    it('returns the reconstructed planes without RGB conversion', () => {
+      const image = decodeAV1YUV(LIBAOM_16X16_OBUS)
+
+      expect(image.planes).toHaveLength(3)
+      expect([image.width, image.height, image.bitDepth]).toEqual([16, 16, 8])
+      expect([image.subsamplingX, image.subsamplingY]).toEqual([1, 1])
+      expect(image.planes[1].length).toBeGreaterThanOrEqual(image.strides[1] * 8)
+      expect(image.color.matrixCoefficients).toBe(6)
+      expect(yuvToRgba(image)).toEqual(decodeAV1(LIBAOM_16X16_OBUS).data)
+      expect(() => decodeYUV(new Uint8Array(16))).toThrow()
+    })
+
+    it('reads tile sizes and ranges from tile group headers', () => {
+      const frameHeader = {
+        tileInfo: { tileCols: 2, tileRows: 2, tileColsLog2: 1, tileRowsLog2: 1, tileSizeBytes: 2 },
+      } as FrameHeader
+      // tile_start_and_end_present_flag, tg_start = 1, tg_end = 3
+      const data = new Uint8Array([...packBits([[1, 1], [1, 2], [3, 2]]), 2, 0, 1, 2, 3, 0, 0, 4, 5, 6])
+
+      const tiles = readTileGroup(data, 0, frameHeader)
+      expect(tiles.map(tile => [tile.tileNum, tile.offset, tile.size])).toEqual([[1, 3, 3], [2, 8, 1], [3, 9, 2]])
+      expect(() => readTileGroup(data.subarray(0, 5), 0, frameHeader)).toThrow('extends past the end')
+      expect(() => readTileGroup(new Uint8Array(packBits([[1, 1], [3, 2], [1, 2]])), 0, frameHeader)).toThrow('Invalid tile group')
+    })
+
+    it('decodes multi-tile frames from FRAME or FRAME_HEADER and TILE_GROUP OBUs', () => {
+      const [temporalDelimiter, sequenceHeader, frame] = parseOBUs(LIBAOM_2_TILE_OBUS)
+      const reader = new BitReader(frame.data)
+      readFrameHeader(reader, parseSequenceHeader(sequenceHeader.data))
+      reader.byteAlign()
+      const split = new Uint8Array([
+        ...createOBU(temporalDelimiter.type, temporalDelimiter.data),
+        ...createOBU(sequenceHeader.type, sequenceHeader.data),
+        ...createOBU(OBUType.FRAME_HEADER, frame.data.subarray(0, reader.bytePosition)),
+        ...createOBU(OBUType.TILE_GROUP, frame.data.subarray(reader.bytePosition)),
+      ])
+
+      const image = decodeAV1YUV(LIBAOM_2_TILE_OBUS)
+      expect([image.width, image.height]).toEqual([128, 16])
+      // Reference samples from dav1d
+      expect([image.planes[0][0], image.planes[0][100]]).toEqual([37, 42])
+      expect(decodeAV1YUV(split).planes).toEqual(image.planes)
+      expect(() => decodeAV1YUV(split.subarray(0, split.length - frame.data.length + reader.bytePosition - 2))).toThrow('No tile group found')
+    })
+
+    it('outputs the selected spatial layer of a layered stream', () => {
+      const [temporalDelimiter, sequenceHeader, frame] = parseOBUs(LIBAOM_16X16_OBUS)
+      const [baseLayer] = parseOBUs(LIBAOM_16X16_LOW_QUALITY_FRAME)
+      const layered = new Uint8Array([
+        ...createOBU(temporalDelimiter.type, temporalDelimiter.data),
+        ...createOBU(sequenceHeader.type, sequenceHeader.data),
+        ...createOBU(OBUType.FRAME, baseLayer.data, { hasExtension: true, spatialId: 0 }),
+        ...createOBU(OBUType.FRAME, frame.data, { hasExtension: true, spatialId: 1 }),
+      ])
+      const full = decodeAV1YUV(LIBAOM_16X16_OBUS).planes
+      const base = decodeAV1YUV(new Uint8Array([
+        ...createOBU(sequenceHeader.type, sequenceHeader.data),
+        ...LIBAOM_16X16_LOW_QUALITY_FRAME,
+      ])).planes
+
+      expect(listSpatialLayers(layered)).toEqual([0, 1])
+      expect(decodeAV1YUV(layered).planes).toEqual(full)
+      expect(decodeAV1YUV(layered, { layer: 1 }).planes).toEqual(full)
+      expect(decodeAV1YUV(layered, { layer: 0 }).planes).toEqual(base)
+      expect(base).not.toEqual(full)
+      expect(() => decodeAV1YUV(layered, { operatingPoint: 1 })).toThrow('Operating point 1 not found')
+    })
+
+    it('falls back to the highest intra-coded layer of a layered stream', () => {
+      const [temporalDelimiter, sequenceHeader, keyFrame, , interFrame] = parseOBUs(LIBAOM_KEY_INTER_OBUS)
+      // Layer 1 predicts from layer 0, like the progressive layers of libavif
+      const layered = new Uint8Array([
+        ...createOBU(temporalDelimiter.type, temporalDelimiter.data),
+        ...createOBU(sequenceHeader.type, sequenceHeader.data),
+        ...createOBU(OBUType.FRAME, keyFrame.data, { hasExtension: true, spatialId: 0 }),
+        ...createOBU(OBUType.FRAME, interFrame.data, { hasExtension: true, spatialId: 1 }),
+      ])
+      const { planes, strides } = decodeAV1YUV(layered)
+      const sample = (plane: number, x: number, y: number) => planes[plane][y * strides[plane] + x]
+
+      expect(listSpatialLayers(layered)).toEqual([0])
+      // Reference samples of the key frame from dav1d
+      expect([sample(0, 0, 0), sample(0, 1, 1), sample(0, 8, 8), sample(0, 15, 15)]).toEqual([17, 16, 209, 235])
+      expect([sample(1, 3, 3), sample(2, 7, 7)]).toEqual([239, 179])
+      expect(decodeAV1YUV(layered, { layer: 1 }).planes).toEqual(planes)
+      expect(decodeAV1YUV(LIBAOM_KEY_INTER_OBUS).planes).toEqual(planes)
+      expect(() => decodeAV1YUV(new Uint8Array([
+        ...createOBU(sequenceHeader.type, sequenceHeader.data),
+        ...createOBU(OBUType.FRAME, interFrame.data),
+      ]))).toThrow('Inter frames are not supported')
+    })
+
+    it('decodes tiles on a worker pool with decodeAV1YUVAsync', async () => {
+      const image = await decodeAV1YUVAsync(LIBAOM_2_TILE_OBUS, { workers: 2 })
+
+      expect(image.planes).toEqual(decodeAV1YUV(LIBAOM_2_TILE_OBUS).planes)
+      expect(image.planes[0].buffer).toBeInstanceOf(SharedArrayBuffer)
+    })
+  })
+
+  describe('inverse transform and dequantization', () => {
+    it('looks up quantizer step sizes for each bit depth', () => {
+      expect([dcQ(0, 8), acQ(0, 8), dcQ(255, 8), acQ(255, 8)]).toEqual([4, 4, 1336, 1828])
+      expect([dcQ(255, 10), acQ(255, 10), dcQ(255, 12), acQ(255, 12)]).toEqual([5347, 7312, 21387, 29247])
+      expect(dcQ(300, 8)).toBe(1336)
+      expect(acQ(-5, 8)).toBe(4)
+    })
+
+    it('dequantizes with the size-dependent shift and clamps to the coefficient range', () => {
+      const quant = new Int32Array(1024)
+      const dequant = new Int32Array(1024)
+      quant[0] = 3
+      quant[1] = -3
+      quant[2] = 0xFFFFF
+      dequantize(quant, dequant, TX_32X32, 100, 50, QM_LEVEL_FLAT, 0, 8)
+
+      expect(Array.from(dequant.slice(0, 3))).toEqual([150, -75, 32767])
+    })
+
+    it('inverts a DC-only DCT to a flat residual', () => {
+      const coeffs = new Int32Array(16)
+      const residual = new Int32Array(16)
+      coeffs[0] = 64
+      inverseTransform2D(coeffs, residual, TX_4X4, DCT_DCT, false, 8)
+
+      expect(Array.from(residual)).toEqual(Array.from({ length: 16 }, () => 2))
+    })
+
+    it('inverts the lossless Walsh-Hadamard transform', () => {
+      const coeffs = new Int32Array(16)
+      const residual = new Int32Array(16)
+      coeffs[0] = 16
+      inverseTransform2D(coeffs, residual, TX_4X4, DCT_DCT, true, 8)
+
+      expect(Array.from(residual)).toEqual(Array.from({ length: 16 }, () => 1))
+    })
+
+    it('flips the residual for FLIPADST', () => {
+      const coeffs = new Int32Array(16)
+      coeffs[0] = 200
+      coeffs[5] = -90
+      const adst = new Int32Array(16)
+      const flipped = new Int32Array(16)
+      inverseTransform2D(coeffs, adst, TX_4X4, ADST_ADST, false, 8)
+      inverseTransform2D(coeffs, flipped, TX_4X4, FLIPADST_ADST, false, 8)
+
+      for (let i = 0; i < 4; i++)
+        expect(Array.from(flipped.slice(i * 4, i * 4 + 4))).toEqual(Array.from(adst.slice((3 - i) * 4, (4 - i) * 4)))
+    })
+
+    it('matches a floating point DCT for every length', () => {
+      for (let n = 2; n <= 6; n++) {
+        const size = 1 << n
+        const t = new Int32Array(64)
+        t[1] = 1000
+        inverseDct(t, n, 24)
+        for (let k = 0; k < size; k++)
+          expect(Math.abs(t[k] - 1000 * Math.cos(Math.PI * (2 * k + 1) / (2 * size)))).toBeLessThan(2)
+      }
+    })
+  })
+
+  describe('post filters', () => {
+    const obus = parseOBUs(LIBAOM_16X16_OBUS)
+    const seqHeader = parseSequenceHeader(obus[1].data)
+    const baseHeader = parseFrameHeader(obus[2].data, seqHeader)
+
+    function frameWith(overrides: Partial<FrameHeader>, seqOverrides: Partial<SequenceHeader> = {}): FrameState {
+      const frame = createFrameState({ ...seqHeader, ...seqOverrides }, { ...baseHeader, ...overrides })
+      frame.miSizes.fill(BLOCK_8X8)
+      frame.loopfilterTxSizes.forEach(sizes => sizes.fill(TX_8X8))
+      return frame
+    }
+
+    it('smooths a step across a transform edge and leaves flat areas alone', () => {
+      const frame = frameWith({
+        loopFilter: { ...baseHeader.loopFilter, level: [20, 20, 0, 0], deltaEnabled: false },
+      })
+      const [luma] = frame.planes
+      const stride = frame.strides[0]
+      for (let y = 0; y < 16; y++) {
+        for (let x = 0; x < 16; x++)
+          luma[y * stride + x] = x < 8 ? 100 : 108
+      }
+      applyLoopFilter(frame)
+
+      const row = Array.from(luma.subarray(4 * stride, 4 * stride + 16))
+      expect(row[7]).toBeGreaterThan(100)
+      expect(row[8]).toBeLessThan(108)
+      expect(row[0]).toBe(100)
+      expect(row[15]).toBe(108)
+      // The edge is vertical, so every row is filtered the same way
+      expect(Array.from(luma.subarray(9 * stride, 9 * stride + 16))).toEqual(row)
+    })
+
+    it('keeps flat blocks unchanged through CDEF without modifying its input', () => {
+      const frame = frameWith({
+        cdef: { damping: 3, bits: 0, yPriStrength: [4], ySecStrength: [2], uvPriStrength: [2], uvSecStrength: [1] },
+      }, { enableCdef: true })
+      frame.cdefIdx.fill(0)
+      const input = frame.planes
+
+      const output = applyCdef(frame)
+      expect(output).not.toBe(input)
+      expect(output[0].every(v => v === 128)).toBe(true)
+
+      const disabled = frameWith({})
+      expect(applyCdef(disabled)).toBe(disabled.planes)
+    })
+
+    it('upscales planes horizontally to the upscaled width', () => {
+      const frame = frameWith({ useSuperres: true, superresDenom: 16, frameWidth: 8, upscaledWidth: 16 })
+      const strides = upscaledStrides(frame)
+      const luma = frame.planes[0]
+      for (let y = 0; y < 16; y++) {
+        for (let x = 0; x < 16; x++)
+          luma[y * frame.strides[0] + x] = x < 4 ? 60 : 200
+      }
+      const [upscaled] = upscalePlanes(frame, frame.planes, strides)
+
+      expect(upscaled[0]).toBe(60)
+      expect(upscaled[15]).toBe(200)
+      expect(upscaled[7]).toBeGreaterThan(60)
+      expect(upscaled[7]).toBeLessThan(200)
+    })
+
+    it('applies Wiener and self-guided restoration per unit', () => {
+      const frame = frameWith({
+        loopRestoration: { type: [1, 2, 0], unitSize: [64, 64, 64], usesLr: true, usesChromaLr: true },
+      })
+      frame.restoration[0].type.fill(1)
+      frame.restoration[0].wiener.set([0, 0, 8, 0, 0, 8])
+      frame.restoration[1].type.fill(2)
+      frame.restoration[1].sgrSet.fill(0)
+      frame.restoration[1].sgrXqd.set([-32, 31])
+      const stride = frame.strides[0]
+      frame.planes[0][8 * stride + 8] = 228
+
+      const output = applyLoopRestoration(frame, frame.planes, frame.planes)
+      // The bright sample spreads to its neighbours, and the flat chroma plane stays flat
+      expect(output[0][8 * stride + 8]).toBeLessThan(228)
+      expect(output[0][8 * stride + 9]).toBeGreaterThan(128)
+      expect(output[1].subarray(0, 8).every(v => v === 128)).toBe(true)
+      expect(output[2]).toBe(frame.planes[2])
+    })
+
+    it('synthesizes deterministic film grain without touching the frame', () => {
+      const filmGrain: FilmGrainParams = {
+        ...baseHeader.filmGrain,
+        applyGrain: true,
+        grainSeed: 1234,
+        pointY: [[0, 64], [255, 64]],
+        pointCb: [[0, 32], [255, 32]],
+        pointCr: [],
+        grainScalingMinus8: 2,
+        arCoeffLag: 1,
+        arCoeffsY: [4, 8, 4, 16],
+        arCoeffsCb: [0, 0, 0, 0, 32],
+        arCoeffsCr: [],
+        arCoeffShiftMinus6: 1,
+        grainScaleShift: 0,
+        cbMult: 128,
+        cbLumaMult: 192,
+        cbOffset: 256,
+        overlapFlag: true,
+        clipToRestrictedRange: true,
+      }
+      const frame = frameWith({ filmGrain })
+
+      const output = applyFilmGrain(frame, filmGrain)
+      expect(frame.planes[0].every(v => v === 128)).toBe(true)
+      expect(output[0].subarray(0, 16).some(v => v !== 128)).toBe(true)
+      expect(output[1].subarray(0, 8).some(v => v !== 128)).toBe(true)
+      // Without Cr scaling points the Cr plane gets no grain
+      expect(output[2].subarray(0, 8).every(v => v === 128)).toBe(true)
+      expect(output[0].every(v => v >= 16 && v <= 235)).toBe(true)
+      expect(applyFilmGrain(frame, filmGrain)).toEqual(output)
+    })
+  })
+
+  describe('color conversion', () => {
+    function pixel(y: number, u: number, v: number, matrixCoefficients: number, fullRange = false): number[] {
+      const rgba = yuvToRgba({
+        planes: [Uint16Array.of(y), Uint16Array.of(u), Uint16Array.of(v)],
+        strides: [1, 1, 1],
+        width: 1,
+        height: 1,
+        bitDepth: 8,
+        subsamplingX: 0,
+        subsamplingY: 0,
+        chromaSamplePosition: 0,
+        color: { colorPrimaries: 1, transferCharacteristics: 1, matrixCoefficients, fullRange },
+      })
+      return Array.from(rgba.subarray(0, 3))
+    }
+
+    it('converts with the signalled matrix and range', () => {
+      // Limited range BT.709 red
+      expect(pixel(63, 102, 240, 1)).toEqual([255, 1, 0])
+      // The same samples read as BT.601 come out tinted
+      expect(pixel(63, 102, 240, 6)).not.toEqual([255, 1, 0])
+      expect(pixel(235, 128, 128, 9)).toEqual([255, 255, 255])
+      expect(pixel(0, 128, 128, 6, true)).toEqual([0, 0, 0])
+      // BT.2020 constant luminance red
+      expect(pixel(126, 70, 240, 10)).toEqual([255, 0, 0])
+    })
+
+    it('handles identity (GBR) and YCgCo matrices', () => {
+      expect(pixel(200, 50, 100, 0, true)).toEqual([100, 200, 50])
+      expect(pixel(128, 128, 128, 8, true)).toEqual([128, 128, 128])
+      expect(pixel(128, 128 + 64, 128, 8, true)[1]).toBeGreaterThan(128)
+    })
+
+    it('upsamples chroma bilinearly from its sample position', () => {
+      const image: AvifYuvImageData = {
+        planes: [new Uint16Array(8).fill(128), Uint16Array.of(0, 200), Uint16Array.of(128, 128)],
+        strides: [4, 2, 2],
+        width: 4,
+        height: 2,
+        bitDepth: 8,
+        subsamplingX: 1,
+        subsamplingY: 1,
+        chromaSamplePosition: 1,
+        color: { colorPrimaries: 1, transferCharacteristics: 1, matrixCoefficients: 6, fullRange: true },
+      }
+      const blue = (rgba: ArrayLike<number>): number[] => Array.from({ length: 4 }, (_, x) => rgba[x * 4 + 2])
+
+      // Vertical siting: chroma sits on even columns, odd columns average
+      const sited = blue(yuvToRgba(image))
+      expect(sited[1]).toBeGreaterThan(sited[0])
+      expect(sited[1]).toBeLessThan(sited[2])
+      expect(sited[2]).toBe(sited[3])
+      // Unknown siting puts chroma between luma columns
+      const centered = blue(yuvToRgba({ ...image, chromaSamplePosition: 0 }))
+      expect(centered[0]).toBe(sited[0])
+      expect(centered[1]).toBeLessThan(sited[1])
+      expect(centered[2]).toBeLessThan(sited[2])
+    })
+
+    it('outputs gray for monochrome images', () => {
+      const rgba = yuvToRgba({
+        planes: [Uint16Array.of(16, 235)],
+        strides: [2],
+        width: 2,
+        height: 1,
+        bitDepth: 8,
+        subsamplingX: 1,
+        subsamplingY: 1,
+        chromaSamplePosition: 0,
+        color: { colorPrimaries: 2, transferCharacteristics: 2, matrixCoefficients: 2, fullRange: false },
+      })
+      expect(Array.from(rgba)).toEqual([0, 0, 0, 255, 255, 255, 255, 255])
+    })
+
+    it('returns 16-bit samples when asked for outputDepth 16', () => {
+      const image8 = decodeAV1(LIBAOM_16X16_OBUS)
+      const image16 = decodeAV1(LIBAOM_16X16_OBUS, { outputDepth: 16 })
+
+      expect(image16.data).toBeInstanceOf(Uint16Array)
+      expect(image16.data.length).toBe(image8.data.length)
+      expect(image16.data[3]).toBe(0xFFFF)
+      for (let i = 0; i < image8.data.length; i++)
+        expect(Math.abs(image16.data[i] / 257 - image8.data[i])).toBeLessThanOrEqual(0.5)
+    })
+
+    it('dithers the reduction to 8 bits when asked', () => {
+      // A flat 10-bit gray between two 8-bit levels
+      const image: AvifYuvImageData = {
+        planes: [new Uint16Array(64).fill(514)],
+        strides: [8],
+        width: 8,
+        height: 8,
+        bitDepth: 10,
+        subsamplingX: 1,
+        subsamplingY: 1,
+        chromaSamplePosition: 0,
+        color: { colorPrimaries: 2, transferCharacteristics: 2, matrixCoefficients: 2, fullRange: true },
+      }
+      const red = (rgba: ArrayLike<number>): number[] => Array.from({ length: 64 }, (_, i) => rgba[i * 4])
+      const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length
+      const exact = 514 * 255 / 1023
+
+      expect(new Set(red(yuvToRgba(image))).size).toBe(1)
+      for (const dither of ['ordered', 'error-diffusion'] as const) {
+        const values = red(yuvToRgba(image, { dither }))
+        expect(new Set(values)).toEqual(new Set([128, 129]))
+        expect(Math.abs(mean(values) - exact)).toBeLessThan(0.05)
+      }
+    })
+
+    it('parses nclx and ICC colour information', () => {
+      const nclx = parseColr(Uint8Array.of(0x6E, 0x63, 0x6C, 0x78, 0, 9, 0, 16, 0, 9, 0x80))
+      expect(nclx.nclx).toEqual({ colorPrimaries: 9, transferCharacteristics: 16, matrixCoefficients: 9, fullRange: true })
+
+      const icc = parseColr(Uint8Array.of(0x70, 0x72, 0x6F, 0x66, 1, 2, 3))
+      expect(icc.colorType).toBe('prof')
+      expect(Array.from(icc.iccProfile!)).toEqual([1, 2, 3])
+    })
+  })
+
   describe('AVIF file structure', () => {
     it('produces files with ftyp box first', () => {
       const imageData = createTestImageData(4, 4, { r: 100, g: 100, b: 100, a: 255 })
@@ -217,6 +1841,47 @@ describe('ts-avif', () => {
       expect(totalBoxSize).toBeLessThanOrEqual(encoded.length)
       expect(totalBoxSize).toBeGreaterThan(0)
     })
+
+    it('parses layered image indexing and layer selection properties', () => {
+      expect(parseA1lx(Uint8Array.of(0, 0, 10, 1, 0, 0, 0))).toEqual([10, 256, 0])
+      expect(parseA1lx(Uint8Array.of(1, 0, 1, 0, 0, 0, 0, 0, 20, 0, 0, 0, 0))).toEqual([65536, 20, 0])
+      expect(parseLsel(Uint8Array.of(0, 1))).toBe(1)
+      expect(parseLsel(Uint8Array.of(0xFF, 0xFF))).toBe(0xFFFF)
+    })
+
+    it('decodes the layers of a layered image as their bytes arrive', () => {
+      const [temporalDelimiter, sequenceHeader, keyFrame, , interFrame] = parseOBUs(LIBAOM_KEY_INTER_OBUS)
+      const baseLayer = new Uint8Array([
+        ...createOBU(temporalDelimiter.type, temporalDelimiter.data),
+        ...createOBU(sequenceHeader.type, sequenceHeader.data),
+        ...createOBU(OBUType.FRAME, keyFrame.data, { hasExtension: true, spatialId: 0 }),
+      ])
+      const interLayer = createOBU(OBUType.FRAME, interFrame.data, { hasExtension: true, spatialId: 1 })
+      const file = createAvif(new Uint8Array([...baseLayer, ...interLayer]), 16, 16, [baseLayer.length, 0, 0])
+      const base = avif.decode(file)
+
+      // The inter-coded layer cannot be output, so the image is its base layer
+      expect(base.data).toEqual(avif.decode(createAvif(baseLayer, 16, 16)).data)
+      expect([...decodeProgressive(file)].map(image => image.data)).toEqual([base.data])
+      expect([...decodeProgressive(file.subarray(0, file.length - interLayer.length))].map(image => image.data)).toEqual([base.data])
+      expect([...decodeProgressive(file.subarray(0, file.length - interLayer.length - 1))]).toEqual([])
+
+      // Two intra-coded layers
+      const [lowQuality] = parseOBUs(LIBAOM_16X16_LOW_QUALITY_FRAME)
+      const [, stillHeader, stillFrame] = parseOBUs(LIBAOM_16X16_OBUS)
+      const firstLayer = new Uint8Array([
+        ...createOBU(stillHeader.type, stillHeader.data),
+        ...createOBU(OBUType.FRAME, lowQuality.data, { hasExtension: true, spatialId: 0 }),
+      ])
+      const secondLayer = createOBU(OBUType.FRAME, stillFrame.data, { hasExtension: true, spatialId: 1 })
+      const twoLayers = createAvif(new Uint8Array([...firstLayer, ...secondLayer]), 16, 16, [firstLayer.length, 0, 0])
+      const layers = [...decodeProgressive(twoLayers)]
+
+      expect(layers).toHaveLength(2)
+      expect(layers[1].data).toEqual(avif.decode(twoLayers).data)
+      expect(layers[0].data).not.toEqual(layers[1].data)
+      expect([...decodeProgressive(twoLayers.subarray(0, twoLayers.length - 1))].map(image => image.data)).toEqual([layers[0].data])
+    })
   })
 
   describe('encoding options', () => {
@@ -233,6 +1898,245 @@ describe('ts-avif', () => {
       const encoded = avif.encode(imageData, { lossless: true })
       expect(encoded.length).toBeGreaterThan(0)
     })
+
+    it('round-trips lossless images exactly', () => {
+      const { data, width, height } = createGradientImageData(19, 13, (x, y) => [x * 13, (x * y) & 0xFF, 255 - y * 7, 255])
+
+      const encoded = avif.encode({ width, height, data }, { lossless: true, backend: 'pure-ts' })
+      expect(validateAV1(encoded)).toEqual([])
+
+      const ipco = findBox(findBox(findBox(parseISOBMFF(encoded), 'meta')!.children!, 'iprp')!.children!, 'ipco')!
+      expect(parseColr(findBox(ipco.children!, 'colr')!.data).nclx).toEqual({
+        colorPrimaries: 1,
+        transferCharacteristics: 13,
+        matrixCoefficients: 0,
+        fullRange: true,
+      })
+
+      const decoded = avif.decode(encoded)
+      expect(decoded.width).toBe(width)
+      expect(decoded.height).toBe(height)
+      expect(Array.from(decoded.data)).toEqual(Array.from(data))
+    })
+
+    it('encodes lossy images at the requested quality', () => {
+      const { data, width, height } = createGradientImageData(40, 36)
+
+      const high = avif.encode({ width, height, data }, { quality: 90, backend: 'pure-ts' })
+      const low = avif.encode({ width, height, data }, { quality: 30, effort: 2, backend: 'pure-ts' })
+      expect(validateAV1(high)).toEqual([])
+      expect(validateAV1(low)).toEqual([])
+      expect(high.length).toBeGreaterThan(low.length)
+
+      const decoded = avif.decode(high)
+      expect(decoded.width).toBe(width)
+      expect(decoded.height).toBe(height)
+      expect(computePsnr(data, decoded.data)).toBeGreaterThan(35)
+      expect(computePsnr(data, avif.decode(low).data)).toBeGreaterThan(25)
+    })
+
+    it('encodes 16-bit data at 10 and 12 bits', () => {
+      const { data, width, height } = createGradientImageData(
+        20,
+        18,
+        (x, y) => [x * 3200, 32768 + Math.round(15000 * Math.sin(x / 4 + y / 5)), y * 3600, 65535],
+        Uint16Array,
+      )
+
+      const av1C = (encoded: Uint8Array) => {
+        const ipco = findBox(findBox(findBox(parseISOBMFF(encoded), 'meta')!.children!, 'iprp')!.children!, 'ipco')!.children!
+        return { ...parseAv1C(findBox(ipco, 'av1C')!.data), bits: parsePixi(findBox(ipco, 'pixi')!.data).bitsPerChannel }
+      }
+
+      // 12-bit lossless keeps every sample to within half a 12-bit step
+      const lossless = avif.encode({ width, height, data }, { lossless: true })
+      expect(validateAV1(lossless)).toEqual([])
+      expect(av1C(lossless)).toMatchObject({ seqProfile: 2, highBitdepth: 1, twelveBit: 1, bits: [12, 12, 12] })
+      const decoded = avif.decode(lossless, { outputDepth: 16 })
+      expect(decoded.bitDepth).toBe(12)
+      for (let i = 0; i < data.length; i++)
+        expect(Math.abs(decoded.data[i] - data[i])).toBeLessThanOrEqual(65535 / 4095 / 2)
+
+      const lossy = avif.encode({ width, height, data, bitDepth: 10 }, { quality: 90, effort: 2 })
+      expect(validateAV1(lossy)).toEqual([])
+      expect(av1C(lossy)).toMatchObject({ seqProfile: 0, highBitdepth: 1, twelveBit: 0, bits: [10, 10, 10] })
+      expect(avif.decode(lossy).bitDepth).toBe(10)
+
+      // The avifenc backend is given the same depth
+      expect(getEncodeBitDepth({ width, height, data })).toBe(12)
+      expect(getEncodeBitDepth({ width, height, data, bitDepth: 10 })).toBe(10)
+      expect(getEncodeBitDepth(createGradientImageData(2, 2))).toBe(8)
+    })
+
+    it('stores alpha as an auxiliary item', () => {
+      const { data, width, height } = createGradientImageData(24, 20, (x, y) => [x * 10, 200 - y * 5, 90, Math.min(255, x * 12 + y * 3)])
+
+      const encoded = avif.encode({ width, height, data }, { lossless: true, premultipliedAlpha: true })
+      expect(validateAV1(encoded)).toEqual([])
+
+      const meta = findBox(parseISOBMFF(encoded), 'meta')!.children!
+      expect(parseIinf(findBox(meta, 'iinf')!.data).map(item => item.itemId)).toEqual([1, 2])
+      expect(parseIref(findBox(meta, 'iref')!.data)).toEqual([
+        { type: 'auxl', fromId: 2, toIds: [1] },
+        { type: 'prem', fromId: 1, toIds: [2] },
+      ])
+      const ipco = findBox(findBox(meta, 'iprp')!.children!, 'ipco')!.children!
+      expect(new TextDecoder().decode(findBox(ipco, 'auxC')!.data.subarray(4, -1))).toBe('urn:mpeg:mpegB:cicp:systems:auxiliary:alpha')
+      expect(findAllBoxes(ipco, 'av1C').map(box => parseAv1C(box.data).monochrome)).toEqual([0, 1])
+
+      // Alpha is lossless; the color comes back divided by it
+      const decoded = avif.decode(encoded)
+      expect(decoded.hasAlpha).toBe(true)
+      for (let i = 0; i < width * height; i++) {
+        const alpha = data[i * 4 + 3]
+        expect(decoded.data[i * 4 + 3]).toBe(alpha)
+        if (alpha >= 128)
+          expect(Math.abs(decoded.data[i * 4] - data[i * 4])).toBeLessThanOrEqual(1)
+      }
+
+      // Opaque images and alpha: false leave the alpha item out
+      const opaque = avif.encode({ width, height, data }, { alpha: false })
+      expect(parseIinf(findBox(findBox(parseISOBMFF(opaque), 'meta')!.children!, 'iinf')!.data)).toHaveLength(1)
+      expect(avif.decode(opaque).hasAlpha).toBe(false)
+    })
+
+    it('finds the alpha item by its auxl reference and auxC type', () => {
+      const { data } = createTestImageData(8, 8, { r: 200, g: 100, b: 50, a: 128 })
+      const encoded = avif.encode({ width: 8, height: 8, data }, { premultipliedAlpha: true })
+      const replace = (from: string, to: string) => {
+        const copy = encoded.slice()
+        copy.set(new TextEncoder().encode(to), String.fromCharCode(...encoded).indexOf(from))
+        return copy
+      }
+      const info = (file: Uint8Array) => {
+        const boxes = parseISOBMFF(file)
+        const { hasAlpha, premultipliedAlpha } = getAvifInfo(boxes)
+        return { alphaItemId: getAlphaItemId(boxes), hasAlpha, premultipliedAlpha }
+      }
+
+      const meta = findBox(parseISOBMFF(encoded), 'meta')!.children!
+      expect(parseIpma(findBox(meta, 'ipma')!.data).map(entry => entry.itemId)).toEqual([1, 2])
+      expect(info(encoded)).toEqual({ alphaItemId: 2, hasAlpha: true, premultipliedAlpha: true })
+      // The item name plays no part
+      expect(info(replace('Alpha', 'Color'))).toEqual({ alphaItemId: 2, hasAlpha: true, premultipliedAlpha: true })
+      // Nor does an auxiliary item of another type
+      const depth = replace('auxiliary:alpha', 'auxiliary:depth')
+      expect(info(depth)).toEqual({ alphaItemId: null, hasAlpha: false, premultipliedAlpha: false })
+      expect(avif.decode(depth).data[3]).toBe(255)
+    })
+
+    it('spends fewer bytes at higher effort', () => {
+      const { data, width, height } = createGradientImageData(40, 36, (x, y) => [(x * y) & 0xFF, 128 + Math.round(60 * Math.sin(x / 3 - y / 2)), y * 7, 255])
+
+      // Effort 2 decides by SATD; effort 9 by rate-distortion cost, with
+      // transform size selection, rectangular partitions and trellis
+      // quantization
+      const fast = avif.encode({ width, height, data }, { quality: 60, effort: 2, backend: 'pure-ts' })
+      const thorough = avif.encode({ width, height, data }, { quality: 60, effort: 9, backend: 'pure-ts' })
+      expect(validateAV1(thorough)).toEqual([])
+      expect(thorough.length).toBeLessThan(fast.length)
+      expect(computePsnr(data, avif.decode(thorough).data)).toBeGreaterThan(computePsnr(data, avif.decode(fast).data) - 0.25)
+    })
+
+    it('searches more at each effort below 3', () => {
+      // Effort 0 tries 3 intra modes and 1 tries 5, both stopping at 16x16
+      // blocks; effort 2 goes down to 8x8
+      const { data, width, height } = createGradientImageData(128, 96)
+      const [e0, e1, e2] = [0, 1, 2].map(effort => avif.encode({ width, height, data }, { quality: 90, effort, backend: 'pure-ts' }))
+      for (const encoded of [e0, e1, e2])
+        expect(validateAV1(encoded)).toEqual([])
+      expect(e1).not.toEqual(e0)
+      expect(e2).not.toEqual(e1)
+      expect(e1.length).toBeLessThan(e0.length)
+    })
+
+    it('never spends more bytes at a higher effort from 2 to 6', () => {
+      const { data, width, height } = createGradientImageData(128, 96)
+      const [e2, e3, e6] = [2, 3, 6].map(effort => avif.encode({ width, height, data }, { quality: 90, effort, backend: 'pure-ts' }).length)
+      expect(e3).toBeLessThanOrEqual(e2)
+      expect(e6).toBeLessThanOrEqual(e3)
+    })
+
+    it('keeps the high frequencies of textured blocks without the rate-distortion search', () => {
+      // 64x64 transforms would drop them, which the SATD of the residual
+      // alone does not see
+      const { data, width, height } = createGradientImageData(64, 64, (x, y) => [(x * y) & 0xFF, 128 + Math.round(60 * Math.sin(x / 3 - y / 2)), y * 7, 255])
+      const fast = avif.encode({ width, height, data }, { quality: 70, effort: 2, chromaSubsampling: '4:4:4', backend: 'pure-ts' })
+      const thorough = avif.encode({ width, height, data }, { quality: 70, effort: 3, chromaSubsampling: '4:4:4', backend: 'pure-ts' })
+      expect(computePsnr(data, avif.decode(fast).data)).toBeGreaterThan(computePsnr(data, avif.decode(thorough).data) - 1.5)
+    })
+  })
+
+  describe('quality search', () => {
+    const { data, width, height } = createGradientImageData(40, 36)
+
+    it('keeps the highest quality within targetBytes', async () => {
+      const result = await encodeToTarget({ width, height, data }, { targetBytes: 600, effort: 2, backend: 'pure-ts' })
+      expect(result.met).toBe(true)
+      expect(result.bytes.length).toBeLessThanOrEqual(600)
+      expect(result.attempts.length).toBeLessThanOrEqual(7)
+      expect(result.attempts.find(attempt => attempt.quality === result.quality)!.size).toBe(result.bytes.length)
+      for (const attempt of result.attempts) {
+        if (attempt.quality > result.quality)
+          expect(attempt.size).toBeGreaterThan(600)
+      }
+      expect(validateAV1(result.bytes)).toEqual([])
+    })
+
+    it('keeps the smallest encode reaching targetScore', async () => {
+      const result = await encodeToTarget({ width, height, data }, { targetScore: 0.9, effort: 2, backend: 'pure-ts' })
+      expect(result.met).toBe(true)
+      const decoded = avif.decode(result.bytes)
+      expect(result.score).toBe(computeSsim(data, decoded.data, width, height))
+      expect(result.score!).toBeGreaterThanOrEqual(0.9)
+      for (const attempt of result.attempts) {
+        if (attempt.score! >= 0.9)
+          expect(attempt.size).toBeGreaterThanOrEqual(result.bytes.length)
+      }
+
+      // encode() runs the same search
+      expect(avif.encode({ width, height, data }, { targetScore: 0.9, effort: 2 })).toEqual(result.bytes)
+    })
+
+    it('scores the pixels at the right and bottom edges with SSIM', () => {
+      const { data: flat } = createTestImageData(10, 10, { r: 100, g: 100, b: 100, a: 255 })
+      const withDot = (x: number, y: number) => {
+        const copy = flat.slice()
+        copy.set([200, 200, 200], (y * 10 + x) * 4)
+        return copy
+      }
+
+      expect(computeSsim(flat, flat, 10, 10)).toBe(1)
+      expect(computeSsim(flat, withDot(9, 4), 10, 10)).toBeLessThan(1)
+      expect(computeSsim(flat, withDot(4, 9), 10, 10)).toBeLessThan(1)
+    })
+
+    it('keeps the smallest encode within a butteraugli distance', async () => {
+      const result = await encodeToTarget({ width, height, data }, { targetScore: -2, targetMetric: 'butteraugli', effort: 2, backend: 'pure-ts' })
+      expect(result.met).toBe(true)
+      const decoded = avif.decode(result.bytes)
+      expect(result.score).toBe(-computeButteraugli(data, decoded.data, width, height))
+      expect(result.score!).toBeGreaterThanOrEqual(-2)
+      for (const attempt of result.attempts) {
+        if (attempt.score! >= -2)
+          expect(attempt.size).toBeGreaterThanOrEqual(result.bytes.length)
+      }
+    })
+
+    it('grows the butteraugli distance with the loss', () => {
+      expect(computeButteraugli(data, data, width, height)).toBe(0)
+      const fine = avif.decode(avif.encode({ width, height, data }, { quality: 90, effort: 2 })).data
+      const coarse = avif.decode(avif.encode({ width, height, data }, { quality: 10, effort: 2 })).data
+      expect(computeButteraugli(data, fine, width, height)).toBeGreaterThan(0)
+      expect(computeButteraugli(data, coarse, width, height)).toBeGreaterThan(computeButteraugli(data, fine, width, height))
+
+      // Images smaller than 8x8 are edge-extended rather than rejected
+      const { data: small } = createTestImageData(5, 3, { r: 100, g: 100, b: 100, a: 255 })
+      const changed = small.slice()
+      changed.set([200, 200, 200], 0)
+      expect(computeButteraugli(small, small, 5, 3)).toBe(0)
+      expect(computeButteraugli(small, changed, 5, 3)).toBeGreaterThan(0)
+    })
   })
 
   describe('edge cases', () => {